@@ -4,6 +4,14 @@ const withNextIntl = createNextIntlPlugin();
 
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // src/instrumentation.ts loads playbooks at startup
+    instrumentationHook: true,
+    // Playbooks are read from disk at runtime, so ship them with the server bundle
+    outputFileTracingIncludes: {
+      '/api/**/*': ['./playbooks/**/*'],
+    },
+  },
   images: {
     remotePatterns: [
       {
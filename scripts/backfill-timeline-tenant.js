@@ -0,0 +1,58 @@
+require('dotenv').config({ path: '.env.local' });
+const { initializeApp, cert } = require('firebase-admin/app');
+const { getFirestore } = require('firebase-admin/firestore');
+
+// Adds tenantId to ai_response timeline events recorded before events carried
+// it, so grounding analytics (one collection-group query) counts them.
+// Usage: node scripts/backfill-timeline-tenant.js [--dry-run]
+const dryRun = process.argv.includes('--dry-run');
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+async function backfill() {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_ADMIN_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+
+  const db = getFirestore();
+  const tenants = await db.collection('tenants').get();
+  let updated = 0;
+
+  for (const tenant of tenants.docs) {
+    const cases = await tenant.ref.collection('cases').get();
+    let batch = db.batch();
+    let pending = 0;
+
+    for (const caseDoc of cases.docs) {
+      const responses = await caseDoc.ref.collection('timeline').where('type', '==', 'ai_response').get();
+
+      for (const event of responses.docs) {
+        if (event.data().tenantId === tenant.id) continue;
+        updated++;
+        if (dryRun) continue;
+
+        batch.update(event.ref, { tenantId: tenant.id });
+        if (++pending === BATCH_SIZE) {
+          await batch.commit();
+          batch = db.batch();
+          pending = 0;
+        }
+      }
+    }
+
+    if (pending > 0) await batch.commit();
+    console.log(`${tenant.id}: ${cases.size} cases checked`);
+  }
+
+  console.log(`\n${dryRun ? '[dry run] ' : ''}✅ ${updated} ai_response events updated`);
+}
+
+backfill().catch((e) => {
+  console.error('❌ Backfill failed:', e.message);
+  process.exit(1);
+});
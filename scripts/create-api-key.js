@@ -0,0 +1,47 @@
+require('dotenv').config({ path: '.env.local' });
+const crypto = require('crypto');
+const { initializeApp, cert } = require('firebase-admin/app');
+const { getFirestore, FieldValue } = require('firebase-admin/firestore');
+
+// Usage: node scripts/create-api-key.js <tenantId> <name> [scope,scope,...]
+// Example: node scripts/create-api-key.js abc123 "CommandDesk AI" case:read,case:write
+// Scopes are permission names from src/lib/auth/permissions.ts
+const DEFAULT_SCOPES = ['case:read', 'case:write'];
+
+async function createKey() {
+  const [tenantId, name, scopeArg] = process.argv.slice(2);
+  if (!tenantId || !name) {
+    console.error('Usage: node scripts/create-api-key.js <tenantId> <name> [scope,scope,...]');
+    process.exit(1);
+  }
+
+  initializeApp({
+    credential: cert({
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_ADMIN_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+
+  const scopes = scopeArg ? scopeArg.split(',').map((s) => s.trim()) : DEFAULT_SCOPES;
+  const key = 'tsk_' + crypto.randomBytes(24).toString('base64url');
+  const hash = crypto.createHash('sha256').update(key).digest('hex');
+
+  await getFirestore().collection('api_keys').doc(hash).set({
+    tenantId,
+    name,
+    prefix: key.substring(0, 12),
+    scopes,
+    revoked: false,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+
+  console.log('✅ API key created for tenant', tenantId);
+  console.log('Scopes:', scopes.join(', '));
+  console.log('\nKey (shown once, store it securely):\n' + key);
+}
+
+createKey().catch((e) => {
+  console.error('❌ Failed to create API key:', e.message);
+  process.exit(1);
+});
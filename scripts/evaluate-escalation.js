@@ -0,0 +1,111 @@
+const fs = require('fs');
+const path = require('path');
+const { loadSource, reportChecks } = require('./lib/load-source');
+
+// Measures escalation detection on a labeled corpus: precision and recall of
+// the keyword triggers (and, with --classifier, the embedding classifier and
+// both combined), overall and per language, plus each miss. Fails when the
+// detection the agents use falls below MIN_PRECISION or MIN_RECALL.
+// Usage: node scripts/evaluate-escalation.js [corpusFile] [--classifier]
+//
+// Runs in-process with the default guardrail policy, so it needs no server or
+// Firebase. --classifier embeds the corpus, so it needs OPENAI_API_KEY (.env.local).
+const args = process.argv.slice(2).filter((a) => !a.startsWith('--'));
+const classifier = process.argv.includes('--classifier');
+const corpusFile = args[0] || path.join(__dirname, 'fixtures', 'escalation-corpus.json');
+
+const MIN_PRECISION = 0.9;
+const MIN_RECALL = 0.95;
+const MAX_CORPUS_ENTRIES = 500;
+
+if (classifier) require('dotenv').config({ path: '.env.local' });
+
+const { checkEscalationTriggers } = loadSource('@/lib/ai/guardrails');
+const { DEFAULT_GUARDRAIL_POLICY } = loadSource('@/lib/ai/guardrail-policy');
+const { evaluateEscalation, validateEscalationCorpus } = loadSource('@/lib/ai/escalation-evaluation');
+const { redactText, INGESTION_PATTERNS } = loadSource('@/lib/privacy/redaction');
+
+function formatMetrics(label, m) {
+  return `${label.padEnd(10)} precision ${m.precision.toFixed(3)}  recall ${m.recall.toFixed(3)}  f1 ${m.f1.toFixed(3)}  ` +
+    `(tp ${m.truePositives}, fp ${m.falsePositives}, fn ${m.falseNegatives}, tn ${m.trueNegatives})`;
+}
+
+function printEvaluation(title, evaluation) {
+  console.log(`\n${title}`);
+  console.log(`  ${formatMetrics('overall', evaluation.overall)}`);
+  for (const [language, metrics] of Object.entries(evaluation.byLanguage)) {
+    console.log(`  ${formatMetrics(language, metrics)}`);
+  }
+}
+
+// Embeds the messages and classifies each against the labeled examples
+async function classify(messages) {
+  const { generateEmbeddings } = loadSource('@/lib/knowledge-base/embeddings');
+  const { classifyEmbedding } = loadSource('@/lib/ai/escalation-classifier');
+  const embeddings = await generateEmbeddings(messages);
+  return Promise.all(embeddings.map((e) => classifyEmbedding(e.embedding)));
+}
+
+async function run() {
+  const corpus = JSON.parse(fs.readFileSync(corpusFile, 'utf8'));
+  const problem = validateEscalationCorpus(corpus, MAX_CORPUS_ENTRIES);
+  if (problem) {
+    console.error(`❌ ${corpusFile}: ${problem}`);
+    process.exit(1);
+  }
+  console.log(`Evaluating ${corpus.length} labeled messages${classifier ? ' (with classifier)' : ''}`);
+
+  // Messages are checked as the agents check them: redacted, with the default policy
+  const messages = corpus.map((entry) => redactText(entry.text, INGESTION_PATTERNS).text);
+  const keywordChecks = messages.map((message, i) =>
+    checkEscalationTriggers(message, { language: corpus[i].language }, DEFAULT_GUARDRAIL_POLICY)
+  );
+
+  const keywords = evaluateEscalation(corpus, keywordChecks.map((c) => c.shouldEscalate));
+  printEvaluation('Keywords', keywords);
+
+  let classifications = null;
+  let combined = null;
+  if (classifier) {
+    const { mergeClassification } = loadSource('@/lib/ai/escalation-classifier');
+    classifications = await classify(messages);
+    const combinedChecks = keywordChecks.map((check, i) => mergeClassification(check, classifications[i]));
+    printEvaluation('Classifier', evaluateEscalation(corpus, classifications.map((c) => c.escalate)));
+    combined = evaluateEscalation(corpus, combinedChecks.map((c) => c.shouldEscalate));
+    printEvaluation('Combined', combined);
+  }
+
+  console.log('\nMisses');
+  let misses = 0;
+  corpus.forEach((entry, i) => {
+    const predicted = keywordChecks[i].shouldEscalate || Boolean(classifications?.[i].escalate);
+    if (predicted === entry.escalate) return;
+    misses++;
+    const kind = entry.escalate ? 'missed   ' : 'false hit';
+    const reasons = [...keywordChecks[i].reasons, ...(classifications?.[i].reasons || [])];
+    console.log(`  ${kind} [${entry.language}] ${entry.text}${reasons.length ? `\n            ${reasons.join('; ')}` : ''}`);
+  });
+  if (misses === 0) console.log('  (none)');
+
+  // Thresholds apply to what the agents would act on
+  const scored = combined || keywords;
+  const label = combined ? 'combined' : 'keywords';
+  console.log('');
+  reportChecks([
+    {
+      name: `${label} precision >= ${MIN_PRECISION}`,
+      passed: scored.overall.precision >= MIN_PRECISION,
+      detail: scored.overall.precision.toFixed(3),
+    },
+    {
+      name: `${label} recall >= ${MIN_RECALL}`,
+      passed: scored.overall.recall >= MIN_RECALL,
+      detail: scored.overall.recall.toFixed(3),
+    },
+  ]);
+}
+
+run().catch((e) => {
+  console.error('❌', e.message);
+  process.exit(1);
+});
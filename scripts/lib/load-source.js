@@ -0,0 +1,27 @@
+const path = require('path');
+
+// Loads the app's TypeScript modules in-process, with the `@/` alias from
+// tsconfig, so scripts can check library code without a running server.
+// Usage: const { loadSource } = require('./lib/load-source');
+//        const { simulatePlaybook } = loadSource('@/lib/playbooks/simulator');
+const root = path.join(__dirname, '..', '..');
+const jiti = require('jiti')(__filename, {
+  alias: { '@': path.join(root, 'src') },
+  interopDefault: true,
+});
+
+function loadSource(modulePath) {
+  return jiti(modulePath);
+}
+
+// Prints one line per check and exits non-zero if any failed
+function reportChecks(checks) {
+  const failures = checks.filter((c) => !c.passed);
+  for (const check of checks) {
+    console.log(`${check.passed ? '✅' : '❌'} ${check.name}${check.detail ? ` — ${check.detail}` : ''}`);
+  }
+  console.log(`\n${checks.length - failures.length}/${checks.length} passed`);
+  process.exit(failures.length > 0 ? 1 : 0);
+}
+
+module.exports = { root, loadSource, reportChecks };
@@ -0,0 +1,84 @@
+require('dotenv').config({ path: '.env.local' });
+const { initializeApp, cert } = require('firebase-admin/app');
+const { getFirestore, FieldValue } = require('firebase-admin/firestore');
+
+// Copies legacy tenants/{id}/users docs into tenants/{id}/members and
+// rebuilds the l3_agents roster from human_support members. Roster docs are
+// keyed {tenantId}_{uid}; entries keyed by UID alone are moved.
+// Usage: node scripts/migrate-members.js [--dry-run]
+const dryRun = process.argv.includes('--dry-run');
+
+async function migrate() {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_ADMIN_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+
+  const db = getFirestore();
+  const tenants = await db.collection('tenants').get();
+  let copied = 0;
+  let agents = 0;
+
+  for (const tenant of tenants.docs) {
+    const users = await tenant.ref.collection('users').get();
+
+    for (const user of users.docs) {
+      const data = user.data();
+      const memberRef = tenant.ref.collection('members').doc(user.id);
+      if ((await memberRef.get()).exists) continue;
+
+      console.log(`${tenant.id}: ${data.email} (${data.role})`);
+      copied++;
+      if (dryRun) continue;
+
+      await memberRef.set({
+        email: data.email,
+        displayName: data.displayName || data.email,
+        role: data.role,
+        joinedAt: data.createdAt || FieldValue.serverTimestamp(),
+      });
+    }
+
+    const supportMembers = await tenant.ref.collection('members')
+      .where('role', '==', 'human_support')
+      .get();
+
+    for (const member of supportMembers.docs) {
+      const agentRef = db.collection('l3_agents').doc(`${tenant.id}_${member.id}`);
+      if ((await agentRef.get()).exists) continue;
+
+      agents++;
+      if (dryRun) continue;
+
+      // Keep the workload of a UID-keyed entry for this tenant
+      const legacyRef = db.collection('l3_agents').doc(member.id);
+      const legacy = await legacyRef.get();
+      const workload = legacy.exists && legacy.data().tenantId === tenant.id ? legacy.data() : {};
+
+      const data = member.data();
+      await agentRef.set({
+        status: 'available',
+        skills: [],
+        maxConcurrentCases: 3,
+        currentCaseCount: 0,
+        lastActive: FieldValue.serverTimestamp(),
+        ...workload,
+        tenantId: tenant.id,
+        uid: member.id,
+        name: data.displayName || data.email,
+        email: data.email,
+      });
+      if (legacy.exists && legacy.data().tenantId === tenant.id) await legacyRef.delete();
+    }
+  }
+
+  console.log(`\n${dryRun ? '[dry run] ' : ''}✅ ${copied} members copied, ${agents} L3 agents added`);
+}
+
+migrate().catch((e) => {
+  console.error('❌ Migration failed:', e.message);
+  process.exit(1);
+});
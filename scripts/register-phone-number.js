@@ -0,0 +1,69 @@
+require('dotenv').config({ path: '.env.local' });
+const { initializeApp, cert } = require('firebase-admin/app');
+const { getFirestore, FieldValue } = require('firebase-admin/firestore');
+
+// Routes an inbound Twilio number to a tenant, with the defaults used for cases it creates.
+// Usage: node scripts/register-phone-number.js <tenantId> <phoneNumber> [product] [language] [category] [--auth-token=<token>]
+// Example: node scripts/register-phone-number.js abc123 "+1 555 010 0000" "Dlyn AI" en billing
+// Pass --auth-token when the number lives in the tenant's own Twilio (sub)account,
+// so webhook signatures are verified with that account's token.
+async function register() {
+  const authTokenArg = process.argv.find((a) => a.startsWith('--auth-token='));
+  const [tenantId, rawNumber, product, language, category] = process.argv
+    .slice(2)
+    .filter((a) => !a.startsWith('--'));
+  if (!tenantId || !rawNumber) {
+    console.error('Usage: node scripts/register-phone-number.js <tenantId> <phoneNumber> [product] [language] [category]');
+    process.exit(1);
+  }
+
+  initializeApp({
+    credential: cert({
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_ADMIN_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+
+  const db = getFirestore();
+  const phoneNumber = '+' + rawNumber.replace(/[^\d]/g, '');
+
+  const tenantDoc = await db.collection('tenants').doc(tenantId).get();
+  if (!tenantDoc.exists) {
+    throw new Error(`Tenant ${tenantId} not found`);
+  }
+
+  // Fall back to the tenant's own settings for anything not given
+  const settings = tenantDoc.data().settings || {};
+  const route = {
+    tenantId,
+    defaultProduct: product || settings.defaultProduct || 'General',
+    defaultLanguage: language || (settings.languages && settings.languages[0]) || 'en',
+    ...(category && { defaultCategory: category }),
+  };
+
+  const numberRef = db.collection('phone_numbers').doc(phoneNumber);
+  const existing = await numberRef.get();
+  if (existing.exists && existing.data().tenantId !== tenantId) {
+    throw new Error(`${phoneNumber} is already routed to tenant ${existing.data().tenantId}`);
+  }
+
+  await numberRef.set({ ...route, updatedAt: FieldValue.serverTimestamp() });
+  await tenantDoc.ref.set({ settings: { twilioPhoneNumber: phoneNumber } }, { merge: true });
+
+  if (authTokenArg) {
+    await db.collection('tenant_secrets').doc(tenantId).set(
+      { twilioAuthToken: authTokenArg.split('=')[1], updatedAt: FieldValue.serverTimestamp() },
+      { merge: true }
+    );
+    console.log('🔑 Stored tenant Twilio auth token');
+  }
+
+  console.log(`✅ ${phoneNumber} now routes to tenant ${tenantId}`);
+  console.log(route);
+}
+
+register().catch((e) => {
+  console.error('❌ Failed to register phone number:', e.message);
+  process.exit(1);
+});
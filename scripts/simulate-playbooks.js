@@ -0,0 +1,65 @@
+const fs = require('fs');
+const path = require('path');
+const { root, loadSource, reportChecks } = require('./lib/load-source');
+
+// Runs the playbook scenario fixtures through the simulator in-process and
+// checks each scenario's expected path and outcome. Use it to regression-test
+// playbook JSON; no server, API key or OpenAI needed.
+// Usage: node scripts/simulate-playbooks.js [scenarioDir] [--stub]
+//
+// Each fixture names the playbook file it tests, so the local JSON is what gets
+// simulated. Pass --stub to classify turns without a declared outcome using
+// the stubbed LLM client.
+const args = process.argv.slice(2).filter((a) => !a.startsWith('--'));
+const stub = process.argv.includes('--stub');
+const playbooksDir = process.env.PLAYBOOKS_DIR || path.join(root, 'playbooks');
+const scenarioDir = args[0] || path.join(playbooksDir, 'scenarios');
+
+const { validatePlaybook } = loadSource('@/lib/playbooks/engine');
+const {
+  runPlaybookScenarios,
+  createLLMOutcomeClassifier,
+  createStubOutcomeProvider,
+} = loadSource('@/lib/playbooks/simulator');
+
+async function run() {
+  const files = fs.readdirSync(scenarioDir).filter((f) => f.endsWith('.json'));
+  console.log(`Simulating ${files.length} scenario files (${stub ? 'stub' : 'scripted'} mode)\n`);
+
+  const checks = [];
+  for (const file of files) {
+    const fixture = JSON.parse(fs.readFileSync(path.join(scenarioDir, file), 'utf8'));
+    const playbook = JSON.parse(fs.readFileSync(path.join(playbooksDir, fixture.playbook), 'utf8'));
+
+    const validation = validatePlaybook(playbook);
+    if (!validation.valid) {
+      checks.push({
+        name: `${file}: ${fixture.playbook} is valid`,
+        passed: false,
+        detail: validation.errors.map((e) => e.message).join('; '),
+      });
+      continue;
+    }
+
+    try {
+      const { results } = await runPlaybookScenarios(fixture.scenarios, {
+        playbooks: [playbook],
+        classifyOutcome: stub ? createLLMOutcomeClassifier(createStubOutcomeProvider()) : undefined,
+      });
+      for (const result of results) {
+        checks.push({
+          name: `${file}: ${result.name || '(unnamed)'}`,
+          passed: result.passed !== false,
+          detail: [`${result.outcome}: ${result.path.join(' > ') || '(no steps)'}`, ...(result.failures || [])].join('; '),
+        });
+      }
+    } catch (e) {
+      // Script errors, e.g. a turn without an outcome in scripted mode
+      checks.push({ name: file, passed: false, detail: e.message });
+    }
+  }
+
+  reportChecks(checks);
+}
+
+run();
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { onAuthStateChanged, User } from 'firebase/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Phone, Loader2 } from 'lucide-react';
+import { authFetch } from '@/lib/auth/client';
+import { ROLE_LABELS } from '@/components/team/roles';
+import type { UserRole } from '@/types';
+
+interface InvitationPreview {
+  tenantName: string;
+  email: string;
+  role: UserRole;
+  invitedByName: string;
+  status: 'pending' | 'accepted' | 'revoked';
+  expired: boolean;
+}
+
+export default function InvitePage() {
+  const params = useParams();
+  const locale = params.locale as string;
+  const token = params.token as string;
+
+  const [user, setUser] = useState<User | null>(null);
+  const [authLoading, setAuthLoading] = useState(true);
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    import('@/lib/firebase/client').then((module) => {
+      const auth = module.auth;
+      if (auth) {
+        const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
+          setUser(currentUser);
+          setAuthLoading(false);
+        });
+        return () => unsubscribe();
+      } else {
+        setAuthLoading(false);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    fetch(`/api/team/invitations/accept?token=${encodeURIComponent(token)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Invitation not found');
+        setInvitation(data);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load invitation'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    setError('');
+
+    try {
+      const res = await authFetch('/api/team/invitations/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to accept invitation');
+
+      // Pick up the new tenant claim, then reload so the dashboard resolves the new role
+      await user?.getIdToken(true);
+      window.location.href = `/${locale}/dashboard`;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+      setAccepting(false);
+    }
+  };
+
+  const nextParam = encodeURIComponent(`/${locale}/invite/${token}`);
+  const unavailable =
+    invitation && (invitation.status !== 'pending' || invitation.expired)
+      ? invitation.expired ? 'This invitation has expired.' : `This invitation has been ${invitation.status}.`
+      : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background gradient-bg px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 h-12 w-12 rounded-xl bg-gradient-to-br from-primary via-blue-500 to-purple-500 flex items-center justify-center">
+            <Phone className="h-6 w-6 text-white" />
+          </div>
+          <CardTitle className="text-2xl">Team Invitation</CardTitle>
+          {invitation && (
+            <CardDescription>
+              {invitation.invitedByName} invited <strong>{invitation.email}</strong> to join{' '}
+              <strong>{invitation.tenantName}</strong> as {ROLE_LABELS[invitation.role]}.
+            </CardDescription>
+          )}
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {(loading || authLoading) && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {error && (
+            <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {unavailable && (
+            <div className="rounded-lg bg-amber-50 border border-amber-200 p-3 text-sm text-amber-800">
+              {unavailable}
+            </div>
+          )}
+
+          {invitation && !unavailable && !authLoading && user && (
+            <p className="text-sm text-muted-foreground text-center">
+              Signed in as {user.email}
+            </p>
+          )}
+        </CardContent>
+
+        {invitation && !unavailable && !authLoading && (
+          <CardFooter className="flex flex-col gap-3">
+            {user ? (
+              <Button className="w-full" onClick={handleAccept} disabled={accepting}>
+                {accepting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Accept Invitation
+              </Button>
+            ) : (
+              <>
+                <Link href={`/${locale}/login?next=${nextParam}`} className="w-full">
+                  <Button className="w-full">Sign in to accept</Button>
+                </Link>
+                <Link href={`/${locale}/signup?next=${nextParam}`} className="w-full">
+                  <Button variant="outline" className="w-full">Create an account</Button>
+                </Link>
+              </>
+            )}
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
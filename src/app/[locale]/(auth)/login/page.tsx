@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Phone, Loader2 } from 'lucide-react';
+import { getRedirectPath } from '@/lib/auth/client';
 
 export default function LoginPage() {
   const t = useTranslations();
@@ -39,7 +40,7 @@ export default function LoginPage() {
 
     try {
       await signInWithEmailAndPassword(firebaseAuth, email, password);
-      router.push('/dashboard');
+      router.push(getRedirectPath());
     } catch (err: unknown) {
       console.error('Login error:', err);
       setError(t('auth.invalidCredentials'));
@@ -10,6 +10,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Phone, Loader2 } from 'lucide-react';
+import { getRedirectPath } from '@/lib/auth/client';
 
 export default function SignupPage() {
   const t = useTranslations();
@@ -61,15 +62,15 @@ export default function SignupPage() {
         updatedAt: Timestamp.now(),
       });
 
-      // Create user document under tenant
-      await setDoc(doc(firebaseDb, 'tenants', tenantId, 'users', user.uid), {
+      // Add the creator as the tenant's first owner
+      await setDoc(doc(firebaseDb, 'tenants', tenantId, 'members', user.uid), {
         email,
         displayName: name,
         role: 'owner',
-        createdAt: Timestamp.now(),
+        joinedAt: Timestamp.now(),
       });
 
-      router.push('/dashboard');
+      router.push(getRedirectPath());
     } catch (err: unknown) {
       console.error('Signup error:', err);
       if (err instanceof Error) {
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { onAuthStateChanged, User } from 'firebase/auth';
+import { authFetch } from '@/lib/auth/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -40,6 +41,31 @@ interface LevelPerformance {
   L3: { resolved: number; avgTime: number };
 }
 
+interface PlaybookAnalytics {
+  playbookId: string;
+  playbookName: string;
+  version: string;
+  entered: number;
+  resolved: number;
+  escalated: number;
+  inProgress: number;
+  resolutionRate: number;
+  escalationRate: number;
+  avgStepsToResolution: number;
+  csat: { responses: number; averageRating: number; satisfiedRate: number };
+  funnel: Array<{
+    stepId: string;
+    title: string;
+    reached: number;
+    succeeded: number;
+    failures: number;
+    escalations: number;
+    dropOffs: number;
+  }>;
+  mostFailedSteps: Array<{ stepId: string; title: string; failures: number }>;
+  escalationPoints: Array<{ stepId: string; title: string; count: number }>;
+}
+
 export default function AnalyticsPage() {
   const [user, setUser] = useState<User | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
@@ -49,6 +75,7 @@ export default function AnalyticsPage() {
   const [trends, setTrends] = useState<CaseTrend[]>([]);
   const [sla, setSla] = useState<SLAMetrics | null>(null);
   const [levelPerformance, setLevelPerformance] = useState<LevelPerformance | null>(null);
+  const [playbooks, setPlaybooks] = useState<PlaybookAnalytics[]>([]);
 
   // Initialize Firebase Auth
   useEffect(() => {
@@ -71,14 +98,17 @@ export default function AnalyticsPage() {
     
     setLoading(true);
     try {
-      const response = await fetch(
-        `/api/analytics/dashboard?tenantId=${user.uid}&days=${days}`
-      );
+      const [response, playbookResponse] = await Promise.all([
+        authFetch(`/api/analytics/dashboard?days=${days}`),
+        authFetch(`/api/analytics/playbooks?days=${days}`),
+      ]);
       const data = await response.json();
       setMetrics(data.metrics);
       setTrends(data.trends || []);
       setSla(data.sla);
       setLevelPerformance(data.levelPerformance);
+      const playbookData = await playbookResponse.json();
+      setPlaybooks(playbookData.playbooks || []);
     } catch (error) {
       console.error('Failed to fetch analytics:', error);
     } finally {
@@ -460,6 +490,78 @@ export default function AnalyticsPage() {
         </Card>
       )}
 
+      {/* Playbook Effectiveness */}
+      {playbooks.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Playbook Effectiveness</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-8">
+              {playbooks.map((pb) => (
+                <div key={`${pb.playbookId}@${pb.version}`}>
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                    <div>
+                      <span className="font-semibold">{pb.playbookName}</span>
+                      <span className="ml-2 text-sm text-gray-500">v{pb.version}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-2 text-sm">
+                      <Badge className="bg-blue-100 text-blue-800">{pb.entered} entered</Badge>
+                      <Badge className="bg-green-100 text-green-800">{pb.resolutionRate}% resolved</Badge>
+                      <Badge className="bg-orange-100 text-orange-800">{pb.escalationRate}% escalated</Badge>
+                      {pb.resolved > 0 && (
+                        <Badge variant="outline">{pb.avgStepsToResolution} steps to resolve</Badge>
+                      )}
+                      {pb.csat.responses > 0 && (
+                        <Badge variant="outline">
+                          CSAT {pb.csat.averageRating}/5 ({pb.csat.responses})
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Funnel: share of runs that reached each step */}
+                  <div className="space-y-2">
+                    {pb.funnel.map((step) => {
+                      const reachedPct = pb.entered > 0 ? Math.round((step.reached / pb.entered) * 100) : 0;
+                      return (
+                        <div key={step.stepId}>
+                          <div className="flex justify-between text-sm mb-1">
+                            <span>{step.title}</span>
+                            <span className="text-gray-500">
+                              {step.reached} ({reachedPct}%)
+                              {step.failures > 0 && (
+                                <span className="ml-2 text-red-600">{step.failures} failed</span>
+                              )}
+                              {step.escalations > 0 && (
+                                <span className="ml-2 text-orange-600">{step.escalations} escalated</span>
+                              )}
+                            </span>
+                          </div>
+                          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full rounded-full ${step.escalations > 0 ? 'bg-orange-500' : 'bg-blue-500'}`}
+                              style={{ width: `${reachedPct}%` }}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {pb.mostFailedSteps.length > 0 && (
+                    <p className="mt-3 text-sm text-gray-600">
+                      Most failed:{' '}
+                      {pb.mostFailedSteps.map((s) => `${s.title} (${s.failures})`).join(', ')}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* SLA Breaches Alert */}
       {sla && sla.currentBreaches.length > 0 && (
         <Card className="border-red-200 bg-red-50">
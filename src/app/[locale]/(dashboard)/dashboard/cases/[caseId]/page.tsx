@@ -1,16 +1,20 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, type ComponentProps, type FormEvent } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { onAuthStateChanged, User } from 'firebase/auth';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Timeline } from '@/components/cases/Timeline';
 import { ChatTranscript } from '@/components/cases/ChatTranscript';
 import { formatDateTime, getStatusColor, getSeverityColor, getLevelColor } from '@/lib/utils';
 import { getCase, getTimelineEvents, resolveCase, escalateCase } from '@/lib/firebase/cases';
+import { usePermissions } from '@/lib/auth/use-permissions';
+import { authFetch } from '@/lib/auth/client';
+import { readAgentStream } from '@/lib/ai/stream-client';
+import type { L1AgentResponse } from '@/lib/ai/l1-agent';
 import type { Case, TimelineEvent } from '@/types';
 
 type TabType = 'chat' | 'timeline' | 'artifacts';
@@ -21,43 +25,34 @@ export default function CaseDetailPage() {
   const locale = params.locale as string;
   const caseId = params.caseId as string;
   
-  const [user, setUser] = useState<User | null>(null);
   const [activeTab, setActiveTab] = useState<TabType>('chat');
   const [caseData, setCaseData] = useState<Case | null>(null);
   const [events, setEvents] = useState<TimelineEvent[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [streamingReply, setStreamingReply] = useState<ComponentProps<typeof ChatTranscript>['streamingReply']>(null);
+  const { can, tenantId, loading: identityLoading } = usePermissions();
 
-  // Initialize Firebase Auth
+  // Signed out or not a member of any tenant
   useEffect(() => {
-    import('@/lib/firebase/client').then((module) => {
-      const auth = module.auth;
-      if (auth) {
-        const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
-          setUser(currentUser);
-          if (!currentUser) {
-            setIsLoading(false);
-          }
-        });
-        return () => unsubscribe();
-      } else {
-        setIsLoading(false);
-      }
-    });
-  }, []);
+    if (!identityLoading && !tenantId) {
+      setIsLoading(false);
+    }
+  }, [identityLoading, tenantId]);
 
   // Fetch real case data from Firebase
   useEffect(() => {
     async function fetchCaseData() {
-      if (!user?.uid || !caseId) return;
+      if (!tenantId || !caseId) return;
       
       setIsLoading(true);
       setError(null);
       
       try {
         // Fetch case data
-        const fetchedCase = await getCase(user.uid, caseId);
+        const fetchedCase = await getCase(tenantId, caseId);
         if (!fetchedCase) {
           setError('Case not found');
           setIsLoading(false);
@@ -66,7 +61,7 @@ export default function CaseDetailPage() {
         setCaseData(fetchedCase);
         
         // Fetch timeline events
-        const fetchedEvents = await getTimelineEvents(user.uid, caseId);
+        const fetchedEvents = await getTimelineEvents(tenantId, caseId);
         setEvents(fetchedEvents);
       } catch (err) {
         console.error('Error fetching case:', err);
@@ -77,19 +72,19 @@ export default function CaseDetailPage() {
     }
     
     fetchCaseData();
-  }, [user?.uid, caseId]);
+  }, [tenantId, caseId]);
 
   // Handle resolve case
   const handleResolve = async () => {
-    if (!user?.uid || !caseId || !caseData) return;
+    if (!tenantId || !caseId || !caseData) return;
     
     setIsUpdating(true);
     try {
-      await resolveCase(user.uid, caseId, 'Resolved by support agent');
+      await resolveCase(tenantId, caseId, 'Resolved by support agent');
       // Update local state
       setCaseData({ ...caseData, status: 'resolved' });
       // Refresh timeline
-      const fetchedEvents = await getTimelineEvents(user.uid, caseId);
+      const fetchedEvents = await getTimelineEvents(tenantId, caseId);
       setEvents(fetchedEvents);
     } catch (err) {
       console.error('Error resolving case:', err);
@@ -101,16 +96,16 @@ export default function CaseDetailPage() {
 
   // Handle escalate case
   const handleEscalate = async (toLevel: 'L2' | 'L3') => {
-    if (!user?.uid || !caseId || !caseData) return;
+    if (!tenantId || !caseId || !caseData) return;
     
     setIsUpdating(true);
     try {
-      await escalateCase(user.uid, caseId, toLevel, `Escalated to ${toLevel} by support agent`);
+      await escalateCase(tenantId, caseId, toLevel, `Escalated to ${toLevel} by support agent`);
       // Update local state
       const newStatus = toLevel === 'L2' ? 'escalated_L2' : 'escalated_human';
       setCaseData({ ...caseData, status: newStatus, currentLevel: toLevel });
       // Refresh timeline
-      const fetchedEvents = await getTimelineEvents(user.uid, caseId);
+      const fetchedEvents = await getTimelineEvents(tenantId, caseId);
       setEvents(fetchedEvents);
     } catch (err) {
       console.error('Error escalating case:', err);
@@ -120,6 +115,44 @@ export default function CaseDetailPage() {
     }
   };
 
+  // Handle a customer reply: the AI's answer streams into the chat, then the
+  // case is reloaded with the reply, the answer and any status change
+  const handleReply = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!tenantId || !caseId || !caseData || !replyText.trim()) return;
+    
+    setStreamingReply({ content: '', level: 'L1' });
+    try {
+      const response = await authFetch(`/api/cases/${caseId}/reply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          message: replyText,
+          customerEmail: caseData.customerContact?.email,
+          customerName: caseData.customerContact?.name,
+          stream: true,
+        }),
+      });
+      await readAgentStream<L1AgentResponse>(response, {
+        onText: (content) => setStreamingReply((current) => current && { ...current, content }),
+        onToolCall: (call) => setStreamingReply((current) => current && { ...current, activity: call.name }),
+      });
+      setReplyText('');
+      
+      const [updatedCase, fetchedEvents] = await Promise.all([
+        getCase(tenantId, caseId),
+        getTimelineEvents(tenantId, caseId),
+      ]);
+      if (updatedCase) setCaseData(updatedCase);
+      setEvents(fetchedEvents);
+    } catch (err) {
+      console.error('Error sending reply:', err);
+      alert('Failed to send reply. Please try again.');
+    } finally {
+      setStreamingReply(null);
+    }
+  };
+
   if (error) {
     return (
       <div className="flex flex-col items-center justify-center h-64 text-red-500">
@@ -205,7 +238,7 @@ export default function CaseDetailPage() {
           <CardContent className="flex gap-2">
             {caseData.status !== 'resolved' && (
               <>
-                {caseData.currentLevel === 'L1' && (
+                {caseData.currentLevel === 'L1' && can('case:escalate') && (
                   <Button 
                     size="sm" 
                     variant="outline"
@@ -215,7 +248,7 @@ export default function CaseDetailPage() {
                     {isUpdating ? 'Updating...' : 'Escalate to L2'}
                   </Button>
                 )}
-                {caseData.currentLevel === 'L2' && (
+                {caseData.currentLevel === 'L2' && can('case:escalate') && (
                   <Button 
                     size="sm" 
                     variant="outline"
@@ -225,13 +258,15 @@ export default function CaseDetailPage() {
                     {isUpdating ? 'Updating...' : 'Escalate to Human'}
                   </Button>
                 )}
-                <Button 
-                  size="sm"
-                  onClick={handleResolve}
-                  disabled={isUpdating}
-                >
-                  {isUpdating ? 'Updating...' : 'Resolve'}
-                </Button>
+                {can('case:resolve') && (
+                  <Button 
+                    size="sm"
+                    onClick={handleResolve}
+                    disabled={isUpdating}
+                  >
+                    {isUpdating ? 'Updating...' : 'Resolve'}
+                  </Button>
+                )}
               </>
             )}
             {caseData.status === 'resolved' && (
@@ -266,9 +301,24 @@ export default function CaseDetailPage() {
       <Card>
         <CardContent className="p-0">
           {activeTab === 'chat' && (
-            <div className="h-[500px]">
-              <ChatTranscript events={events} isLoading={isLoading} />
-            </div>
+            <>
+              <div className="h-[500px]">
+                <ChatTranscript events={events} isLoading={isLoading} streamingReply={streamingReply} />
+              </div>
+              {caseData.status !== 'resolved' && can('case:write') && (
+                <form onSubmit={handleReply} className="flex gap-2 border-t p-4">
+                  <Input
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    placeholder="Add the customer's reply to get the AI's answer"
+                    disabled={Boolean(streamingReply)}
+                  />
+                  <Button type="submit" disabled={Boolean(streamingReply) || !replyText.trim()}>
+                    {streamingReply ? 'Answering...' : 'Send'}
+                  </Button>
+                </form>
+              )}
+            </>
           )}
           {activeTab === 'timeline' && (
             <div className="p-6">
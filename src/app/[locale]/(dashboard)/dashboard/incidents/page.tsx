@@ -0,0 +1,5 @@
+import { IncidentsPageContent } from '@/components/incidents/IncidentsPageContent';
+
+export default function IncidentsPage() {
+  return <IncidentsPageContent />;
+}
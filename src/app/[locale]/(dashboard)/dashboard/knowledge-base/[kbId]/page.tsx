@@ -9,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { KBDocumentUploader, FileUploadData } from '@/components/knowledge-base/KBDocumentUploader';
 import { KBDocumentList } from '@/components/knowledge-base/KBDocumentList';
 import { formatDateTime } from '@/lib/utils';
+import { usePermissions } from '@/lib/auth/use-permissions';
 import type { KnowledgeBase, KBDocument } from '@/types';
 
 const statusConfig = {
@@ -29,6 +30,7 @@ export default function KnowledgeBaseDetailPage() {
   const [isUploading, setIsUploading] = useState(false);
   const [isTraining, setIsTraining] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { can } = usePermissions();
 
   // Load KB data (mock for demo)
   useEffect(() => {
@@ -204,12 +206,14 @@ export default function KnowledgeBaseDetailPage() {
         
         <div className="flex items-center gap-2">
           <Badge className={status.color}>{status.label}</Badge>
-          <Button
-            onClick={handleTrain}
-            disabled={isTraining || documents.length === 0}
-          >
-            {isTraining ? 'Training...' : needsTraining ? 'Train Now' : 'Retrain'}
-          </Button>
+          {can('kb:train') && (
+            <Button
+              onClick={handleTrain}
+              disabled={isTraining || documents.length === 0}
+            >
+              {isTraining ? 'Training...' : needsTraining ? 'Train Now' : 'Retrain'}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -268,18 +272,20 @@ export default function KnowledgeBaseDetailPage() {
       )}
 
       {/* Upload */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Upload Documents</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <KBDocumentUploader
-            onUpload={handleUpload}
-            isUploading={isUploading}
-            acceptedTypes={['.md', '.txt', '.html', '.csv']}
-          />
-        </CardContent>
-      </Card>
+      {can('kb:write') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Upload Documents</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <KBDocumentUploader
+              onUpload={handleUpload}
+              isUploading={isUploading}
+              acceptedTypes={['.md', '.txt', '.html', '.csv']}
+            />
+          </CardContent>
+        </Card>
+      )}
 
       {/* Documents */}
       <Card>
@@ -289,7 +295,7 @@ export default function KnowledgeBaseDetailPage() {
         <CardContent>
           <KBDocumentList
             documents={documents}
-            onDelete={handleDelete}
+            onDelete={can('kb:delete') ? handleDelete : undefined}
           />
         </CardContent>
       </Card>
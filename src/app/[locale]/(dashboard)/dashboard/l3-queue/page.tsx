@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { onAuthStateChanged, User } from 'firebase/auth';
+import { authFetch } from '@/lib/auth/client';
+import { usePermissions } from '@/lib/auth/use-permissions';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -51,6 +53,7 @@ export default function L3QueuePage() {
   const [stats, setStats] = useState<QueueStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'queued' | 'assigned' | 'in_progress'>('all');
+  const { can, tenantId } = usePermissions();
 
   // Initialize Firebase Auth
   useEffect(() => {
@@ -68,13 +71,14 @@ export default function L3QueuePage() {
     });
   }, []);
 
+  // The queue is the tenant's; the route resolves it from the token, so wait for membership
   const fetchQueue = useCallback(async () => {
-    if (!user?.uid) return;
+    if (!tenantId) return;
     
     try {
       const statusFilter = filter === 'all' ? 'queued,assigned,in_progress' : filter;
-      const response = await fetch(
-        `/api/l3/queue?tenantId=${user.uid}&status=${statusFilter}&includeStats=true`
+      const response = await authFetch(
+        `/api/l3/queue?status=${statusFilter}&includeStats=true`
       );
       const data = await response.json();
       setQueue(data.queue || []);
@@ -84,22 +88,23 @@ export default function L3QueuePage() {
     } finally {
       setLoading(false);
     }
-  }, [user, filter]);
+  }, [tenantId, filter]);
 
   useEffect(() => {
-    if (user?.uid) {
+    if (tenantId) {
       fetchQueue();
       // Poll every 30 seconds
       const interval = setInterval(fetchQueue, 30000);
       return () => clearInterval(interval);
     }
-  }, [user?.uid, fetchQueue]);
+  }, [tenantId, fetchQueue]);
 
   const handleAssignToMe = async (queueItemId: string) => {
     if (!user) return;
     
     try {
-      await fetch('/api/l3/queue', {
+      // Agents are keyed by their own UID, not the tenant
+      await authFetch('/api/l3/queue', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -117,7 +122,7 @@ export default function L3QueuePage() {
 
   const handleStartWorking = async (queueItemId: string) => {
     try {
-      await fetch('/api/l3/queue', {
+      await authFetch('/api/l3/queue', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -246,12 +251,12 @@ export default function L3QueuePage() {
                     </p>
                   </div>
                   <div className="flex gap-2">
-                    {item.status === 'queued' && (
+                    {item.status === 'queued' && can('l3:assign') && (
                       <Button size="sm" onClick={() => handleAssignToMe(item.id)}>
                         Assign to Me
                       </Button>
                     )}
-                    {item.status === 'assigned' && (
+                    {item.status === 'assigned' && can('l3:assign') && (
                       <Button size="sm" onClick={() => handleStartWorking(item.id)}>
                         Start Working
                       </Button>
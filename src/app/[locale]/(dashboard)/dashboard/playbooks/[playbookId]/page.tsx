@@ -0,0 +1,9 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { PlaybookEditor } from '@/components/playbooks/PlaybookEditor';
+
+export default function PlaybookEditorPage() {
+  const params = useParams();
+  return <PlaybookEditor playbookId={params.playbookId as string} />;
+}
@@ -0,0 +1,5 @@
+import { PlaybooksPageContent } from '@/components/playbooks/PlaybooksPageContent';
+
+export default function PlaybooksPage() {
+  return <PlaybooksPageContent />;
+}
@@ -2,8 +2,12 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { GuardrailPolicyEditor } from '@/components/settings/GuardrailPolicyEditor';
+import { usePermissions } from '@/lib/auth/use-permissions';
 
 export default function SettingsPage() {
+  const { can } = usePermissions();
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex justify-between items-start">
@@ -65,21 +69,9 @@ export default function SettingsPage() {
             </p>
           </CardContent>
         </Card>
-
-        <Card className="opacity-60">
-          <CardHeader>
-            <CardTitle className="flex items-center justify-between">
-              Escalation Rules
-              <Badge variant="outline" className="text-xs">Planned</Badge>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-sm text-gray-500">
-              L1 → L2 → L3 escalation thresholds and rules.
-            </p>
-          </CardContent>
-        </Card>
       </div>
+
+      {can('settings:write') && <GuardrailPolicyEditor />}
     </div>
   );
 }
@@ -1,14 +1,51 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { onAuthStateChanged, User } from 'firebase/auth';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { InviteMemberDialog } from '@/components/team/InviteMemberDialog';
+import { ASSIGNABLE_ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/components/team/roles';
+import { authFetch } from '@/lib/auth/client';
+import { usePermissions } from '@/lib/auth/use-permissions';
+import { formatDateTime } from '@/lib/utils';
+import type { UserRole } from '@/types';
+
+interface TeamMember {
+  uid: string;
+  email: string;
+  displayName: string;
+  role: UserRole;
+  joinedAt: string;
+}
+
+interface PendingInvitation {
+  id: string;
+  email: string;
+  role: UserRole;
+  invitedByName: string;
+  expiresAt: string;
+}
 
 export default function TeamPage() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [updatingUid, setUpdatingUid] = useState<string | null>(null);
+  const { can } = usePermissions();
+  const canManage = can('team:manage');
 
   useEffect(() => {
     import('@/lib/firebase/client').then((module) => {
@@ -16,7 +53,7 @@ export default function TeamPage() {
       if (auth) {
         const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
           setUser(currentUser);
-          setLoading(false);
+          if (!currentUser) setLoading(false);
         });
         return () => unsubscribe();
       } else {
@@ -25,14 +62,89 @@ export default function TeamPage() {
     });
   }, []);
 
-  const getUserInitial = () => {
-    if (user?.displayName) return user.displayName.charAt(0).toUpperCase();
-    if (user?.email) return user.email.charAt(0).toUpperCase();
-    return '?';
+  const fetchTeam = useCallback(async () => {
+    if (!user?.uid) return;
+
+    try {
+      setError(null);
+      const membersRes = await authFetch('/api/team/members');
+      const membersData = await membersRes.json();
+      if (!membersRes.ok) throw new Error(membersData.error || 'Failed to load team');
+      setMembers(membersData.members || []);
+
+      if (canManage) {
+        const invitesRes = await authFetch('/api/team/invitations');
+        const invitesData = await invitesRes.json();
+        if (invitesRes.ok) setInvitations(invitesData.invitations || []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch team:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load team');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, canManage]);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  const handleRoleChange = async (uid: string, role: UserRole) => {
+    setUpdatingUid(uid);
+    setError(null);
+    try {
+      const res = await authFetch(`/api/team/members/${uid}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to change role');
+      await fetchTeam();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change role');
+    } finally {
+      setUpdatingUid(null);
+    }
   };
 
-  const getUserName = () => {
-    return user?.displayName || user?.email?.split('@')[0] || 'Unknown User';
+  const handleRemove = async (member: TeamMember) => {
+    if (!confirm(`Remove ${member.displayName} from the team?`)) return;
+
+    setUpdatingUid(member.uid);
+    setError(null);
+    try {
+      const res = await authFetch(`/api/team/members/${member.uid}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to remove member');
+      await fetchTeam();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member');
+    } finally {
+      setUpdatingUid(null);
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    setError(null);
+    try {
+      const res = await authFetch(`/api/team/invitations/${invitationId}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to revoke invitation');
+      setInvitations((prev) => prev.filter((i) => i.id !== invitationId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invitation');
+    }
+  };
+
+  const handleInvited = ({ acceptUrl, emailSent }: { acceptUrl: string; emailSent: boolean }) => {
+    setInviteDialogOpen(false);
+    setNotice(
+      emailSent
+        ? 'Invitation sent.'
+        : `The invitation email could not be sent. Share this link instead: ${acceptUrl}`
+    );
+    fetchTeam();
   };
 
   if (loading) {
@@ -50,76 +162,144 @@ export default function TeamPage() {
           <h1 className="text-2xl font-bold">Team Members</h1>
           <p className="text-gray-600">Manage your support team</p>
         </div>
-        <Button disabled title="Coming soon">
-          Invite Member
-        </Button>
+        {canManage && (
+          <Button onClick={() => setInviteDialogOpen(true)}>
+            Invite Member
+          </Button>
+        )}
       </div>
 
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-800 break-all">
+          {notice}
+        </div>
+      )}
+
       <Card>
         <CardHeader>
-          <CardTitle>Team Members</CardTitle>
+          <CardTitle>Team Members ({members.length})</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {user ? (
-              <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-                <div className="flex items-center gap-4">
-                  {user.photoURL ? (
-                    <img
-                      src={user.photoURL}
-                      alt={getUserName()}
-                      className="w-10 h-10 rounded-full"
-                    />
-                  ) : (
-                    <div className="w-10 h-10 rounded-full bg-blue-500 flex items-center justify-center text-white font-medium">
-                      {getUserInitial()}
-                    </div>
-                  )}
-                  <div>
-                    <p className="font-medium">{getUserName()}</p>
-                    <p className="text-sm text-gray-500">{user.email}</p>
-                  </div>
-                </div>
-                <Badge>Owner</Badge>
-              </div>
-            ) : (
+            {!user && (
               <p className="text-center text-gray-500 py-4">Please sign in to view team members</p>
             )}
 
-            <p className="text-sm text-gray-500 text-center py-4">
-              Team invitations coming soon
-            </p>
+            {members.map((member) => {
+              const isSelf = member.uid === user?.uid;
+              return (
+                <div
+                  key={member.uid}
+                  className="flex items-center justify-between gap-4 p-4 bg-gray-50 rounded-lg"
+                >
+                  <div className="flex items-center gap-4 min-w-0">
+                    <div className="w-10 h-10 shrink-0 rounded-full bg-blue-500 flex items-center justify-center text-white font-medium">
+                      {(member.displayName || member.email).charAt(0).toUpperCase()}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {member.displayName}
+                        {isSelf && <span className="text-gray-500 font-normal"> (you)</span>}
+                      </p>
+                      <p className="text-sm text-gray-500 truncate">{member.email}</p>
+                    </div>
+                  </div>
+
+                  {canManage && !isSelf ? (
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleRoleChange(member.uid, value as UserRole)}
+                        disabled={updatingUid === member.uid}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ASSIGNABLE_ROLES.map((r) => (
+                            <SelectItem key={r} value={r}>
+                              {ROLE_LABELS[r]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRemove(member)}
+                        disabled={updatingUid === member.uid}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ) : (
+                    <Badge>{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                </div>
+              );
+            })}
           </div>
         </CardContent>
       </Card>
 
+      {canManage && invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Invitations ({invitations.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {invitations.map((invitation) => (
+                <div
+                  key={invitation.id}
+                  className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{invitation.email}</p>
+                    <p className="text-sm text-gray-500">
+                      {ROLE_LABELS[invitation.role]} • Invited by {invitation.invitedByName} • Expires{' '}
+                      {formatDateTime(new Date(invitation.expiresAt))}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => handleRevoke(invitation.id)}>
+                    Revoke
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Roles</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
-            <div className="flex justify-between items-center">
-              <div>
-                <p className="font-medium">Owner</p>
-                <p className="text-sm text-gray-500">Full access to all features and billing</p>
-              </div>
-            </div>
-            <div className="flex justify-between items-center">
-              <div>
-                <p className="font-medium">Agent</p>
-                <p className="text-sm text-gray-500">Handle cases, access knowledge base</p>
-              </div>
-            </div>
-            <div className="flex justify-between items-center">
-              <div>
-                <p className="font-medium">Viewer</p>
-                <p className="text-sm text-gray-500">View-only access to dashboard and cases</p>
+            {(['owner', 'agent', 'human_support', 'viewer'] as UserRole[]).map((r) => (
+              <div key={r} className="flex justify-between items-center">
+                <div>
+                  <p className="font-medium">{ROLE_LABELS[r]}</p>
+                  <p className="text-sm text-gray-500">{ROLE_DESCRIPTIONS[r]}</p>
+                </div>
               </div>
-            </div>
+            ))}
           </div>
         </CardContent>
       </Card>
+
+      <InviteMemberDialog
+        open={inviteDialogOpen}
+        onOpenChange={setInviteDialogOpen}
+        onInvited={handleInvited}
+      />
     </div>
   );
 }
@@ -7,11 +7,15 @@ import Link from 'next/link';
 import { onAuthStateChanged, signOut, User, Auth } from 'firebase/auth';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { usePermissions } from '@/lib/auth/use-permissions';
+import type { Permission } from '@/lib/auth/permissions';
 import {
   Phone,
   LayoutDashboard,
   Ticket,
   BookOpen,
+  Workflow,
+  AlertTriangle,
   Settings,
   Users,
   CreditCard,
@@ -25,6 +29,8 @@ interface NavItem {
   href: string;
   label: string;
   icon: React.ReactNode;
+  // Hidden unless the user's role grants this permission
+  permission?: Permission;
 }
 
 export default function DashboardLayout({
@@ -38,6 +44,7 @@ export default function DashboardLayout({
   const [loading, setLoading] = useState(true);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [firebaseAuth, setFirebaseAuth] = useState<Auth | null>(null);
+  const { can } = usePermissions();
 
   useEffect(() => {
     // Dynamic import of Firebase
@@ -72,14 +79,17 @@ export default function DashboardLayout({
     }
   };
 
-  const navItems: NavItem[] = [
+  const allNavItems: NavItem[] = [
     { href: '/dashboard', label: t('nav.dashboard'), icon: <LayoutDashboard className="h-5 w-5" /> },
     { href: '/dashboard/cases', label: t('nav.cases'), icon: <Ticket className="h-5 w-5" /> },
     { href: '/dashboard/knowledge-base', label: t('nav.knowledgeBase'), icon: <BookOpen className="h-5 w-5" /> },
+    { href: '/dashboard/playbooks', label: t('nav.playbooks'), icon: <Workflow className="h-5 w-5" />, permission: 'playbook:read' },
+    { href: '/dashboard/incidents', label: t('nav.incidents'), icon: <AlertTriangle className="h-5 w-5" />, permission: 'incident:read' },
     { href: '/dashboard/team', label: t('nav.team'), icon: <Users className="h-5 w-5" /> },
-    { href: '/dashboard/billing', label: t('nav.billing'), icon: <CreditCard className="h-5 w-5" /> },
-    { href: '/dashboard/settings', label: t('nav.settings'), icon: <Settings className="h-5 w-5" /> },
+    { href: '/dashboard/billing', label: t('nav.billing'), icon: <CreditCard className="h-5 w-5" />, permission: 'billing:manage' },
+    { href: '/dashboard/settings', label: t('nav.settings'), icon: <Settings className="h-5 w-5" />, permission: 'settings:write' },
   ];
+  const navItems = allNavItems.filter((item) => !item.permission || can(item.permission));
 
   if (loading) {
     return (
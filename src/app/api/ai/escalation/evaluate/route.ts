@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { checkEscalationTriggers } from '@/lib/ai/guardrails';
+import { classifyEmbedding, mergeClassification, type EscalationClassification } from '@/lib/ai/escalation-classifier';
+import { evaluateEscalation, validateEscalationCorpus, type EscalationCorpusEntry } from '@/lib/ai/escalation-evaluation';
+import { getGuardrailPolicy, getTenantRedactions } from '@/lib/ai/guardrail-settings';
+import { generateEmbeddings } from '@/lib/knowledge-base/embeddings';
+import { redactText, INGESTION_PATTERNS } from '@/lib/privacy/redaction';
+
+const MAX_CORPUS_ENTRIES = 500;
+
+// POST /api/ai/escalation/evaluate - Precision and recall of escalation detection on a labeled corpus
+// Body: { corpus: { text, language, escalate, category? }[], classifier?: boolean }
+// Messages are checked as the agents check them, with the tenant's guardrail policy.
+// With `classifier`, the embedding classifier is scored too (whether or not the policy enables it).
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { permission: 'ai:invoke' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const body = await request.json();
+    const problem = validateEscalationCorpus(body.corpus, MAX_CORPUS_ENTRIES);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+    const corpus = body.corpus as EscalationCorpusEntry[];
+
+    const policy = await getGuardrailPolicy(tenantId);
+    const tenantRedactions = await getTenantRedactions(tenantId);
+    const messages = corpus.map((entry) => redactText(entry.text, [...INGESTION_PATTERNS, ...tenantRedactions]).text);
+
+    const keywordChecks = messages.map((message, i) =>
+      checkEscalationTriggers(message, { language: corpus[i].language }, policy)
+    );
+
+    let classifications: EscalationClassification[] | null = null;
+    if (body.classifier) {
+      const embeddings = await generateEmbeddings(messages);
+      classifications = await Promise.all(embeddings.map((e) => classifyEmbedding(e.embedding)));
+    }
+    const combinedChecks = classifications
+      ? keywordChecks.map((check, i) => mergeClassification(check, classifications![i]))
+      : null;
+
+    return NextResponse.json({
+      keywords: evaluateEscalation(corpus, keywordChecks.map((c) => c.shouldEscalate)),
+      classifier: classifications && evaluateEscalation(corpus, classifications.map((c) => c.escalate)),
+      combined: combinedChecks && evaluateEscalation(corpus, combinedChecks.map((c) => c.shouldEscalate)),
+      results: corpus.map((entry, i) => ({
+        text: entry.text,
+        language: entry.language,
+        expected: entry.escalate,
+        keywords: keywordChecks[i],
+        classifier: classifications?.[i] ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error('Error evaluating escalation detection:', error);
+    return NextResponse.json({ error: 'Failed to evaluate escalation detection' }, { status: 500 });
+  }
+}
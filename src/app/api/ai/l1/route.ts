@@ -1,12 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { processL1Request, generateGreeting, type L1AgentContext } from '@/lib/ai/l1-agent';
+import {
+  processL1Request,
+  streamL1Request,
+  generateGreeting,
+  type L1AgentContext,
+  type L1AgentResponse,
+} from '@/lib/ai/l1-agent';
+import { SSE_HEADERS, wantsEventStream } from '@/lib/ai/stream';
+import { loadPlaybookState, loadPlaybookVariables } from '@/lib/playbooks/state';
+import { getCase, updateCase, addTimelineEvent, recordAgentTurn } from '@/lib/cases';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { sendL3EscalationSlack } from '@/lib/notifications/slack';
+import { getTenantRedactions } from '@/lib/ai/guardrail-settings';
+import { redactText, INGESTION_PATTERNS } from '@/lib/privacy';
 
+// POST /api/ai/l1 - One L1 turn. Streams Server-Sent Events (delta, tool_call,
+// then done with the full response) when asked for text/event-stream or `"stream": true`.
+// The playbook state and variables are the case's own, not the caller's, and
+// an escalating answer moves the case on as the channel routes do.
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     
     const {
-      tenantId,
       caseId,
       product,
       category,
@@ -15,19 +31,28 @@ export async function POST(request: NextRequest) {
       customerName,
       message,
       conversationHistory = [],
-      playbookState,
       failedAttempts = 0,
+      source,
       isNewCase = false,
     } = body;
 
+    const auth = await authenticateRequest(request, { tenantId: body.tenantId, permission: 'ai:invoke' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
     // Validate required fields
-    if (!tenantId || !caseId || !product) {
+    if (!caseId || !product) {
       return NextResponse.json(
-        { error: 'Missing required fields: tenantId, caseId, product' },
+        { error: 'Missing required fields: caseId, product' },
         { status: 400 }
       );
     }
 
+    const caseData = await getCase(tenantId, caseId);
+    if (!caseData) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
     // For new cases, return greeting
     if (isNewCase) {
       const greeting = generateGreeting(language, customerName);
@@ -61,12 +86,61 @@ export async function POST(request: NextRequest) {
       severity,
       customerName,
       conversationHistory,
-      playbookState,
+      playbookState: await loadPlaybookState(tenantId, caseId),
+      variables: await loadPlaybookVariables(tenantId, caseId),
       failedAttempts,
+      source,
+      incidentId: caseData.incidentId,
+    };
+
+    // Keep the turn with the case and hand it over if the answer escalates;
+    // the answer shouldn't fail if storing it does
+    const storeTurn = async (response: L1AgentResponse) => {
+      try {
+        await recordAgentTurn(tenantId, caseId, response, { metadata: { ...response.metadata } });
+        if (!response.shouldEscalate) return;
+
+        const level = response.escalationLevel || 'L2';
+        await updateCase(tenantId, caseId, {
+          status: level === 'L3' ? 'escalated_human' : 'escalated_L2',
+          currentLevel: level,
+        });
+        await addTimelineEvent(tenantId, caseId, {
+          type: 'escalation',
+          level,
+          content: `Escalation: ${response.escalationReason}`,
+          metadata: {
+            reason: response.escalationReason,
+          },
+          createdBy: 'ai',
+        });
+
+        if (level === 'L3') {
+          // The message isn't redacted on the way in here, so redact it for Slack
+          const summary = redactText(message, [...INGESTION_PATTERNS, ...(await getTenantRedactions(tenantId))]).text;
+          const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://tech-support-ai-one.vercel.app';
+          await sendL3EscalationSlack({
+            caseId,
+            caseNumber: caseData.ticketNumber,
+            customerName: customerName || caseData.customerContact?.name || 'Customer',
+            priority: caseData.severity,
+            summary: summary.substring(0, 200),
+            escalationReason: response.escalationReason || 'L1 AI escalated to human',
+            dashboardUrl: `${baseUrl}/en/dashboard/cases/${caseId}`,
+          });
+        }
+      } catch (e) {
+        console.warn('Could not store L1 turn:', e);
+      }
     };
 
+    if (wantsEventStream(request, body)) {
+      return new Response(streamL1Request(context, message, { onDone: storeTurn }), { headers: SSE_HEADERS });
+    }
+
     // Process the request
     const response = await processL1Request(context, message);
+    await storeTurn(response);
 
     return NextResponse.json(response);
   } catch (error) {
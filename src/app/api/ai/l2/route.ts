@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { processL2Request, type L2AgentContext } from '@/lib/ai/l2-agent';
-import { getTimelineEvents } from '@/lib/firebase/cases';
+import { processL2Request, streamL2Request, type L2AgentContext, type L2AgentResponse } from '@/lib/ai/l2-agent';
+import { SSE_HEADERS, wantsEventStream } from '@/lib/ai/stream';
+import { saveErrorAnalysisArtifact } from '@/lib/diagnostics';
+import { getTimelineEvents, recordAgentTurn } from '@/lib/cases';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
 
+// POST /api/ai/l2 - One L2 turn. Streams Server-Sent Events (delta, tool_call,
+// then done with the full response) when asked for text/event-stream or `"stream": true`
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     
     const {
-      tenantId,
       caseId,
       product,
       category,
@@ -23,9 +27,13 @@ export async function POST(request: NextRequest) {
       failedAttempts = 0,
     } = body;
 
-    if (!tenantId || !caseId || !product) {
+    const auth = await authenticateRequest(request, { tenantId: body.tenantId, permission: 'ai:invoke' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    if (!caseId || !product) {
       return NextResponse.json(
-        { error: 'Missing required fields: tenantId, caseId, product' },
+        { error: 'Missing required fields: caseId, product' },
         { status: 400 }
       );
     }
@@ -65,10 +73,31 @@ export async function POST(request: NextRequest) {
       failedAttempts,
     };
 
+    // Keep the turn and its analysis with the case; the answer shouldn't fail if storing them does
+    const storeTurn = async (response: L2AgentResponse) => {
+      let errorAnalysisArtifactId: string | undefined;
+      try {
+        if (response.errorAnalysis) {
+          errorAnalysisArtifactId = await saveErrorAnalysisArtifact(tenantId, caseId, response.errorAnalysis);
+        }
+        await recordAgentTurn(tenantId, caseId, response, {
+          level: 'L2',
+          metadata: { ...response.metadata, ...(errorAnalysisArtifactId && { errorAnalysisArtifactId }) },
+        });
+      } catch (e) {
+        console.warn('Could not store L2 turn:', e);
+      }
+      return { errorAnalysisArtifactId };
+    };
+
+    if (wantsEventStream(request, body)) {
+      return new Response(streamL2Request(context, message, { onDone: storeTurn }), { headers: SSE_HEADERS });
+    }
+
     // Process with L2 agent
     const response = await processL2Request(context, message);
 
-    return NextResponse.json(response);
+    return NextResponse.json({ ...response, ...(await storeTurn(response)) });
   } catch (error) {
     console.error('L2 AI error:', error);
     return NextResponse.json(
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDashboardMetrics, getCaseTrends, getSLAMetrics, getLevelPerformance } from '@/lib/analytics';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
 
 /**
  * GET /api/analytics/dashboard - Get comprehensive dashboard analytics
@@ -7,15 +8,11 @@ import { getDashboardMetrics, getCaseTrends, getSLAMetrics, getLevelPerformance
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const tenantId = searchParams.get('tenantId');
     const days = parseInt(searchParams.get('days') || '30', 10);
 
-    if (!tenantId) {
-      return NextResponse.json(
-        { error: 'tenantId is required' },
-        { status: 400 }
-      );
-    }
+    const auth = await authenticateRequest(request, { permission: 'analytics:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
 
     // Calculate date range
     const endDate = new Date();
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGroundingAnalytics } from '@/lib/analytics';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+
+/**
+ * GET /api/analytics/grounding - Grounding scores and hallucination rate of AI answers
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = parseInt(searchParams.get('days') || '30', 10);
+
+    const auth = await authenticateRequest(request, { permission: 'analytics:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
+
+    const grounding = await getGroundingAnalytics(tenantId, { start: startDate, end: endDate });
+
+    return NextResponse.json({
+      grounding,
+      dateRange: {
+        start: startDate.toISOString(),
+        end: endDate.toISOString(),
+        days,
+      },
+    });
+  } catch (error) {
+    console.error('Grounding analytics error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch grounding analytics' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSLAMetrics } from '@/lib/analytics';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
 
 /**
  * GET /api/analytics/sla - Get SLA metrics and breaches
@@ -7,16 +8,12 @@ import { getSLAMetrics } from '@/lib/analytics';
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const tenantId = searchParams.get('tenantId');
     const responseTarget = parseInt(searchParams.get('responseTarget') || '15', 10);
     const resolutionTarget = parseInt(searchParams.get('resolutionTarget') || '24', 10);
 
-    if (!tenantId) {
-      return NextResponse.json(
-        { error: 'tenantId is required' },
-        { status: 400 }
-      );
-    }
+    const auth = await authenticateRequest(request, { permission: 'analytics:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
 
     const sla = await getSLAMetrics(tenantId, {
       responseTimeTarget: responseTarget,
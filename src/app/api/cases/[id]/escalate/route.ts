@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getCase, updateCase, addTimelineEvent, getTimelineEvents } from '@/lib/firebase/cases';
+import { getCase, updateCase, addTimelineEvent, getTimelineEvents } from '@/lib/cases';
 import { generateL2EscalationSummary } from '@/lib/ai/l2-agent';
 import { addToL3Queue } from '@/lib/l3';
 import { notifyL3Escalation } from '@/lib/notifications';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
 
 interface RouteParams {
   params: { id: string };
@@ -18,19 +19,15 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const body = await request.json();
     
     const {
-      tenantId,
       targetLevel, // 'L2' or 'L3'
       reason,
       notes,
       initiatedBy = 'ai', // 'ai' | 'user' | 'system'
     } = body;
 
-    if (!tenantId) {
-      return NextResponse.json(
-        { error: 'tenantId is required' },
-        { status: 400 }
-      );
-    }
+    const auth = await authenticateRequest(request, { tenantId: body.tenantId, permission: 'case:escalate' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
 
     if (!targetLevel || !['L2', 'L3'].includes(targetLevel)) {
       return NextResponse.json(
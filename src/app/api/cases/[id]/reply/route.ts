@@ -1,12 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
-import { processL1Request, L1AgentContext } from '@/lib/ai/l1-agent';
+import { authenticateRequest } from '@/lib/auth';
+import { processL1Request, streamL1Request, L1AgentContext, type L1AgentResponse } from '@/lib/ai/l1-agent';
+import { SSE_HEADERS, wantsEventStream } from '@/lib/ai/stream';
+import { loadConversationHistory } from '@/lib/ai/history';
+import { loadPlaybookState, loadPlaybookVariables } from '@/lib/playbooks/state';
+import { recordAgentTurn } from '@/lib/cases';
+import { getTenantRedactions } from '@/lib/ai/guardrail-settings';
+import { redactIncoming, redactionMetadata, saveRedactedOriginal } from '@/lib/privacy';
 import { sendL3EscalationSlack } from '@/lib/notifications/slack';
 
 interface ReplyRequest {
   message: string;
   customerEmail: string;
   customerName?: string;
+  stream?: boolean;
 }
 
 interface ReplyResponse {
@@ -21,19 +29,20 @@ interface ReplyResponse {
  * POST /api/cases/[id]/reply
  * 
  * Add a customer reply to an existing case and get AI response.
- * This is called by CommandDesk AI when a customer replies to an existing case thread.
+ * This is called by CommandDesk AI when a customer replies to an existing case thread,
+ * and by the dashboard, which streams the answer (`"stream": true`, see streamL1Request).
  */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-): Promise<NextResponse<ReplyResponse>> {
+): Promise<NextResponse<ReplyResponse> | Response> {
   try {
     const { id: caseId } = await params;
-    const tenantId = request.headers.get('x-tenant-id');
-    
-    if (!tenantId) {
-      return NextResponse.json({ success: false, error: 'Tenant ID required' }, { status: 400 });
+    const auth = await authenticateRequest(request, { permission: 'case:write' });
+    if (!auth.ok) {
+      return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
     }
+    const { tenantId } = auth.principal;
     
     const body: ReplyRequest = await request.json();
     
@@ -56,46 +65,26 @@ export async function POST(
     
     const caseData = caseDoc.data()!;
     
-    // Get conversation history from timeline
-    const timelineSnapshot = await caseRef
-      .collection('timeline')
-      .orderBy('createdAt', 'asc')
-      .get();
-    
-    const conversationHistory: Array<{ role: 'user' | 'assistant' | 'system'; content: string }> = [];
-    
-    // Add initial problem as first customer message
-    if (caseData.problem) {
-      conversationHistory.push({ role: 'user', content: caseData.problem });
-    }
-    
-    // Build conversation from timeline
-    for (const doc of timelineSnapshot.docs) {
-      const event = doc.data();
-      if (event.type === 'ai_response' && event.content) {
-        conversationHistory.push({ role: 'assistant', content: event.content });
-      } else if (event.type === 'customer_reply' && event.content) {
-        conversationHistory.push({ role: 'user', content: event.content });
-      } else if (event.type === 'agent_response' && event.content) {
-        conversationHistory.push({ role: 'assistant', content: event.content });
-      }
-    }
+    // Get conversation history from timeline (before this reply is logged)
+    const conversationHistory = await loadConversationHistory(tenantId, caseId, {
+      initialMessage: caseData.problem,
+    });
     
-    // Add the new customer reply to timeline
-    await caseRef.collection('timeline').add({
+    // Add the new customer reply to timeline - only the redacted copy is stored or sent to the AI
+    const reply = redactIncoming(body.message, await getTenantRedactions(tenantId));
+    const replyRef = await caseRef.collection('timeline').add({
       type: 'customer_reply',
       level: caseData.currentLevel || 'L1',
-      content: body.message,
+      content: reply.text,
       metadata: {
         customerEmail: body.customerEmail,
         customerName: body.customerName,
+        ...redactionMetadata(reply),
       },
       createdBy: 'customer',
       createdAt: new Date(),
     });
-    
-    // Add new message to conversation history
-    conversationHistory.push({ role: 'user', content: body.message });
+    await saveRedactedOriginal(tenantId, caseId, replyRef.id, reply);
     
     // Update case status back to open (customer responded)
     await caseRef.update({
@@ -113,85 +102,94 @@ export async function POST(
       severity: caseData.severity || 'medium',
       customerName: body.customerName || caseData.customerContact?.name,
       conversationHistory,
+      playbookState: await loadPlaybookState(tenantId, caseId),
+      variables: await loadPlaybookVariables(tenantId, caseId),
       failedAttempts: caseData.failedAttempts || 0,
+      source: caseData.source,
+      incidentId: caseData.incidentId,
     };
     
-    const l1Result = await processL1Request(context, body.message);
-    
-    // Add AI response to timeline
-    await caseRef.collection('timeline').add({
-      type: 'ai_response',
-      level: 'L1',
-      content: l1Result.message,
-      metadata: {
-        model: l1Result.metadata.model || 'gpt-4',
-        tokensUsed: l1Result.metadata.tokensUsed || 0,
-        ragChunksUsed: l1Result.metadata.ragChunksUsed || 0,
-        processingTimeMs: l1Result.metadata.processingTimeMs || 0,
-        isFollowUp: true,
-      },
-      createdBy: 'ai',
-      createdAt: new Date(),
-    });
-    
-    // Handle escalation or status update
-    if (l1Result.shouldEscalate) {
-      const newStatus = l1Result.escalationLevel === 'L3' ? 'escalated_human' : 'escalated_L2';
-      await caseRef.update({
-        status: newStatus,
-        currentLevel: l1Result.escalationLevel,
-        updatedAt: new Date(),
+    // Record the answer and move the case on; run once the answer is complete
+    const finishTurn = async (l1Result: L1AgentResponse) => {
+      // Add AI response to timeline
+      await recordAgentTurn(tenantId, caseId, l1Result, {
+        metadata: {
+          model: l1Result.metadata.model || 'gpt-4',
+          tokensUsed: l1Result.metadata.tokensUsed || 0,
+          ragChunksUsed: l1Result.metadata.ragChunksUsed || 0,
+          processingTimeMs: l1Result.metadata.processingTimeMs || 0,
+          isFollowUp: true,
+        },
       });
-      
-      // Send Slack notification for escalation
-      if (l1Result.escalationLevel === 'L3') {
-        const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://tech-support-ai-one.vercel.app';
-        await sendL3EscalationSlack({
-          caseId,
-          caseNumber: caseData.ticketNumber,
-          customerName: body.customerName || caseData.customerContact?.name || 'Customer',
-          priority: caseData.severity,
-          summary: `Follow-up escalated: ${body.message.substring(0, 100)}`,
-          escalationReason: l1Result.escalationReason || 'Escalated after follow-up',
-          dashboardUrl: `${baseUrl}/en/dashboard/cases/${caseId}`,
-        });
-      }
-    } else {
-      // Check if AI is asking questions or providing a solution
-      const isAskingQuestions = /\?\s*(\n|$)/.test(l1Result.message) && 
-        (l1Result.message.toLowerCase().includes('could you') ||
-         l1Result.message.toLowerCase().includes('can you') ||
-         l1Result.message.toLowerCase().includes('please confirm') ||
-         l1Result.message.toLowerCase().includes('please check') ||
-         l1Result.message.toLowerCase().includes('please provide') ||
-         l1Result.message.toLowerCase().includes('let me know') ||
-         l1Result.message.toLowerCase().includes('i look forward'));
-      
-      if (isAskingQuestions) {
+
+      // Handle incident, escalation or status update
+      if (l1Result.incident) {
+        // Known incident - the case was linked to it and is resolved with it
+      } else if (l1Result.shouldEscalate) {
+        const newStatus = l1Result.escalationLevel === 'L3' ? 'escalated_human' : 'escalated_L2';
         await caseRef.update({
-          status: 'awaiting_customer',
+          status: newStatus,
+          currentLevel: l1Result.escalationLevel,
           updatedAt: new Date(),
         });
+
+        // Send Slack notification for escalation
+        if (l1Result.escalationLevel === 'L3') {
+          const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://tech-support-ai-one.vercel.app';
+          await sendL3EscalationSlack({
+            caseId,
+            caseNumber: caseData.ticketNumber,
+            customerName: body.customerName || caseData.customerContact?.name || 'Customer',
+            priority: caseData.severity,
+            summary: `Follow-up escalated: ${reply.text.substring(0, 100)}`,
+            escalationReason: l1Result.escalationReason || 'Escalated after follow-up',
+            dashboardUrl: `${baseUrl}/en/dashboard/cases/${caseId}`,
+          });
+        }
       } else {
-        // AI provided a solution - auto-resolve
-        await caseRef.update({
-          status: 'resolved',
-          summary: 'Resolved by L1 AI',
-          resolvedAt: new Date(),
-          updatedAt: new Date(),
-        });
-        
-        await caseRef.collection('timeline').add({
-          type: 'resolved',
-          level: 'L1',
-          content: 'Case auto-resolved after L1 AI follow-up response',
-          metadata: {},
-          createdBy: 'system',
-          createdAt: new Date(),
-        });
+        // Check if AI is asking questions or providing a solution
+        const isAskingQuestions = /\?\s*(\n|$)/.test(l1Result.message) && 
+          (l1Result.message.toLowerCase().includes('could you') ||
+           l1Result.message.toLowerCase().includes('can you') ||
+           l1Result.message.toLowerCase().includes('please confirm') ||
+           l1Result.message.toLowerCase().includes('please check') ||
+           l1Result.message.toLowerCase().includes('please provide') ||
+           l1Result.message.toLowerCase().includes('let me know') ||
+           l1Result.message.toLowerCase().includes('i look forward'));
+
+        if (isAskingQuestions) {
+          await caseRef.update({
+            status: 'awaiting_customer',
+            updatedAt: new Date(),
+          });
+        } else {
+          // AI provided a solution - auto-resolve
+          await caseRef.update({
+            status: 'resolved',
+            summary: 'Resolved by L1 AI',
+            resolvedAt: new Date(),
+            updatedAt: new Date(),
+          });
+
+          await caseRef.collection('timeline').add({
+            type: 'resolved',
+            level: 'L1',
+            content: 'Case auto-resolved after L1 AI follow-up response',
+            metadata: {},
+            createdBy: 'system',
+            createdAt: new Date(),
+          });
+        }
       }
+    };
+    
+    if (wantsEventStream(request, body)) {
+      return new Response(streamL1Request(context, reply.text, { onDone: finishTurn }), { headers: SSE_HEADERS });
     }
     
+    const l1Result = await processL1Request(context, reply.text);
+    await finishTurn(l1Result);
+    
     return NextResponse.json({
       success: true,
       aiResponse: l1Result.message,
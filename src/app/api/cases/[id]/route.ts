@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { authenticateRequest, authorize, authErrorResponse } from '@/lib/auth';
 import { notifyCommandDesk, generateCustomerResponse } from '@/lib/webhooks/commanddesk';
 import type { Case, CaseStatus } from '@/types';
 
@@ -10,11 +11,9 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
-    const tenantId = request.headers.get('x-tenant-id');
-    
-    if (!tenantId) {
-      return NextResponse.json({ error: 'Tenant ID required' }, { status: 400 });
-    }
+    const auth = await authenticateRequest(request, { permission: 'case:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
     
     const db = adminDb();
     if (!db) {
@@ -74,11 +73,9 @@ export async function PATCH(
 ) {
   try {
     const { id } = await params;
-    const tenantId = request.headers.get('x-tenant-id');
-    
-    if (!tenantId) {
-      return NextResponse.json({ error: 'Tenant ID required' }, { status: 400 });
-    }
+    const auth = await authenticateRequest(request, { permission: 'case:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
     
     const db = adminDb();
     if (!db) {
@@ -108,6 +105,16 @@ export async function PATCH(
           { status: 400 }
         );
       }
+
+      // Resolving and escalating need their own permissions on top of case:write
+      const transitionPermission =
+        body.status === 'resolved' ? 'case:resolve'
+        : String(body.status).startsWith('escalated') ? 'case:escalate'
+        : null;
+      if (transitionPermission) {
+        const transitionAuth = authorize(auth.principal, transitionPermission);
+        if (!transitionAuth.ok) return authErrorResponse(transitionAuth);
+      }
     }
     
     // Fields that can be updated
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { getRedactedOriginal } from '@/lib/privacy';
+
+// GET /api/cases/[id]/timeline/[eventId]/original - Decrypt the unredacted text of an event
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; eventId: string }> }
+) {
+  try {
+    const { id, eventId } = await params;
+    const auth = await authenticateRequest(request, { permission: 'case:read_sensitive' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId, uid, keyId } = auth.principal;
+
+    const result = await getRedactedOriginal(tenantId, id, eventId, uid || `api_key:${keyId}`);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.original);
+  } catch (error) {
+    console.error('Error reading original text:', error);
+    return NextResponse.json({ error: 'Failed to read original text' }, { status: 500 });
+  }
+}
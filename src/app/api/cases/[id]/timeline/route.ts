@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { getTenantRedactions } from '@/lib/ai/guardrail-settings';
+import { redactIncoming, redactionMetadata, saveRedactedOriginal } from '@/lib/privacy';
 import type { TimelineEvent } from '@/types';
 
 // GET /api/cases/[id]/timeline - Get timeline events for a case
@@ -9,11 +12,9 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
-    const tenantId = request.headers.get('x-tenant-id');
-    
-    if (!tenantId) {
-      return NextResponse.json({ error: 'Tenant ID required' }, { status: 400 });
-    }
+    const auth = await authenticateRequest(request, { permission: 'case:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
     
     const db = adminDb();
     if (!db) {
@@ -70,11 +71,9 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
-    const tenantId = request.headers.get('x-tenant-id');
-    
-    if (!tenantId) {
-      return NextResponse.json({ error: 'Tenant ID required' }, { status: 400 });
-    }
+    const auth = await authenticateRequest(request, { permission: 'case:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
     
     const db = adminDb();
     if (!db) {
@@ -105,16 +104,18 @@ export async function POST(
     }
     
     const now = new Date();
+    const redacted = redactIncoming(String(content), await getTenantRedactions(tenantId));
     const eventData = {
       type,
       level,
-      content,
-      metadata: body.metadata || {},
+      content: redacted.text,
+      metadata: { ...(body.metadata || {}), ...redactionMetadata(redacted) },
       createdBy: createdBy || 'system',
       createdAt: now,
     };
     
     const eventRef = await caseRef.collection('timeline').add(eventData);
+    await saveRedactedOriginal(tenantId, id, eventRef.id, redacted);
     
     // Update case updatedAt
     await caseRef.update({ updatedAt: now });
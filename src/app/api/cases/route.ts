@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
-import { generateTicketNumber } from '@/lib/firebase/cases';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { generateTicketNumber, recordAgentTurn } from '@/lib/cases';
 import { processL1Request, type L1AgentContext } from '@/lib/ai/l1-agent';
+import { loadPlaybookVariables } from '@/lib/playbooks/state';
+import { getTenantRedactions } from '@/lib/ai/guardrail-settings';
+import { redactIncoming, redactionMetadata, saveRedactedOriginal } from '@/lib/privacy';
 import { sendL3EscalationSlack } from '@/lib/notifications/slack';
 import type { Case, CaseStatus, CaseSeverity, SupportLevel } from '@/types';
 
@@ -9,11 +13,9 @@ import type { Case, CaseStatus, CaseSeverity, SupportLevel } from '@/types';
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const tenantId = request.headers.get('x-tenant-id');
-    
-    if (!tenantId) {
-      return NextResponse.json({ error: 'Tenant ID required' }, { status: 400 });
-    }
+    const auth = await authenticateRequest(request, { permission: 'case:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
     
     const db = adminDb();
     if (!db) {
@@ -102,11 +104,9 @@ export async function GET(request: NextRequest) {
 // POST /api/cases - Create a new case
 export async function POST(request: NextRequest) {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
-    
-    if (!tenantId) {
-      return NextResponse.json({ error: 'Tenant ID required' }, { status: 400 });
-    }
+    const auth = await authenticateRequest(request, { permission: 'case:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
     
     const db = adminDb();
     if (!db) {
@@ -153,8 +153,14 @@ export async function POST(request: NextRequest) {
         updatedAt: now,
       });
     
+    // The problem description only reaches the AI and notifications redacted;
+    // its original is kept against the creation event
+    const problem = body.problem
+      ? redactIncoming(String(body.problem), await getTenantRedactions(tenantId))
+      : null;
+    
     // Add initial timeline event
-    await db
+    const createdEvent = await db
       .collection('tenants')
       .doc(tenantId)
       .collection('cases')
@@ -164,10 +170,13 @@ export async function POST(request: NextRequest) {
         type: 'call_started',
         level: 'L1',
         content: `Case ${ticketNumber} created`,
-        metadata: { source: body.source || 'api' },
+        metadata: { source: body.source || 'api', ...(problem && redactionMetadata(problem)) },
         createdBy: 'system',
         createdAt: now,
       });
+    if (problem) {
+      await saveRedactedOriginal(tenantId, caseRef.id, createdEvent.id, problem, 'problem');
+    }
     
     // If there's a problem description, process with L1 AI
     let aiResponse: string | null = null;
@@ -175,7 +184,7 @@ export async function POST(request: NextRequest) {
     let escalationLevel: string | undefined;
     let escalationReason: string | undefined;
     
-    if (body.problem) {
+    if (problem) {
       try {
         const context: L1AgentContext = {
           tenantId,
@@ -187,9 +196,11 @@ export async function POST(request: NextRequest) {
           customerName: customerContact?.name,
           conversationHistory: [],
           failedAttempts: 0,
+          source: body.source || 'api',
+          variables: await loadPlaybookVariables(tenantId, caseRef.id),
         };
         
-        const l1Result = await processL1Request(context, body.problem);
+        const l1Result = await processL1Request(context, problem.text);
         aiResponse = l1Result.message;
         shouldEscalate = l1Result.shouldEscalate;
         escalationLevel = l1Result.escalationLevel;
@@ -208,23 +219,18 @@ export async function POST(request: NextRequest) {
           timelineMetadata.sources = l1Result.sources;
         }
         
-        await db
-          .collection('tenants')
-          .doc(tenantId)
-          .collection('cases')
-          .doc(caseRef.id)
-          .collection('timeline')
-          .add({
-            type: 'ai_response',
-            level: 'L1',
-            content: aiResponse || 'AI response generated',
-            metadata: timelineMetadata,
-            createdBy: 'ai',
-            createdAt: new Date(),
-          });
+        // Record the turn - a matching playbook starts with the case
+        await recordAgentTurn(
+          tenantId,
+          caseRef.id,
+          { ...l1Result, message: aiResponse || 'AI response generated' },
+          { metadata: timelineMetadata }
+        );
         
-        // Handle escalation or auto-resolve
-        if (shouldEscalate && escalationLevel === 'L3') {
+        // Handle incident, escalation or auto-resolve
+        if (l1Result.incident) {
+          // Known incident - the case was linked to it and is resolved with it
+        } else if (shouldEscalate && escalationLevel === 'L3') {
           // Escalate to human (L3)
           await db
             .collection('tenants')
@@ -244,7 +250,7 @@ export async function POST(request: NextRequest) {
             caseNumber: ticketNumber,
             customerName: customerContact?.name || customerContact?.email || 'Customer',
             priority: severity as 'low' | 'medium' | 'high' | 'critical',
-            summary: body.problem.substring(0, 200),
+            summary: problem.text.substring(0, 200),
             escalationReason: escalationReason || 'L1 AI escalated to human',
             dashboardUrl: `${baseUrl}/en/dashboard/cases/${caseRef.id}`,
           });
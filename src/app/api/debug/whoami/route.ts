@@ -1,22 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
 
-// Debug endpoint to check tenant ID / user info
-// GET /api/debug/whoami?tenant=YOUR_TENANT_ID
+// Identity introspection - returns the principal the API resolves for this request
+// GET /api/debug/whoami (Authorization: Bearer <Firebase ID token | API key>)
 export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url);
-  const tenantId = searchParams.get('tenant') || request.headers.get('x-tenant-id');
-  
-  return NextResponse.json({
-    message: 'Use this to verify your tenant ID matches',
-    providedTenantId: tenantId,
-    instructions: [
-      '1. Open browser console on TechSupport AI dashboard',
-      '2. Run: firebase.auth().currentUser?.uid',
-      '3. Compare that UID with TECHSUPPORT_TENANT_ID in CommandDesk Vercel',
-      '4. They must match exactly',
-    ],
-    checkCasesUrl: tenantId 
-      ? `https://tech-support-ai-one.vercel.app/api/cases` 
-      : 'Add ?tenant=YOUR_TENANT_ID to check',
-  });
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.ok) return authErrorResponse(auth);
+
+    const { principal } = auth;
+
+    return NextResponse.json({
+      type: principal.type,
+      tenantId: principal.tenantId,
+      role: principal.role,
+      uid: principal.uid,
+      email: principal.email,
+      keyId: principal.keyId,
+      keyName: principal.keyName,
+      scopes: principal.scopes,
+    });
+  } catch (error) {
+    console.error('Error resolving identity:', error);
+    return NextResponse.json({ error: 'Failed to resolve identity' }, { status: 500 });
+  }
 }
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { getIncident, updateIncident } from '@/lib/incidents';
+
+// GET /api/incidents/[id] - Get an incident
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authenticateRequest(request, { permission: 'incident:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const incident = await getIncident(tenantId, id);
+    if (!incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(incident);
+  } catch (error) {
+    console.error('Error fetching incident:', error);
+    return NextResponse.json({ error: 'Failed to fetch incident' }, { status: 500 });
+  }
+}
+
+// PATCH /api/incidents/[id] - Update an incident's details or status
+// Setting status to "resolved" also resolves every open case linked to it
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authenticateRequest(request, { permission: 'incident:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId, uid, keyId } = auth.principal;
+
+    const body = await request.json();
+    const result = await updateIncident(tenantId, id, body, { savedBy: uid || `api_key:${keyId}` });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ ...result.incident, casesResolved: result.casesResolved });
+  } catch (error) {
+    console.error('Error updating incident:', error);
+    return NextResponse.json({ error: 'Failed to update incident' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { listIncidents, createIncident, isIncidentActive } from '@/lib/incidents';
+
+// GET /api/incidents - The tenant's incidents, newest first (?active=true for active ones only)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { permission: 'incident:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const { searchParams } = new URL(request.url);
+    const incidents = await listIncidents(tenantId);
+
+    return NextResponse.json({
+      incidents: searchParams.get('active') === 'true' ? incidents.filter(isIncidentActive) : incidents,
+    });
+  } catch (error) {
+    console.error('Error fetching incidents:', error);
+    return NextResponse.json({ error: 'Failed to fetch incidents' }, { status: 500 });
+  }
+}
+
+// POST /api/incidents - Declare an incident
+// Body: { title, products, keywords?, status?, customerMessage, eta? }
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { permission: 'incident:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId, uid, keyId } = auth.principal;
+
+    const body = await request.json();
+    const result = await createIncident(tenantId, body, { savedBy: uid || `api_key:${keyId}` });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.incident, { status: 201 });
+  } catch (error) {
+    console.error('Error creating incident:', error);
+    return NextResponse.json({ error: 'Failed to create incident' }, { status: 500 });
+  }
+}
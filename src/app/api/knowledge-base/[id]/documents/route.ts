@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
 
 // GET /api/knowledge-base/[id]/documents - List documents in a KB
 export async function GET(
@@ -8,11 +9,9 @@ export async function GET(
 ) {
   try {
     const { id: kbId } = await params;
-    const tenantId = request.headers.get('x-tenant-id');
-    
-    if (!tenantId) {
-      return NextResponse.json({ error: 'Tenant ID required' }, { status: 400 });
-    }
+    const auth = await authenticateRequest(request, { permission: 'kb:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
     
     const db = adminDb();
     if (!db) {
@@ -70,11 +69,9 @@ export async function POST(
 ) {
   try {
     const { id: kbId } = await params;
-    const tenantId = request.headers.get('x-tenant-id');
-    
-    if (!tenantId) {
-      return NextResponse.json({ error: 'Tenant ID required' }, { status: 400 });
-    }
+    const auth = await authenticateRequest(request, { permission: 'kb:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
     
     const db = adminDb();
     if (!db) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
 import { retrieveRelevantChunks, assembleContextWithSources } from '@/lib/knowledge-base/retrieval';
 
 // POST /api/knowledge-base/[id]/query - Query a knowledge base for relevant content
@@ -9,11 +10,9 @@ export async function POST(
 ) {
   try {
     const { id: kbId } = await params;
-    const tenantId = request.headers.get('x-tenant-id');
-    
-    if (!tenantId) {
-      return NextResponse.json({ error: 'Tenant ID required' }, { status: 400 });
-    }
+    const auth = await authenticateRequest(request, { permission: 'kb:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
     
     const db = adminDb();
     if (!db) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
 import { chunkText, extractTextFromMarkdown, extractTextFromHTML } from '@/lib/knowledge-base/chunker';
 import { generateEmbeddings } from '@/lib/knowledge-base/embeddings';
 import { upsertVectors, deleteVectorsByKB, VectorRecord } from '@/lib/pinecone';
@@ -9,13 +10,14 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  // Set once the caller is authenticated, to mark the KB as failed
+  let authTenantId: string | null = null;
   try {
     const { id: kbId } = await params;
-    const tenantId = request.headers.get('x-tenant-id');
-    
-    if (!tenantId) {
-      return NextResponse.json({ error: 'Tenant ID required' }, { status: 400 });
-    }
+    const auth = await authenticateRequest(request, { permission: 'kb:train' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+    authTenantId = tenantId;
     
     const db = adminDb();
     if (!db) {
@@ -180,13 +182,12 @@ export async function POST(
     // Try to mark as error
     try {
       const { id: kbId } = await params;
-      const tenantId = request.headers.get('x-tenant-id');
-      if (tenantId) {
+      if (authTenantId) {
         const db = adminDb();
         if (db) {
           await db
             .collection('tenants')
-            .doc(tenantId)
+            .doc(authTenantId)
             .collection('knowledgeBases')
             .doc(kbId)
             .update({ status: 'error', updatedAt: new Date() });
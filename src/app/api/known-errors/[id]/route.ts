@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { saveKnownError, deleteKnownError } from '@/lib/diagnostics';
+
+// PUT /api/known-errors/[id] - Replace a known error
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authenticateRequest(request, { permission: 'kb:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId, uid, keyId } = auth.principal;
+
+    const body = await request.json();
+    const result = await saveKnownError(tenantId, body, { id, savedBy: uid || `api_key:${keyId}` });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.knownError);
+  } catch (error) {
+    console.error('Error saving known error:', error);
+    return NextResponse.json({ error: 'Failed to save known error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/known-errors/[id] - Remove a known error
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authenticateRequest(request, { permission: 'kb:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const deleted = await deleteKnownError(tenantId, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Known error not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting known error:', error);
+    return NextResponse.json({ error: 'Failed to delete known error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { listKnownErrors, saveKnownError } from '@/lib/diagnostics';
+
+// GET /api/known-errors - The tenant's known-error catalogue used by analyze_error
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { permission: 'kb:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const knownErrors = await listKnownErrors(tenantId);
+
+    return NextResponse.json({ knownErrors });
+  } catch (error) {
+    console.error('Error fetching known errors:', error);
+    return NextResponse.json({ error: 'Failed to fetch known errors' }, { status: 500 });
+  }
+}
+
+// POST /api/known-errors - Add a known error
+// Body: { title, pattern?, errorType?, statusCode?, product?, resolution?, kbArticles?, enabled? }
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { permission: 'kb:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId, uid, keyId } = auth.principal;
+
+    const body = await request.json();
+    const result = await saveKnownError(tenantId, body, { savedBy: uid || `api_key:${keyId}` });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.knownError, { status: 201 });
+  } catch (error) {
+    console.error('Error creating known error:', error);
+    return NextResponse.json({ error: 'Failed to create known error' }, { status: 500 });
+  }
+}
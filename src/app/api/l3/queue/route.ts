@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getL3Queue, getQueueStats, assignToAgent, updateQueueItemStatus } from '@/lib/l3';
+import { getL3Queue, getQueueItem, getQueueStats, getAgent, assignToAgent, updateQueueItemStatus } from '@/lib/l3';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
 
 /**
  * GET /api/l3/queue - Get L3 queue for a tenant
@@ -7,17 +8,13 @@ import { getL3Queue, getQueueStats, assignToAgent, updateQueueItemStatus } from
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const tenantId = searchParams.get('tenantId');
     const status = searchParams.get('status');
     const agentId = searchParams.get('agentId');
     const includeStats = searchParams.get('includeStats') === 'true';
 
-    if (!tenantId) {
-      return NextResponse.json(
-        { error: 'tenantId is required' },
-        { status: 400 }
-      );
-    }
+    const auth = await authenticateRequest(request, { permission: 'l3:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
 
     const statusFilter = status?.split(',') as ('queued' | 'assigned' | 'in_progress' | 'resolved')[] | undefined;
 
@@ -57,6 +54,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const auth = await authenticateRequest(request, { permission: 'l3:assign' });
+    if (!auth.ok) return authErrorResponse(auth);
+
+    const queueItem = await getQueueItem(queueItemId);
+    if (!queueItem || queueItem.tenantId !== auth.principal.tenantId) {
+      return NextResponse.json(
+        { error: 'Queue item not found' },
+        { status: 404 }
+      );
+    }
+
     switch (action) {
       case 'assign':
         if (!agentId || !agentName) {
@@ -65,7 +73,15 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        await assignToAgent(queueItemId, agentId, agentName);
+        // Only human support members are on the L3 roster
+        const agent = await getAgent(auth.principal.tenantId, agentId);
+        if (!agent) {
+          return NextResponse.json(
+            { error: 'Agent is not on the L3 roster' },
+            { status: 400 }
+          );
+        }
+        await assignToAgent(auth.principal.tenantId, queueItemId, agentId, agentName);
         return NextResponse.json({ success: true, action: 'assigned' });
 
       case 'updateStatus':
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { resolveL3Case } from '@/lib/l3';
-import { getCase, updateCase, addTimelineEvent } from '@/lib/firebase/cases';
+import { resolveL3Case, getQueueItem } from '@/lib/l3';
+import { getCase, updateCase, addTimelineEvent } from '@/lib/cases';
 import { notifyCommandDesk, generateCustomerResponse } from '@/lib/webhooks/commanddesk';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
 
 /**
  * POST /api/l3/resolve - Resolve an L3 case
@@ -12,7 +13,6 @@ export async function POST(request: NextRequest) {
     const {
       queueItemId,
       caseId,
-      tenantId,
       agentId,
       resolution,
       rootCause,
@@ -20,9 +20,13 @@ export async function POST(request: NextRequest) {
       internalNotes,
     } = body;
 
-    if (!queueItemId || !caseId || !tenantId || !agentId) {
+    const auth = await authenticateRequest(request, { tenantId: body.tenantId, permission: 'l3:resolve' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    if (!queueItemId || !caseId || !agentId) {
       return NextResponse.json(
-        { error: 'queueItemId, caseId, tenantId, and agentId are required' },
+        { error: 'queueItemId, caseId, and agentId are required' },
         { status: 400 }
       );
     }
@@ -34,8 +38,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const queueItem = await getQueueItem(queueItemId);
+    if (!queueItem || queueItem.tenantId !== tenantId || queueItem.caseId !== caseId) {
+      return NextResponse.json(
+        { error: 'Queue item not found' },
+        { status: 404 }
+      );
+    }
+
     // Resolve in L3 queue
-    await resolveL3Case(queueItemId, agentId);
+    await resolveL3Case(tenantId, queueItemId, agentId);
 
     // Update case status (resolvedAt is set via serverTimestamp in updateCase)
     await updateCase(tenantId, caseId, {
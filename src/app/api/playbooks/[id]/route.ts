@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { getPlaybookRecord, savePlaybook, deletePlaybook } from '@/lib/playbooks/store';
+import type { Playbook } from '@/lib/playbooks/types';
+
+// Playbook IDs are Firestore document IDs and appear in URLs
+const PLAYBOOK_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+// GET /api/playbooks/[id] - Get a playbook for editing
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authenticateRequest(request, { permission: 'playbook:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const record = await getPlaybookRecord(tenantId, id);
+    if (!record) {
+      return NextResponse.json({ error: 'Playbook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(record);
+  } catch (error) {
+    console.error('Error fetching playbook:', error);
+    return NextResponse.json({ error: 'Failed to fetch playbook' }, { status: 500 });
+  }
+}
+
+// PUT /api/playbooks/[id] - Save a new version of a tenant playbook
+// Body: { playbook, baseVersion } where baseVersion is the version being edited (omit for new playbooks)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authenticateRequest(request, { permission: 'playbook:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId, uid, keyId } = auth.principal;
+
+    const body = await request.json();
+    const playbook = body.playbook as Playbook | undefined;
+    if (!playbook?.metadata) {
+      return NextResponse.json({ error: 'Missing required field: playbook' }, { status: 400 });
+    }
+    if (playbook.metadata.id !== id) {
+      return NextResponse.json({ error: 'Playbook ID does not match the URL' }, { status: 400 });
+    }
+    if (!PLAYBOOK_ID_PATTERN.test(id)) {
+      return NextResponse.json(
+        { error: 'Playbook ID may only contain lowercase letters, numbers, dashes and underscores' },
+        { status: 400 }
+      );
+    }
+
+    const result = await savePlaybook(tenantId, playbook, {
+      baseVersion: body.baseVersion || undefined,
+      savedBy: uid || `api_key:${keyId}`,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, validation: result.validation },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(result.record);
+  } catch (error) {
+    console.error('Error saving playbook:', error);
+    return NextResponse.json({ error: 'Failed to save playbook' }, { status: 500 });
+  }
+}
+
+// DELETE /api/playbooks/[id] - Delete a tenant playbook (built-ins can't be deleted)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authenticateRequest(request, { permission: 'playbook:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const deleted = await deletePlaybook(tenantId, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Playbook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting playbook:', error);
+    return NextResponse.json({ error: 'Failed to delete playbook' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { listPlaybooks } from '@/lib/playbooks/store';
+
+// GET /api/playbooks - Built-in and tenant playbooks available to the L1 agent
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { permission: 'playbook:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const playbooks = await listPlaybooks(tenantId);
+
+    return NextResponse.json({ playbooks });
+  } catch (error) {
+    console.error('Error fetching playbooks:', error);
+    return NextResponse.json({ error: 'Failed to fetch playbooks' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { validatePlaybook } from '@/lib/playbooks/engine';
+import { ensurePlaybooksLoaded } from '@/lib/playbooks/loader';
+import {
+  runPlaybookScenarios,
+  createLLMOutcomeClassifier,
+  createStubOutcomeProvider,
+  type SimulationScenario,
+} from '@/lib/playbooks/simulator';
+import type { Playbook } from '@/lib/playbooks/types';
+
+const MAX_SCENARIOS = 50;
+const MAX_TURNS = 100;
+
+// POST /api/playbooks/simulate - Dry-run scripted conversations through a playbook
+// Body: { scenarios: SimulationScenario[], playbook?: Playbook, mode?: 'scripted' | 'stub' }
+// Without `playbook`, scenarios run against the tenant's saved and built-in playbooks.
+// mode 'stub' classifies turns without a declared outcome using a stubbed LLM provider.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { permission: 'playbook:read' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const body = await request.json();
+    const scenarios = body.scenarios as SimulationScenario[] | undefined;
+    const mode = body.mode || 'scripted';
+
+    if (!Array.isArray(scenarios) || scenarios.length === 0) {
+      return NextResponse.json({ error: 'Missing required field: scenarios' }, { status: 400 });
+    }
+    if (scenarios.length > MAX_SCENARIOS) {
+      return NextResponse.json({ error: `At most ${MAX_SCENARIOS} scenarios per request` }, { status: 400 });
+    }
+    if (scenarios.some((s) => !Array.isArray(s.turns) || s.turns.length > MAX_TURNS)) {
+      return NextResponse.json(
+        { error: `Each scenario needs a turns array of at most ${MAX_TURNS} turns` },
+        { status: 400 }
+      );
+    }
+    if (mode !== 'scripted' && mode !== 'stub') {
+      return NextResponse.json({ error: "mode must be 'scripted' or 'stub'" }, { status: 400 });
+    }
+
+    // An unsaved playbook is tested on its own
+    let playbooks: Playbook[] | undefined;
+    if (body.playbook) {
+      const validation = validatePlaybook(body.playbook);
+      if (!validation.valid) {
+        return NextResponse.json({ error: 'Playbook has validation errors', validation }, { status: 400 });
+      }
+      playbooks = [body.playbook];
+    } else {
+      await ensurePlaybooksLoaded(tenantId);
+    }
+
+    let summary;
+    try {
+      summary = await runPlaybookScenarios(scenarios, {
+        tenantId,
+        playbooks,
+        classifyOutcome: mode === 'stub' ? createLLMOutcomeClassifier(createStubOutcomeProvider()) : undefined,
+      });
+    } catch (error) {
+      // Script errors, e.g. a turn without an outcome in scripted mode
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid scenario' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error simulating playbook:', error);
+    return NextResponse.json({ error: 'Failed to simulate playbook' }, { status: 500 });
+  }
+}
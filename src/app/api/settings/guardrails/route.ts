@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { getGuardrailPolicy, saveGuardrailPolicy } from '@/lib/ai/guardrail-settings';
+
+// GET /api/settings/guardrails - The tenant's guardrail policy
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { permission: 'settings:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const policy = await getGuardrailPolicy(tenantId);
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error('Error fetching guardrail policy:', error);
+    return NextResponse.json({ error: 'Failed to fetch guardrail policy' }, { status: 500 });
+  }
+}
+
+// PUT /api/settings/guardrails - Replace the guardrail policy
+// Body: { keywords?, disabledKeywords?, redactions?, humanEscalationSeverity?, escalationClassifier?, blockedActions?, promptInjection?, grounding? }
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { permission: 'settings:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const body = await request.json();
+    const result = await saveGuardrailPolicy(tenantId, body);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ policy: result.policy });
+  } catch (error) {
+    console.error('Error saving guardrail policy:', error);
+    return NextResponse.json({ error: 'Failed to save guardrail policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { revokeInvitation } from '@/lib/team';
+
+// DELETE /api/team/invitations/[id] - Revoke a pending invitation
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authenticateRequest(request, { permission: 'team:manage' });
+    if (!auth.ok) return authErrorResponse(auth);
+
+    const revoked = await revokeInvitation(auth.principal.tenantId, id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking invitation:', error);
+    return NextResponse.json({ error: 'Failed to revoke invitation' }, { status: 500 });
+  }
+}
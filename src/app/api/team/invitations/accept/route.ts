@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase/admin';
+import { verifyUserIdentity } from '@/lib/auth';
+import { acceptInvitation, getInvitationByToken } from '@/lib/team';
+
+// GET /api/team/invitations/accept?token=... - Preview an invitation before accepting
+// The token is the secret from the accept link, so no sign-in is required
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+    if (!token) {
+      return NextResponse.json({ error: 'token is required' }, { status: 400 });
+    }
+
+    const invitation = await getInvitationByToken(token);
+    if (!invitation) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    const tenantDoc = await adminDb().collection('tenants').doc(invitation.tenantId).get();
+
+    return NextResponse.json({
+      tenantName: tenantDoc.data()?.name || 'a team',
+      email: invitation.email,
+      role: invitation.role,
+      invitedByName: invitation.invitedByName,
+      status: invitation.status,
+      expired: invitation.expiresAt.getTime() < Date.now(),
+    });
+  } catch (error) {
+    console.error('Error fetching invitation:', error);
+    return NextResponse.json({ error: 'Failed to fetch invitation' }, { status: 500 });
+  }
+}
+
+// POST /api/team/invitations/accept - Join the inviting tenant as the signed-in user
+export async function POST(request: NextRequest) {
+  try {
+    const identity = await verifyUserIdentity(request);
+    if (!identity.ok) {
+      return NextResponse.json({ error: identity.error }, { status: identity.status });
+    }
+
+    const body = await request.json();
+    if (!body.token) {
+      return NextResponse.json({ error: 'token is required' }, { status: 400 });
+    }
+
+    const result = await acceptInvitation(body.token, identity);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      tenantId: result.member.tenantId,
+      role: result.member.role,
+    });
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    return NextResponse.json({ error: 'Failed to accept invitation' }, { status: 500 });
+  }
+}
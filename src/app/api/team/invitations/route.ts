@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase/admin';
+import { authenticateRequest, authErrorResponse, USER_ROLES } from '@/lib/auth';
+import { createInvitation, listInvitations, listMembers } from '@/lib/team';
+import { sendTeamInvitationEmail } from '@/lib/notifications';
+import type { UserRole } from '@/types';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// GET /api/team/invitations - List pending invitations
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { permission: 'team:manage' });
+    if (!auth.ok) return authErrorResponse(auth);
+
+    const invitations = await listInvitations(auth.principal.tenantId);
+
+    return NextResponse.json({ invitations });
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    return NextResponse.json({ error: 'Failed to fetch invitations' }, { status: 500 });
+  }
+}
+
+// POST /api/team/invitations - Invite someone by email
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { permission: 'team:manage' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId, uid, email: inviterEmail } = auth.principal;
+
+    const body = await request.json();
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+    const role = body.role as UserRole;
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+    if (!USER_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `role must be one of: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const members = await listMembers(tenantId);
+    if (members.some((m) => m.email.toLowerCase() === email)) {
+      return NextResponse.json({ error: 'This person is already a member' }, { status: 409 });
+    }
+
+    const inviter = members.find((m) => m.uid === uid);
+    const invitedByName = inviter?.displayName || inviterEmail || 'A teammate';
+
+    const { token, invitation } = await createInvitation(tenantId, {
+      email,
+      role,
+      invitedBy: uid || auth.principal.keyId || 'api',
+      invitedByName,
+    });
+
+    const tenantDoc = await adminDb().collection('tenants').doc(tenantId).get();
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const acceptUrl = `${baseUrl}/en/invite/${token}`;
+
+    const emailResult = await sendTeamInvitationEmail(email, {
+      tenantName: tenantDoc.data()?.name || 'your team',
+      invitedByName,
+      role,
+      acceptUrl,
+    });
+    if (!emailResult.success) {
+      console.warn('Failed to send invitation email:', emailResult.error);
+    }
+
+    // The accept link is returned so it can be shared manually if email delivery fails
+    return NextResponse.json(
+      { invitation, acceptUrl, emailSent: emailResult.success },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating invitation:', error);
+    return NextResponse.json({ error: 'Failed to create invitation' }, { status: 500 });
+  }
+}
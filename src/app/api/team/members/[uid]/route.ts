@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse, USER_ROLES } from '@/lib/auth';
+import { getMember, updateMemberRole, removeMember, countOwners } from '@/lib/team';
+import type { UserRole } from '@/types';
+
+// PATCH /api/team/members/[uid] - Change a member's role
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ uid: string }> }
+) {
+  try {
+    const { uid } = await params;
+    const auth = await authenticateRequest(request, { permission: 'team:manage' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const body = await request.json();
+    const role = body.role as UserRole;
+    if (!USER_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `role must be one of: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const member = await getMember(tenantId, uid);
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    if (member.role === 'owner' && role !== 'owner' && (await countOwners(tenantId)) <= 1) {
+      return NextResponse.json(
+        { error: 'A team must keep at least one owner' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateMemberRole(tenantId, uid, role);
+
+    return NextResponse.json({ member: updated });
+  } catch (error) {
+    console.error('Error updating team member:', error);
+    return NextResponse.json({ error: 'Failed to update team member' }, { status: 500 });
+  }
+}
+
+// DELETE /api/team/members/[uid] - Remove a member from the team
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ uid: string }> }
+) {
+  try {
+    const { uid } = await params;
+    const auth = await authenticateRequest(request, { permission: 'team:manage' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
+    const member = await getMember(tenantId, uid);
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    // The workspace owner's own membership anchors the tenant (tenant ID == owner UID)
+    if (uid === tenantId) {
+      return NextResponse.json(
+        { error: 'The workspace creator cannot be removed' },
+        { status: 400 }
+      );
+    }
+
+    if (member.role === 'owner' && (await countOwners(tenantId)) <= 1) {
+      return NextResponse.json(
+        { error: 'A team must keep at least one owner' },
+        { status: 400 }
+      );
+    }
+
+    await removeMember(tenantId, uid);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing team member:', error);
+    return NextResponse.json({ error: 'Failed to remove team member' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
+import { listMembers } from '@/lib/team';
+
+// GET /api/team/members - List members of the caller's tenant
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.ok) return authErrorResponse(auth);
+
+    const members = await listMembers(auth.principal.tenantId);
+
+    return NextResponse.json({ members });
+  } catch (error) {
+    console.error('Error fetching team members:', error);
+    return NextResponse.json({ error: 'Failed to fetch team members' }, { status: 500 });
+  }
+}
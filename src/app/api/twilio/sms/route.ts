@@ -1,17 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { twiml } from 'twilio';
-import { createCase, getCasesByPhone, addTimelineEvent, updateCase } from '@/lib/firebase/cases';
+import { createCase, getCasesByPhone, addTimelineEvent, updateCase, recordAgentTurn } from '@/lib/cases';
 import { processL1Request } from '@/lib/ai/l1-agent';
+import { loadConversationHistory, type ConversationMessage } from '@/lib/ai/history';
+import { loadPlaybookState, loadPlaybookVariables } from '@/lib/playbooks/state';
+import { getTenantRedactions } from '@/lib/ai/guardrail-settings';
+import { redactIncoming, redactionMetadata, saveRedactedOriginal } from '@/lib/privacy';
+import type { PlaybookExecutionState } from '@/lib/playbooks/types';
+import { withTwilioWebhook } from '@/lib/twilio/webhook';
 
 /**
  * Handle inbound SMS messages
  * POST /api/twilio/sms
  */
-export async function POST(request: NextRequest) {
+export const POST = withTwilioWebhook(async (_request: NextRequest, { params, route }) => {
   try {
-    const formData = await request.formData();
-    const params = Object.fromEntries(formData.entries()) as Record<string, string>;
-    
     const {
       MessageSid,
       From,
@@ -19,13 +22,26 @@ export async function POST(request: NextRequest) {
       Body,
     } = params;
     
-    // Default tenant (in production, map phone number to tenant)
-    const tenantId = 'demo-tenant';
-    const language = detectLanguage(Body);
+    // The tenant comes from the number the customer texted
+    if (!route) {
+      console.warn('SMS received on unrouted number:', To);
+      const response = new twiml.MessagingResponse();
+      response.message(
+        'Thanks for your message. This number is not currently set up for support. Please check the number and try again.'
+      );
+      return new NextResponse(response.toString(), {
+        headers: { 'Content-Type': 'text/xml' },
+      });
+    }
+    
+    const { tenantId, defaultProduct: product } = route;
+    const category = route.defaultCategory || 'sms_support';
+    const language = detectLanguage(Body) || route.defaultLanguage;
     
     // Check for existing open case from this phone number
     let caseId: string | undefined;
-    let conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+    let conversationHistory: ConversationMessage[] = [];
+    let playbookState: PlaybookExecutionState | undefined;
     
     const existingCases = await getCasesByPhone(tenantId, From);
     const openCase = existingCases.find(
@@ -34,13 +50,15 @@ export async function POST(request: NextRequest) {
     
     if (openCase && openCase.id) {
       caseId = openCase.id;
-      // TODO: Load conversation history from timeline
+      // Loaded before this message is logged; the L1 agent receives it separately
+      conversationHistory = await loadConversationHistory(tenantId, caseId);
+      playbookState = await loadPlaybookState(tenantId, caseId);
     } else {
       // Create new case
       const newCase = await createCase(tenantId, {
         tenantId,
-        product: 'General',
-        category: 'sms_support',
+        product,
+        category,
         severity: 'medium',
         language,
         status: 'open',
@@ -51,31 +69,33 @@ export async function POST(request: NextRequest) {
       });
       caseId = newCase.id!;
       
-      // Log case creation
+      // Log case creation - the caller's number stays on customerContact, out of the timeline
       await addTimelineEvent(tenantId, caseId, {
         type: 'sms_sent',
         level: 'L1',
-        content: `New SMS conversation started from ${From}`,
+        content: 'New SMS conversation started',
         metadata: {
           messageSid: MessageSid,
-          from: From,
           to: To,
         },
         createdBy: 'system',
       });
     }
     
-    // Log incoming message
-    await addTimelineEvent(tenantId, caseId, {
+    // Log incoming message - only the redacted copy is stored or sent to the AI
+    const incoming = redactIncoming(Body, await getTenantRedactions(tenantId));
+    const inboundEvent = await addTimelineEvent(tenantId, caseId, {
       type: 'sms_sent',
       level: 'L1',
-      content: Body,
+      content: incoming.text,
       metadata: {
         messageSid: MessageSid,
         direction: 'inbound',
+        ...redactionMetadata(incoming),
       },
       createdBy: 'system',
     });
+    await saveRedactedOriginal(tenantId, caseId, inboundEvent.id, incoming);
     
     // Check for special commands
     if (Body.toLowerCase().trim() === 'human' || Body.toLowerCase().trim() === 'agent') {
@@ -118,26 +138,26 @@ export async function POST(request: NextRequest) {
       {
         tenantId,
         caseId,
-        product: 'General',
-        category: 'sms_support',
+        product,
+        category,
         language,
         severity: 'medium',
+        source: 'sms',
         conversationHistory,
+        playbookState,
+        variables: await loadPlaybookVariables(tenantId, caseId),
+        incidentId: openCase?.incidentId,
       },
-      Body
+      incoming.text
     );
     
-    // Log AI response
-    await addTimelineEvent(tenantId, caseId, {
-      type: 'ai_response',
-      level: 'L1',
-      content: aiResponse.message,
+    // Log AI response; playbook progress is saved for the next message
+    await recordAgentTurn(tenantId, caseId, aiResponse, {
       metadata: {
         tokensUsed: aiResponse.metadata.tokensUsed,
         ragChunksUsed: aiResponse.metadata.ragChunksUsed,
         shouldEscalate: aiResponse.shouldEscalate,
       },
-      createdBy: 'ai',
     });
     
     // Handle escalation
@@ -189,14 +209,13 @@ export async function POST(request: NextRequest) {
       headers: { 'Content-Type': 'text/xml' },
     });
   }
-}
+});
 
 /**
- * Simple language detection based on common patterns
+ * Simple language detection based on common patterns.
+ * Returns null when nothing matches so the number's default language applies.
  */
-function detectLanguage(text: string): string {
-  const lowerText = text.toLowerCase();
-  
+function detectLanguage(text: string): string | null {
   // Simple keyword-based detection
   if (/bonjour|merci|s'il vous plaît|problème/i.test(text)) return 'fr';
   if (/hallo|danke|bitte|hilfe/i.test(text)) return 'de';
@@ -204,6 +223,6 @@ function detectLanguage(text: string): string {
   if (/你好|谢谢|帮助|问题/i.test(text)) return 'zh';
   if (/سلام|متشکرم|کمک|مشکل/i.test(text)) return 'fa';
   
-  return 'en';
+  return null;
 }
 
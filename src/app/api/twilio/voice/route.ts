@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createCase, addTimelineEvent } from '@/lib/firebase/cases';
+import { createCase, addTimelineEvent, recordAgentTurn } from '@/lib/cases';
 import { processL1Request } from '@/lib/ai/l1-agent';
+import { loadConversationHistory } from '@/lib/ai/history';
+import { loadPlaybookState, loadPlaybookVariables } from '@/lib/playbooks/state';
+import { getTenantRedactions } from '@/lib/ai/guardrail-settings';
+import { redactIncoming, redactionMetadata, saveRedactedOriginal } from '@/lib/privacy';
 import {
   createCallGreeting,
   createAIResponse,
   createEscalationResponse,
   createErrorResponse,
   createGoodbye,
+  createUnknownNumberResponse,
 } from '@/lib/twilio/twiml';
+import { withTwilioWebhook } from '@/lib/twilio/webhook';
 
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
 
@@ -15,11 +21,8 @@ const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
  * Handle inbound voice calls
  * POST /api/twilio/voice
  */
-export async function POST(request: NextRequest) {
+export const POST = withTwilioWebhook(async (request: NextRequest, { params, route }) => {
   try {
-    const formData = await request.formData();
-    const params = Object.fromEntries(formData.entries()) as Record<string, string>;
-    
     const {
       CallSid,
       From,
@@ -29,11 +32,21 @@ export async function POST(request: NextRequest) {
       Digits,
     } = params;
     
-    // Detect language from request (could be from URL param or default)
+    // The tenant comes from the number that was called (Twilio sends To on every callback)
+    if (!route) {
+      console.warn('Call received on unrouted number:', To);
+      return new NextResponse(createUnknownNumberResponse(), {
+        headers: { 'Content-Type': 'text/xml' },
+      });
+    }
+    
+    const { tenantId, defaultProduct: product } = route;
+    const category = route.defaultCategory || 'phone_support';
+    
+    // Language carries over between gather callbacks; new calls use the number's default
     const url = new URL(request.url);
-    const language = url.searchParams.get('lang') || 'en';
+    const language = url.searchParams.get('lang') || route.defaultLanguage;
     const caseId = url.searchParams.get('caseId');
-    const tenantId = url.searchParams.get('tenantId') || 'demo-tenant';
     
     // If user pressed 1, escalate to human immediately
     if (Digits === '1') {
@@ -47,8 +60,8 @@ export async function POST(request: NextRequest) {
       // Create a new support case
       const newCase = await createCase(tenantId, {
         tenantId,
-        product: 'General',
-        category: 'phone_support',
+        product,
+        category,
         severity: 'medium',
         language,
         status: 'open',
@@ -58,21 +71,20 @@ export async function POST(request: NextRequest) {
         },
       });
       
-      // Log timeline event
+      // Log timeline event - the caller's number stays on customerContact, out of the timeline
       await addTimelineEvent(tenantId, newCase.id!, {
         type: 'call_started',
         level: 'L1',
-        content: `Inbound call from ${From}`,
+        content: 'Inbound call',
         metadata: {
           callSid: CallSid,
-          from: From,
           to: To,
         },
         createdBy: 'system',
       });
       
       // Return greeting with gather
-      const gatherUrl = `${APP_URL}/api/twilio/voice?lang=${language}&caseId=${newCase.id}&tenantId=${tenantId}`;
+      const gatherUrl = `${APP_URL}/api/twilio/voice?lang=${language}&caseId=${newCase.id}`;
       return new NextResponse(createCallGreeting(language, gatherUrl), {
         headers: { 'Content-Type': 'text/xml' },
       });
@@ -80,32 +92,40 @@ export async function POST(request: NextRequest) {
     
     // Handle speech input
     if (SpeechResult && caseId) {
+      // Earlier turns of this call (each transcript is stored with its AI response)
+      const conversationHistory = await loadConversationHistory(tenantId, caseId);
+      const playbookState = await loadPlaybookState(tenantId, caseId);
+      
+      // Only the redacted transcript is stored or sent to the AI
+      const speech = redactIncoming(SpeechResult, await getTenantRedactions(tenantId));
+      
       // Process with L1 AI
       const aiResponse = await processL1Request(
         {
           tenantId,
           caseId,
-          product: 'General',
-          category: 'phone_support',
+          product,
+          category,
           language,
           severity: 'medium',
-          conversationHistory: [],
+          source: 'phone',
+          conversationHistory,
+          playbookState,
+          variables: await loadPlaybookVariables(tenantId, caseId),
         },
-        SpeechResult
+        speech.text
       );
       
-      // Log AI interaction
-      await addTimelineEvent(tenantId, caseId, {
-        type: 'ai_response',
-        level: 'L1',
-        content: aiResponse.message,
+      // Log AI interaction; playbook progress is saved for the next turn of the call
+      const interactionEvent = await recordAgentTurn(tenantId, caseId, aiResponse, {
         metadata: {
-          userInput: SpeechResult,
+          userInput: speech.text,
           tokensUsed: aiResponse.metadata.tokensUsed,
           shouldEscalate: aiResponse.shouldEscalate,
+          ...redactionMetadata(speech),
         },
-        createdBy: 'ai',
       });
+      await saveRedactedOriginal(tenantId, caseId, interactionEvent.id, speech, 'metadata.userInput');
       
       // Check if escalation is needed
       if (aiResponse.shouldEscalate) {
@@ -127,7 +147,7 @@ export async function POST(request: NextRequest) {
       }
       
       // Continue conversation
-      const continueUrl = `${APP_URL}/api/twilio/voice?lang=${language}&caseId=${caseId}&tenantId=${tenantId}`;
+      const continueUrl = `${APP_URL}/api/twilio/voice?lang=${language}&caseId=${caseId}`;
       return new NextResponse(
         createAIResponse(aiResponse.message, language, continueUrl),
         { headers: { 'Content-Type': 'text/xml' } }
@@ -136,7 +156,7 @@ export async function POST(request: NextRequest) {
     
     // No input received - prompt again or end call
     if (caseId) {
-      const continueUrl = `${APP_URL}/api/twilio/voice?lang=${language}&caseId=${caseId}&tenantId=${tenantId}`;
+      const continueUrl = `${APP_URL}/api/twilio/voice?lang=${language}&caseId=${caseId}`;
       return new NextResponse(
         createAIResponse(
           "I didn't catch that. Could you please repeat your question?",
@@ -157,4 +177,4 @@ export async function POST(request: NextRequest) {
       headers: { 'Content-Type': 'text/xml' },
     });
   }
-}
+});
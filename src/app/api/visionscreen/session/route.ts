@@ -4,8 +4,9 @@ import {
   getActiveSessionsForCase,
   getSessionJoinUrl,
 } from '@/lib/visionscreen/session';
-import { addTimelineEvent } from '@/lib/firebase/cases';
+import { addTimelineEvent } from '@/lib/cases';
 import { sendSMS } from '@/lib/twilio/client';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth';
 
 /**
  * Create a new VisionScreen session
@@ -16,7 +17,6 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     
     const {
-      tenantId,
       caseId,
       agentId,
       customerPhone,
@@ -26,10 +26,14 @@ export async function POST(request: NextRequest) {
       sendSmsInvite = true,
     } = body;
 
+    const auth = await authenticateRequest(request, { tenantId: body.tenantId, permission: 'case:write' });
+    if (!auth.ok) return authErrorResponse(auth);
+    const { tenantId } = auth.principal;
+
     // Validate required fields
-    if (!tenantId || !caseId) {
+    if (!caseId) {
       return NextResponse.json(
-        { error: 'tenantId and caseId are required' },
+        { error: 'caseId is required' },
         { status: 400 }
       );
     }
@@ -1,14 +1,14 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { onAuthStateChanged, User } from 'firebase/auth';
 import { CaseList, CaseFilters } from './CaseList';
 import { getCases, CaseListResult } from '@/lib/firebase/cases';
+import { usePermissions } from '@/lib/auth/use-permissions';
 import type { Case } from '@/types';
 import { DocumentSnapshot } from 'firebase/firestore';
 
 export function CasesPageContent() {
-  const [user, setUser] = useState<User | null>(null);
+  const { tenantId, loading: identityLoading } = usePermissions();
   const [cases, setCases] = useState<Case[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [hasMore, setHasMore] = useState(false);
@@ -16,32 +16,21 @@ export function CasesPageContent() {
   const [filters, setFilters] = useState<CaseFilters>({});
   const [error, setError] = useState<string | null>(null);
 
-  // Initialize Firebase Auth
+  // Signed out or not a member of any tenant
   useEffect(() => {
-    import('@/lib/firebase/client').then((module) => {
-      const auth = module.auth;
-      if (auth) {
-        const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
-          setUser(currentUser);
-          if (!currentUser) {
-            setIsLoading(false);
-          }
-        });
-        return () => unsubscribe();
-      } else {
-        setIsLoading(false);
-      }
-    });
-  }, []);
+    if (!identityLoading && !tenantId) {
+      setIsLoading(false);
+    }
+  }, [identityLoading, tenantId]);
 
   const fetchCases = useCallback(async (reset: boolean = false) => {
-    if (!user?.uid) {
-      console.log('[CasesPage] No user UID, skipping fetch');
+    if (!tenantId) {
+      console.log('[CasesPage] No tenant, skipping fetch');
       return;
     }
 
     console.log('[CasesPage] Fetching cases...', {
-      tenantId: user.uid,
+      tenantId,
       filters,
       reset,
       hasLastDoc: !!lastDoc,
@@ -52,7 +41,7 @@ export function CasesPageContent() {
 
     try {
       const result: CaseListResult = await getCases(
-        user.uid, // tenantId is the user's Firebase UID
+        tenantId,
         {
           status: filters.status || undefined,
           severity: filters.severity || undefined,
@@ -82,14 +71,14 @@ export function CasesPageContent() {
     } finally {
       setIsLoading(false);
     }
-  }, [user, filters, lastDoc]);
+  }, [tenantId, filters, lastDoc]);
 
   // Initial load and filter changes
   useEffect(() => {
-    if (user?.uid) {
+    if (tenantId) {
       fetchCases(true);
     }
-  }, [user?.uid, filters, fetchCases]);
+  }, [tenantId, filters, fetchCases]);
 
   const handleLoadMore = () => {
     if (!isLoading && hasMore) {
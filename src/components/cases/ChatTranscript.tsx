@@ -15,6 +15,13 @@ interface Message {
 interface ChatTranscriptProps {
   events: TimelineEvent[];
   isLoading?: boolean;
+  // AI reply still streaming in (see readAgentStream); shown after the events
+  streamingReply?: {
+    content: string;
+    level?: 'L1' | 'L2' | 'L3';
+    // Latest tool the agent is running, e.g. "lookup_documentation"
+    activity?: string;
+  } | null;
 }
 
 // Convert timeline events to chat messages
@@ -40,14 +47,14 @@ function eventsToMessages(events: TimelineEvent[]): Message[] {
     });
 }
 
-export function ChatTranscript({ events, isLoading }: ChatTranscriptProps) {
+export function ChatTranscript({ events, isLoading, streamingReply }: ChatTranscriptProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messages = eventsToMessages(events);
 
-  // Auto-scroll to bottom on new messages
+  // Auto-scroll to bottom on new messages and as a reply streams in
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages.length]);
+  }, [messages.length, streamingReply?.content]);
 
   if (isLoading) {
     return (
@@ -66,7 +73,7 @@ export function ChatTranscript({ events, isLoading }: ChatTranscriptProps) {
     );
   }
 
-  if (messages.length === 0) {
+  if (messages.length === 0 && !streamingReply) {
     return (
       <div className="flex flex-col items-center justify-center h-64 text-gray-500">
         <span className="text-4xl mb-2">💬</span>
@@ -83,13 +90,25 @@ export function ChatTranscript({ events, isLoading }: ChatTranscriptProps) {
         {messages.map((message) => (
           <ChatMessage key={message.id} message={message} />
         ))}
+        {streamingReply && (
+          <ChatMessage
+            message={{
+              id: 'streaming',
+              sender: 'ai',
+              content: streamingReply.content || (streamingReply.activity ? `Running ${streamingReply.activity}…` : '…'),
+              timestamp: new Date(),
+              level: streamingReply.level,
+            }}
+            streaming
+          />
+        )}
         <div ref={messagesEndRef} />
       </div>
     </div>
   );
 }
 
-function ChatMessage({ message }: { message: Message }) {
+function ChatMessage({ message, streaming }: { message: Message; streaming?: boolean }) {
   const isAI = message.sender === 'ai';
   const isAgent = message.sender === 'agent';
 
@@ -133,7 +152,10 @@ function ChatMessage({ message }: { message: Message }) {
               : 'bg-green-500 text-white rounded-tr-sm'
           }`}
         >
-          <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+          <p className="text-sm whitespace-pre-wrap">
+            {message.content}
+            {streaming && <span className="ml-0.5 inline-block w-1.5 h-4 align-text-bottom bg-gray-400 animate-pulse" />}
+          </p>
         </div>
 
         {/* Timestamp */}
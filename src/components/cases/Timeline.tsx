@@ -10,6 +10,9 @@ const eventConfig: Record<TimelineEventType, { icon: string; color: string; bgCo
   email_sent: { icon: '📧', color: 'text-green-600', bgColor: 'bg-green-100' },
   ai_response: { icon: '🤖', color: 'text-purple-600', bgColor: 'bg-purple-100' },
   step_attempted: { icon: '⚡', color: 'text-yellow-600', bgColor: 'bg-yellow-100' },
+  tool_call: { icon: '🔧', color: 'text-slate-600', bgColor: 'bg-slate-100' },
+  guardrail: { icon: '🛡️', color: 'text-rose-600', bgColor: 'bg-rose-100' },
+  incident_update: { icon: '🚨', color: 'text-red-600', bgColor: 'bg-red-100' },
   escalation: { icon: '⬆️', color: 'text-orange-600', bgColor: 'bg-orange-100' },
   visionscreen_started: { icon: '👁️', color: 'text-cyan-600', bgColor: 'bg-cyan-100' },
   visionscreen_ended: { icon: '👁️', color: 'text-gray-600', bgColor: 'bg-gray-100' },
@@ -18,6 +21,12 @@ const eventConfig: Record<TimelineEventType, { icon: string; color: string; bgCo
   resolved: { icon: '✅', color: 'text-emerald-600', bgColor: 'bg-emerald-100' },
 };
 
+// Playbook step outcomes that need to stand out from ordinary attempts
+const stepOutcomeIcons: Record<string, string> = {
+  timeout: '⏱️',
+  awaiting_confirmation: '⏳',
+};
+
 interface TimelineProps {
   events: TimelineEvent[];
   isLoading?: boolean;
@@ -56,6 +65,7 @@ export function Timeline({ events, isLoading }: TimelineProps) {
       <div className="space-y-6">
         {events.map((event, index) => {
           const config = eventConfig[event.type] || eventConfig.step_attempted;
+          const icon = stepOutcomeIcons[event.type === 'step_attempted' ? String(event.metadata?.outcome) : ''] || config.icon;
           
           return (
             <div key={event.id} className="relative flex gap-4">
@@ -63,7 +73,7 @@ export function Timeline({ events, isLoading }: TimelineProps) {
               <div
                 className={`relative z-10 flex items-center justify-center w-10 h-10 rounded-full ${config.bgColor} border-2 border-white shadow-sm`}
               >
-                <span className="text-lg">{config.icon}</span>
+                <span className="text-lg">{icon}</span>
               </div>
               
               {/* Content */}
@@ -125,6 +135,9 @@ function formatEventType(type: TimelineEventType): string {
     email_sent: 'Email Sent',
     ai_response: 'AI Response',
     step_attempted: 'Step Attempted',
+    tool_call: 'Tool Call',
+    guardrail: 'Guardrail',
+    incident_update: 'Incident',
     escalation: 'Escalation',
     visionscreen_started: 'VisionScreen Started',
     visionscreen_ended: 'VisionScreen Ended',
@@ -3,7 +3,6 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
-import { onAuthStateChanged, User } from 'firebase/auth';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -18,6 +17,7 @@ import {
   AlertTriangle,
 } from 'lucide-react';
 import { getCases } from '@/lib/firebase/cases';
+import { usePermissions } from '@/lib/auth/use-permissions';
 import type { Case } from '@/types';
 
 function formatTimeAgo(date: Date): string {
@@ -39,7 +39,7 @@ export function DashboardContent() {
   const params = useParams();
   const locale = (params.locale as string) || 'en';
   
-  const [user, setUser] = useState<User | null>(null);
+  const { tenantId, loading: identityLoading } = usePermissions();
   const [recentCases, setRecentCases] = useState<Case[]>([]);
   const [stats, setStats] = useState({
     openCases: 0,
@@ -50,31 +50,20 @@ export function DashboardContent() {
   });
   const [isLoading, setIsLoading] = useState(true);
 
-  // Initialize Firebase Auth
+  // Signed out or not a member of any tenant
   useEffect(() => {
-    import('@/lib/firebase/client').then((module) => {
-      const auth = module.auth;
-      if (auth) {
-        const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
-          setUser(currentUser);
-          if (!currentUser) {
-            setIsLoading(false);
-          }
-        });
-        return () => unsubscribe();
-      } else {
-        setIsLoading(false);
-      }
-    });
-  }, []);
+    if (!identityLoading && !tenantId) {
+      setIsLoading(false);
+    }
+  }, [identityLoading, tenantId]);
 
-  // Fetch cases when user is available
+  // Fetch cases when the tenant is known
   useEffect(() => {
     async function fetchData() {
-      if (!user?.uid) return;
+      if (!tenantId) return;
       
       try {
-        const result = await getCases(user.uid, {}, 10);
+        const result = await getCases(tenantId, {}, 10);
         setRecentCases(result.cases);
         
         // Calculate stats
@@ -113,10 +102,10 @@ export function DashboardContent() {
       }
     }
     
-    if (user?.uid) {
+    if (tenantId) {
       fetchData();
     }
-  }, [user?.uid]);
+  }, [tenantId]);
 
   const getStatusVariant = (status: string) => {
     switch (status) {
@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2 } from 'lucide-react';
+import { authFetch } from '@/lib/auth/client';
+import type { Incident } from '@/lib/incidents/types';
+
+interface DeclareIncidentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (incident: Incident) => void;
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+export function DeclareIncidentDialog({ open, onOpenChange, onCreated }: DeclareIncidentDialogProps) {
+  const [title, setTitle] = useState('');
+  const [products, setProducts] = useState('');
+  const [keywords, setKeywords] = useState('');
+  const [customerMessage, setCustomerMessage] = useState('');
+  const [eta, setEta] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setTitle('');
+    setProducts('');
+    setKeywords('');
+    setCustomerMessage('');
+    setEta('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || splitList(products).length === 0 || !customerMessage.trim()) {
+      setError('Title, affected products and customer message are required');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch('/api/incidents', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          title: title.trim(),
+          products: splitList(products),
+          keywords: splitList(keywords),
+          status: 'investigating',
+          customerMessage: customerMessage.trim(),
+          // datetime-local is in the browser's time zone
+          eta: eta ? new Date(eta).toISOString() : null,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to declare incident');
+      }
+
+      reset();
+      onCreated(data);
+    } catch (err) {
+      console.error('Error declaring incident:', err);
+      setError(err instanceof Error ? err.message : 'Failed to declare incident');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!loading) {
+      if (!newOpen) reset();
+      onOpenChange(newOpen);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Declare Incident</DialogTitle>
+            <DialogDescription>
+              While the incident is active, the AI agent answers matching cases with your message and links them to it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {error && (
+              <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label htmlFor="incident-title" className="text-sm font-medium">
+                Title <span className="text-destructive">*</span>
+              </label>
+              <Input
+                id="incident-title"
+                placeholder="e.g., Login failures in the EU region"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                disabled={loading}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="incident-products" className="text-sm font-medium">
+                Affected products <span className="text-destructive">*</span>
+              </label>
+              <Input
+                id="incident-products"
+                placeholder="Comma-separated, as they appear on cases"
+                value={products}
+                onChange={(e) => setProducts(e.target.value)}
+                disabled={loading}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="incident-keywords" className="text-sm font-medium">
+                Keywords <span className="text-muted-foreground">(optional)</span>
+              </label>
+              <Input
+                id="incident-keywords"
+                placeholder="e.g., login, sign in - leave empty to match every case for these products"
+                value={keywords}
+                onChange={(e) => setKeywords(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="incident-message" className="text-sm font-medium">
+                Customer message <span className="text-destructive">*</span>
+              </label>
+              <textarea
+                id="incident-message"
+                className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                placeholder="We're aware that some customers can't sign in right now."
+                value={customerMessage}
+                onChange={(e) => setCustomerMessage(e.target.value)}
+                disabled={loading}
+                maxLength={1000}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="incident-eta" className="text-sm font-medium">
+                Expected resolution <span className="text-muted-foreground">(optional)</span>
+              </label>
+              <Input
+                id="incident-eta"
+                type="datetime-local"
+                value={eta}
+                onChange={(e) => setEta(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Declare
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
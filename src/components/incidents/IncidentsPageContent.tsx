@@ -0,0 +1,273 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { onAuthStateChanged, User } from 'firebase/auth';
+import { authFetch } from '@/lib/auth/client';
+import { usePermissions } from '@/lib/auth/use-permissions';
+import { INCIDENT_STATUSES, isIncidentActive } from '@/lib/incidents/matching';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import { formatDateTime } from '@/lib/utils';
+import { DeclareIncidentDialog } from './DeclareIncidentDialog';
+import type { Incident, IncidentStatus } from '@/lib/incidents/types';
+
+const STATUS_LABELS: Record<IncidentStatus, string> = {
+  investigating: 'Investigating',
+  identified: 'Identified',
+  monitoring: 'Monitoring',
+  resolved: 'Resolved',
+};
+
+const STATUS_VARIANTS: Record<IncidentStatus, 'escalated' | 'warning' | 'info' | 'resolved'> = {
+  investigating: 'escalated',
+  identified: 'warning',
+  monitoring: 'info',
+  resolved: 'resolved',
+};
+
+export function IncidentsPageContent() {
+  const [user, setUser] = useState<User | null>(null);
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { can } = usePermissions();
+  const canWrite = can('incident:write');
+
+  useEffect(() => {
+    import('@/lib/firebase/client').then((module) => {
+      const auth = module.auth;
+      if (auth) {
+        const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
+          setUser(currentUser);
+          if (!currentUser) {
+            setLoading(false);
+          }
+        });
+        return () => unsubscribe();
+      } else {
+        setLoading(false);
+      }
+    });
+  }, []);
+
+  const fetchIncidents = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch('/api/incidents');
+      if (!response.ok) {
+        throw new Error('Failed to fetch incidents');
+      }
+
+      const data = await response.json();
+      setIncidents(data.incidents || []);
+    } catch (err) {
+      console.error('Error fetching incidents:', err);
+      setError('Failed to load incidents');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchIncidents();
+    }
+  }, [user, fetchIncidents]);
+
+  const updateStatus = async (incident: Incident, status: IncidentStatus) => {
+    if (status === 'resolved' && !confirm(`Resolve "${incident.title}" and the ${incident.linkedCaseCount} case(s) linked to it?`)) {
+      return;
+    }
+
+    setSavingId(incident.id);
+    setNotice(null);
+    try {
+      const response = await authFetch(`/api/incidents/${incident.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update incident');
+      }
+
+      const { casesResolved, ...updated } = data;
+      setIncidents((current) => current.map((i) => (i.id === incident.id ? updated : i)));
+      if (typeof casesResolved === 'number') {
+        setNotice(`Incident resolved. ${casesResolved} linked case(s) were resolved.`);
+      }
+    } catch (err) {
+      console.error('Error updating incident:', err);
+      setNotice(err instanceof Error ? err.message : 'Failed to update incident');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="flex items-center gap-3 p-4">
+          <AlertCircle className="h-5 w-5 text-destructive" />
+          <p className="text-destructive">{error}</p>
+          <Button variant="outline" size="sm" onClick={fetchIncidents}>
+            Retry
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const active = incidents.filter(isIncidentActive);
+  const resolved = incidents.filter((i) => !isIncidentActive(i));
+
+  const renderIncident = (incident: Incident) => (
+    <Card key={incident.id}>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">{incident.title}</CardTitle>
+            <CardDescription className="mt-1">
+              {incident.products.join(', ')}
+              {incident.keywords.length > 0 && ` · keywords: ${incident.keywords.join(', ')}`}
+            </CardDescription>
+          </div>
+          <Badge variant={STATUS_VARIANTS[incident.status]}>{STATUS_LABELS[incident.status]}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600 whitespace-pre-line">{incident.customerMessage}</p>
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Linked cases</p>
+            <p className="font-semibold">{incident.linkedCaseCount}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">ETA</p>
+            <p className="font-semibold">{incident.eta ? formatDateTime(new Date(incident.eta)) : '—'}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">{incident.resolvedAt ? 'Resolved' : 'Declared'}</p>
+            <p className="font-semibold">
+              {incident.resolvedAt || incident.createdAt
+                ? formatDateTime(new Date((incident.resolvedAt || incident.createdAt)!))
+                : '—'}
+            </p>
+          </div>
+        </div>
+        {canWrite && isIncidentActive(incident) && (
+          <div className="flex items-center gap-2 pt-4 border-t">
+            <Select
+              value={incident.status}
+              onValueChange={(status) => updateStatus(incident, status as IncidentStatus)}
+              disabled={savingId === incident.id}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INCIDENT_STATUSES.filter((s) => s !== 'resolved').map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateStatus(incident, 'resolved')}
+              disabled={savingId === incident.id}
+            >
+              <CheckCircle className="mr-2 h-4 w-4" />
+              Resolve
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Incidents</h1>
+          <p className="text-muted-foreground">
+            Known outages the AI agent answers directly, without triaging each case
+          </p>
+        </div>
+        {canWrite && (
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Declare Incident
+          </Button>
+        )}
+      </div>
+
+      {notice && (
+        <div className="rounded-lg bg-muted p-3 text-sm">{notice}</div>
+      )}
+
+      {loading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[...Array(2)].map((_, i) => (
+            <Card key={i} className="h-40 animate-pulse">
+              <CardHeader>
+                <div className="h-5 bg-gray-200 rounded w-3/4" />
+                <div className="h-4 bg-gray-200 rounded w-1/2 mt-2" />
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : incidents.length === 0 ? (
+        <div className="text-center py-12">
+          <AlertTriangle className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h3 className="mt-4 text-lg font-semibold">No Incidents</h3>
+          <p className="mt-2 text-gray-500">
+            Declare an incident during an outage so customers get its status right away.
+          </p>
+        </div>
+      ) : (
+        <>
+          {active.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{active.map(renderIncident)}</div>
+          )}
+          {resolved.length > 0 && (
+            <div className="space-y-4">
+              <h2 className="text-lg font-semibold">Resolved</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{resolved.map(renderIncident)}</div>
+            </div>
+          )}
+        </>
+      )}
+
+      <DeclareIncidentDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onCreated={(incident) => {
+          setIncidents((current) => [incident, ...current]);
+          setDialogOpen(false);
+        }}
+      />
+    </div>
+  );
+}
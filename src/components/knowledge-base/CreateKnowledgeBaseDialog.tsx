@@ -19,6 +19,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Loader2 } from 'lucide-react';
+import { authFetch } from '@/lib/auth/client';
 import type { KnowledgeBase } from '@/types';
 
 // NOFA SaaS Products - add more as needed
@@ -71,11 +72,10 @@ export function CreateKnowledgeBaseDialog({
     setError(null);
 
     try {
-      const response = await fetch('/api/knowledge-base', {
+      const response = await authFetch('/api/knowledge-base', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-tenant-id': userId,
         },
         body: JSON.stringify({
           name: name.trim(),
@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { onAuthStateChanged, User } from 'firebase/auth';
+import { authFetch } from '@/lib/auth/client';
+import { usePermissions } from '@/lib/auth/use-permissions';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Plus, AlertCircle, BookOpen, FileText } from 'lucide-react';
@@ -15,6 +17,7 @@ export function KnowledgeBasePageContent() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const { can } = usePermissions();
 
   // Initialize Firebase Auth
   useEffect(() => {
@@ -41,11 +44,7 @@ export function KnowledgeBasePageContent() {
     setError(null);
     
     try {
-      const response = await fetch('/api/knowledge-base', {
-        headers: {
-          'x-tenant-id': user.uid,
-        },
-      });
+      const response = await authFetch('/api/knowledge-base');
       
       if (!response.ok) {
         throw new Error('Failed to fetch knowledge bases');
@@ -96,10 +95,12 @@ export function KnowledgeBasePageContent() {
             Train your AI support agent with product documentation
           </p>
         </div>
-        <Button onClick={() => setCreateDialogOpen(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Create Knowledge Base
-        </Button>
+        {can('kb:write') && (
+          <Button onClick={() => setCreateDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create Knowledge Base
+          </Button>
+        )}
       </div>
 
       {/* Info Card */}
@@ -128,7 +129,7 @@ export function KnowledgeBasePageContent() {
       <KnowledgeBaseList
         knowledgeBases={knowledgeBases}
         isLoading={loading}
-        onCreateNew={() => setCreateDialogOpen(true)}
+        onCreateNew={can('kb:write') ? () => setCreateDialogOpen(true) : undefined}
       />
 
       {/* Supported Formats */}
@@ -0,0 +1,702 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { onAuthStateChanged, User } from 'firebase/auth';
+import { authFetch } from '@/lib/auth/client';
+import { usePermissions } from '@/lib/auth/use-permissions';
+import { validatePlaybook, bumpPlaybookVersion } from '@/lib/playbooks/engine';
+import { PLAYBOOK_LOCALES, getDefaultLocale, getPlaybookLocales } from '@/lib/playbooks/localization';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, ArrowLeft, CheckCircle, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Field, IssueList, ListInput, fieldClassName } from './PlaybookFields';
+import { PlaybookGraph } from './PlaybookGraph';
+import { PlaybookStepEditor } from './PlaybookStepEditor';
+import type {
+  Playbook,
+  PlaybookRecord,
+  PlaybookStep,
+  PlaybookTrigger,
+  PlaybookMetadata,
+} from '@/lib/playbooks/types';
+
+const SEVERITIES: NonNullable<PlaybookTrigger['severity']> = ['low', 'medium', 'high', 'critical'];
+// Playbook IDs become Firestore document IDs
+const PLAYBOOK_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+function createEmptyPlaybook(): Playbook {
+  return {
+    metadata: {
+      id: '',
+      name: '',
+      description: '',
+      version: '1.0.0',
+      product: 'General',
+      category: '',
+      language: 'en',
+    },
+    triggers: { keywords: [], categories: [], products: [] },
+    steps: [{ id: 'step_1', title: '', instruction: '' }],
+    escalation: { defaultMessage: '', conditions: [] },
+  };
+}
+
+/**
+ * Drop empty optional fields so saved playbooks look like the hand-written JSON ones
+ */
+function cleanPlaybook(playbook: Playbook): Playbook {
+  const text = (value?: string) => (value && value.trim() ? value.trim() : undefined);
+  const list = <T,>(value?: T[]) => (value && value.length > 0 ? value : undefined);
+  const compact = <T extends object>(value: T): T =>
+    Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+  return compact({
+    metadata: compact({
+      ...playbook.metadata,
+      id: playbook.metadata.id.trim(),
+      name: playbook.metadata.name.trim(),
+      description: playbook.metadata.description?.trim() || '',
+      author: text(playbook.metadata.author),
+      tags: list(playbook.metadata.tags),
+      locales: list(playbook.metadata.locales?.filter((l) => l !== playbook.metadata.language)),
+    }),
+    triggers: compact({
+      keywords: list(playbook.triggers.keywords),
+      categories: list(playbook.triggers.categories),
+      products: list(playbook.triggers.products),
+      severity: list(playbook.triggers.severity) as PlaybookTrigger['severity'],
+      condition: text(playbook.triggers.condition),
+    }),
+    steps: playbook.steps.map((step) =>
+      compact({
+        ...step,
+        expectedOutcome: text(step.expectedOutcome),
+        failureHint: text(step.failureHint),
+        nextOnSuccess: text(step.nextOnSuccess),
+        nextOnFailure: text(step.nextOnFailure),
+        capture: step.capture && text(step.capture.variable)
+          ? compact({
+              variable: step.capture.variable.trim(),
+              description: text(step.capture.description),
+              options: list(step.capture.options),
+            })
+          : undefined,
+        branches: list(step.branches),
+        translations: cleanTranslations(step.translations),
+      })
+    ),
+    escalation: {
+      defaultMessage: playbook.escalation.defaultMessage.trim(),
+      conditions: playbook.escalation.conditions.filter((c) => c.reason.trim() || c.message.trim()),
+    },
+    variables: playbook.variables && Object.keys(playbook.variables).length > 0 ? playbook.variables : undefined,
+  });
+}
+
+function cleanTranslations(translations: PlaybookStep['translations']): PlaybookStep['translations'] {
+  const cleaned: NonNullable<PlaybookStep['translations']> = {};
+  Object.entries(translations || {}).forEach(([locale, text]) => {
+    const fields = Object.fromEntries(
+      Object.entries(text).filter(([, value]) => value && value.trim()).map(([field, value]) => [field, value!.trim()])
+    );
+    if (Object.keys(fields).length > 0) cleaned[locale] = fields;
+  });
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+}
+
+interface PlaybookEditorProps {
+  // 'new' to create a playbook
+  playbookId: string;
+}
+
+export function PlaybookEditor({ playbookId }: PlaybookEditorProps) {
+  const params = useParams();
+  const router = useRouter();
+  const locale = params.locale as string;
+  const isNew = playbookId === 'new';
+  const { can } = usePermissions();
+  const canEdit = can('playbook:write');
+
+  const [user, setUser] = useState<User | null>(null);
+  const [record, setRecord] = useState<PlaybookRecord | null>(null);
+  const [draft, setDraft] = useState<Playbook>(createEmptyPlaybook);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [textLocale, setTextLocale] = useState('');
+  const [loading, setLoading] = useState(!isNew);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    import('@/lib/firebase/client').then((module) => {
+      const auth = module.auth;
+      if (auth) {
+        const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
+          setUser(currentUser);
+          if (!currentUser) {
+            setLoading(false);
+          }
+        });
+        return () => unsubscribe();
+      } else {
+        setLoading(false);
+      }
+    });
+  }, []);
+
+  const fetchPlaybook = useCallback(async () => {
+    if (!user || isNew) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/playbooks/${playbookId}`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Playbook not found' : 'Failed to load playbook');
+      }
+
+      const data: PlaybookRecord = await response.json();
+      setRecord(data);
+      setDraft(data.playbook);
+      setSelectedIndex(0);
+    } catch (err) {
+      console.error('Error fetching playbook:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load playbook');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, isNew, playbookId]);
+
+  useEffect(() => {
+    if (user) {
+      fetchPlaybook();
+    }
+  }, [user, fetchPlaybook]);
+
+  const cleaned = useMemo(() => cleanPlaybook(draft), [draft]);
+  const validation = useMemo(() => {
+    const result = validatePlaybook(cleaned);
+    if (isNew && cleaned.metadata.id && !PLAYBOOK_ID_PATTERN.test(cleaned.metadata.id)) {
+      result.errors.push({
+        path: 'metadata.id',
+        message: 'Use lowercase letters, numbers, dashes and underscores',
+        severity: 'error',
+      });
+      result.valid = false;
+    }
+    return result;
+  }, [cleaned, isNew]);
+  const issues = useMemo(() => [...validation.errors, ...validation.warnings], [validation]);
+  const defaultLocale = getDefaultLocale(draft);
+  const stepLocales = useMemo(() => getPlaybookLocales(cleaned), [cleaned]);
+  // Language the step text fields edit; back to the default when a translation is removed
+  const activeTextLocale = stepLocales.includes(textLocale) ? textLocale : defaultLocale;
+  const issuesFor = (path: string) => issues.filter((issue) => issue.path === path);
+
+  const stepIssues = (index: number) =>
+    issues.filter((issue) => issue.path === `steps[${index}]` || issue.path.startsWith(`steps[${index}].`));
+  const invalidStepIds = useMemo(() => {
+    const ids = new Set<string>();
+    validation.errors.forEach((issue) => {
+      const match = issue.path.match(/^steps\[(\d+)\]/);
+      if (match) ids.add(draft.steps[Number(match[1])]?.id);
+    });
+    return ids;
+  }, [validation, draft.steps]);
+
+  const isDirty = !record || JSON.stringify(cleaned) !== JSON.stringify(cleanPlaybook(record.playbook));
+  const currentVersion = record?.playbook.metadata.version;
+  const nextVersion = currentVersion ? bumpPlaybookVersion(currentVersion) : '1.0.0';
+
+  // Draft updates
+  const updateMetadata = (patch: Partial<PlaybookMetadata>) =>
+    setDraft((prev) => ({ ...prev, metadata: { ...prev.metadata, ...patch } }));
+  const updateTriggers = (patch: Partial<PlaybookTrigger>) =>
+    setDraft((prev) => ({ ...prev, triggers: { ...prev.triggers, ...patch } }));
+
+  const updateStep = (index: number, patch: Partial<PlaybookStep>) =>
+    setDraft((prev) => {
+      const oldId = prev.steps[index].id;
+      const renamed = patch.id && oldId && patch.id !== oldId;
+      const steps = prev.steps.map((step, i) => {
+        if (i === index) return { ...step, ...patch };
+        // Keep links pointing at a renamed step
+        if (!renamed) return step;
+        return {
+          ...step,
+          nextOnSuccess: step.nextOnSuccess === oldId ? patch.id : step.nextOnSuccess,
+          nextOnFailure: step.nextOnFailure === oldId ? patch.id : step.nextOnFailure,
+          branches: step.branches?.map((branch) => (branch.next === oldId ? { ...branch, next: patch.id! } : branch)),
+        };
+      });
+      return { ...prev, steps };
+    });
+
+  const addStep = () => {
+    const ids = new Set(draft.steps.map((s) => s.id));
+    let n = draft.steps.length + 1;
+    while (ids.has(`step_${n}`)) n++;
+    setDraft({ ...draft, steps: [...draft.steps, { id: `step_${n}`, title: '', instruction: '' }] });
+    setSelectedIndex(draft.steps.length);
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const steps = [...draft.steps];
+    const target = index + direction;
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    setDraft({ ...draft, steps });
+    setSelectedIndex(target);
+  };
+
+  const removeStep = (index: number) => {
+    setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) });
+    setSelectedIndex(Math.max(0, Math.min(index, draft.steps.length - 2)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await authFetch(`/api/playbooks/${cleaned.metadata.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playbook: cleaned, baseVersion: currentVersion }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save playbook');
+      }
+
+      setRecord(data);
+      setDraft(data.playbook);
+      setNotice(`Saved version ${data.playbook.metadata.version}`);
+      if (isNew) {
+        router.replace(`/${locale}/dashboard/playbooks/${data.playbook.metadata.id}`);
+      }
+    } catch (err) {
+      console.error('Error saving playbook:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save playbook');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const message = record?.overridesBuiltIn
+      ? 'Delete your customized version? The built-in playbook will be used again.'
+      : `Delete playbook "${draft.metadata.name}"?`;
+    if (!confirm(message)) return;
+
+    try {
+      const response = await authFetch(`/api/playbooks/${playbookId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete playbook');
+      }
+      router.push(`/${locale}/dashboard/playbooks`);
+    } catch (err) {
+      console.error('Error deleting playbook:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete playbook');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isNew && !record) {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="flex items-center gap-3 p-4">
+          <AlertCircle className="h-5 w-5 text-destructive" />
+          <p className="text-destructive">{error || 'Playbook not found'}</p>
+          <Link href={`/${locale}/dashboard/playbooks`}>
+            <Button variant="outline" size="sm">Back to playbooks</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const selectedStep = draft.steps[selectedIndex];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <Link
+            href={`/${locale}/dashboard/playbooks`}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Playbooks
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold tracking-tight">
+            {draft.metadata.name || (isNew ? 'New Playbook' : playbookId)}
+          </h1>
+          <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            {currentVersion && <Badge variant="outline">v{currentVersion}</Badge>}
+            {record && (
+              <Badge variant={record.source === 'builtin' ? 'secondary' : record.overridesBuiltIn ? 'warning' : 'info'}>
+                {record.source === 'builtin' ? 'Built-in' : record.overridesBuiltIn ? 'Customized' : 'Custom'}
+              </Badge>
+            )}
+            {isDirty && canEdit && <span>Unsaved changes</span>}
+          </div>
+        </div>
+        {canEdit && (
+          <div className="flex gap-2">
+            {record?.source === 'tenant' && (
+              <Button variant="outline" onClick={handleDelete} disabled={saving}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                {record.overridesBuiltIn ? 'Revert to built-in' : 'Delete'}
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={saving || !isDirty || !validation.valid}>
+              {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save as v{nextVersion}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {record?.source === 'builtin' && canEdit && (
+        <p className="rounded-lg bg-muted p-3 text-sm text-muted-foreground">
+          This is a built-in playbook. Saving creates a customized copy for your team that replaces it.
+        </p>
+      )}
+      {error && (
+        <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+      )}
+      {notice && (
+        <div className="flex items-center gap-2 rounded-lg bg-green-50 p-3 text-sm text-green-700">
+          <CheckCircle className="h-4 w-4" />
+          {notice}
+        </div>
+      )}
+
+      {/* Validation summary */}
+      {issues.length > 0 && (
+        <Card className={cn(validation.valid ? 'border-amber-300' : 'border-destructive')}>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <AlertCircle className={cn('h-4 w-4', validation.valid ? 'text-amber-600' : 'text-destructive')} />
+              {validation.errors.length} error{validation.errors.length === 1 ? '' : 's'},{' '}
+              {validation.warnings.length} warning{validation.warnings.length === 1 ? '' : 's'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1 text-sm">
+              {issues.map((issue, i) => {
+                const stepMatch = issue.path.match(/^steps\[(\d+)\]/);
+                return (
+                  <li key={`${issue.path}-${i}`} className={issue.severity === 'error' ? 'text-destructive' : 'text-amber-600'}>
+                    {stepMatch ? (
+                      <button type="button" className="underline" onClick={() => setSelectedIndex(Number(stepMatch[1]))}>
+                        {issue.path}
+                      </button>
+                    ) : (
+                      <span className="font-mono text-xs">{issue.path}</span>
+                    )}
+                    : {issue.message}
+                  </li>
+                );
+              })}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <fieldset disabled={!canEdit || saving} className="grid gap-6 xl:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        {/* Playbook settings */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Field
+                label="Playbook ID"
+                htmlFor="pb-id"
+                required
+                hint={isNew ? 'Used by the L1 agent and in case history; cannot be changed later' : undefined}
+                issues={issuesFor('metadata.id')}
+              >
+                <Input
+                  id="pb-id"
+                  value={draft.metadata.id}
+                  disabled={!isNew}
+                  placeholder="e.g. billing-questions-v1"
+                  onChange={(e) => updateMetadata({ id: e.target.value.trim() })}
+                />
+              </Field>
+              <Field label="Name" htmlFor="pb-name" required issues={issuesFor('metadata.name')}>
+                <Input id="pb-name" value={draft.metadata.name} onChange={(e) => updateMetadata({ name: e.target.value })} />
+              </Field>
+              <Field label="Description" htmlFor="pb-description">
+                <textarea
+                  id="pb-description"
+                  className={fieldClassName}
+                  rows={2}
+                  value={draft.metadata.description}
+                  onChange={(e) => updateMetadata({ description: e.target.value })}
+                />
+              </Field>
+              <div className="grid gap-4 sm:grid-cols-3">
+                <Field label="Product" htmlFor="pb-product">
+                  <Input id="pb-product" value={draft.metadata.product} onChange={(e) => updateMetadata({ product: e.target.value })} />
+                </Field>
+                <Field label="Category" htmlFor="pb-category">
+                  <Input id="pb-category" value={draft.metadata.category} onChange={(e) => updateMetadata({ category: e.target.value })} />
+                </Field>
+                <Field label="Language" htmlFor="pb-language">
+                  <select
+                    id="pb-language"
+                    className={fieldClassName}
+                    value={draft.metadata.language}
+                    onChange={(e) => updateMetadata({ language: e.target.value })}
+                  >
+                    {PLAYBOOK_LOCALES.map((lang) => <option key={lang} value={lang}>{lang}</option>)}
+                  </select>
+                </Field>
+              </div>
+              <Field label="Translations" hint="Languages the step text is also written in; missing text falls back to the default language">
+                <div className="flex flex-wrap gap-4 text-sm">
+                  {PLAYBOOK_LOCALES.filter((lang) => lang !== draft.metadata.language).map((lang) => (
+                    <label key={lang} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={draft.metadata.locales?.includes(lang) ?? false}
+                        onChange={(e) => {
+                          const current = draft.metadata.locales || [];
+                          updateMetadata({
+                            locales: e.target.checked
+                              ? PLAYBOOK_LOCALES.filter((l) => l === lang || current.includes(l))
+                              : current.filter((l) => l !== lang),
+                          });
+                        }}
+                      />
+                      {lang}
+                    </label>
+                  ))}
+                </div>
+                <IssueList issues={issuesFor('metadata.locales')} />
+              </Field>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Field label="Author" htmlFor="pb-author">
+                  <Input id="pb-author" value={draft.metadata.author || ''} onChange={(e) => updateMetadata({ author: e.target.value })} />
+                </Field>
+                <Field label="Tags" htmlFor="pb-tags" hint="Comma-separated">
+                  <ListInput id="pb-tags" value={draft.metadata.tags} onChange={(tags) => updateMetadata({ tags })} />
+                </Field>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Triggers</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Field label="Keywords" htmlFor="pb-keywords" hint="Comma-separated; each keyword found in the message adds to the match score">
+                <ListInput id="pb-keywords" value={draft.triggers.keywords} onChange={(keywords) => updateTriggers({ keywords })} />
+              </Field>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Field label="Categories" htmlFor="pb-categories">
+                  <ListInput id="pb-categories" value={draft.triggers.categories} onChange={(categories) => updateTriggers({ categories })} />
+                </Field>
+                <Field label="Products" htmlFor="pb-products">
+                  <ListInput id="pb-products" value={draft.triggers.products} onChange={(products) => updateTriggers({ products })} />
+                </Field>
+              </div>
+              <Field label="Severity">
+                <div className="flex flex-wrap gap-4 text-sm">
+                  {SEVERITIES.map((severity) => (
+                    <label key={severity} className="flex items-center gap-2 capitalize">
+                      <input
+                        type="checkbox"
+                        checked={draft.triggers.severity?.includes(severity) ?? false}
+                        onChange={(e) => {
+                          const current = draft.triggers.severity || [];
+                          updateTriggers({
+                            severity: e.target.checked
+                              ? SEVERITIES.filter((s) => s === severity || current.includes(s))
+                              : current.filter((s) => s !== severity),
+                          });
+                        }}
+                      />
+                      {severity}
+                    </label>
+                  ))}
+                </div>
+              </Field>
+              <Field
+                label="Condition"
+                htmlFor="pb-condition"
+                hint="Optional; the playbook only applies when this holds. Fields: product, category, severity, language, source, failedAttempts."
+                issues={issuesFor('triggers.condition')}
+              >
+                <Input
+                  id="pb-condition"
+                  className="font-mono"
+                  placeholder="severity >= 'high' && source in ['phone', 'sms']"
+                  value={draft.triggers.condition || ''}
+                  onChange={(e) => updateTriggers({ condition: e.target.value })}
+                />
+              </Field>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Escalation</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Field label="Default message" htmlFor="pb-escalation" issues={issuesFor('escalation.defaultMessage')}>
+                <textarea
+                  id="pb-escalation"
+                  className={fieldClassName}
+                  rows={2}
+                  value={draft.escalation.defaultMessage}
+                  onChange={(e) =>
+                    setDraft((prev) => ({ ...prev, escalation: { ...prev.escalation, defaultMessage: e.target.value } }))
+                  }
+                />
+              </Field>
+              {draft.escalation.conditions.map((condition, index) => (
+                <div key={index} className="grid gap-2 sm:grid-cols-[1fr_2fr_auto]">
+                  <Input
+                    placeholder="Reason"
+                    value={condition.reason}
+                    onChange={(e) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        escalation: {
+                          ...prev.escalation,
+                          conditions: prev.escalation.conditions.map((c, i) => (i === index ? { ...c, reason: e.target.value } : c)),
+                        },
+                      }))
+                    }
+                  />
+                  <Input
+                    placeholder="Message to the customer"
+                    value={condition.message}
+                    onChange={(e) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        escalation: {
+                          ...prev.escalation,
+                          conditions: prev.escalation.conditions.map((c, i) => (i === index ? { ...c, message: e.target.value } : c)),
+                        },
+                      }))
+                    }
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        escalation: { ...prev.escalation, conditions: prev.escalation.conditions.filter((_, i) => i !== index) },
+                      }))
+                    }
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    escalation: { ...prev.escalation, conditions: [...prev.escalation.conditions, { reason: '', message: '' }] },
+                  }))
+                }
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add escalation reason
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Flow */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Flow</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <PlaybookGraph
+                steps={draft.steps}
+                selectedStepId={selectedStep?.id}
+                invalidStepIds={invalidStepIds}
+                onSelectStep={(id) => {
+                  const index = draft.steps.findIndex((s) => s.id === id);
+                  if (index >= 0) setSelectedIndex(index);
+                }}
+              />
+              <div className="flex flex-wrap gap-2">
+                {draft.steps.map((step, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => setSelectedIndex(index)}
+                    className={cn(
+                      'rounded-full border px-3 py-1 text-xs',
+                      index === selectedIndex ? 'border-primary bg-primary/10' : 'hover:bg-accent',
+                      stepIssues(index).some((issue) => issue.severity === 'error') && 'border-destructive text-destructive'
+                    )}
+                  >
+                    {index + 1}. {step.title || step.id || 'Untitled'}
+                  </button>
+                ))}
+                <Button type="button" variant="outline" size="sm" className="h-7 rounded-full" onClick={addStep}>
+                  <Plus className="mr-1 h-3 w-3" />
+                  Add step
+                </Button>
+              </div>
+              <IssueList issues={issuesFor('steps')} />
+            </CardContent>
+          </Card>
+
+          {selectedStep && (
+            <PlaybookStepEditor
+              key={selectedIndex}
+              step={selectedStep}
+              index={selectedIndex}
+              stepIds={draft.steps.map((s) => s.id)}
+              issues={stepIssues(selectedIndex)}
+              isFirst={selectedIndex === 0}
+              isLast={selectedIndex === draft.steps.length - 1}
+              locales={stepLocales}
+              defaultLocale={defaultLocale}
+              textLocale={activeTextLocale}
+              onTextLocaleChange={setTextLocale}
+              onChange={(patch) => updateStep(selectedIndex, patch)}
+              onMove={(direction) => moveStep(selectedIndex, direction)}
+              onRemove={() => removeStep(selectedIndex)}
+            />
+          )}
+        </div>
+      </fieldset>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type { PlaybookValidationError } from '@/lib/playbooks/types';
+
+// Matches the Input component for native textarea and select elements
+export const fieldClassName =
+  'flex w-full rounded-lg border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+interface FieldProps {
+  label: string;
+  htmlFor?: string;
+  required?: boolean;
+  hint?: string;
+  issues?: PlaybookValidationError[];
+  children: React.ReactNode;
+}
+
+/**
+ * Labelled form field with its validation issues shown underneath
+ */
+export function Field({ label, htmlFor, required, hint, issues = [], children }: FieldProps) {
+  return (
+    <div className="space-y-1.5">
+      <label htmlFor={htmlFor} className="text-sm font-medium">
+        {label} {required && <span className="text-destructive">*</span>}
+      </label>
+      {children}
+      {hint && issues.length === 0 && <p className="text-xs text-muted-foreground">{hint}</p>}
+      <IssueList issues={issues} />
+    </div>
+  );
+}
+
+export function IssueList({ issues }: { issues: PlaybookValidationError[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <ul className="space-y-0.5">
+      {issues.map((issue, i) => (
+        <li
+          key={`${issue.path}-${i}`}
+          className={cn('text-xs', issue.severity === 'error' ? 'text-destructive' : 'text-amber-600')}
+        >
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface ListInputProps {
+  id?: string;
+  value: string[] | undefined;
+  onChange: (value: string[]) => void;
+  placeholder?: string;
+}
+
+function parseList(text: string): string[] {
+  return text.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Comma-separated list input. Keeps its own text so spaces and trailing commas
+ * survive while typing; the parsed list is reported on every change.
+ */
+export function ListInput({ id, value = [], onChange, placeholder }: ListInputProps) {
+  // Compared as strings, so a new array with the same items isn't a change
+  const listKey = value.join('\n');
+  const listText = value.join(', ');
+  const [text, setText] = useState(listText);
+
+  // Follow changes made outside this input (e.g. loading another playbook)
+  useEffect(() => {
+    setText((current) => (parseList(current).join('\n') === listKey ? current : listText));
+  }, [listKey, listText]);
+
+  return (
+    <Input
+      id={id}
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseList(e.target.value));
+      }}
+    />
+  );
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import type { PlaybookStep } from '@/lib/playbooks/types';
+
+interface PlaybookGraphProps {
+  steps: PlaybookStep[];
+  selectedStepId?: string;
+  // Step IDs with validation errors
+  invalidStepIds?: Set<string>;
+  onSelectStep?: (stepId: string) => void;
+}
+
+const NODE_WIDTH = 170;
+const NODE_HEIGHT = 52;
+const GAP_X = 70;
+const GAP_Y = 28;
+const PADDING = 20;
+// Room under the nodes for edges that loop back
+const LOOP_SPACE = 60;
+
+interface NodeLayout {
+  step: PlaybookStep;
+  x: number;
+  y: number;
+  reachable: boolean;
+}
+
+/**
+ * Columns by distance from the first step; unreachable steps go in a final column
+ */
+function layoutSteps(steps: PlaybookStep[]): Map<string, NodeLayout> {
+  const stepsById = new Map(steps.map((s) => [s.id, s]));
+  const depth = new Map<string, number>();
+  const queue = steps[0] ? [steps[0].id] : [];
+  if (steps[0]) depth.set(steps[0].id, 0);
+
+  while (queue.length > 0) {
+    const step = stepsById.get(queue.shift()!);
+    if (!step) continue;
+    for (const next of [step.nextOnSuccess, step.nextOnFailure, ...(step.branches || []).map((b) => b.next)]) {
+      if (next && stepsById.has(next) && !depth.has(next)) {
+        depth.set(next, depth.get(step.id)! + 1);
+        queue.push(next);
+      }
+    }
+  }
+
+  const maxDepth = Math.max(0, ...Array.from(depth.values()));
+  const rows = new Map<number, number>();
+  const layout = new Map<string, NodeLayout>();
+
+  steps.forEach((step) => {
+    if (layout.has(step.id)) return; // Duplicate IDs are reported by validation
+    const reachable = depth.has(step.id);
+    const column = reachable ? depth.get(step.id)! : maxDepth + 1;
+    const row = rows.get(column) || 0;
+    rows.set(column, row + 1);
+
+    layout.set(step.id, {
+      step,
+      x: PADDING + column * (NODE_WIDTH + GAP_X),
+      y: PADDING + row * (NODE_HEIGHT + GAP_Y),
+      reachable,
+    });
+  });
+
+  return layout;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+}
+
+function edgePath(from: NodeLayout, to: NodeLayout, offset: number): string {
+  const sx = from.x + NODE_WIDTH;
+  const sy = from.y + NODE_HEIGHT / 2 + offset;
+
+  // Forward edges run left to right between columns
+  if (to.x > from.x) {
+    const tx = to.x;
+    const ty = to.y + NODE_HEIGHT / 2 + offset;
+    const bend = (tx - sx) / 2;
+    return `M ${sx} ${sy} C ${sx + bend} ${sy}, ${tx - bend} ${ty}, ${tx} ${ty}`;
+  }
+
+  // Loops back to an earlier (or the same) column: route under the nodes
+  const fromX = from.x + NODE_WIDTH / 2 + offset * 2;
+  const toX = to.x + NODE_WIDTH / 2 - offset * 2;
+  const fromY = from.y + NODE_HEIGHT;
+  const toY = to.y + NODE_HEIGHT;
+  const dip = Math.max(fromY, toY) + LOOP_SPACE / 2 + Math.abs(offset) * 2;
+  return `M ${fromX} ${fromY} C ${fromX} ${dip}, ${toX} ${dip}, ${toX} ${toY}`;
+}
+
+export function PlaybookGraph({ steps, selectedStepId, invalidStepIds, onSelectStep }: PlaybookGraphProps) {
+  const layout = useMemo(() => layoutSteps(steps), [steps]);
+  const nodes = Array.from(layout.values());
+
+  if (nodes.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-8 text-center">
+        Add a step to see the playbook flow.
+      </p>
+    );
+  }
+
+  const width = Math.max(...nodes.map((n) => n.x)) + NODE_WIDTH + PADDING + 120;
+  const height = Math.max(...nodes.map((n) => n.y)) + NODE_HEIGHT + PADDING + LOOP_SPACE;
+
+  return (
+    <div className="overflow-auto rounded-lg border bg-muted/30">
+      <svg width={width} height={height} className="text-xs">
+        <defs>
+          <marker id="arrow-success" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#16a34a" />
+          </marker>
+          <marker id="arrow-failure" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#dc2626" />
+          </marker>
+          <marker id="arrow-branch" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#7c3aed" />
+          </marker>
+        </defs>
+
+        {/* Edges */}
+        {nodes.map((node) =>
+          (['nextOnSuccess', 'nextOnFailure'] as const).map((field) => {
+            const targetId = node.step[field];
+            if (!targetId) return null;
+            const isSuccess = field === 'nextOnSuccess';
+            const color = isSuccess ? '#16a34a' : '#dc2626';
+            const offset = isSuccess ? -6 : 6;
+            const target = layout.get(targetId);
+
+            // Dangling reference: stub pointing at the missing ID
+            if (!target) {
+              const sx = node.x + NODE_WIDTH;
+              const sy = node.y + NODE_HEIGHT / 2 + offset;
+              return (
+                <g key={`${node.step.id}-${field}`}>
+                  <path d={`M ${sx} ${sy} L ${sx + 40} ${sy}`} stroke="#dc2626" strokeDasharray="3 3" fill="none" />
+                  <text x={sx + 44} y={sy + 4} fill="#dc2626">
+                    {truncate(`missing: ${targetId}`, 22)}
+                  </text>
+                </g>
+              );
+            }
+
+            return (
+              <path
+                key={`${node.step.id}-${field}`}
+                d={edgePath(node, target, offset)}
+                stroke={color}
+                strokeWidth={1.5}
+                strokeDasharray={isSuccess ? undefined : '5 3'}
+                fill="none"
+                markerEnd={`url(#arrow-${isSuccess ? 'success' : 'failure'})`}
+              />
+            );
+          })
+        )}
+
+        {/* Branches (dangling targets are reported by validation) */}
+        {nodes.map((node) =>
+          (node.step.branches || []).map((branch, i) => {
+            const target = layout.get(branch.next);
+            if (!target) return null;
+            return (
+              <path
+                key={`${node.step.id}-branch-${i}`}
+                d={edgePath(node, target, 0)}
+                stroke="#7c3aed"
+                strokeWidth={1.5}
+                strokeDasharray="2 3"
+                fill="none"
+                markerEnd="url(#arrow-branch)"
+              >
+                <title>{`${branch.on === 'failure' ? 'On failure' : 'On success'} if ${branch.when}`}</title>
+              </path>
+            );
+          })
+        )}
+
+        {/* Nodes */}
+        {nodes.map((node, index) => {
+          const { step } = node;
+          const invalid = invalidStepIds?.has(step.id) || !node.reachable;
+          const terminal = !step.nextOnSuccess;
+
+          return (
+            <g
+              key={step.id || `step-${index}`}
+              transform={`translate(${node.x}, ${node.y})`}
+              className={cn(onSelectStep && 'cursor-pointer')}
+              onClick={() => onSelectStep?.(step.id)}
+            >
+              <rect
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={8}
+                className={cn(
+                  'fill-background',
+                  invalid ? 'stroke-destructive' : terminal ? 'stroke-green-600' : 'stroke-border',
+                  step.id === selectedStepId && 'fill-primary/10'
+                )}
+                strokeWidth={step.id === selectedStepId ? 2.5 : 1.5}
+                strokeDasharray={node.reachable ? undefined : '4 3'}
+              />
+              <text x={10} y={21} className="fill-foreground font-medium">
+                {truncate(step.title || 'Untitled step', 24)}
+              </text>
+              <text x={10} y={39} className="fill-muted-foreground">
+                {truncate(
+                  `${index === 0 && node.reachable ? 'start · ' : ''}${step.id || 'no id'}${terminal ? ' · end' : ''}`,
+                  26
+                )}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-4 border-t px-3 py-2 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block h-0.5 w-4 bg-green-600" /> Success
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block h-0.5 w-4 border-t-2 border-dashed border-red-600" /> Failure
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block h-0.5 w-4 border-t-2 border-dotted border-violet-600" /> Branch
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block h-3 w-4 rounded border border-dashed border-destructive" /> Unreachable
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Field, IssueList, ListInput, fieldClassName } from './PlaybookFields';
+import { BUILT_IN_VARIABLES } from '@/lib/playbooks/variables';
+import type { PlaybookBranch, PlaybookStep, PlaybookStepText, PlaybookValidationError } from '@/lib/playbooks/types';
+
+interface PlaybookStepEditorProps {
+  step: PlaybookStep;
+  index: number;
+  stepIds: string[];
+  issues: PlaybookValidationError[];
+  isFirst: boolean;
+  isLast: boolean;
+  // Step text languages; the text fields edit `textLocale`
+  locales: string[];
+  defaultLocale: string;
+  textLocale: string;
+  onTextLocaleChange: (locale: string) => void;
+  onChange: (patch: Partial<PlaybookStep>) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function PlaybookStepEditor({
+  step,
+  index,
+  stepIds,
+  issues,
+  isFirst,
+  isLast,
+  locales,
+  defaultLocale,
+  textLocale,
+  onTextLocaleChange,
+  onChange,
+  onMove,
+  onRemove,
+}: PlaybookStepEditorProps) {
+  const path = `steps[${index}]`;
+  const issuesFor = (field?: string) =>
+    issues.filter((issue) => issue.path === (field ? `${path}.${field}` : path));
+  const targets = stepIds.filter((id) => id && id !== step.id);
+  const translating = textLocale !== defaultLocale;
+  const textFor = (field: keyof PlaybookStepText) =>
+    (translating ? step.translations?.[textLocale]?.[field] : step[field]) || '';
+  // Default-language text shown as a placeholder while translating
+  const sourceFor = (field: keyof PlaybookStepText) => (translating ? step[field] : undefined);
+  const setText = (field: keyof PlaybookStepText, value: string) =>
+    onChange(
+      translating
+        ? { translations: { ...step.translations, [textLocale]: { ...step.translations?.[textLocale], [field]: value } } }
+        : { [field]: value }
+    );
+  const branches = step.branches || [];
+  const updateBranch = (branchIndex: number, patch: Partial<PlaybookBranch>) =>
+    onChange({ branches: branches.map((b, i) => (i === branchIndex ? { ...b, ...patch } : b)) });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base">
+            Step {index + 1}{isFirst && <span className="ml-2 text-xs font-normal text-muted-foreground">(start)</span>}
+          </CardTitle>
+          <div className="flex gap-1">
+            <Button type="button" variant="ghost" size="icon" disabled={isFirst} onClick={() => onMove(-1)} title="Move up">
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" disabled={isLast} onClick={() => onMove(1)} title="Move down">
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={onRemove} title="Remove step">
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        </div>
+        <IssueList issues={issuesFor()} />
+        {locales.length > 1 && (
+          <div className="flex flex-wrap items-center gap-1 pt-2 text-xs">
+            <span className="mr-1 text-muted-foreground">Text language:</span>
+            {locales.map((locale) => (
+              <Button
+                key={locale}
+                type="button"
+                size="sm"
+                variant={locale === textLocale ? 'secondary' : 'ghost'}
+                className="h-6 px-2 text-xs"
+                onClick={() => onTextLocaleChange(locale)}
+              >
+                {locale}{locale === defaultLocale && ' (default)'}
+              </Button>
+            ))}
+          </div>
+        )}
+        {translating && <IssueList issues={issuesFor(`translations.${textLocale}`)} />}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Field label="Step ID" htmlFor={`${path}-id`} required issues={issuesFor('id')}>
+            <Input
+              id={`${path}-id`}
+              value={step.id}
+              onChange={(e) => onChange({ id: e.target.value.trim() })}
+            />
+          </Field>
+          <Field label="Title" htmlFor={`${path}-title`} required={!translating} issues={issuesFor('title')}>
+            <Input
+              id={`${path}-title`}
+              value={textFor('title')}
+              placeholder={sourceFor('title')}
+              onChange={(e) => setText('title', e.target.value)}
+            />
+          </Field>
+        </div>
+
+        <Field
+          label="Instruction"
+          htmlFor={`${path}-instruction`}
+          required={!translating}
+          hint={`What the agent asks the customer to do. Use {{variable}} for captured or built-in variables: ${Object.keys(BUILT_IN_VARIABLES).join(', ')}.`}
+          issues={issuesFor('instruction')}
+        >
+          <textarea
+            id={`${path}-instruction`}
+            className={fieldClassName}
+            rows={3}
+            value={textFor('instruction')}
+            placeholder={sourceFor('instruction')}
+            onChange={(e) => setText('instruction', e.target.value)}
+          />
+        </Field>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Field label="Expected outcome" htmlFor={`${path}-expected`}>
+            <Input
+              id={`${path}-expected`}
+              value={textFor('expectedOutcome')}
+              placeholder={sourceFor('expectedOutcome')}
+              onChange={(e) => setText('expectedOutcome', e.target.value)}
+            />
+          </Field>
+          <Field label="Failure hint" htmlFor={`${path}-hint`}>
+            <Input
+              id={`${path}-hint`}
+              value={textFor('failureHint')}
+              placeholder={sourceFor('failureHint')}
+              onChange={(e) => setText('failureHint', e.target.value)}
+            />
+          </Field>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Field label="On success" htmlFor={`${path}-success`} issues={issuesFor('nextOnSuccess')}>
+            <select
+              id={`${path}-success`}
+              className={fieldClassName}
+              value={step.nextOnSuccess || ''}
+              onChange={(e) => onChange({ nextOnSuccess: e.target.value || undefined })}
+            >
+              <option value="">End playbook (resolved)</option>
+              {targets.map((id) => <option key={id} value={id}>{id}</option>)}
+              {step.nextOnSuccess && !targets.includes(step.nextOnSuccess) && (
+                <option value={step.nextOnSuccess}>{step.nextOnSuccess} (missing)</option>
+              )}
+            </select>
+          </Field>
+          <Field label="On failure" htmlFor={`${path}-failure`} issues={issuesFor('nextOnFailure')}>
+            <select
+              id={`${path}-failure`}
+              className={fieldClassName}
+              value={step.nextOnFailure || ''}
+              onChange={(e) => onChange({ nextOnFailure: e.target.value || undefined })}
+            >
+              <option value="">Retry this step</option>
+              {targets.map((id) => <option key={id} value={id}>{id}</option>)}
+              {step.nextOnFailure && !targets.includes(step.nextOnFailure) && (
+                <option value={step.nextOnFailure}>{step.nextOnFailure} (missing)</option>
+              )}
+            </select>
+          </Field>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Branches</p>
+          <p className="text-xs text-muted-foreground">
+            Checked in order before the success or failure step; the first condition that holds picks the next step.
+            Conditions can read captured answers as vars.&lt;name&gt;, e.g. vars.platform == &apos;mobile&apos;.
+          </p>
+          {branches.map((branch, branchIndex) => {
+            const branchPath = `branches[${branchIndex}]`;
+            return (
+              <div key={branchIndex} className="space-y-1">
+                <div className="flex gap-2">
+                  <select
+                    aria-label="Branch outcome"
+                    className={`${fieldClassName} w-32`}
+                    value={branch.on || 'success'}
+                    onChange={(e) => updateBranch(branchIndex, { on: e.target.value === 'failure' ? 'failure' : undefined })}
+                  >
+                    <option value="success">On success</option>
+                    <option value="failure">On failure</option>
+                  </select>
+                  <Input
+                    aria-label="Branch condition"
+                    className="font-mono"
+                    placeholder="vars.platform == 'mobile'"
+                    value={branch.when}
+                    onChange={(e) => updateBranch(branchIndex, { when: e.target.value })}
+                  />
+                  <select
+                    aria-label="Branch target"
+                    className={`${fieldClassName} w-48`}
+                    value={branch.next}
+                    onChange={(e) => updateBranch(branchIndex, { next: e.target.value })}
+                  >
+                    <option value="">Go to…</option>
+                    {targets.map((id) => <option key={id} value={id}>{id}</option>)}
+                    {branch.next && !targets.includes(branch.next) && (
+                      <option value={branch.next}>{branch.next} (missing)</option>
+                    )}
+                  </select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    title="Remove branch"
+                    onClick={() => onChange({ branches: branches.filter((_, i) => i !== branchIndex) })}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+                <IssueList issues={[...issuesFor(`${branchPath}.when`), ...issuesFor(`${branchPath}.next`)]} />
+              </div>
+            );
+          })}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ branches: [...branches, { when: '', next: '' }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" /> Add branch
+          </Button>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Field
+            label="Capture answer as"
+            htmlFor={`${path}-capture`}
+            hint="Variable name for the customer's answer, e.g. platform"
+            issues={issuesFor('capture.variable')}
+          >
+            <Input
+              id={`${path}-capture`}
+              value={step.capture?.variable || ''}
+              onChange={(e) => onChange({ capture: { ...step.capture, variable: e.target.value.trim() } })}
+            />
+          </Field>
+          <Field label="Allowed answers" htmlFor={`${path}-capture-options`} hint="Comma-separated; leave empty to accept any answer">
+            <ListInput
+              id={`${path}-capture-options`}
+              value={step.capture?.options}
+              onChange={(options) => onChange({ capture: { variable: '', ...step.capture, options } })}
+            />
+          </Field>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Field label="Max attempts" htmlFor={`${path}-attempts`} hint="Defaults to 3" issues={issuesFor('maxAttempts')}>
+            <Input
+              id={`${path}-attempts`}
+              type="number"
+              min={1}
+              value={step.maxAttempts ?? ''}
+              onChange={(e) => onChange({ maxAttempts: parseOptionalNumber(e.target.value) })}
+            />
+          </Field>
+          <Field
+            label="Timeout (seconds)"
+            htmlFor={`${path}-timeout`}
+            hint="A reply after this counts as a timed-out attempt"
+            issues={issuesFor('timeout')}
+          >
+            <Input
+              id={`${path}-timeout`}
+              type="number"
+              min={1}
+              value={step.timeout ?? ''}
+              onChange={(e) => onChange({ timeout: parseOptionalNumber(e.target.value) })}
+            />
+          </Field>
+        </div>
+
+        <div className="flex flex-wrap gap-6 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={step.escalateOnFailure ?? true}
+              onChange={(e) => onChange({ escalateOnFailure: e.target.checked })}
+            />
+            Escalate after max attempts
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={step.requiresConfirmation ?? false}
+              onChange={(e) => onChange({ requiresConfirmation: e.target.checked })}
+            />
+            Success needs explicit customer confirmation
+          </label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { onAuthStateChanged, User } from 'firebase/auth';
+import { authFetch } from '@/lib/auth/client';
+import { usePermissions } from '@/lib/auth/use-permissions';
+import { validatePlaybook } from '@/lib/playbooks/engine';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Plus, AlertCircle, Workflow } from 'lucide-react';
+import { formatDateTime } from '@/lib/utils';
+import type { PlaybookRecord } from '@/lib/playbooks/types';
+
+export function PlaybooksPageContent() {
+  const params = useParams();
+  const locale = params.locale as string;
+  const [user, setUser] = useState<User | null>(null);
+  const [records, setRecords] = useState<PlaybookRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { can } = usePermissions();
+
+  useEffect(() => {
+    import('@/lib/firebase/client').then((module) => {
+      const auth = module.auth;
+      if (auth) {
+        const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
+          setUser(currentUser);
+          if (!currentUser) {
+            setLoading(false);
+          }
+        });
+        return () => unsubscribe();
+      } else {
+        setLoading(false);
+      }
+    });
+  }, []);
+
+  const fetchPlaybooks = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch('/api/playbooks');
+      if (!response.ok) {
+        throw new Error('Failed to fetch playbooks');
+      }
+
+      const data = await response.json();
+      setRecords(data.playbooks || []);
+    } catch (err) {
+      console.error('Error fetching playbooks:', err);
+      setError('Failed to load playbooks');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchPlaybooks();
+    }
+  }, [user, fetchPlaybooks]);
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="flex items-center gap-3 p-4">
+          <AlertCircle className="h-5 w-5 text-destructive" />
+          <p className="text-destructive">{error}</p>
+          <Button variant="outline" size="sm" onClick={fetchPlaybooks}>
+            Retry
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Playbooks</h1>
+          <p className="text-muted-foreground">
+            Step-by-step runbooks the L1 agent follows for common issues
+          </p>
+        </div>
+        {can('playbook:write') && (
+          <Link href={`/${locale}/dashboard/playbooks/new`}>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              New Playbook
+            </Button>
+          </Link>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i} className="h-40 animate-pulse">
+              <CardHeader>
+                <div className="h-5 bg-gray-200 rounded w-3/4" />
+                <div className="h-4 bg-gray-200 rounded w-1/2 mt-2" />
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : records.length === 0 ? (
+        <div className="text-center py-12">
+          <Workflow className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h3 className="mt-4 text-lg font-semibold">No Playbooks</h3>
+          <p className="mt-2 text-gray-500">
+            Create a playbook to guide the AI agent through a troubleshooting flow.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {records.map(({ playbook, source, overridesBuiltIn, updatedAt }) => {
+            const { valid } = validatePlaybook(playbook);
+
+            return (
+              <Link
+                key={playbook.metadata.id}
+                href={`/${locale}/dashboard/playbooks/${playbook.metadata.id}`}
+              >
+                <Card className="h-full hover:shadow-md transition-shadow cursor-pointer">
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="text-lg">{playbook.metadata.name}</CardTitle>
+                        <CardDescription className="mt-1">
+                          {playbook.metadata.product} · {playbook.metadata.category}
+                        </CardDescription>
+                      </div>
+                      <Badge variant={source === 'builtin' ? 'secondary' : overridesBuiltIn ? 'warning' : 'info'}>
+                        {source === 'builtin' ? 'Built-in' : overridesBuiltIn ? 'Customized' : 'Custom'}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {playbook.metadata.description && (
+                      <p className="text-sm text-gray-600 mb-4 line-clamp-2">
+                        {playbook.metadata.description}
+                      </p>
+                    )}
+                    <div className="grid grid-cols-3 gap-4 text-sm">
+                      <div>
+                        <p className="text-gray-500">Version</p>
+                        <p className="font-semibold">{playbook.metadata.version || '—'}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Steps</p>
+                        <p className="font-semibold">{playbook.steps.length}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Language</p>
+                        <p className="font-semibold uppercase">{playbook.metadata.language}</p>
+                      </div>
+                    </div>
+                    <div className="mt-4 pt-4 border-t flex items-center justify-between text-xs text-gray-400">
+                      <span>{updatedAt ? `Updated ${formatDateTime(new Date(updatedAt))}` : playbook.metadata.id}</span>
+                      {!valid && <Badge variant="destructive">Invalid</Badge>}
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
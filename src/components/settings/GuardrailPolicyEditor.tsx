@@ -0,0 +1,421 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { authFetch } from '@/lib/auth/client';
+import { getSafeActions, previewGuardrails } from '@/lib/ai/guardrails';
+import { ESCALATION_KEYWORD_SETS } from '@/lib/ai/escalation-keywords';
+import {
+  ANY_LANGUAGE,
+  DEFAULT_GUARDRAIL_POLICY,
+  ESCALATION_SEVERITIES,
+  UNBLOCKABLE_ACTIONS,
+  validateGuardrailPolicy,
+  type EscalationSeverity,
+  type GuardrailPolicy,
+} from '@/lib/ai/guardrail-policy';
+import { countRedactions } from '@/lib/privacy/redaction';
+import { PLAYBOOK_LOCALES } from '@/lib/playbooks/localization';
+import { fieldClassName } from '@/components/playbooks/PlaybookFields';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+// Tools the agents can be offered, in the order the settings page lists them
+const AGENT_ACTIONS = [
+  'lookup_documentation',
+  'execute_playbook_step',
+  'mark_resolved',
+  'analyze_error',
+  'suggest_diagnostic_steps',
+  'initiate_visionscreen',
+  'escalate_to_l2',
+  'escalate_to_human',
+];
+
+const LANGUAGE_OPTIONS = [ANY_LANGUAGE, ...PLAYBOOK_LOCALES];
+
+export function GuardrailPolicyEditor() {
+  const [policy, setPolicy] = useState<GuardrailPolicy>(DEFAULT_GUARDRAIL_POLICY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [sample, setSample] = useState('');
+  const [sampleLanguage, setSampleLanguage] = useState('en');
+
+  useEffect(() => {
+    authFetch('/api/settings/guardrails')
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load guardrail policy');
+        setPolicy(data.policy);
+      })
+      .catch((err) => {
+        console.error('Error loading guardrail policy:', err);
+        setNotice(err instanceof Error ? err.message : 'Failed to load guardrail policy');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const problem = validateGuardrailPolicy(policy);
+
+  // Test the draft as it is edited; an invalid draft can't be previewed
+  const preview = useMemo(
+    () => (sample.trim() && !problem ? previewGuardrails(sample, policy, { language: sampleLanguage }) : null),
+    [sample, sampleLanguage, policy, problem]
+  );
+
+  const update = (changes: Partial<GuardrailPolicy>) => {
+    setPolicy((current) => ({ ...current, ...changes }));
+    setNotice(null);
+  };
+
+  const toggleKeyword = (keyword: string) => {
+    const disabled = policy.disabledKeywords.includes(keyword);
+    update({
+      disabledKeywords: disabled
+        ? policy.disabledKeywords.filter((k) => k !== keyword)
+        : [...policy.disabledKeywords, keyword],
+    });
+  };
+
+  const toggleAction = (action: string) => {
+    const blocked = policy.blockedActions.includes(action);
+    update({
+      blockedActions: blocked
+        ? policy.blockedActions.filter((a) => a !== action)
+        : [...policy.blockedActions, action],
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setNotice(null);
+    try {
+      const response = await authFetch('/api/settings/guardrails', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(policy),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save guardrail policy');
+      }
+      setPolicy(data.policy);
+      setNotice('Guardrail policy saved. Agents use it within a minute.');
+    } catch (err) {
+      console.error('Error saving guardrail policy:', err);
+      setNotice(err instanceof Error ? err.message : 'Failed to save guardrail policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <Card className="h-40 animate-pulse" />;
+  }
+
+  const safeActions = getSafeActions(policy);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Guardrails</CardTitle>
+        <CardDescription>
+          Escalation keywords, extra redactions and the actions the AI agents may take
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {/* Escalation keywords */}
+        <section className="space-y-3">
+          <div>
+            <h3 className="font-semibold">Escalation keywords</h3>
+            <p className="text-sm text-muted-foreground">
+              Add keywords per language, or repeat a built-in keyword to change its severity.
+            </p>
+          </div>
+          {policy.keywords.map((entry, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={entry.keyword}
+                placeholder="e.g., avocat"
+                onChange={(e) =>
+                  update({ keywords: policy.keywords.map((k, i) => (i === index ? { ...k, keyword: e.target.value } : k)) })
+                }
+              />
+              <select
+                className={cn(fieldClassName, 'w-28')}
+                value={entry.language}
+                onChange={(e) =>
+                  update({ keywords: policy.keywords.map((k, i) => (i === index ? { ...k, language: e.target.value } : k)) })
+                }
+              >
+                {LANGUAGE_OPTIONS.map((language) => (
+                  <option key={language} value={language}>
+                    {language}
+                  </option>
+                ))}
+              </select>
+              <select
+                className={cn(fieldClassName, 'w-32')}
+                value={entry.severity}
+                onChange={(e) =>
+                  update({
+                    keywords: policy.keywords.map((k, i) =>
+                      i === index ? { ...k, severity: e.target.value as EscalationSeverity } : k
+                    ),
+                  })
+                }
+              >
+                {ESCALATION_SEVERITIES.map((severity) => (
+                  <option key={severity} value={severity}>
+                    {severity}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => update({ keywords: policy.keywords.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              update({ keywords: [...policy.keywords, { keyword: '', language: ANY_LANGUAGE, severity: 'medium' }] })
+            }
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add keyword
+          </Button>
+          <details>
+            <summary className="text-sm text-muted-foreground cursor-pointer">
+              Built-in keywords ({policy.disabledKeywords.length} disabled)
+            </summary>
+            <div className="mt-2 space-y-2">
+              {Object.entries(ESCALATION_KEYWORD_SETS).map(([language, keywords]) => (
+                <div key={language} className="flex flex-wrap items-center gap-1.5">
+                  <span className="w-6 font-mono text-xs text-muted-foreground">{language}</span>
+                  {keywords.map(({ keyword, category }) => (
+                    <button
+                      key={keyword}
+                      type="button"
+                      title={category}
+                      onClick={() => toggleKeyword(keyword)}
+                      className={cn(
+                        'rounded-full border px-2 py-0.5 text-xs',
+                        policy.disabledKeywords.includes(keyword) ? 'text-muted-foreground line-through' : 'bg-muted'
+                      )}
+                    >
+                      {keyword}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </details>
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="human-escalation-severity">Hand straight to a human at</label>
+            <select
+              id="human-escalation-severity"
+              className={cn(fieldClassName, 'w-32')}
+              value={policy.humanEscalationSeverity}
+              onChange={(e) => update({ humanEscalationSeverity: e.target.value as GuardrailPolicy['humanEscalationSeverity'] })}
+            >
+              <option value="critical">critical</option>
+              <option value="high">high or above</option>
+            </select>
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="escalation-classifier">Semantic check</label>
+            <select
+              id="escalation-classifier"
+              className={cn(fieldClassName, 'w-64')}
+              value={policy.escalationClassifier}
+              onChange={(e) => update({ escalationClassifier: e.target.value as GuardrailPolicy['escalationClassifier'] })}
+            >
+              <option value="off">Keywords only</option>
+              <option value="embedding">Keywords + similar past examples</option>
+            </select>
+          </div>
+        </section>
+
+        {/* Custom redactions */}
+        <section className="space-y-3">
+          <div>
+            <h3 className="font-semibold">Custom redactions</h3>
+            <p className="text-sm text-muted-foreground">
+              Regular expressions (case-insensitive) redacted from customer messages and AI replies, e.g. internal account IDs.
+            </p>
+          </div>
+          {policy.redactions.map((redaction, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                className="w-48"
+                value={redaction.name}
+                placeholder="Account ID"
+                onChange={(e) =>
+                  update({ redactions: policy.redactions.map((r, i) => (i === index ? { ...r, name: e.target.value } : r)) })
+                }
+              />
+              <Input
+                className="font-mono"
+                value={redaction.pattern}
+                placeholder="ACC-\d{8}"
+                onChange={(e) =>
+                  update({ redactions: policy.redactions.map((r, i) => (i === index ? { ...r, pattern: e.target.value } : r)) })
+                }
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => update({ redactions: policy.redactions.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({ redactions: [...policy.redactions, { name: '', pattern: '' }] })}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add redaction
+          </Button>
+        </section>
+
+        {/* Prompt injection */}
+        <section className="space-y-3">
+          <div>
+            <h3 className="font-semibold">Prompt injection</h3>
+            <p className="text-sm text-muted-foreground">
+              Customer messages and knowledge base chunks that try to instruct the AI, e.g. &quot;ignore your previous
+              instructions&quot;. Every catch is recorded on the case timeline.
+            </p>
+          </div>
+          <select
+            aria-label="Prompt injection action"
+            className={cn(fieldClassName, 'w-80')}
+            value={policy.promptInjection}
+            onChange={(e) => update({ promptInjection: e.target.value as GuardrailPolicy['promptInjection'] })}
+          >
+            <option value="block">Block messages, leave out documents</option>
+            <option value="warn">Warn: pass on, marked as untrusted</option>
+            <option value="allow">Allow: don&apos;t check</option>
+          </select>
+        </section>
+
+        {/* Answer grounding */}
+        <section className="space-y-3">
+          <div>
+            <h3 className="font-semibold">Answer grounding</h3>
+            <p className="text-sm text-muted-foreground">
+              Checks each AI answer against the documentation and tool results it was given. Scores are stored on
+              the case timeline for analytics.
+            </p>
+          </div>
+          <select
+            aria-label="Answer grounding"
+            className={cn(fieldClassName, 'w-80')}
+            value={policy.grounding}
+            onChange={(e) => update({ grounding: e.target.value as GuardrailPolicy['grounding'] })}
+          >
+            <option value="flag">Score answers</option>
+            <option value="escalate">Score, and escalate poorly supported answers</option>
+            <option value="off">Off</option>
+          </select>
+        </section>
+
+        {/* Allowed actions */}
+        <section className="space-y-3">
+          <div>
+            <h3 className="font-semibold">Allowed actions</h3>
+            <p className="text-sm text-muted-foreground">
+              Tools the AI agents are offered. Escalation can&apos;t be turned off.
+            </p>
+          </div>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {AGENT_ACTIONS.map((action) => (
+              <label key={action} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={safeActions.includes(action)}
+                  disabled={UNBLOCKABLE_ACTIONS.includes(action)}
+                  onChange={() => toggleAction(action)}
+                />
+                <span className="font-mono">{action}</span>
+              </label>
+            ))}
+          </div>
+        </section>
+
+        {/* Test */}
+        <section className="space-y-3 rounded-lg border p-4">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="font-semibold">Test with a sample message</h3>
+            <select
+              className={cn(fieldClassName, 'w-24')}
+              value={sampleLanguage}
+              onChange={(e) => setSampleLanguage(e.target.value)}
+            >
+              {PLAYBOOK_LOCALES.map((language) => (
+                <option key={language} value={language}>
+                  {language}
+                </option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            className={cn(fieldClassName, 'min-h-[80px]')}
+            placeholder="Paste a customer message to see what is redacted and whether it escalates"
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+          />
+          {preview && (
+            <div className="space-y-2 text-sm">
+              <p className="whitespace-pre-wrap rounded bg-muted p-2 font-mono text-xs">{preview.redaction.text}</p>
+              <div className="flex flex-wrap gap-1.5">
+                {Object.entries(countRedactions(preview.redaction.redactions)).map(([type, count]) => (
+                  <Badge key={type} variant="outline">
+                    {type} × {count}
+                  </Badge>
+                ))}
+              </div>
+              {preview.escalation.shouldEscalate ? (
+                <p>
+                  Escalates ({preview.escalation.severity}
+                  {preview.humanEscalation ? ', straight to a human' : ''}): {preview.escalation.reasons.join('; ')}
+                </p>
+              ) : (
+                <p className="text-muted-foreground">No escalation triggers</p>
+              )}
+              {preview.injection && (
+                <p className="text-destructive">
+                  {preview.injection.action === 'blocked' ? 'Blocked' : 'Flagged'} as possible prompt injection:{' '}
+                  {preview.injection.rules.join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+        </section>
+
+        <div className="flex items-center justify-end gap-3 border-t pt-4">
+          {(problem || notice) && (
+            <p className={cn('text-sm', problem ? 'text-destructive' : 'text-muted-foreground')}>{problem || notice}</p>
+          )}
+          <Button onClick={handleSave} disabled={saving || Boolean(problem)}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save guardrails
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,18 @@
+import type { UserRole } from '@/types';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  agent: 'Agent',
+  human_support: 'Human Support',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  owner: 'Full access to all features, team and billing',
+  agent: 'Handle cases, manage the knowledge base and playbooks',
+  human_support: 'Work the L3 queue and resolve escalated cases',
+  viewer: 'View-only access to dashboard and cases',
+};
+
+// Order roles are offered in pickers
+export const ASSIGNABLE_ROLES: UserRole[] = ['agent', 'human_support', 'viewer', 'owner'];
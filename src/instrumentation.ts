@@ -0,0 +1,10 @@
+/**
+ * Server startup hook
+ * Registers built-in playbooks before the first request is served
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { ensurePlaybooksLoaded } = await import('@/lib/playbooks/loader');
+    await ensurePlaybooksLoaded();
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Escalation Classifier
+ * Optional second pass after the keyword check (policy.escalationClassifier):
+ * the message is embedded and compared with labeled examples, so paraphrases
+ * and wording the keyword sets miss can still escalate. Server only.
+ */
+
+import { generateEmbedding, generateEmbeddings, cosineSimilarity } from '@/lib/knowledge-base/embeddings';
+import { checkEscalationTriggers, type EscalationCheck } from './guardrails';
+import { ESCALATION_EXAMPLES } from './escalation-examples';
+import type { EscalationCategory } from './escalation-keywords';
+import {
+  DEFAULT_GUARDRAIL_POLICY,
+  ESCALATION_SEVERITIES,
+  severityRank,
+  type EscalationSeverity,
+  type GuardrailPolicy,
+} from './guardrail-policy';
+
+export interface EscalationClassification {
+  escalate: boolean;
+  category: EscalationCategory | null;
+  severity: EscalationSeverity;
+  // Similarity-weighted share of the nearest examples with this label (0-1)
+  confidence: number;
+  reasons: string[];
+}
+
+// Severity when the classifier is confident; one level lower otherwise
+const CATEGORY_SEVERITY: Record<EscalationCategory, EscalationSeverity> = {
+  legal: 'critical',
+  security: 'critical',
+  billing: 'high',
+  compliance: 'high',
+  urgency: 'high',
+  frustration: 'medium',
+  threat: 'medium',
+};
+
+const NEAREST_EXAMPLES = 5;
+// Examples less similar than this don't count as neighbours
+const MIN_SIMILARITY = 0.35;
+const MIN_CONFIDENCE = 0.6;
+const HIGH_CONFIDENCE = 0.8;
+
+// Embedded once per process; the examples and embedding model are global
+let exampleEmbeddings: Promise<number[][]> | null = null;
+
+function getExampleEmbeddings(): Promise<number[][]> {
+  if (!exampleEmbeddings) {
+    exampleEmbeddings = generateEmbeddings(ESCALATION_EXAMPLES.map((e) => e.text))
+      .then((results) => results.map((r) => r.embedding))
+      .catch((error) => {
+        exampleEmbeddings = null;
+        throw error;
+      });
+  }
+  return exampleEmbeddings;
+}
+
+function notEscalated(reason?: string): EscalationClassification {
+  return { escalate: false, category: null, severity: 'low', confidence: 0, reasons: reason ? [reason] : [] };
+}
+
+/**
+ * Classify an already-embedded message against the labeled examples
+ */
+export async function classifyEmbedding(embedding: number[]): Promise<EscalationClassification> {
+  const examples = await getExampleEmbeddings();
+
+  const nearest = examples
+    .map((example, index) => ({ example: ESCALATION_EXAMPLES[index], similarity: cosineSimilarity(embedding, example) }))
+    .filter((n) => n.similarity >= MIN_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, NEAREST_EXAMPLES);
+  if (nearest.length === 0) return notEscalated();
+
+  const weights = new Map<EscalationCategory | null, number>();
+  let total = 0;
+  for (const { example, similarity } of nearest) {
+    weights.set(example.category, (weights.get(example.category) || 0) + similarity);
+    total += similarity;
+  }
+
+  const [category, weight] = Array.from(weights.entries()).sort((a, b) => b[1] - a[1])[0];
+  const confidence = Math.round((weight / total) * 100) / 100;
+  if (!category) return { ...notEscalated(), confidence };
+  if (confidence < MIN_CONFIDENCE) {
+    return notEscalated(`Possibly ${category} (confidence ${confidence}), below the escalation threshold`);
+  }
+
+  const base = CATEGORY_SEVERITY[category];
+  const severity = confidence >= HIGH_CONFIDENCE ? base : ESCALATION_SEVERITIES[Math.max(severityRank(base) - 1, 1)];
+  const closest = nearest.find((n) => n.example.category === category)!;
+
+  return {
+    escalate: true,
+    category,
+    severity,
+    confidence,
+    reasons: [
+      `Similar to ${category} messages (confidence ${confidence}; closest: "${closest.example.text}")`,
+    ],
+  };
+}
+
+/**
+ * Classify a customer message (already redacted) against the labeled examples
+ */
+export async function classifyEscalation(message: string): Promise<EscalationClassification> {
+  if (!message.trim()) return notEscalated();
+  return classifyEmbedding(await generateEmbedding(message));
+}
+
+/**
+ * Combine a keyword check with the classifier: the classifier can add reasons
+ * and raise severity, never lower it
+ */
+export function mergeClassification(check: EscalationCheck, classification: EscalationClassification): EscalationCheck {
+  if (!classification.escalate) return check;
+  return {
+    shouldEscalate: true,
+    reasons: [...check.reasons, ...classification.reasons],
+    severity: severityRank(classification.severity) > severityRank(check.severity) ? classification.severity : check.severity,
+  };
+}
+
+/**
+ * Escalation triggers for an agent turn: keywords and context, then the
+ * classifier when the tenant's policy enables it. Classifier failures fall
+ * back to the keyword result.
+ */
+export async function detectEscalation(
+  message: string,
+  context: Parameters<typeof checkEscalationTriggers>[1],
+  policy: GuardrailPolicy = DEFAULT_GUARDRAIL_POLICY
+): Promise<EscalationCheck> {
+  const check = checkEscalationTriggers(message, context, policy);
+  if (policy.escalationClassifier !== 'embedding') return check;
+
+  try {
+    return mergeClassification(check, await classifyEscalation(message));
+  } catch (error) {
+    console.error('Escalation classifier failed, using keyword triggers only:', error);
+    return check;
+  }
+}
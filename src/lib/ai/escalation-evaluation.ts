@@ -0,0 +1,101 @@
+/**
+ * Escalation Evaluation
+ * Precision and recall of escalation detection over a labeled corpus
+ * (scripts/fixtures/escalation-corpus.json), overall and per language. Pure.
+ */
+
+export interface EscalationCorpusEntry {
+  text: string;
+  language: string;
+  // Whether a person should see this message
+  escalate: boolean;
+  // Expected category, for reading the results; not scored
+  category?: string;
+}
+
+export interface EscalationMetrics {
+  total: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface EscalationEvaluation {
+  overall: EscalationMetrics;
+  byLanguage: Record<string, EscalationMetrics>;
+}
+
+/**
+ * Check a corpus from a request body; returns the first problem found
+ */
+export function validateEscalationCorpus(corpus: unknown, maxEntries: number): string | null {
+  if (!Array.isArray(corpus) || corpus.length === 0) {
+    return 'corpus must be a non-empty list of { text, language, escalate }';
+  }
+  if (corpus.length > maxEntries) {
+    return `At most ${maxEntries} corpus entries per request`;
+  }
+  const invalid = corpus.findIndex(
+    (entry) =>
+      typeof entry?.text !== 'string' ||
+      !entry.text.trim() ||
+      typeof entry.language !== 'string' ||
+      typeof entry.escalate !== 'boolean'
+  );
+  if (invalid !== -1) {
+    return `Corpus entry ${invalid} needs text, language and a boolean escalate`;
+  }
+  return null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function metrics(pairs: Array<{ expected: boolean; predicted: boolean }>): EscalationMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let trueNegatives = 0;
+  for (const { expected, predicted } of pairs) {
+    if (expected && predicted) truePositives++;
+    else if (!expected && predicted) falsePositives++;
+    else if (expected && !predicted) falseNegatives++;
+    else trueNegatives++;
+  }
+
+  // No predictions (or no positives) counts as perfect precision (or recall)
+  const precision = truePositives + falsePositives === 0 ? 1 : truePositives / (truePositives + falsePositives);
+  const recall = truePositives + falseNegatives === 0 ? 1 : truePositives / (truePositives + falseNegatives);
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+
+  return {
+    total: pairs.length,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    trueNegatives,
+    precision: round(precision),
+    recall: round(recall),
+    f1: round(f1),
+  };
+}
+
+/**
+ * Score predictions (one per corpus entry, in order) against the labels
+ */
+export function evaluateEscalation(corpus: EscalationCorpusEntry[], predictions: boolean[]): EscalationEvaluation {
+  const pairs = corpus.map((entry, i) => ({ language: entry.language, expected: entry.escalate, predicted: predictions[i] }));
+
+  const languages = Array.from(new Set(pairs.map((p) => p.language))).sort();
+  const byLanguage: Record<string, EscalationMetrics> = {};
+  for (const language of languages) {
+    byLanguage[language] = metrics(pairs.filter((p) => p.language === language));
+  }
+
+  return { overall: metrics(pairs), byLanguage };
+}
@@ -0,0 +1,95 @@
+/**
+ * Escalation Examples
+ * Labeled reference messages for the embedding classifier. Keep them short and
+ * typical; the evaluation corpus (scripts/fixtures/escalation-corpus.json) is
+ * separate so the classifier isn't measured on its own examples.
+ */
+
+import type { EscalationCategory } from './escalation-keywords';
+
+export interface EscalationExample {
+  text: string;
+  language: string;
+  // null for messages that should not escalate
+  category: EscalationCategory | null;
+}
+
+function examples(category: EscalationCategory | null, entries: Array<[string, string]>): EscalationExample[] {
+  return entries.map(([language, text]) => ({ text, language, category }));
+}
+
+export const ESCALATION_EXAMPLES: EscalationExample[] = [
+  ...examples('legal', [
+    ['en', 'If this is not fixed by Friday my lawyers will be in touch'],
+    ['en', 'We are preparing to take legal action against your company'],
+    ['en', 'See you in court'],
+    ['fr', 'Je vais saisir la justice si rien ne change'],
+    ['de', 'Wir werden unseren Anwalt einschalten'],
+    ['it', 'Mi rivolgerò a un avvocato per i danni subiti'],
+    ['zh', '如果不解决，我们会通过法律途径维权'],
+    ['fa', 'اگر مشکل حل نشود از شما شکایت خواهم کرد'],
+  ]),
+  ...examples('security', [
+    ['en', 'Someone logged into my account from another country and changed my password'],
+    ['en', 'I think our customer data was stolen'],
+    ['en', 'There are admin users in our workspace that nobody on our team created'],
+    ['fr', "Quelqu'un a accédé à mon compte sans mon autorisation"],
+    ['de', 'Unsere Kundendaten sind im Internet aufgetaucht'],
+    ['it', 'Qualcuno è entrato nel mio account e ha cambiato la password'],
+    ['zh', '我的账号被别人登录了，还改了密码'],
+    ['fa', 'کسی بدون اجازه وارد حساب من شده است'],
+  ]),
+  ...examples('billing', [
+    ['en', 'You charged my card three times this month and I want my money back now'],
+    ['en', 'I never authorized this payment'],
+    ['fr', "Vous m'avez débité deux fois, je veux être remboursé immédiatement"],
+    ['de', 'Sie haben mir zweimal Geld abgebucht, ich will es sofort zurück'],
+    ['it', 'Mi avete addebitato due volte lo stesso importo'],
+    ['zh', '你们重复扣了我的钱，马上退款'],
+    ['fa', 'دو بار از کارت من پول کم کرده‌اید'],
+  ]),
+  ...examples('frustration', [
+    ['en', 'This is the fourth time I am explaining this, I want a real person'],
+    ['en', 'Your bot is useless, let me talk to someone in charge'],
+    ['fr', 'Cela fait trois semaines que j’attends, passez-moi quelqu’un de compétent'],
+    ['de', 'Ich möchte sofort mit einem Menschen sprechen, nicht mit einem Bot'],
+    ['it', 'Sono stufo, voglio parlare con una persona vera'],
+    ['zh', '我要跟真人客服说话'],
+    ['fa', 'می‌خواهم با یک انسان صحبت کنم نه ربات'],
+  ]),
+  ...examples('threat', [
+    ['en', 'I will tell everyone on Twitter how you treat customers'],
+    ['en', 'Expect a one-star review from our whole team'],
+    ['fr', 'Je vais raconter ça partout sur internet'],
+    ['de', 'Ich werde das öffentlich machen'],
+    ['zh', '我要在网上曝光你们'],
+  ]),
+  ...examples('urgency', [
+    ['en', 'Our whole store is offline and we are losing sales every minute'],
+    ['en', 'None of our 200 employees can log in since this morning'],
+    ['fr', 'Tout notre site est hors service depuis ce matin'],
+    ['de', 'Unser gesamter Betrieb steht still'],
+    ['it', 'Tutto il nostro sistema è fermo da stamattina'],
+    ['zh', '我们整个系统都瘫痪了'],
+    ['fa', 'کل سیستم ما از صبح از کار افتاده است'],
+  ]),
+  ...examples(null, [
+    ['en', 'How do I reset my password?'],
+    ['en', 'I have an issue with the export button, it does nothing'],
+    ['en', 'Can you help me pursue this setting? I cannot find it'],
+    ['en', 'Thanks, that fixed it!'],
+    ['en', 'Where can I download last month’s invoice?'],
+    ['en', 'The app is slow when I open large reports'],
+    ['en', 'Is there a way to change the language of the dashboard?'],
+    ['fr', 'Comment changer mon adresse e-mail ?'],
+    ['fr', "L'application se ferme quand j'ouvre un rapport"],
+    ['de', 'Wie kann ich einen neuen Benutzer hinzufügen?'],
+    ['de', 'Der Export funktioniert nicht richtig'],
+    ['it', 'Come posso cambiare la mia password?'],
+    ['it', 'La pagina non si carica su Safari'],
+    ['zh', '怎么修改我的邮箱地址？'],
+    ['zh', '导出按钮没有反应'],
+    ['fa', 'چطور رمز عبورم را تغییر دهم؟'],
+    ['fa', 'برنامه هنگام باز کردن گزارش بسته می‌شود'],
+  ]),
+];
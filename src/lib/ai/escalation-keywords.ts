@@ -0,0 +1,181 @@
+/**
+ * Escalation Keywords
+ * Built-in escalation keywords per locale and word-aware matching. Keywords
+ * match whole words (a trailing * also matches longer words, e.g. "hack*"),
+ * except in Chinese, which has no spaces between words. Accents and case are
+ * ignored on both sides. Pure - safe to import from client components.
+ */
+
+import type { EscalationSeverity } from './guardrail-policy';
+
+export type EscalationCategory =
+  | 'legal'
+  | 'security'
+  | 'billing'
+  | 'compliance'
+  | 'frustration'
+  | 'threat'
+  | 'urgency';
+
+export interface EscalationKeyword {
+  keyword: string;
+  severity: EscalationSeverity;
+  category?: EscalationCategory;
+}
+
+function group(category: EscalationCategory, severity: EscalationSeverity, keywords: string[]): EscalationKeyword[] {
+  return keywords.map((keyword) => ({ keyword, severity, category }));
+}
+
+// Mirrors the app locales; English applies to every case since customers often switch to it
+export const ESCALATION_KEYWORD_SETS: Record<string, EscalationKeyword[]> = {
+  en: [
+    ...group('legal', 'critical', ['lawsuit', 'legal action', 'sue', 'suing', 'sued']),
+    ...group('legal', 'high', ['attorney*', 'lawyer*', 'court']),
+    ...group('compliance', 'high', ['compliance', 'regulation', 'gdpr', 'hipaa', 'pci', 'sox']),
+    ...group('security', 'critical', [
+      'breach', 'hack', 'hacked', 'hacker', 'hacking', 'security incident', 'ransomware',
+    ]),
+    ...group('security', 'high', ['compromised', 'unauthorized access', 'data leak', 'malware', 'phishing']),
+    ...group('billing', 'high', ['fraud', 'fraudulent']),
+    ...group('billing', 'medium', [
+      'charge back', 'chargeback', 'dispute charge', 'unauthorized charge',
+      'refund demand', 'cancel subscription', 'billing error',
+    ]),
+    ...group('frustration', 'medium', [
+      'speak to manager', 'speak to a manager', 'supervisor', 'escalate', 'unacceptable',
+      'terrible service', 'worst experience', 'never again',
+    ]),
+    ...group('threat', 'medium', ['social media', 'bad review', 'report you', 'bbb']),
+    ...group('urgency', 'high', ['emergency', 'production down']),
+    ...group('urgency', 'medium', ['urgent', 'critical', 'outage']),
+  ],
+  fr: [
+    ...group('legal', 'critical', [
+      'poursuite judiciaire', 'poursuites judiciaires', 'action en justice', 'procès', 'mise en demeure',
+    ]),
+    ...group('legal', 'high', ['avocat', 'tribunal', 'porter plainte']),
+    ...group('compliance', 'high', ['rgpd', 'conformité', 'cnil']),
+    ...group('security', 'critical', ['piratage', 'piraté', 'piratée', 'fuite de données', 'violation de données', 'rançongiciel']),
+    ...group('security', 'high', ['accès non autorisé', 'compromis', 'hameçonnage']),
+    ...group('billing', 'high', ['fraude', 'frauduleux']),
+    ...group('billing', 'medium', ['rétrofacturation', 'prélèvement non autorisé', 'litige', 'résilier']),
+    ...group('frustration', 'medium', [
+      'parler à un responsable', 'superviseur', 'inacceptable', 'service déplorable', 'scandaleux', 'plainte',
+    ]),
+    ...group('threat', 'medium', ['réseaux sociaux', 'mauvais avis', 'avis négatif']),
+    ...group('urgency', 'high', ['urgence', 'production arrêtée']),
+    ...group('urgency', 'medium', ['urgent', 'critique', 'panne']),
+  ],
+  de: [
+    ...group('legal', 'critical', ['klage', 'verklag*', 'rechtliche schritte', 'abmahnung']),
+    ...group('legal', 'high', ['anwalt', 'rechtsanwalt', 'gericht']),
+    ...group('compliance', 'high', ['dsgvo', 'datenschutzbehörde']),
+    ...group('security', 'critical', ['gehackt', 'hackerangriff', 'datenleck', 'datenpanne', 'sicherheitsvorfall', 'ransomware']),
+    ...group('security', 'high', ['unbefugter zugriff', 'kompromittiert', 'phishing']),
+    ...group('billing', 'high', ['betrug']),
+    ...group('billing', 'medium', ['rückbuchung', 'unberechtigte abbuchung', 'kündig*']),
+    ...group('frustration', 'medium', ['vorgesetzten', 'vorgesetzter', 'inakzeptabel', 'unverschämt', 'frechheit']),
+    ...group('threat', 'medium', ['soziale medien', 'schlechte bewertung']),
+    ...group('urgency', 'high', ['notfall', 'produktion steht']),
+    ...group('urgency', 'medium', ['dringend', 'kritisch', 'ausfall']),
+  ],
+  it: [
+    ...group('legal', 'critical', ['fare causa', 'azione legale', 'vie legali']),
+    ...group('legal', 'high', ['avvocato', 'tribunale', 'denuncia']),
+    ...group('compliance', 'high', ['gdpr', 'garante della privacy']),
+    ...group('security', 'critical', ['hackerato', 'violazione dei dati', 'fuga di dati', 'attacco hacker']),
+    ...group('security', 'high', ['accesso non autorizzato', 'compromesso', 'phishing']),
+    ...group('billing', 'high', ['frode', 'truffa']),
+    ...group('billing', 'medium', ['storno', 'addebito non autorizzato', 'disdire']),
+    ...group('frustration', 'medium', ['parlare con un responsabile', 'supervisore', 'inaccettabile', 'pessimo servizio', 'vergognoso']),
+    ...group('threat', 'medium', ['recensione negativa', 'social network']),
+    ...group('urgency', 'high', ['emergenza', 'produzione ferma']),
+    ...group('urgency', 'medium', ['urgente', 'critico', 'interruzione']),
+  ],
+  zh: [
+    ...group('legal', 'critical', ['起诉', '诉讼', '法律行动', '告你们']),
+    ...group('legal', 'high', ['律师', '法院']),
+    ...group('compliance', 'high', ['合规', '监管']),
+    ...group('security', 'critical', ['被黑', '黑客', '数据泄露', '勒索软件']),
+    ...group('security', 'high', ['未经授权', '被盗', '钓鱼']),
+    ...group('billing', 'high', ['欺诈', '诈骗']),
+    ...group('billing', 'medium', ['拒付', '退单', '乱扣费']),
+    ...group('frustration', 'medium', ['找经理', '主管', '不可接受', '太差了', '投诉']),
+    ...group('threat', 'medium', ['社交媒体', '差评', '曝光']),
+    ...group('urgency', 'high', ['紧急', '生产环境宕机']),
+    ...group('urgency', 'medium', ['严重', '宕机', '故障']),
+  ],
+  fa: [
+    ...group('legal', 'critical', ['شکایت قانونی', 'اقدام قانونی', 'شکایت می‌کنم', 'دادخواست']),
+    ...group('legal', 'high', ['وکیل', 'دادگاه']),
+    ...group('compliance', 'high', ['مقررات', 'انطباق']),
+    ...group('security', 'critical', ['هک', 'هک شده', 'نشت داده', 'باج‌افزار']),
+    ...group('security', 'high', ['دسترسی غیرمجاز', 'فیشینگ']),
+    ...group('billing', 'high', ['کلاهبرداری']),
+    ...group('billing', 'medium', ['برگشت وجه', 'کسر غیرمجاز']),
+    ...group('frustration', 'medium', ['صحبت با مدیر', 'سرپرست', 'غیرقابل قبول', 'افتضاح']),
+    ...group('threat', 'medium', ['شبکه‌های اجتماعی', 'نظر منفی']),
+    ...group('urgency', 'high', ['اضطراری']),
+    ...group('urgency', 'medium', ['فوری', 'بحرانی', 'قطعی']),
+  ],
+};
+
+// Letters and digits of the scripts we match by word (Latin, Greek, Cyrillic,
+// Arabic/Persian with the zero-width non-joiner); anything else separates words
+const WORD_CHARS = 'a-z0-9_\\u00C0-\\u024F\\u0370-\\u03FF\\u0400-\\u04FF\\u0600-\\u06FF\\u200C';
+const CJK = /[\u3040-\u30FF\u3400-\u9FFF\uF900-\uFAFF]/;
+
+const keywordPatterns = new Map<string, RegExp>();
+
+/**
+ * Lowercase, strip accents, unify Arabic/Persian letter forms and collapse
+ * whitespace, so text and keywords compare the same way
+ */
+export function normalizeForMatching(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036F]/g, '')
+    .toLowerCase()
+    .replace(/\u064A/g, '\u06CC') // Arabic yeh -> Persian yeh
+    .replace(/\u0643/g, '\u06A9') // Arabic kaf -> Persian keheh
+    .replace(/[\u2019`]/g, "'")
+    .replace(/\s+/g, ' ');
+}
+
+function keywordPattern(keyword: string): RegExp {
+  let pattern = keywordPatterns.get(keyword);
+  if (!pattern) {
+    const normalized = normalizeForMatching(keyword).trim();
+    const prefix = normalized.endsWith('*');
+    const body = (prefix ? normalized.slice(0, -1) : normalized)
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/ /g, '\\s+');
+
+    pattern = CJK.test(normalized)
+      ? new RegExp(body)
+      : new RegExp(`(?:^|[^${WORD_CHARS}])${body}${prefix ? `[${WORD_CHARS}]*` : ''}(?![${WORD_CHARS}])`);
+    keywordPatterns.set(keyword, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Whether a keyword appears in text as a word or phrase (text from normalizeForMatching)
+ */
+export function matchesKeyword(normalizedText: string, keyword: string): boolean {
+  return keywordPattern(keyword).test(normalizedText);
+}
+
+/**
+ * Built-in keywords for a case language: English plus the language's own set,
+ * or every set when the language isn't known
+ */
+export function getBuiltInKeywords(language?: string): EscalationKeyword[] {
+  if (!language || !ESCALATION_KEYWORD_SETS[language]) {
+    return Object.values(ESCALATION_KEYWORD_SETS).flat();
+  }
+  return language === 'en'
+    ? ESCALATION_KEYWORD_SETS.en
+    : [...ESCALATION_KEYWORD_SETS.en, ...ESCALATION_KEYWORD_SETS[language]];
+}
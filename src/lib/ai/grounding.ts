@@ -0,0 +1,209 @@
+/**
+ * Grounding
+ * Checks that an AI answer follows from what the agent was given: each claim
+ * (sentence) in the answer is compared with the retrieved KB chunks and
+ * playbook steps, first by shared words, then by embedding similarity for
+ * paraphrases and answers in another language than the docs. Server only.
+ */
+
+import { generateEmbeddings, cosineSimilarity } from '@/lib/knowledge-base/embeddings';
+import { normalizeForMatching } from './escalation-keywords';
+import type { GroundingMode } from './guardrail-policy';
+
+export interface GroundingSource {
+  // KB document ID or playbook step, for reading the result
+  id: string;
+  text: string;
+}
+
+export interface GroundingClaim {
+  text: string;
+  supported: boolean;
+  // Best word overlap or embedding similarity with a source (0-1)
+  support: number;
+  sourceId?: string;
+}
+
+export interface GroundingResult {
+  // False when the answer makes no claims; score is then null
+  checked: boolean;
+  // Share of claims supported by a source (0-1)
+  score: number | null;
+  claims: GroundingClaim[];
+}
+
+// Grounding of an agent answer, returned with the response
+export interface AnswerGrounding {
+  score: number;
+  claims: GroundingClaim[];
+  // The answer was replaced with an escalation (policy grounding: 'escalate')
+  downgraded: boolean;
+}
+
+// Answers scoring below this count as ungrounded (and escalate when the policy says so)
+export const MIN_GROUNDING_SCORE = 0.5;
+
+const MIN_WORD_OVERLAP = 0.6;
+const MIN_SIMILARITY = 0.75;
+const MIN_CLAIM_WORDS = 4;
+const PASSAGE_LENGTH = 400;
+const MAX_PASSAGES = 40;
+const MAX_CLAIMS = 20;
+
+// Function words that say nothing about whether a claim is supported
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'with', 'this', 'that', 'are', 'was', 'can', 'will', 'have', 'has',
+  'from', 'then', 'there', 'they', 'them', 'not', 'but', 'all', 'any', 'our', 'its', 'into', 'out', 'should',
+  'would', 'could', 'please', 'also', 'just', 'now', 'try', 'make', 'sure', 'need', 'able', 'one', 'may',
+  'les', 'des', 'une', 'est', 'pour', 'dans', 'vous', 'votre', 'avec', 'sur', 'pas', 'que', 'qui',
+  'der', 'die', 'das', 'und', 'ist', 'sie', 'ihr', 'ihre', 'mit', 'auf', 'den', 'dem', 'ein', 'eine', 'nicht',
+  'per', 'con', 'del', 'della', 'che', 'non', 'una', 'sono', 'suo', 'sua',
+]);
+
+// Courtesy and conversation management, not claims about the product
+const NON_CLAIM = /^(thanks|thank you|hello|hi|dear|sorry|i'm sorry|i hope|hope this|let me know|feel free|glad|happy to help|best regards|kind regards|nofa ai support)/;
+
+const CJK_CHAR = /[\u3400-\u9FFF\uF900-\uFAFF]/;
+
+function tokens(text: string): Set<string> {
+  const normalized = normalizeForMatching(text);
+  const result = new Set<string>();
+  for (const word of normalized.split(/[^a-z0-9_\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF\u0600-\u06FF\u200C\u3400-\u9FFF\uF900-\uFAFF]+/)) {
+    if (CJK_CHAR.test(word)) {
+      // No spaces between Chinese words; compare character pairs instead
+      for (let i = 0; i < word.length - 1; i++) result.add(word.slice(i, i + 2));
+    } else if (word.length >= 3 && !STOPWORDS.has(word)) {
+      result.add(word);
+    }
+  }
+  return result;
+}
+
+/**
+ * Sentences of an answer that state something checkable: questions,
+ * courtesies and very short sentences are left out
+ */
+export function extractClaims(response: string): string[] {
+  return response
+    .split(/(?:[.!?;]\s+|[。！？；]|\n+)/)
+    .map((s) => s.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/\*\*/g, '').trim())
+    .filter((s) => {
+      if (!s || /[?？]$/.test(s)) return false;
+      const normalized = normalizeForMatching(s);
+      if (NON_CLAIM.test(normalized)) return false;
+      return CJK_CHAR.test(s) ? s.length >= 8 : s.split(/\s+/).length >= MIN_CLAIM_WORDS;
+    })
+    .slice(0, MAX_CLAIMS);
+}
+
+function wordOverlap(claim: Set<string>, source: Set<string>): number {
+  if (claim.size === 0) return 1;
+  let shared = 0;
+  claim.forEach((token) => {
+    if (source.has(token)) shared++;
+  });
+  return shared / claim.size;
+}
+
+function passages(sources: GroundingSource[]): GroundingSource[] {
+  const result: GroundingSource[] = [];
+  for (const source of sources) {
+    for (let i = 0; i < source.text.length && result.length < MAX_PASSAGES; i += PASSAGE_LENGTH) {
+      result.push({ id: source.id, text: source.text.slice(i, i + PASSAGE_LENGTH) });
+    }
+  }
+  return result;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Score an answer against its sources. Only the sources support claims - the
+ * customer's own message doesn't - so claims made with no sources score 0.
+ */
+export async function checkGrounding(response: string, sources: GroundingSource[]): Promise<GroundingResult> {
+  const claimTexts = extractClaims(response);
+  if (claimTexts.length === 0) {
+    return { checked: false, score: null, claims: [] };
+  }
+
+  const all = sources.filter((s) => s.text.trim());
+  if (all.length === 0) {
+    return { checked: true, score: 0, claims: claimTexts.map((text) => ({ text, supported: false, support: 0 })) };
+  }
+
+  const sourceTokens = all.map((s) => tokens(s.text));
+
+  const claims: GroundingClaim[] = claimTexts.map((text) => {
+    const claimTokens = tokens(text);
+    let best = { support: 0, sourceId: undefined as string | undefined };
+    sourceTokens.forEach((st, i) => {
+      const overlap = wordOverlap(claimTokens, st);
+      if (overlap > best.support) best = { support: overlap, sourceId: all[i].id };
+    });
+    return { text, supported: best.support >= MIN_WORD_OVERLAP, support: round(best.support), sourceId: best.sourceId };
+  });
+
+  // Claims without shared words may still be paraphrases or translations
+  const unmatched = claims.filter((c) => !c.supported);
+  if (unmatched.length > 0) {
+    try {
+      const sourcePassages = passages(all);
+      const embeddings = await generateEmbeddings([...unmatched.map((c) => c.text), ...sourcePassages.map((p) => p.text)]);
+      const passageEmbeddings = embeddings.slice(unmatched.length);
+      unmatched.forEach((claim, i) => {
+        passageEmbeddings.forEach((passage, j) => {
+          const similarity = cosineSimilarity(embeddings[i].embedding, passage.embedding);
+          if (similarity > claim.support) {
+            claim.support = round(similarity);
+            claim.sourceId = sourcePassages[j].id;
+          }
+        });
+        claim.supported = claim.support >= MIN_SIMILARITY;
+      });
+    } catch (error) {
+      // Word overlap alone is stricter, so the score errs low
+      console.error('Grounding embedding check failed, using word overlap only:', error);
+    }
+  }
+
+  const supported = claims.filter((c) => c.supported).length;
+  return { checked: true, score: round(supported / claims.length), claims };
+}
+
+/**
+ * Grounding for an agent answer under the tenant's policy; undefined when the
+ * check is off or the answer makes no claims
+ */
+export async function groundAnswer(
+  response: string,
+  sources: GroundingSource[],
+  mode: GroundingMode
+): Promise<AnswerGrounding | undefined> {
+  if (mode === 'off') return undefined;
+
+  const result = await checkGrounding(response, sources);
+  if (!result.checked || result.score === null) return undefined;
+
+  return {
+    score: result.score,
+    claims: result.claims,
+    downgraded: mode === 'escalate' && result.score < MIN_GROUNDING_SCORE,
+  };
+}
+
+/**
+ * What to store on the ai_response timeline event (see getGroundingAnalytics)
+ */
+export function groundingMetadata(grounding: AnswerGrounding): Record<string, unknown> {
+  const unsupported = grounding.claims.filter((c) => !c.supported).map((c) => c.text);
+  return {
+    score: grounding.score,
+    claims: grounding.claims.length,
+    unsupportedClaims: unsupported.length,
+    unsupported: unsupported.slice(0, 5),
+    downgraded: grounding.downgraded,
+  };
+}
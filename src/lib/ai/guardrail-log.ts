@@ -0,0 +1,60 @@
+/**
+ * Guardrail Event Log
+ * Records what the guardrails caught during an agent turn on the case timeline
+ * (Admin SDK, server only)
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import type { SupportLevel } from '@/types';
+import type { GuardrailEvent } from './prompt-injection';
+
+const ACTION_LABELS: Record<GuardrailEvent['action'], string> = {
+  blocked: 'Blocked',
+  quarantined: 'Quarantined',
+  warned: 'Flagged',
+};
+
+const SOURCE_LABELS: Record<GuardrailEvent['source'], string> = {
+  customer_message: 'customer message',
+  knowledge_base: 'knowledge base chunk',
+};
+
+/**
+ * Log each guardrail event from a turn as a guardrail timeline event
+ */
+export async function recordGuardrailEvents(
+  tenantId: string,
+  caseId: string,
+  events: GuardrailEvent[] | undefined,
+  level: SupportLevel = 'L1'
+): Promise<void> {
+  if (!events?.length) return;
+
+  const timeline = adminDb()
+    .collection('tenants')
+    .doc(tenantId)
+    .collection('cases')
+    .doc(caseId)
+    .collection('timeline');
+
+  const batch = adminDb().batch();
+  const now = Date.now();
+  events.forEach((event, index) => {
+    batch.set(timeline.doc(), {
+      type: 'guardrail',
+      level,
+      content: `${ACTION_LABELS[event.action]} possible prompt injection in ${SOURCE_LABELS[event.source]} (${event.rules.join(', ')})`,
+      metadata: {
+        kind: event.kind,
+        source: event.source,
+        action: event.action,
+        rules: event.rules,
+        excerpt: event.excerpt,
+        ...(event.docId && { docId: event.docId }),
+      },
+      createdBy: 'system',
+      createdAt: new Date(now + index),
+    });
+  });
+  await batch.commit();
+}
@@ -0,0 +1,211 @@
+/**
+ * Guardrail Policy
+ * Per-tenant additions to the built-in guardrails, stored in tenant settings
+ * (settings.guardrails): escalation keywords per language, custom redactions,
+ * when to hand a case straight to a human, agent actions to block, what to
+ * do with suspected prompt injection, and how to treat ungrounded answers.
+ * Pure - the settings page uses it to test a policy before saving.
+ */
+
+import type { RedactionPattern } from '@/lib/privacy/redaction';
+import { unsafeRegexReason } from './regex-safety';
+
+export type EscalationSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type EscalationClassifierMode = 'off' | 'embedding';
+
+export type PromptInjectionAction = 'block' | 'warn' | 'allow';
+
+export const PROMPT_INJECTION_ACTIONS: PromptInjectionAction[] = ['block', 'warn', 'allow'];
+
+export type GroundingMode = 'off' | 'flag' | 'escalate';
+
+export const GROUNDING_MODES: GroundingMode[] = ['off', 'flag', 'escalate'];
+
+export const ESCALATION_SEVERITIES: EscalationSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+// Keywords for every language use this instead of a language code
+export const ANY_LANGUAGE = 'any';
+
+export interface GuardrailKeyword {
+  keyword: string;
+  // Case language the keyword applies to ('fr'), or 'any'
+  language: string;
+  severity: EscalationSeverity;
+}
+
+export interface GuardrailRedaction {
+  // Shown in the redacted text, e.g. [REDACTED Account ID]
+  name: string;
+  // Regular expression, matched case-insensitively
+  pattern: string;
+}
+
+export interface GuardrailPolicy {
+  // Added keywords; one that repeats a built-in keyword overrides its severity
+  keywords: GuardrailKeyword[];
+  // Built-in keywords to ignore
+  disabledKeywords: string[];
+  redactions: GuardrailRedaction[];
+  // Triggers at or above this severity skip the AI and go to a human
+  humanEscalationSeverity: 'high' | 'critical';
+  // Second pass comparing messages with labeled examples (see escalation-classifier)
+  escalationClassifier: EscalationClassifierMode;
+  // Agent tools the model is not offered
+  blockedActions: string[];
+  // Suspected prompt injection in customer messages and KB chunks (see prompt-injection)
+  promptInjection: PromptInjectionAction;
+  // Check answers against the KB sources (see grounding): off, record the
+  // score, or also escalate instead of sending a poorly supported answer
+  grounding: GroundingMode;
+}
+
+export const DEFAULT_GUARDRAIL_POLICY: GuardrailPolicy = {
+  keywords: [],
+  disabledKeywords: [],
+  redactions: [],
+  humanEscalationSeverity: 'critical',
+  escalationClassifier: 'off',
+  blockedActions: [],
+  promptInjection: 'warn',
+  grounding: 'flag',
+};
+
+// Customers can always be handed to a person, whatever the policy
+export const UNBLOCKABLE_ACTIONS = ['escalate_to_l2', 'escalate_to_human'];
+
+const MAX_KEYWORDS = 200;
+const MAX_KEYWORD_LENGTH = 60;
+const MAX_REDACTIONS = 20;
+const MAX_PATTERN_LENGTH = 200;
+
+export function severityRank(severity: EscalationSeverity): number {
+  return ESCALATION_SEVERITIES.indexOf(severity);
+}
+
+/**
+ * Check a policy before saving; returns the first problem found
+ */
+export function validateGuardrailPolicy(input: Partial<GuardrailPolicy>): string | null {
+  if (input.keywords !== undefined) {
+    if (!Array.isArray(input.keywords) || input.keywords.length > MAX_KEYWORDS) {
+      return `keywords must be a list of at most ${MAX_KEYWORDS} entries`;
+    }
+    for (const entry of input.keywords) {
+      if (typeof entry?.keyword !== 'string' || !entry.keyword.trim() || entry.keyword.length > MAX_KEYWORD_LENGTH) {
+        return `Each keyword must be 1-${MAX_KEYWORD_LENGTH} characters`;
+      }
+      if (typeof entry.language !== 'string' || !(entry.language === ANY_LANGUAGE || /^[a-z]{2}$/.test(entry.language))) {
+        return `Keyword "${entry.keyword}" needs a two-letter language code or "${ANY_LANGUAGE}"`;
+      }
+      if (!ESCALATION_SEVERITIES.includes(entry.severity)) {
+        return `Keyword "${entry.keyword}" needs a severity of ${ESCALATION_SEVERITIES.join(', ')}`;
+      }
+    }
+  }
+  if (input.disabledKeywords !== undefined) {
+    if (!Array.isArray(input.disabledKeywords) || input.disabledKeywords.some((k) => typeof k !== 'string')) {
+      return 'disabledKeywords must be a list of keywords';
+    }
+  }
+  if (input.redactions !== undefined) {
+    if (!Array.isArray(input.redactions) || input.redactions.length > MAX_REDACTIONS) {
+      return `redactions must be a list of at most ${MAX_REDACTIONS} patterns`;
+    }
+    for (const redaction of input.redactions) {
+      if (typeof redaction?.name !== 'string' || !/^[\w .:-]{1,40}$/.test(redaction.name.trim())) {
+        return 'Each redaction needs a name of up to 40 letters, digits or spaces';
+      }
+      if (typeof redaction.pattern !== 'string' || !redaction.pattern || redaction.pattern.length > MAX_PATTERN_LENGTH) {
+        return `Redaction "${redaction.name}" needs a pattern of at most ${MAX_PATTERN_LENGTH} characters`;
+      }
+      try {
+        if (new RegExp(redaction.pattern, 'i').test('')) {
+          return `Redaction "${redaction.name}" matches empty text`;
+        }
+      } catch {
+        return `Redaction "${redaction.name}" is not a valid regular expression`;
+      }
+      const unsafe = unsafeRegexReason(redaction.pattern);
+      if (unsafe) {
+        return `Redaction "${redaction.name}" ${unsafe}, which can make redaction hang`;
+      }
+    }
+  }
+  if (input.humanEscalationSeverity !== undefined && !['high', 'critical'].includes(input.humanEscalationSeverity)) {
+    return 'humanEscalationSeverity must be high or critical';
+  }
+  if (input.escalationClassifier !== undefined && !['off', 'embedding'].includes(input.escalationClassifier)) {
+    return 'escalationClassifier must be off or embedding';
+  }
+  if (input.blockedActions !== undefined) {
+    if (!Array.isArray(input.blockedActions) || input.blockedActions.some((a) => typeof a !== 'string')) {
+      return 'blockedActions must be a list of action names';
+    }
+    const unblockable = input.blockedActions.find((a) => UNBLOCKABLE_ACTIONS.includes(a));
+    if (unblockable) {
+      return `${unblockable} can't be blocked: customers must always be able to reach a person`;
+    }
+  }
+  if (input.promptInjection !== undefined && !PROMPT_INJECTION_ACTIONS.includes(input.promptInjection)) {
+    return `promptInjection must be ${PROMPT_INJECTION_ACTIONS.join(', ')}`;
+  }
+  if (input.grounding !== undefined && !GROUNDING_MODES.includes(input.grounding)) {
+    return `grounding must be ${GROUNDING_MODES.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * A stored policy with defaults for missing fields; entries that fail
+ * validation are dropped rather than failing every message
+ */
+export function resolveGuardrailPolicy(stored: Partial<GuardrailPolicy> = {}): GuardrailPolicy {
+  const policy: GuardrailPolicy = { ...DEFAULT_GUARDRAIL_POLICY };
+
+  if (Array.isArray(stored.keywords)) {
+    policy.keywords = stored.keywords.filter((keyword) => !validateGuardrailPolicy({ keywords: [keyword] }));
+  }
+  if (Array.isArray(stored.disabledKeywords)) {
+    policy.disabledKeywords = stored.disabledKeywords.filter((k) => typeof k === 'string');
+  }
+  if (Array.isArray(stored.redactions)) {
+    policy.redactions = stored.redactions.filter((redaction) => !validateGuardrailPolicy({ redactions: [redaction] }));
+  }
+  if (stored.humanEscalationSeverity === 'high') {
+    policy.humanEscalationSeverity = 'high';
+  }
+  if (stored.escalationClassifier === 'embedding') {
+    policy.escalationClassifier = 'embedding';
+  }
+  if (Array.isArray(stored.blockedActions)) {
+    policy.blockedActions = stored.blockedActions.filter(
+      (a) => typeof a === 'string' && !UNBLOCKABLE_ACTIONS.includes(a)
+    );
+  }
+  if (PROMPT_INJECTION_ACTIONS.includes(stored.promptInjection as PromptInjectionAction)) {
+    policy.promptInjection = stored.promptInjection as PromptInjectionAction;
+  }
+  if (GROUNDING_MODES.includes(stored.grounding as GroundingMode)) {
+    policy.grounding = stored.grounding as GroundingMode;
+  }
+
+  return policy;
+}
+
+/**
+ * The policy's custom redactions as patterns for redactText
+ */
+export function compileRedactions(policy: GuardrailPolicy): RedactionPattern[] {
+  return policy.redactions.map(({ name, pattern }) => ({
+    pattern: new RegExp(pattern, 'gi'),
+    name: name.trim(),
+  }));
+}
+
+/**
+ * Whether triggers of this severity hand the case straight to a human
+ */
+export function requiresHumanEscalation(severity: EscalationSeverity, policy: GuardrailPolicy): boolean {
+  return severityRank(severity) >= severityRank(policy.humanEscalationSeverity);
+}
@@ -0,0 +1,73 @@
+/**
+ * Guardrail Settings
+ * Loads and saves a tenant's guardrail policy (settings.guardrails on the
+ * tenant document; Admin SDK, server only)
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import type { RedactionPattern } from '@/lib/privacy/redaction';
+import {
+  DEFAULT_GUARDRAIL_POLICY,
+  compileRedactions,
+  resolveGuardrailPolicy,
+  validateGuardrailPolicy,
+  type GuardrailPolicy,
+} from './guardrail-policy';
+
+const CACHE_TTL_MS = 60 * 1000;
+
+const policyCache = new Map<string, { policy: GuardrailPolicy; redactions: RedactionPattern[]; expiresAt: number }>();
+
+export type SaveGuardrailPolicyResult =
+  | { ok: true; policy: GuardrailPolicy }
+  | { ok: false; status: 400; error: string };
+
+async function loadPolicy(tenantId: string) {
+  let cached = policyCache.get(tenantId);
+  if (!cached || cached.expiresAt < Date.now()) {
+    try {
+      const tenantDoc = await adminDb().collection('tenants').doc(tenantId).get();
+      const policy = resolveGuardrailPolicy(tenantDoc.data()?.settings?.guardrails);
+      cached = { policy, redactions: compileRedactions(policy), expiresAt: Date.now() + CACHE_TTL_MS };
+      policyCache.set(tenantId, cached);
+    } catch (error) {
+      console.error(`Guardrail policy load error (${tenantId}):`, error);
+      return { policy: DEFAULT_GUARDRAIL_POLICY, redactions: [] };
+    }
+  }
+  return cached;
+}
+
+/**
+ * A tenant's guardrail policy (cached for a minute); the defaults if it can't be loaded
+ */
+export async function getGuardrailPolicy(tenantId: string): Promise<GuardrailPolicy> {
+  return (await loadPolicy(tenantId)).policy;
+}
+
+/**
+ * The tenant's custom redactions, for redacting incoming text
+ */
+export async function getTenantRedactions(tenantId: string): Promise<RedactionPattern[]> {
+  return (await loadPolicy(tenantId)).redactions;
+}
+
+/**
+ * Replace a tenant's guardrail policy
+ */
+export async function saveGuardrailPolicy(
+  tenantId: string,
+  input: Partial<GuardrailPolicy>
+): Promise<SaveGuardrailPolicyResult> {
+  const problem = validateGuardrailPolicy(input);
+  if (problem) return { ok: false, status: 400, error: problem };
+
+  const policy = resolveGuardrailPolicy(input);
+  await adminDb().collection('tenants').doc(tenantId).update({
+    'settings.guardrails': policy,
+    updatedAt: new Date(),
+  });
+  policyCache.delete(tenantId);
+
+  return { ok: true, policy };
+}
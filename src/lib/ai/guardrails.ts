@@ -3,112 +3,68 @@
  * Secret redaction, safety checks, and escalation triggers
  */
 
-// Patterns for sensitive data that should be redacted
-const SENSITIVE_PATTERNS = [
-  // API Keys & Tokens
-  { pattern: /(?:api[_-]?key|apikey)[=:\s]+['"]?([a-zA-Z0-9_\-]{20,})['"]?/gi, name: 'API Key' },
-  { pattern: /(?:bearer|token)[:\s]+['"]?([a-zA-Z0-9_\-\.]{20,})['"]?/gi, name: 'Bearer Token' },
-  { pattern: /sk-[a-zA-Z0-9]{32,}/gi, name: 'OpenAI API Key' },
-  { pattern: /ghp_[a-zA-Z0-9]{36}/gi, name: 'GitHub Token' },
-  { pattern: /gho_[a-zA-Z0-9]{36}/gi, name: 'GitHub OAuth Token' },
-  { pattern: /xox[baprs]-[a-zA-Z0-9\-]+/gi, name: 'Slack Token' },
-  
-  // AWS
-  { pattern: /AKIA[A-Z0-9]{16}/gi, name: 'AWS Access Key' },
-  { pattern: /(?:aws[_-]?secret|secret[_-]?key)[=:\s]+['"]?([a-zA-Z0-9\/+=]{40})['"]?/gi, name: 'AWS Secret' },
-  
-  // Passwords
-  { pattern: /(?:password|passwd|pwd)[=:\s]+['"]?([^\s'"]{8,})['"]?/gi, name: 'Password' },
-  { pattern: /(?:secret|credential)[=:\s]+['"]?([^\s'"]{8,})['"]?/gi, name: 'Secret' },
-  
-  // Credit Cards
-  { pattern: /\b(?:4[0-9]{12}(?:[0-9]{3})?|5[1-5][0-9]{14}|3[47][0-9]{13}|6(?:011|5[0-9]{2})[0-9]{12})\b/g, name: 'Credit Card' },
-  
-  // SSN
-  { pattern: /\b\d{3}-\d{2}-\d{4}\b/g, name: 'SSN' },
-  
-  // Private Keys
-  { pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/gi, name: 'Private Key' },
-  
-  // Connection Strings
-  { pattern: /(?:mongodb|mysql|postgresql|redis|amqp):\/\/[^\s]+/gi, name: 'Connection String' },
-  
-  // Email with password pattern
-  { pattern: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}:[^\s]+/gi, name: 'Email:Password' },
-];
+import { redactText, SECRET_PATTERNS, INGESTION_PATTERNS, type RedactionPattern, type RedactionResult } from '@/lib/privacy/redaction';
+import { normalizeLocale } from '@/lib/playbooks/localization';
+import {
+  getBuiltInKeywords,
+  matchesKeyword,
+  normalizeForMatching,
+  type EscalationKeyword,
+} from './escalation-keywords';
+import {
+  ANY_LANGUAGE,
+  DEFAULT_GUARDRAIL_POLICY,
+  compileRedactions,
+  requiresHumanEscalation,
+  severityRank,
+  type EscalationSeverity,
+  type GuardrailPolicy,
+} from './guardrail-policy';
+import { screenCustomerMessage, type GuardrailEvent } from './prompt-injection';
 
-// Keywords that should trigger escalation
-const ESCALATION_KEYWORDS = [
-  // Legal/Compliance
-  'lawsuit', 'legal action', 'attorney', 'lawyer', 'sue', 'court',
-  'compliance', 'regulation', 'gdpr', 'hipaa', 'pci', 'sox',
-  
-  // Security Incidents
-  'breach', 'hack', 'compromised', 'unauthorized access', 'data leak',
-  'ransomware', 'malware', 'phishing', 'security incident',
-  
-  // Billing Disputes
-  'fraud', 'charge back', 'chargeback', 'dispute charge', 'unauthorized charge',
-  'refund demand', 'cancel subscription', 'billing error',
-  
-  // Customer Frustration
-  'speak to manager', 'supervisor', 'escalate', 'unacceptable',
-  'terrible service', 'worst experience', 'never again',
-  
-  // Threats
-  'social media', 'bad review', 'report you', 'bbb',
-  
-  // Urgency
-  'emergency', 'urgent', 'critical', 'production down', 'outage',
-];
-
-export interface RedactionResult {
-  text: string;
-  redactions: Array<{
-    type: string;
-    original: string;
-    position: number;
-  }>;
-  hasSecrets: boolean;
-}
+export type { RedactionResult };
 
 /**
- * Redact sensitive information from text
+ * Redact secrets from text (credentials and payment data; PII is redacted at
+ * ingestion, see src/lib/privacy)
  */
 export function redactSecrets(text: string): RedactionResult {
-  let result = text;
-  const redactions: RedactionResult['redactions'] = [];
-  
-  for (const { pattern, name } of SENSITIVE_PATTERNS) {
-    // Reset lastIndex for global patterns
-    pattern.lastIndex = 0;
-    
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      const original = match[0];
-      const replacement = `[REDACTED ${name}]`;
-      
-      redactions.push({
-        type: name,
-        original: original.substring(0, 4) + '...',
-        position: match.index,
-      });
-      
-      result = result.replace(original, replacement);
-    }
-  }
-  
-  return {
-    text: result,
-    redactions,
-    hasSecrets: redactions.length > 0,
-  };
+  return redactText(text, SECRET_PATTERNS);
 }
 
 export interface EscalationCheck {
   shouldEscalate: boolean;
   reasons: string[];
-  severity: 'low' | 'medium' | 'high' | 'critical';
+  severity: EscalationSeverity;
+}
+
+/**
+ * Keywords that trigger escalation for a case language: the built-in sets
+ * (see escalation-keywords) with the policy's disabled keywords removed and
+ * its own keywords added. Language-specific policy keywords apply when the
+ * language matches or isn't known.
+ */
+export function getEscalationKeywords(
+  policy: GuardrailPolicy = DEFAULT_GUARDRAIL_POLICY,
+  language?: string
+): EscalationKeyword[] {
+  const base = normalizeLocale(language);
+  const disabled = new Set(policy.disabledKeywords.map((k) => normalizeForMatching(k).trim()));
+  const keywords = new Map<string, EscalationKeyword>();
+
+  for (const entry of getBuiltInKeywords(base)) {
+    const key = normalizeForMatching(entry.keyword);
+    if (!disabled.has(key)) keywords.set(key, entry);
+  }
+
+  for (const entry of policy.keywords) {
+    if (entry.language !== ANY_LANGUAGE && base && entry.language !== base) continue;
+    const key = normalizeForMatching(entry.keyword).trim();
+    // Overriding a built-in keyword keeps its category
+    keywords.set(key, { ...keywords.get(key), keyword: entry.keyword.trim(), severity: entry.severity });
+  }
+
+  return Array.from(keywords.values());
 }
 
 /**
@@ -120,30 +76,23 @@ export function checkEscalationTriggers(
     failedAttempts?: number;
     severity?: string;
     customerRequested?: boolean;
-  }
+    language?: string;
+  },
+  policy: GuardrailPolicy = DEFAULT_GUARDRAIL_POLICY
 ): EscalationCheck {
   const reasons: string[] = [];
-  let severity: EscalationCheck['severity'] = 'low';
+  let severity: EscalationSeverity = 'low';
+  const raise = (to: EscalationSeverity) => {
+    if (severityRank(to) > severityRank(severity)) severity = to;
+  };
   
-  const lowerMessage = message.toLowerCase();
+  const normalizedMessage = normalizeForMatching(message);
   
-  // Check keyword triggers
-  for (const keyword of ESCALATION_KEYWORDS) {
-    if (lowerMessage.includes(keyword.toLowerCase())) {
-      reasons.push(`Keyword detected: "${keyword}"`);
-      
-      // Increase severity based on keyword category
-      if (['lawsuit', 'legal action', 'breach', 'hack', 'security incident'].some(
-        (k) => keyword.toLowerCase().includes(k)
-      )) {
-        severity = 'critical';
-      } else if (['compliance', 'fraud', 'emergency', 'production down'].some(
-        (k) => keyword.toLowerCase().includes(k)
-      )) {
-        severity = 'high';
-      } else if (severity !== 'critical' && severity !== 'high') {
-        severity = 'medium';
-      }
+  // Check keyword triggers (whole words, so "issue" doesn't trigger "sue")
+  for (const { keyword, severity: keywordSeverity, category } of getEscalationKeywords(policy, context?.language)) {
+    if (matchesKeyword(normalizedMessage, keyword)) {
+      reasons.push(`Keyword detected: "${keyword}"${category ? ` (${category})` : ''}`);
+      raise(keywordSeverity);
     }
   }
   
@@ -151,17 +100,17 @@ export function checkEscalationTriggers(
   if (context) {
     if (context.failedAttempts && context.failedAttempts >= 3) {
       reasons.push('Multiple failed resolution attempts');
-      if (severity === 'low') severity = 'medium';
+      raise('medium');
     }
     
     if (context.severity === 'critical' || context.severity === 'high') {
       reasons.push(`Case severity: ${context.severity}`);
-      severity = context.severity as 'high' | 'critical';
+      raise(context.severity);
     }
     
     if (context.customerRequested) {
       reasons.push('Customer requested human agent');
-      if (severity === 'low') severity = 'medium';
+      raise('medium');
     }
   }
   
@@ -175,7 +124,7 @@ export function checkEscalationTriggers(
 /**
  * Validate AI response before sending
  */
-export function validateAIResponse(response: string): {
+export function validateAIResponse(response: string, extraPatterns: RedactionPattern[] = []): {
   valid: boolean;
   issues: string[];
   sanitizedResponse: string;
@@ -183,8 +132,8 @@ export function validateAIResponse(response: string): {
   const issues: string[] = [];
   let sanitized = response;
   
-  // Check for leaked secrets in response
-  const redaction = redactSecrets(response);
+  // Check for leaked secrets (and the tenant's own redactions) in response
+  const redaction = redactText(response, [...SECRET_PATTERNS, ...extraPatterns]);
   if (redaction.hasSecrets) {
     issues.push('Response contained sensitive data that was redacted');
     sanitized = redaction.text;
@@ -217,10 +166,59 @@ export function validateAIResponse(response: string): {
   };
 }
 
+// Streamed text held back until a secret pattern can no longer grow into it
+const STREAM_HOLDBACK_CHARS = 64;
+
+export interface StreamSanitizer {
+  // Add generated text; returns the sanitized text that is safe to send now
+  push(delta: string): string;
+  // End of the stream: the rest of the sanitized text and the full validation
+  flush(): { text: string; validation: ReturnType<typeof validateAIResponse> };
+}
+
+/**
+ * Apply validateAIResponse to a response while it streams. Text is released
+ * only once it's far enough behind the end that a match can't still start in
+ * it, so redactions happen before anything leaves the server.
+ */
+export function createStreamSanitizer(extraPatterns: RedactionPattern[] = []): StreamSanitizer {
+  let raw = '';
+  let sent = '';
+
+  const release = (final: boolean): string => {
+    const sanitized = validateAIResponse(raw, extraPatterns).sanitizedResponse;
+    let end = sanitized.length;
+    if (!final) {
+      // Stop at a word boundary so a held-back secret isn't split
+      const boundary = sanitized.substring(0, Math.max(0, end - STREAM_HOLDBACK_CHARS)).search(/\s\S*$/);
+      end = boundary === -1 ? 0 : boundary + 1;
+    }
+    if (end <= sent.length) return '';
+
+    if (!sanitized.startsWith(sent)) {
+      // A redaction reached into text that was already sent; it can't be taken back
+      console.warn('Stream sanitizer: redaction overlapped sent text');
+    }
+    const chunk = sanitized.substring(sent.length, end);
+    sent += chunk;
+    return chunk;
+  };
+
+  return {
+    push(delta) {
+      raw += delta;
+      return release(false);
+    },
+    flush() {
+      return { text: release(true), validation: validateAIResponse(raw, extraPatterns) };
+    },
+  };
+}
+
 /**
- * Get safe actions that L1 can perform
+ * Get safe actions the agents can perform, less those the tenant blocked
  */
-export function getSafeActions(): string[] {
+export function getSafeActions(policy: GuardrailPolicy = DEFAULT_GUARDRAIL_POLICY): string[] {
   return [
     'lookup_documentation',
     'check_status',
@@ -231,14 +229,20 @@ export function getSafeActions(): string[] {
     'escalate_to_human',
     'provide_information',
     'guide_through_steps',
-  ];
+    // Agent tools
+    'execute_playbook_step',
+    'mark_resolved',
+    'analyze_error',
+    'suggest_diagnostic_steps',
+    'initiate_visionscreen',
+  ].filter((action) => !policy.blockedActions.includes(action));
 }
 
 /**
- * Check if an action is safe for L1 to execute
+ * Check if an action is safe for the agents to execute
  */
-export function isActionSafe(action: string): boolean {
-  const safeActions = getSafeActions();
+export function isActionSafe(action: string, policy: GuardrailPolicy = DEFAULT_GUARDRAIL_POLICY): boolean {
+  const safeActions = getSafeActions(policy);
   return safeActions.includes(action.toLowerCase());
 }
 
@@ -258,3 +262,30 @@ export function getDangerousActions(): string[] {
     'run_command',
   ];
 }
+
+export interface GuardrailPreview {
+  redaction: RedactionResult;
+  escalation: EscalationCheck;
+  // The L1 agent would hand the case to a human without answering
+  humanEscalation: boolean;
+  // Suspected prompt injection and what the policy does with it
+  injection: GuardrailEvent | null;
+}
+
+/**
+ * What a policy does to a sample customer message (used to test a policy before saving)
+ */
+export function previewGuardrails(
+  sample: string,
+  policy: GuardrailPolicy,
+  options: { language?: string } = {}
+): GuardrailPreview {
+  const redaction = redactText(sample, [...INGESTION_PATTERNS, ...compileRedactions(policy)]);
+  const escalation = checkEscalationTriggers(redaction.text, { language: options.language }, policy);
+  return {
+    redaction,
+    escalation,
+    humanEscalation: escalation.shouldEscalate && requiresHumanEscalation(escalation.severity, policy),
+    injection: screenCustomerMessage(redaction.text, policy.promptInjection).event ?? null,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Conversation History Builder
+ * Turns a case timeline into the message history the AI agents see,
+ * trimmed to a token budget with older turns condensed into a summary
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import type { TimelineEvent } from '@/types';
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface HistoryOptions {
+  // Approximate token budget for the whole history, summary included
+  maxTokens?: number;
+  // Share of the budget the summary of older turns may use
+  summaryShare?: number;
+  // Opening customer message not recorded on the timeline (e.g. case.problem)
+  initialMessage?: string;
+}
+
+const DEFAULT_MAX_TOKENS = 2000;
+const DEFAULT_SUMMARY_SHARE = 0.25;
+const SUMMARY_SNIPPET_CHARS = 160;
+
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Map timeline events to conversation turns, oldest first.
+ * Customer input comes from inbound SMS, email replies and voice transcripts
+ * (stored on the AI response as metadata.userInput); agent output from AI and human replies.
+ */
+export function timelineToMessages(events: TimelineEvent[]): ConversationMessage[] {
+  const messages: ConversationMessage[] = [];
+
+  for (const event of events) {
+    if (!event.content) continue;
+    const metadata = event.metadata || {};
+    // The reply route also writes customer_reply / agent_response events
+    const type = event.type as string;
+
+    if (type === 'sms_sent' && metadata.direction === 'inbound') {
+      messages.push({ role: 'user', content: event.content });
+    } else if (type === 'customer_reply') {
+      messages.push({ role: 'user', content: event.content });
+    } else if (type === 'ai_response') {
+      if (typeof metadata.userInput === 'string' && metadata.userInput) {
+        messages.push({ role: 'user', content: metadata.userInput });
+      }
+      messages.push({ role: 'assistant', content: event.content });
+    } else if (type === 'agent_response') {
+      messages.push({ role: 'assistant', content: event.content });
+    }
+  }
+
+  return messages;
+}
+
+function summarizeMessages(messages: ConversationMessage[], maxTokens: number): ConversationMessage {
+  const header = `Summary of ${messages.length} earlier messages in this conversation:`;
+  const lines: string[] = [];
+  let tokens = estimateTokens(header);
+
+  // Keep the earliest turns: they usually state the problem and what was already tried
+  for (const message of messages) {
+    const speaker = message.role === 'user' ? 'Customer' : 'Agent';
+    const snippet = message.content.replace(/\s+/g, ' ').trim();
+    const line = `- ${speaker}: ${snippet.length > SUMMARY_SNIPPET_CHARS ? snippet.substring(0, SUMMARY_SNIPPET_CHARS - 3) + '...' : snippet}`;
+
+    if (tokens + estimateTokens(line) > maxTokens) {
+      lines.push(`- (${messages.length - lines.length} more messages omitted)`);
+      break;
+    }
+    lines.push(line);
+    tokens += estimateTokens(line);
+  }
+
+  return { role: 'system', content: [header, ...lines].join('\n') };
+}
+
+/**
+ * Trim a history to the token budget. The most recent turns are kept verbatim;
+ * anything older is condensed into a single summary message at the start.
+ */
+export function fitHistoryToBudget(
+  messages: ConversationMessage[],
+  options: Pick<HistoryOptions, 'maxTokens' | 'summaryShare'> = {}
+): ConversationMessage[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const total = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  if (total <= maxTokens) return messages;
+
+  const summaryBudget = Math.floor(maxTokens * (options.summaryShare ?? DEFAULT_SUMMARY_SHARE));
+  const recentBudget = maxTokens - summaryBudget;
+
+  const recent: ConversationMessage[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(messages[i].content);
+    if (used + cost > recentBudget) break;
+    recent.unshift(messages[i]);
+    used += cost;
+  }
+
+  const older = messages.slice(0, messages.length - recent.length);
+  return older.length > 0 ? [summarizeMessages(older, summaryBudget), ...recent] : recent;
+}
+
+/**
+ * Build the agent history for a set of timeline events
+ */
+export function buildConversationHistory(
+  events: TimelineEvent[],
+  options: HistoryOptions = {}
+): ConversationMessage[] {
+  const messages = timelineToMessages(events);
+  if (options.initialMessage) {
+    messages.unshift({ role: 'user', content: options.initialMessage });
+  }
+  return fitHistoryToBudget(messages, options);
+}
+
+/**
+ * Load a case's timeline and build its agent history.
+ * Reads through the Admin SDK: the client SDK's getTimelineEvents only initializes in the browser.
+ */
+export async function loadConversationHistory(
+  tenantId: string,
+  caseId: string,
+  options: HistoryOptions = {}
+): Promise<ConversationMessage[]> {
+  const snapshot = await adminDb()
+    .collection('tenants')
+    .doc(tenantId)
+    .collection('cases')
+    .doc(caseId)
+    .collection('timeline')
+    .orderBy('createdAt', 'asc')
+    .get();
+
+  const events = snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  }) as TimelineEvent);
+
+  return buildConversationHistory(events, options);
+}
@@ -1,25 +1,47 @@
 /**
  * L1 AI Support Agent
- * Uses OpenAI GPT-4 with function calling, RAG retrieval, and playbook constraints
+ * Uses the tenant's configured LLM with function calling, RAG retrieval, and playbook constraints
  */
 
-import OpenAI from 'openai';
+import { getLLMProvider, getLLMSettings, type LLMMessage, type LLMToolDefinition } from '@/lib/llm';
 import { retrieveRelevantChunks, assembleContext } from '../knowledge-base/retrieval';
-import { findPlaybooks, getCurrentStep, formatInstruction } from '../playbooks/engine';
-import { redactSecrets, checkEscalationTriggers, validateAIResponse } from './guardrails';
-import type { Playbook, PlaybookExecutionState } from '../playbooks/types';
+import {
+  findPlaybooks,
+  getPlaybook,
+  getCurrentStep,
+  formatInstruction,
+  createExecutionState,
+  executeStep,
+  isPlaybookComplete,
+  isStepTimedOut,
+  getEscalationMessage,
+  extractKeywords,
+} from '../playbooks/engine';
+import { ensurePlaybooksLoaded } from '../playbooks/loader';
+import { resolveBuiltInVariables } from '../playbooks/variables';
+import { localizePlaybook } from '../playbooks/localization';
+import { validateAIResponse, isActionSafe } from './guardrails';
+import { detectEscalation } from './escalation-classifier';
+import { requiresHumanEscalation } from './guardrail-policy';
+import { getGuardrailPolicy, getTenantRedactions } from './guardrail-settings';
+import { groundAnswer, type AnswerGrounding, type GroundingSource } from './grounding';
+import { screenCustomerMessage, screenChunks, fenceUntrusted, UNTRUSTED_CONTENT_NOTICE, type GuardrailEvent } from './prompt-injection';
+import { redactText, INGESTION_PATTERNS } from '@/lib/privacy/redaction';
+import { findActiveIncident, formatIncidentReply, type IncidentReference } from '@/lib/incidents';
+import { chatWithEvents, holdDeltas, streamAgentResponse, type AgentStreamOptions } from './stream';
+import type { AgentToolCall } from './tool-log';
+import type {
+  Playbook,
+  PlaybookExecutionState,
+  PlaybookExecutionResult,
+  PlaybookProgress,
+} from '../playbooks/types';
+import type { CaseSource } from '@/types';
 
-// Lazy-initialized OpenAI client
-let openai: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openai) {
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openai;
-}
+// Model calls per customer message (tool rounds plus the final answer)
+const MAX_TOOL_ITERATIONS = 4;
+// Token budget across those calls; once spent, the next call must answer
+const MAX_TURN_TOKENS = 12000;
 
 export interface L1AgentContext {
   tenantId: string;
@@ -35,6 +57,11 @@ export interface L1AgentContext {
   }>;
   playbookState?: PlaybookExecutionState;
   failedAttempts?: number;
+  source?: CaseSource;
+  // Built-in playbook variables (see loadPlaybookVariables); the case fields above fill in the basics
+  variables?: Record<string, string>;
+  // Incident the case is already linked to
+  incidentId?: string;
 }
 
 export interface L1AgentResponse {
@@ -51,11 +78,21 @@ export interface L1AgentResponse {
     title: string;
     instruction: string;
   };
+  // Updated playbook state to persist for the next turn (see recordPlaybookProgress)
+  playbook?: PlaybookProgress;
   sources?: Array<{
     docId: string;
     content: string;
     score: number;
   }>;
+  // Tools run this turn, to log on the timeline (see recordToolCalls)
+  toolCalls?: AgentToolCall[];
+  // Suspected prompt injection this turn, to log on the timeline (see recordGuardrailEvents)
+  guardrailEvents?: GuardrailEvent[];
+  // How well the answer follows from the docs and tool results (see groundingMetadata)
+  grounding?: AnswerGrounding;
+  // Active incident the reply was about; the case is linked to it (see linkCaseToIncident)
+  incident?: IncidentReference;
   metadata: {
     model: string;
     tokensUsed: number;
@@ -64,109 +101,102 @@ export interface L1AgentResponse {
   };
 }
 
-// Function definitions for OpenAI function calling
-const AGENT_FUNCTIONS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+// Tools the model can call
+const AGENT_FUNCTIONS: LLMToolDefinition[] = [
   {
-    type: 'function',
-    function: {
-      name: 'lookup_documentation',
-      description: 'Search the knowledge base for relevant documentation',
-      parameters: {
-        type: 'object',
-        properties: {
-          query: {
-            type: 'string',
-            description: 'The search query for documentation',
-          },
+    name: 'lookup_documentation',
+    description: 'Search the knowledge base for relevant documentation',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'The search query for documentation',
         },
-        required: ['query'],
       },
+      required: ['query'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'execute_playbook_step',
-      description: 'Execute the current step in the support playbook',
-      parameters: {
-        type: 'object',
-        properties: {
-          stepId: {
-            type: 'string',
-            description: 'The ID of the step to execute',
-          },
-          outcome: {
-            type: 'string',
-            enum: ['success', 'failure'],
-            description: 'The outcome of the step',
-          },
-          notes: {
-            type: 'string',
-            description: 'Optional notes about the step execution',
-          },
+    name: 'execute_playbook_step',
+    description: 'Execute the current step in the support playbook',
+    parameters: {
+      type: 'object',
+      properties: {
+        stepId: {
+          type: 'string',
+          description: 'The ID of the step to execute',
+        },
+        outcome: {
+          type: 'string',
+          enum: ['success', 'failure'],
+          description: 'The outcome of the step',
+        },
+        customerConfirmed: {
+          type: 'boolean',
+          description: "True only if the customer's latest message explicitly confirms the step worked",
+        },
+        capturedValue: {
+          type: 'string',
+          description: "The customer's answer, for steps that ask you to capture one",
+        },
+        notes: {
+          type: 'string',
+          description: 'Optional notes about the step execution',
         },
-        required: ['stepId', 'outcome'],
       },
+      required: ['stepId', 'outcome'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'escalate_to_l2',
-      description: 'Escalate the case to L2 support for advanced troubleshooting',
-      parameters: {
-        type: 'object',
-        properties: {
-          reason: {
-            type: 'string',
-            description: 'Reason for escalation',
-          },
-          summary: {
-            type: 'string',
-            description: 'Summary of what has been tried',
-          },
+    name: 'escalate_to_l2',
+    description: 'Escalate the case to L2 support for advanced troubleshooting',
+    parameters: {
+      type: 'object',
+      properties: {
+        reason: {
+          type: 'string',
+          description: 'Reason for escalation',
+        },
+        summary: {
+          type: 'string',
+          description: 'Summary of what has been tried',
         },
-        required: ['reason', 'summary'],
       },
+      required: ['reason', 'summary'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'escalate_to_human',
-      description: 'Escalate the case to a human support agent',
-      parameters: {
-        type: 'object',
-        properties: {
-          reason: {
-            type: 'string',
-            description: 'Reason for human escalation',
-          },
-          urgency: {
-            type: 'string',
-            enum: ['low', 'medium', 'high', 'critical'],
-            description: 'Urgency level',
-          },
+    name: 'escalate_to_human',
+    description: 'Escalate the case to a human support agent',
+    parameters: {
+      type: 'object',
+      properties: {
+        reason: {
+          type: 'string',
+          description: 'Reason for human escalation',
+        },
+        urgency: {
+          type: 'string',
+          enum: ['low', 'medium', 'high', 'critical'],
+          description: 'Urgency level',
         },
-        required: ['reason', 'urgency'],
       },
+      required: ['reason', 'urgency'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'mark_resolved',
-      description: 'Mark the case as resolved',
-      parameters: {
-        type: 'object',
-        properties: {
-          resolution: {
-            type: 'string',
-            description: 'Description of how the issue was resolved',
-          },
+    name: 'mark_resolved',
+    description: 'Mark the case as resolved',
+    parameters: {
+      type: 'object',
+      properties: {
+        resolution: {
+          type: 'string',
+          description: 'Description of how the issue was resolved',
         },
-        required: ['resolution'],
       },
+      required: ['resolution'],
     },
   },
 ];
@@ -177,7 +207,9 @@ const AGENT_FUNCTIONS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
 function buildSystemPrompt(
   context: L1AgentContext,
   ragContext: string,
-  playbook?: Playbook
+  playbook?: Playbook,
+  playbookState?: PlaybookExecutionState,
+  playbookResult?: PlaybookExecutionResult
 ): string {
   let prompt = `You are NOFA AI Support, a Level 1 (L1) support agent for NOFA Business Consulting products. You help customers with technical issues using a structured approach. When signing off, use "NOFA AI Support Team" (not "TechSupport AI").
 
@@ -194,6 +226,7 @@ function buildSystemPrompt(
 - Always be polite and professional
 - Keep responses concise but helpful
 - If unsure, escalate rather than guess
+- ${UNTRUSTED_CONTENT_NOTICE}
 
 ## Current Case Context
 - Product: ${context.product}
@@ -207,25 +240,29 @@ ${context.customerName ? `- Customer: ${context.customerName}` : ''}
   // Add RAG context if available
   if (ragContext) {
     prompt += `## Relevant Documentation
-${ragContext}
+${fenceUntrusted(ragContext, 'documentation')}
 
 `;
   }
 
   // Add playbook context if available
-  if (playbook && context.playbookState) {
-    const currentStep = getCurrentStep(playbook, context.playbookState);
+  if (playbook && playbookState && !isPlaybookComplete(playbookState)) {
+    const currentStep = getCurrentStep(playbook, playbookState);
     if (currentStep) {
       const instruction = formatInstruction(
         currentStep.instruction,
-        context.playbookState.variables
+        playbookState.variables
       );
       prompt += `## Current Playbook: ${playbook.metadata.name}
 **Current Step (${currentStep.id})**: ${currentStep.title}
 **Instructions**: ${instruction}
 ${currentStep.expectedOutcome ? `**Expected Outcome**: ${currentStep.expectedOutcome}` : ''}
+${playbookResult?.outcome === 'timeout' ? `**Note**: The customer did not respond to "${playbookResult.stepTitle}" in time, so that step timed out. Explain this briefly and give the instructions above.` : ''}
+${currentStep.timeout ? `**Time limit**: The customer has ${currentStep.timeout} seconds to complete this step; mention it if it matters (e.g. a code or link expires).` : ''}
+${currentStep.capture ? `**Capture**: Pass the customer's answer for "${currentStep.capture.variable}"${currentStep.capture.description ? ` (${currentStep.capture.description})` : ''} as capturedValue${currentStep.capture.options?.length ? `, using one of: ${currentStep.capture.options.join(', ')}` : ''}.` : ''}
+${currentStep.requiresConfirmation ? `**Confirmation required**: Only report success with customerConfirmed true once the customer has explicitly confirmed it worked in their latest message.${playbookState.awaitingConfirmation === currentStep.id ? ' You reported success earlier but the customer has not confirmed yet; ask them to confirm.' : ''}` : ''}
 
-Follow this playbook step. If the customer confirms success, mark the step as successful. If they report failure, follow the failure path or escalate if needed.
+Follow this playbook step. When the customer reports the result, call execute_playbook_step with stepId "${currentStep.id}" and outcome "success" or "failure". The tool result tells you the next step or that the case is escalating; pass that on to the customer.
 
 `;
     }
@@ -233,7 +270,7 @@ Follow this playbook step. If the customer confirms success, mark the step as su
 
   prompt += `## Response Guidelines
 1. First, try to understand the customer's issue
-2. Search documentation if you need more information
+2. Search documentation with lookup_documentation if you need more information; the results come back to you before you answer
 3. Guide the customer through troubleshooting steps
 4. If following a playbook, stick to the current step
 5. Escalate if:
@@ -252,31 +289,90 @@ Respond in ${context.language}.`;
  */
 export async function processL1Request(
   context: L1AgentContext,
-  userMessage: string
+  userMessage: string,
+  options: AgentStreamOptions = {}
 ): Promise<L1AgentResponse> {
   const startTime = Date.now();
+  const llmSettings = await getLLMSettings(context.tenantId, 'L1');
+  const policy = await getGuardrailPolicy(context.tenantId);
+  const tenantRedactions = await getTenantRedactions(context.tenantId);
+  // An answer that may be swapped for an escalation after the grounding check
+  // isn't streamed until it has passed
+  const heldDeltas = policy.grounding === 'escalate' ? holdDeltas(options.onEvent) : null;
+  const onEvent = heldDeltas ? heldDeltas.onEvent : options.onEvent;
   
-  // Redact secrets from user message
-  const redactedInput = redactSecrets(userMessage);
+  // Redact secrets and PII (channel messages were already redacted at ingestion)
+  const redactedInput = redactText(userMessage, [...INGESTION_PATTERNS, ...tenantRedactions]);
   const safeUserMessage = redactedInput.text;
   
+  // Instructions aimed at the model are blocked (after the checks that don't
+  // involve it), or fenced and flagged, per the tenant's policy
+  const guardrailEvents: GuardrailEvent[] = [];
+  const injection = screenCustomerMessage(safeUserMessage, policy.promptInjection);
+  if (injection.event) guardrailEvents.push(injection.event);
+  
+  const customerRequested = safeUserMessage.toLowerCase().includes('speak to human') ||
+    safeUserMessage.toLowerCase().includes('talk to person');
+  
   // Check for escalation triggers
-  const escalationCheck = checkEscalationTriggers(safeUserMessage, {
+  const escalationCheck = await detectEscalation(safeUserMessage, {
     failedAttempts: context.failedAttempts,
     severity: context.severity,
-    customerRequested: safeUserMessage.toLowerCase().includes('speak to human') ||
-      safeUserMessage.toLowerCase().includes('talk to person'),
-  });
+    customerRequested,
+    language: context.language,
+  }, policy);
   
   // If escalation is triggered, return early
-  if (escalationCheck.shouldEscalate && escalationCheck.severity === 'critical') {
+  if (escalationCheck.shouldEscalate && requiresHumanEscalation(escalationCheck.severity, policy)) {
     return {
       message: "I understand this is a critical matter. I'm connecting you with a human support specialist right away who can assist you better.",
       shouldEscalate: true,
       escalationReason: escalationCheck.reasons.join('; '),
       escalationLevel: 'L3',
+      guardrailEvents: guardrailEvents.length > 0 ? guardrailEvents : undefined,
+      metadata: {
+        model: llmSettings.model,
+        tokensUsed: 0,
+        ragChunksUsed: 0,
+        processingTimeMs: Date.now() - startTime,
+      },
+    };
+  }
+  
+  // During a known incident, answer with its status instead of triaging each
+  // report separately (unless the customer asks for a person). Checked after
+  // the escalation triggers, so a legal threat or breach report during an
+  // outage still reaches a person.
+  const incident = customerRequested
+    ? undefined
+    : await findActiveIncident(context.tenantId, {
+        product: context.product,
+        message: safeUserMessage,
+        incidentId: context.incidentId,
+      });
+  if (incident) {
+    return {
+      message: formatIncidentReply(incident, context.language),
+      shouldEscalate: false,
+      incident: { id: incident.id, title: incident.title, status: incident.status, eta: incident.eta },
+      guardrailEvents: guardrailEvents.length > 0 ? guardrailEvents : undefined,
       metadata: {
-        model: 'gpt-4',
+        model: llmSettings.model,
+        tokensUsed: 0,
+        ragChunksUsed: 0,
+        processingTimeMs: Date.now() - startTime,
+      },
+    };
+  }
+  
+  // Blocked messages never reach the model
+  if (injection.blocked) {
+    return {
+      message: "I can't act on that message as written. Please describe the problem you're having, or ask for a person and I'll connect you.",
+      shouldEscalate: false,
+      guardrailEvents,
+      metadata: {
+        model: llmSettings.model,
         tokensUsed: 0,
         ragChunksUsed: 0,
         processingTimeMs: Date.now() - startTime,
@@ -287,9 +383,11 @@ export async function processL1Request(
   // Retrieve RAG context
   let ragContext = '';
   let ragSources: L1AgentResponse['sources'] = [];
+  // What the model was given to answer from, to check the answer against
+  const groundingSources: GroundingSource[] = [];
   
   try {
-    const chunks = await retrieveRelevantChunks(
+    const retrieved = await retrieveRelevantChunks(
       context.tenantId,
       safeUserMessage,
       {
@@ -297,9 +395,13 @@ export async function processL1Request(
         topK: 5,
       }
     );
+    // A poisoned document can carry instructions too
+    const { chunks, events } = screenChunks(retrieved, policy.promptInjection);
+    guardrailEvents.push(...events);
     
     if (chunks.length > 0) {
       ragContext = assembleContext(chunks);
+      groundingSources.push(...chunks.map((c) => ({ id: c.metadata.docId, text: c.content })));
       ragSources = chunks.map((c) => ({
         docId: c.metadata.docId,
         content: c.content.substring(0, 200) + '...',
@@ -311,99 +413,301 @@ export async function processL1Request(
     // Continue without RAG context
   }
   
-  // Find relevant playbook
+  // Resume the case's playbook, or start the first matching one
   let playbook: Playbook | undefined;
+  let playbookState: PlaybookExecutionState | undefined;
   try {
-    const playbooks = findPlaybooks({
-      product: context.product,
-      category: context.category,
-      keywords: safeUserMessage.split(' ').filter((w) => w.length > 3),
-    });
-    playbook = playbooks[0]; // Use first matching playbook
+    await ensurePlaybooksLoaded(context.tenantId);
+    
+    if (context.playbookState) {
+      // Copy so the caller's state is only replaced once the turn succeeds
+      playbookState = structuredClone(context.playbookState);
+      if (!isPlaybookComplete(playbookState)) {
+        playbook = getPlaybook(playbookState.playbookId, context.tenantId);
+      }
+    } else {
+      const playbooks = findPlaybooks({
+        tenantId: context.tenantId,
+        product: context.product,
+        category: context.category,
+        severity: context.severity,
+        language: context.language,
+        source: context.source,
+        failedAttempts: context.failedAttempts,
+        keywords: extractKeywords(safeUserMessage),
+      });
+      playbook = playbooks[0]; // Best-scoring match
+      if (playbook) {
+        playbookState = createExecutionState(playbook);
+      }
+    }
   } catch (error) {
     console.error('Playbook lookup error:', error);
   }
   
+  // Step text in the case's language, falling back to the playbook's default
+  if (playbook) {
+    playbook = localizePlaybook(playbook, context.language);
+  }
+  
+  // Refresh built-in variables each turn; captured answers are kept
+  if (playbookState) {
+    playbookState.variables = {
+      ...playbookState.variables,
+      ...resolveBuiltInVariables({
+        case: {
+          id: context.caseId,
+          product: context.product,
+          category: context.category,
+          severity: context.severity,
+          language: context.language,
+          source: context.source,
+          customerName: context.customerName,
+        },
+      }),
+      ...context.variables,
+    };
+  }
+  
+  // A reply after the step's time limit times the step out before the model runs
+  let playbookResult: PlaybookExecutionResult | undefined;
+  if (playbook && playbookState && isStepTimedOut(playbook, playbookState)) {
+    playbookResult = executeStep(playbook, playbookState, 'failure');
+  }
+  
   // Build system prompt
-  const systemPrompt = buildSystemPrompt(context, ragContext, playbook);
+  const systemPrompt = buildSystemPrompt(context, ragContext, playbook, playbookState, playbookResult);
+  const promptStep = playbook && playbookState ? getCurrentStep(playbook, playbookState) : undefined;
+  if (promptStep) {
+    groundingSources.push({
+      id: `playbook:${promptStep.id}`,
+      text: `${formatInstruction(promptStep.instruction, playbookState!.variables)}\n${promptStep.expectedOutcome || ''}`,
+    });
+  }
   
   // Build messages array
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     ...context.conversationHistory.map((msg) => ({
       role: msg.role as 'user' | 'assistant' | 'system',
       content: msg.content,
     })),
-    { role: 'user', content: safeUserMessage },
+    { role: 'user', content: injection.event ? fenceUntrusted(safeUserMessage, 'customer_message') : safeUserMessage },
   ];
   
-  // Call OpenAI
-  const completion = await getOpenAIClient().chat.completions.create({
-    model: 'gpt-4',
-    messages,
-    tools: AGENT_FUNCTIONS,
-    tool_choice: 'auto',
-    temperature: 0.7,
-    max_tokens: 1000,
-  });
-  
-  const choice = completion.choices[0];
-  const responseMessage = choice.message;
-  
-  // Process function calls if any
+  // Agent loop: run the tools the model calls and hand the results back
+  // until it answers the customer
   let action: L1AgentResponse['action'];
   let shouldEscalate = escalationCheck.shouldEscalate;
   let escalationReason = escalationCheck.reasons.join('; ');
   let escalationLevel: L1AgentResponse['escalationLevel'];
+  let stepNotes: string | undefined;
+  const toolCalls: AgentToolCall[] = [];
+  const stepTimedOut = Boolean(playbookResult);
   
-  if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
-    const toolCall = responseMessage.tool_calls[0];
-    // Handle both function and custom tool call types
-    const funcCall = 'function' in toolCall ? toolCall.function : null;
+  const runTool = async (name: string, args: Record<string, unknown>): Promise<{ result: unknown; summary: string; error?: boolean }> => {
+    if (!isActionSafe(name, policy)) {
+      return { result: { error: 'This action is not allowed' }, summary: 'Blocked by guardrail policy', error: true };
+    }
     
-    if (funcCall) {
-      const functionName = funcCall.name;
-      const functionArgs = JSON.parse(funcCall.arguments);
+    switch (name) {
+      case 'lookup_documentation': {
+        const query = typeof args.query === 'string' ? args.query.trim() : '';
+        if (!query) return { result: { error: 'query is required' }, summary: 'No query given', error: true };
+        
+        const screened = screenChunks(
+          await retrieveRelevantChunks(context.tenantId, query, { product: context.product, topK: 5 }),
+          policy.promptInjection
+        );
+        guardrailEvents.push(...screened.events);
+        const chunks = screened.chunks;
+        chunks.forEach((c) => {
+          if (!ragSources.some((s) => s.docId === c.metadata.docId && s.score === c.score)) {
+            ragSources.push({ docId: c.metadata.docId, content: c.content.substring(0, 200) + '...', score: c.score });
+          }
+        });
+        return chunks.length > 0
+          ? { result: { documentation: fenceUntrusted(assembleContext(chunks, 1500), 'documentation') }, summary: `${chunks.length} results for "${query}"` }
+          : { result: { documentation: null, note: 'No matching documentation found' }, summary: `No results for "${query}"` };
+      }
       
-      action = {
-        type: functionName,
-        params: functionArgs,
-      };
+      case 'execute_playbook_step': {
+        if (!playbook || !playbookState || isPlaybookComplete(playbookState)) {
+          return { result: { error: 'No playbook is active' }, summary: 'No active playbook', error: true };
+        }
+        if (stepTimedOut) {
+          return {
+            result: { error: `Step "${playbookResult!.stepTitle}" timed out before this reply; give the current step instead` },
+            summary: `Ignored ${args.stepId}; step already timed out`,
+            error: true,
+          };
+        }
+        if (playbookResult) {
+          return {
+            result: { error: 'A step result was already recorded for this customer reply; wait for their next message' },
+            summary: `Ignored ${args.stepId}; one step per reply`,
+            error: true,
+          };
+        }
+        if (args.stepId !== playbookState.currentStepId) {
+          return {
+            result: { error: `The current step is ${playbookState.currentStepId}` },
+            summary: `Ignored ${args.stepId}; current step is ${playbookState.currentStepId}`,
+            error: true,
+          };
+        }
+        
+        playbookResult = executeStep(
+          playbook,
+          playbookState,
+          args.outcome === 'success' ? 'success' : 'failure',
+          { confirmed: args.customerConfirmed === true, captured: args.capturedValue as string | undefined }
+        );
+        stepNotes = typeof args.notes === 'string' ? args.notes : undefined;
+        if (playbookResult.shouldEscalate) {
+          playbookState.outcome = 'escalated';
+        }
+        
+        const nextStep = isPlaybookComplete(playbookState) ? undefined : getCurrentStep(playbook, playbookState);
+        return {
+          result: {
+            outcome: playbookResult.outcome,
+            message: playbookResult.message,
+            playbookStatus: playbookState.outcome,
+            escalating: playbookResult.shouldEscalate,
+            ...(nextStep && {
+              nextStep: {
+                id: nextStep.id,
+                title: nextStep.title,
+                instruction: formatInstruction(nextStep.instruction, playbookState.variables),
+              },
+            }),
+          },
+          summary: `${playbookResult.stepTitle}: ${playbookResult.outcome}`,
+        };
+      }
       
-      // Handle escalation functions
-      if (functionName === 'escalate_to_l2') {
+      case 'escalate_to_l2':
+      case 'escalate_to_human': {
         shouldEscalate = true;
-        escalationReason = functionArgs.reason;
-        escalationLevel = 'L2';
-      } else if (functionName === 'escalate_to_human') {
-        shouldEscalate = true;
-        escalationReason = functionArgs.reason;
-        escalationLevel = 'L3';
+        escalationReason = typeof args.reason === 'string' ? args.reason : 'Escalation requested by the agent';
+        escalationLevel = name === 'escalate_to_l2' ? 'L2' : 'L3';
+        return {
+          result: { escalated: true, level: escalationLevel, note: 'Tell the customer they are being transferred' },
+          summary: `Escalating to ${escalationLevel}: ${escalationReason}`,
+        };
+      }
+      
+      case 'mark_resolved':
+        return {
+          result: { resolved: true, note: 'Confirm the resolution with the customer' },
+          summary: String(args.resolution || 'Resolved'),
+        };
+      
+      default:
+        return { result: { error: `Unknown tool ${name}` }, summary: 'Unknown tool', error: true };
+    }
+  };
+  
+  let responseContent = '';
+  let model = llmSettings.model;
+  let tokensUsed = 0;
+  for (let iteration = 1; iteration <= MAX_TOOL_ITERATIONS; iteration++) {
+    // The last call, or any call once the token budget is spent, has to answer without tools
+    const finalCall = iteration === MAX_TOOL_ITERATIONS || tokensUsed >= MAX_TURN_TOKENS;
+    const completion = await chatWithEvents(getLLMProvider(llmSettings.provider), {
+      model: llmSettings.model,
+      messages,
+      tools: AGENT_FUNCTIONS.filter((tool) => isActionSafe(tool.name, policy)),
+      toolChoice: finalCall ? 'none' : 'auto',
+      temperature: llmSettings.temperature,
+      maxTokens: llmSettings.maxTokens,
+    }, onEvent, tenantRedactions);
+    model = completion.model;
+    tokensUsed += completion.usage.totalTokens;
+    
+    if (completion.toolCalls.length === 0 || finalCall) {
+      responseContent = completion.content || '';
+      break;
+    }
+    
+    messages.push({ role: 'assistant', content: completion.content, toolCalls: completion.toolCalls });
+    for (const call of completion.toolCalls) {
+      const callStart = Date.now();
+      let args: Record<string, unknown> = {};
+      let output: Awaited<ReturnType<typeof runTool>>;
+      try {
+        args = JSON.parse(call.arguments || '{}');
+        output = await runTool(call.name, args);
+      } catch (error) {
+        console.error(`L1 tool ${call.name} failed:`, error);
+        output = { result: { error: 'Tool failed; continue without it' }, summary: 'Failed', error: true };
       }
+      
+      action = action || { type: call.name, params: args };
+      const toolCall: AgentToolCall = {
+        name: call.name,
+        arguments: args,
+        summary: output.summary,
+        iteration,
+        startedAt: callStart,
+        durationMs: Date.now() - callStart,
+        ...(output.error && { error: true }),
+      };
+      toolCalls.push(toolCall);
+      onEvent?.({ type: 'tool_call', call: toolCall });
+      messages.push({ role: 'tool', toolCallId: call.id, content: JSON.stringify(output.result) });
+      if (!output.error) groundingSources.push({ id: call.name, text: JSON.stringify(output.result) });
     }
   }
   
-  // Get response content
-  let responseContent = responseMessage.content || '';
+  if (playbookState && playbookResult?.shouldEscalate) {
+    playbookState.outcome = 'escalated';
+    shouldEscalate = true;
+    escalationReason = playbookResult.escalationReason || playbookResult.message;
+    escalationLevel = 'L2';
+  }
+  
+  const modelAnswered = Boolean(responseContent);
+  
+  // A step call often comes without text; tell the customer what happens next
+  if (!responseContent && playbook && playbookState && playbookResult) {
+    responseContent = describePlaybookResult(playbook, playbookState, playbookResult);
+  }
   
   // Validate and sanitize response
-  const validation = validateAIResponse(responseContent);
+  const validation = validateAIResponse(responseContent, tenantRedactions);
   if (!validation.valid) {
     responseContent = validation.sanitizedResponse;
     console.warn('AI response validation issues:', validation.issues);
   }
   
+  // Check the model's answer against what it was given; a poorly supported
+  // answer is replaced with an escalation when the tenant's policy says so
+  let grounding: AnswerGrounding | undefined;
+  if (modelAnswered) {
+    grounding = await groundAnswer(responseContent, groundingSources, policy.grounding);
+    if (grounding?.downgraded) {
+      const reason = `Answer not supported by the documentation (grounding ${grounding.score})`;
+      responseContent = "I'm not sure about this one, so let me escalate your case to a specialist who can confirm the right answer.";
+      escalationReason = shouldEscalate && escalationReason ? `${escalationReason}; ${reason}` : reason;
+      shouldEscalate = true;
+      escalationLevel = escalationLevel || 'L2';
+    }
+  }
+  if (!grounding?.downgraded) heldDeltas?.release();
+  
   // Build playbook step info
   let playbookStep: L1AgentResponse['playbookStep'];
-  if (playbook && context.playbookState) {
-    const currentStep = getCurrentStep(playbook, context.playbookState);
+  if (playbook && playbookState && !isPlaybookComplete(playbookState)) {
+    const currentStep = getCurrentStep(playbook, playbookState);
     if (currentStep) {
       playbookStep = {
         id: currentStep.id,
         title: currentStep.title,
         instruction: formatInstruction(
           currentStep.instruction,
-          context.playbookState.variables
+          playbookState.variables
         ),
       };
     }
@@ -416,16 +720,68 @@ export async function processL1Request(
     escalationReason: shouldEscalate ? escalationReason : undefined,
     escalationLevel,
     playbookStep,
+    playbook: playbook && playbookState
+      ? {
+          state: playbookState,
+          result: playbookResult,
+          notes: stepNotes,
+        }
+      : undefined,
     sources: ragSources.length > 0 ? ragSources : undefined,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    guardrailEvents: guardrailEvents.length > 0 ? guardrailEvents : undefined,
+    grounding,
     metadata: {
-      model: completion.model,
-      tokensUsed: completion.usage?.total_tokens || 0,
+      model,
+      tokensUsed,
       ragChunksUsed: ragSources.length,
       processingTimeMs: Date.now() - startTime,
     },
   };
 }
 
+/**
+ * processL1Request as a Server-Sent Events stream (see streamAgentResponse);
+ * `onDone` persists the turn and can add fields to the done event
+ */
+export function streamL1Request(
+  context: L1AgentContext,
+  userMessage: string,
+  options: { onDone?: (response: L1AgentResponse) => Promise<Record<string, unknown> | void> } = {}
+): ReadableStream<Uint8Array> {
+  return streamAgentResponse((onEvent) => processL1Request(context, userMessage, { onEvent }), options);
+}
+
+/**
+ * Customer-facing message for a playbook step result
+ */
+function describePlaybookResult(
+  playbook: Playbook,
+  state: PlaybookExecutionState,
+  result: PlaybookExecutionResult
+): string {
+  if (result.shouldEscalate) {
+    return getEscalationMessage(playbook, result.escalationReason);
+  }
+  
+  if (state.outcome === 'resolved') {
+    return `${result.message}\n\nIt looks like the issue is resolved. Let us know if anything else comes up.`;
+  }
+  
+  // The playbook has run out of steps to try; the agent carries on without it
+  if (state.outcome === 'failed') return result.message;
+  
+  if (result.outcome === 'awaiting_confirmation') {
+    const step = getCurrentStep(playbook, state);
+    return `Before we move on, can you confirm this worked${step?.expectedOutcome ? `: ${step.expectedOutcome}` : ''}?`;
+  }
+  
+  const nextStep = getCurrentStep(playbook, state);
+  if (!nextStep) return result.message;
+  
+  return `${result.message}\n\nNext: ${nextStep.title}\n${formatInstruction(nextStep.instruction, state.variables)}`;
+}
+
 /**
  * Generate a greeting message for new cases
  */
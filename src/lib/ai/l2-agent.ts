@@ -3,22 +3,22 @@
  * Advanced troubleshooting with expanded capabilities, VisionScreen integration
  */
 
-import OpenAI from 'openai';
+import { getLLMProvider, getLLMSettings, type LLMMessage, type LLMToolDefinition } from '@/lib/llm';
 import { retrieveRelevantChunks, assembleContext } from '../knowledge-base/retrieval';
-import { redactSecrets, checkEscalationTriggers, validateAIResponse } from './guardrails';
+import { validateAIResponse, isActionSafe } from './guardrails';
+import { detectEscalation } from './escalation-classifier';
+import { requiresHumanEscalation } from './guardrail-policy';
+import { getGuardrailPolicy, getTenantRedactions } from './guardrail-settings';
+import { groundAnswer, type AnswerGrounding, type GroundingSource } from './grounding';
+import { screenCustomerMessage, screenChunks, fenceUntrusted, UNTRUSTED_CONTENT_NOTICE, type GuardrailEvent } from './prompt-injection';
+import { redactText, INGESTION_PATTERNS } from '@/lib/privacy/redaction';
+import { analyzeError, type ErrorAnalysisResult, type StackFrame } from '@/lib/diagnostics';
+import { chatWithEvents, holdDeltas, streamAgentResponse, type AgentStreamOptions } from './stream';
+import type { AgentToolCall } from './tool-log';
 import type { TimelineEvent, Case } from '@/types';
 
-// Lazy-initialized OpenAI client
-let openai: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openai) {
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openai;
-}
+// Model calls per customer message; tool results go back to the model until it answers
+const MAX_TOOL_ITERATIONS = 3;
 
 export interface L2AgentContext {
   tenantId: string;
@@ -62,6 +62,13 @@ export interface L2AgentResponse {
     content: string;
     score: number;
   }>;
+  // Latest analyze_error result, to be stored on the case as an artifact
+  errorAnalysis?: ErrorAnalysisResult;
+  toolCalls?: AgentToolCall[];
+  // Suspected prompt injection this turn, to log on the timeline (see recordGuardrailEvents)
+  guardrailEvents?: GuardrailEvent[];
+  // How well the answer follows from the docs and tool results (see groundingMetadata)
+  grounding?: AnswerGrounding;
   metadata: {
     model: string;
     tokensUsed: number;
@@ -71,141 +78,124 @@ export interface L2AgentResponse {
 }
 
 // L2 has more powerful function capabilities
-const L2_AGENT_FUNCTIONS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+const L2_AGENT_FUNCTIONS: LLMToolDefinition[] = [
   {
-    type: 'function',
-    function: {
-      name: 'lookup_documentation',
-      description: 'Search the knowledge base for detailed technical documentation',
-      parameters: {
-        type: 'object',
-        properties: {
-          query: {
-            type: 'string',
-            description: 'The search query for documentation',
-          },
-          depth: {
-            type: 'string',
-            enum: ['basic', 'detailed', 'expert'],
-            description: 'Level of detail needed',
-          },
+    name: 'lookup_documentation',
+    description: 'Search the knowledge base for detailed technical documentation',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'The search query for documentation',
+        },
+        depth: {
+          type: 'string',
+          enum: ['basic', 'detailed', 'expert'],
+          description: 'Level of detail needed',
         },
-        required: ['query'],
       },
+      required: ['query'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'analyze_error',
-      description: 'Analyze error messages or logs provided by the customer',
-      parameters: {
-        type: 'object',
-        properties: {
-          errorText: {
-            type: 'string',
-            description: 'The error message or log content',
-          },
-          context: {
-            type: 'string',
-            description: 'Additional context about when the error occurred',
-          },
+    name: 'analyze_error',
+    description:
+      'Analyze error messages, logs, stack traces or browser console output provided by the customer. Returns the errors found, their key stack frames and any matching known errors with their fix and KB articles.',
+    parameters: {
+      type: 'object',
+      properties: {
+        errorText: {
+          type: 'string',
+          description: 'The error message or log content',
+        },
+        context: {
+          type: 'string',
+          description: 'Additional context about when the error occurred',
         },
-        required: ['errorText'],
       },
+      required: ['errorText'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'suggest_diagnostic_steps',
-      description: 'Generate a list of diagnostic steps for the customer to follow',
-      parameters: {
-        type: 'object',
-        properties: {
-          issue: {
-            type: 'string',
-            description: 'Description of the issue to diagnose',
-          },
-          complexity: {
-            type: 'string',
-            enum: ['simple', 'moderate', 'complex'],
-            description: 'Complexity level of diagnostics',
-          },
+    name: 'suggest_diagnostic_steps',
+    description: 'Generate a list of diagnostic steps for the customer to follow',
+    parameters: {
+      type: 'object',
+      properties: {
+        issue: {
+          type: 'string',
+          description: 'Description of the issue to diagnose',
+        },
+        complexity: {
+          type: 'string',
+          enum: ['simple', 'moderate', 'complex'],
+          description: 'Complexity level of diagnostics',
         },
-        required: ['issue'],
       },
+      required: ['issue'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'initiate_visionscreen',
-      description: 'Start a VisionScreen session for visual troubleshooting',
-      parameters: {
-        type: 'object',
-        properties: {
-          reason: {
-            type: 'string',
-            description: 'Why visual assistance is needed',
-          },
-          focusArea: {
-            type: 'string',
-            description: 'What the customer should show on their screen',
-          },
+    name: 'initiate_visionscreen',
+    description: 'Start a VisionScreen session for visual troubleshooting',
+    parameters: {
+      type: 'object',
+      properties: {
+        reason: {
+          type: 'string',
+          description: 'Why visual assistance is needed',
+        },
+        focusArea: {
+          type: 'string',
+          description: 'What the customer should show on their screen',
         },
-        required: ['reason', 'focusArea'],
       },
+      required: ['reason', 'focusArea'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'escalate_to_human',
-      description: 'Escalate to human support specialist for complex issues',
-      parameters: {
-        type: 'object',
-        properties: {
-          reason: {
-            type: 'string',
-            description: 'Detailed reason for escalation',
-          },
-          summary: {
-            type: 'string',
-            description: 'Summary of troubleshooting attempted',
-          },
-          recommendedAction: {
-            type: 'string',
-            description: 'Suggested next steps for the human agent',
-          },
+    name: 'escalate_to_human',
+    description: 'Escalate to human support specialist for complex issues',
+    parameters: {
+      type: 'object',
+      properties: {
+        reason: {
+          type: 'string',
+          description: 'Detailed reason for escalation',
+        },
+        summary: {
+          type: 'string',
+          description: 'Summary of troubleshooting attempted',
+        },
+        recommendedAction: {
+          type: 'string',
+          description: 'Suggested next steps for the human agent',
         },
-        required: ['reason', 'summary'],
       },
+      required: ['reason', 'summary'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'mark_resolved',
-      description: 'Mark the case as resolved with detailed resolution notes',
-      parameters: {
-        type: 'object',
-        properties: {
-          resolution: {
-            type: 'string',
-            description: 'Detailed description of how the issue was resolved',
-          },
-          rootCause: {
-            type: 'string',
-            description: 'The root cause of the issue',
-          },
-          preventionTips: {
-            type: 'string',
-            description: 'Tips to prevent the issue in the future',
-          },
+    name: 'mark_resolved',
+    description: 'Mark the case as resolved with detailed resolution notes',
+    parameters: {
+      type: 'object',
+      properties: {
+        resolution: {
+          type: 'string',
+          description: 'Detailed description of how the issue was resolved',
+        },
+        rootCause: {
+          type: 'string',
+          description: 'The root cause of the issue',
+        },
+        preventionTips: {
+          type: 'string',
+          description: 'Tips to prevent the issue in the future',
         },
-        required: ['resolution'],
       },
+      required: ['resolution'],
     },
   },
 ];
@@ -238,6 +228,7 @@ function buildL2SystemPrompt(
 - Always explain technical concepts clearly
 - If you need to see the customer's screen, use VisionScreen
 - Escalate to human if issue persists after 3+ attempts
+- ${UNTRUSTED_CONTENT_NOTICE}
 
 ## Current Case Context
 - Product: ${context.product}
@@ -253,13 +244,13 @@ ${context.caseHistory.l1Summary ? `\n## L1 Summary\n${context.caseHistory.l1Summ
 `;
 
   if (ragContext) {
-    prompt += `## Technical Documentation\n${ragContext}\n\n`;
+    prompt += `## Technical Documentation\n${fenceUntrusted(ragContext, 'documentation')}\n\n`;
   }
 
   prompt += `## L2 Response Guidelines
 1. Review what L1 has already tried
 2. Ask targeted diagnostic questions
-3. Analyze any error messages thoroughly
+3. Run analyze_error on any error message, log, stack trace or console output the customer shares, and use matching known errors and their KB articles first
 4. Consider using VisionScreen for visual issues
 5. Provide step-by-step technical guidance
 6. Document root cause when found
@@ -280,30 +271,62 @@ Respond in ${context.language}. Be thorough but clear.`;
  */
 export async function processL2Request(
   context: L2AgentContext,
-  userMessage: string
+  userMessage: string,
+  options: AgentStreamOptions = {}
 ): Promise<L2AgentResponse> {
   const startTime = Date.now();
+  const llmSettings = await getLLMSettings(context.tenantId, 'L2');
+  const policy = await getGuardrailPolicy(context.tenantId);
+  const tenantRedactions = await getTenantRedactions(context.tenantId);
+  // An answer that may be swapped for an escalation after the grounding check
+  // isn't streamed until it has passed
+  const heldDeltas = policy.grounding === 'escalate' ? holdDeltas(options.onEvent) : null;
+  const onEvent = heldDeltas ? heldDeltas.onEvent : options.onEvent;
   
-  // Redact secrets from user message
-  const redactedInput = redactSecrets(userMessage);
+  // Redact secrets and PII (channel messages were already redacted at ingestion)
+  const redactedInput = redactText(userMessage, [...INGESTION_PATTERNS, ...tenantRedactions]);
   const safeUserMessage = redactedInput.text;
   
+  // Instructions aimed at the model are blocked (after the escalation check,
+  // which doesn't involve it), or fenced and flagged, per the tenant's policy
+  const guardrailEvents: GuardrailEvent[] = [];
+  const injection = screenCustomerMessage(safeUserMessage, policy.promptInjection);
+  if (injection.event) guardrailEvents.push(injection.event);
+  
   // Check for escalation triggers
-  const escalationCheck = checkEscalationTriggers(safeUserMessage, {
+  const escalationCheck = await detectEscalation(safeUserMessage, {
     failedAttempts: context.failedAttempts,
     severity: context.severity,
     customerRequested: safeUserMessage.toLowerCase().includes('speak to human'),
-  });
+    language: context.language,
+  }, policy);
   
-  // Critical issues go straight to human at L2
-  if (escalationCheck.shouldEscalate && escalationCheck.severity === 'critical') {
+  // Issues at the tenant's human-escalation severity (critical by default) go straight to a human
+  if (escalationCheck.shouldEscalate && requiresHumanEscalation(escalationCheck.severity, policy)) {
     return {
       message: "I understand this is a critical issue that requires immediate human attention. I'm connecting you with a senior support specialist right now.",
       shouldEscalate: true,
       escalationReason: escalationCheck.reasons.join('; '),
       suggestVisionScreen: false,
+      guardrailEvents: guardrailEvents.length > 0 ? guardrailEvents : undefined,
+      metadata: {
+        model: llmSettings.model,
+        tokensUsed: 0,
+        ragChunksUsed: 0,
+        processingTimeMs: Date.now() - startTime,
+      },
+    };
+  }
+  
+  // Blocked messages never reach the model
+  if (injection.blocked) {
+    return {
+      message: "I can't act on that message as written. Please describe the problem you're having, or ask for a person and I'll connect you.",
+      shouldEscalate: false,
+      suggestVisionScreen: false,
+      guardrailEvents,
       metadata: {
-        model: 'gpt-4',
+        model: llmSettings.model,
         tokensUsed: 0,
         ragChunksUsed: 0,
         processingTimeMs: Date.now() - startTime,
@@ -313,10 +336,12 @@ export async function processL2Request(
   
   // Retrieve RAG context with more depth for L2
   let ragContext = '';
-  let ragSources: L2AgentResponse['sources'] = [];
+  const ragSources: NonNullable<L2AgentResponse['sources']> = [];
+  // What the model was given to answer from, to check the answer against
+  const groundingSources: GroundingSource[] = [];
   
   try {
-    const chunks = await retrieveRelevantChunks(
+    const retrieved = await retrieveRelevantChunks(
       context.tenantId,
       safeUserMessage,
       {
@@ -324,14 +349,18 @@ export async function processL2Request(
         topK: 8, // More context for L2
       }
     );
+    // A poisoned document can carry instructions too
+    const { chunks, events } = screenChunks(retrieved, policy.promptInjection);
+    guardrailEvents.push(...events);
     
     if (chunks.length > 0) {
       ragContext = assembleContext(chunks, 3000); // Larger context window
-      ragSources = chunks.map((c) => ({
+      groundingSources.push(...chunks.map((c) => ({ id: c.metadata.docId, text: c.content })));
+      ragSources.push(...chunks.map((c) => ({
         docId: c.metadata.docId,
         content: c.content.substring(0, 300) + '...',
         score: c.score,
-      }));
+      })));
     }
   } catch (error) {
     console.error('RAG retrieval error:', error);
@@ -341,70 +370,173 @@ export async function processL2Request(
   const systemPrompt = buildL2SystemPrompt(context, ragContext);
   
   // Build messages array
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     ...context.conversationHistory.map((msg) => ({
       role: msg.role as 'user' | 'assistant' | 'system',
       content: msg.content,
     })),
-    { role: 'user', content: safeUserMessage },
+    { role: 'user', content: injection.event ? fenceUntrusted(safeUserMessage, 'customer_message') : safeUserMessage },
   ];
   
-  // Call OpenAI with GPT-4 for L2
-  const completion = await getOpenAIClient().chat.completions.create({
-    model: 'gpt-4',
-    messages,
-    tools: L2_AGENT_FUNCTIONS,
-    tool_choice: 'auto',
-    temperature: 0.5, // More focused for L2
-    max_tokens: 1500, // Longer responses for L2
-  });
-  
-  const choice = completion.choices[0];
-  const responseMessage = choice.message;
-  
-  // Process function calls
+  // Agent loop: analysis and documentation results go back to the model,
+  // the other tools record what the model decided
   let action: L2AgentResponse['action'];
   let shouldEscalate = false;
   let escalationReason: string | undefined;
   let suggestVisionScreen = false;
   let diagnosticSteps: L2AgentResponse['diagnosticSteps'];
+  let errorAnalysis: ErrorAnalysisResult | undefined;
+  const toolCalls: AgentToolCall[] = [];
   
-  if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
-    const toolCall = responseMessage.tool_calls[0];
-    const funcCall = 'function' in toolCall ? toolCall.function : null;
+  const runTool = async (name: string, args: Record<string, unknown>): Promise<{ result: unknown; summary: string; error?: boolean }> => {
+    if (!isActionSafe(name, policy)) {
+      return { result: { error: 'This action is not allowed' }, summary: 'Blocked by guardrail policy', error: true };
+    }
     
-    if (funcCall) {
-      const functionName = funcCall.name;
-      const functionArgs = JSON.parse(funcCall.arguments);
+    switch (name) {
+      case 'analyze_error': {
+        const errorText = typeof args.errorText === 'string' ? args.errorText : '';
+        if (!errorText.trim()) return { result: { error: 'errorText is required' }, summary: 'No error text given', error: true };
+        
+        errorAnalysis = await analyzeError(context.tenantId, errorText, {
+          product: context.product,
+          context: typeof args.context === 'string' ? args.context : undefined,
+        });
+        return {
+          result: describeErrorAnalysis(errorAnalysis),
+          summary: errorAnalysis.primary
+            ? `${errorAnalysis.findings.length} error(s), primary ${errorAnalysis.primary.signature}` +
+              (errorAnalysis.knownErrors.length > 0 ? `; known: ${errorAnalysis.knownErrors[0].title}` : '')
+            : 'No recognizable errors',
+        };
+      }
       
-      action = {
-        type: functionName,
-        params: functionArgs,
-      };
+      case 'lookup_documentation': {
+        const query = typeof args.query === 'string' ? args.query.trim() : '';
+        if (!query) return { result: { error: 'query is required' }, summary: 'No query given', error: true };
+        
+        const screened = screenChunks(
+          await retrieveRelevantChunks(context.tenantId, query, {
+            product: context.product,
+            topK: args.depth === 'expert' ? 8 : 5,
+          }),
+          policy.promptInjection
+        );
+        guardrailEvents.push(...screened.events);
+        const chunks = screened.chunks;
+        chunks.forEach((c) => {
+          if (!ragSources.some((s) => s.docId === c.metadata.docId && s.score === c.score)) {
+            ragSources.push({ docId: c.metadata.docId, content: c.content.substring(0, 300) + '...', score: c.score });
+          }
+        });
+        return chunks.length > 0
+          ? { result: { documentation: fenceUntrusted(assembleContext(chunks, 2000), 'documentation') }, summary: `${chunks.length} results for "${query}"` }
+          : { result: { documentation: null, note: 'No matching documentation found' }, summary: `No results for "${query}"` };
+      }
       
-      // Handle specific functions
-      if (functionName === 'escalate_to_human') {
-        shouldEscalate = true;
-        escalationReason = functionArgs.reason;
-      } else if (functionName === 'initiate_visionscreen') {
+      case 'suggest_diagnostic_steps':
+        diagnosticSteps = generateDiagnosticSteps(String(args.issue || ''), args.complexity as string | undefined, errorAnalysis);
+        return { result: { steps: diagnosticSteps }, summary: `${diagnosticSteps!.length} diagnostic steps` };
+      
+      case 'initiate_visionscreen':
         suggestVisionScreen = true;
-      } else if (functionName === 'suggest_diagnostic_steps') {
-        // Generate diagnostic steps based on the issue
-        diagnosticSteps = generateDiagnosticSteps(functionArgs.issue, functionArgs.complexity);
+        return {
+          result: { suggested: true, note: 'Explain why you need to see their screen and what to have ready' },
+          summary: String(args.reason || 'VisionScreen suggested'),
+        };
+      
+      case 'escalate_to_human':
+        shouldEscalate = true;
+        escalationReason = typeof args.reason === 'string' ? args.reason : 'Escalation requested by the agent';
+        return {
+          result: { escalated: true, note: 'Tell the customer a specialist will take over' },
+          summary: `Escalating to L3: ${escalationReason}`,
+        };
+      
+      case 'mark_resolved':
+        return {
+          result: { resolved: true, note: 'Confirm the resolution with the customer' },
+          summary: String(args.resolution || 'Resolved'),
+        };
+      
+      default:
+        return { result: { error: `Unknown tool ${name}` }, summary: 'Unknown tool', error: true };
+    }
+  };
+  
+  let responseContent = '';
+  let model = llmSettings.model;
+  let tokensUsed = 0;
+  for (let iteration = 1; iteration <= MAX_TOOL_ITERATIONS; iteration++) {
+    const finalCall = iteration === MAX_TOOL_ITERATIONS;
+    // L2 defaults are more focused and allow longer answers
+    const completion = await chatWithEvents(getLLMProvider(llmSettings.provider), {
+      model: llmSettings.model,
+      messages,
+      tools: L2_AGENT_FUNCTIONS.filter((tool) => isActionSafe(tool.name, policy)),
+      toolChoice: finalCall ? 'none' : 'auto',
+      temperature: llmSettings.temperature,
+      maxTokens: llmSettings.maxTokens,
+    }, onEvent, tenantRedactions);
+    model = completion.model;
+    tokensUsed += completion.usage.totalTokens;
+    
+    if (completion.toolCalls.length === 0 || finalCall) {
+      responseContent = completion.content || '';
+      break;
+    }
+    
+    messages.push({ role: 'assistant', content: completion.content, toolCalls: completion.toolCalls });
+    for (const call of completion.toolCalls) {
+      const callStart = Date.now();
+      let args: Record<string, unknown> = {};
+      let output: Awaited<ReturnType<typeof runTool>>;
+      try {
+        args = JSON.parse(call.arguments || '{}');
+        output = await runTool(call.name, args);
+      } catch (error) {
+        console.error(`L2 tool ${call.name} failed:`, error);
+        output = { result: { error: 'Tool failed; continue without it' }, summary: 'Failed', error: true };
       }
+      
+      action = action || { type: call.name, params: args };
+      const toolCall: AgentToolCall = {
+        name: call.name,
+        // Pasted logs are stored with the analysis artifact, not in the timeline
+        arguments: call.name === 'analyze_error' ? { ...args, errorText: `[${String(args.errorText || '').length} chars]` } : args,
+        summary: output.summary,
+        iteration,
+        startedAt: callStart,
+        durationMs: Date.now() - callStart,
+        ...(output.error && { error: true }),
+      };
+      toolCalls.push(toolCall);
+      onEvent?.({ type: 'tool_call', call: toolCall });
+      messages.push({ role: 'tool', toolCallId: call.id, content: JSON.stringify(output.result) });
+      if (!output.error) groundingSources.push({ id: call.name, text: JSON.stringify(output.result) });
     }
   }
   
-  // Get response content
-  let responseContent = responseMessage.content || '';
-  
   // Validate response
-  const validation = validateAIResponse(responseContent);
+  const validation = validateAIResponse(responseContent, tenantRedactions);
   if (!validation.valid) {
     responseContent = validation.sanitizedResponse;
   }
   
+  // Check the answer against what the model was given; a poorly supported
+  // answer goes to a person instead when the tenant's policy says so
+  const grounding = responseContent
+    ? await groundAnswer(responseContent, groundingSources, policy.grounding)
+    : undefined;
+  if (grounding?.downgraded) {
+    const reason = `Answer not supported by the documentation (grounding ${grounding.score})`;
+    responseContent = "I'm not sure about this one, so let me bring in a senior specialist who can confirm the right answer.";
+    escalationReason = shouldEscalate && escalationReason ? `${escalationReason}; ${reason}` : reason;
+    shouldEscalate = true;
+  }
+  if (!grounding?.downgraded) heldDeltas?.release();
+  
   return {
     message: responseContent,
     action,
@@ -413,9 +545,13 @@ export async function processL2Request(
     suggestVisionScreen,
     diagnosticSteps,
     sources: ragSources.length > 0 ? ragSources : undefined,
+    errorAnalysis,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    guardrailEvents: guardrailEvents.length > 0 ? guardrailEvents : undefined,
+    grounding,
     metadata: {
-      model: completion.model,
-      tokensUsed: completion.usage?.total_tokens || 0,
+      model,
+      tokensUsed,
       ragChunksUsed: ragSources.length,
       processingTimeMs: Date.now() - startTime,
     },
@@ -423,15 +559,67 @@ export async function processL2Request(
 }
 
 /**
- * Generate diagnostic steps based on issue
+ * processL2Request as a Server-Sent Events stream (see streamAgentResponse);
+ * `onDone` persists the turn and can add fields to the done event
+ */
+export function streamL2Request(
+  context: L2AgentContext,
+  userMessage: string,
+  options: { onDone?: (response: L2AgentResponse) => Promise<Record<string, unknown> | void> } = {}
+): ReadableStream<Uint8Array> {
+  return streamAgentResponse((onEvent) => processL2Request(context, userMessage, { onEvent }), options);
+}
+
+function formatFrame(frame: StackFrame): string {
+  const location = frame.file ? `${frame.file}${frame.line ? `:${frame.line}` : ''}` : '';
+  return [frame.function, location && `(${location})`].filter(Boolean).join(' ') || '<unknown>';
+}
+
+/**
+ * The parts of an analysis the model needs, without the stored excerpt
+ */
+function describeErrorAnalysis(analysis: ErrorAnalysisResult) {
+  if (analysis.findings.length === 0) {
+    return { findings: [], note: 'No stack trace, HTTP status or console error was recognized; ask for the full error output' };
+  }
+  return {
+    formats: analysis.formats,
+    primary: analysis.primary?.signature,
+    findings: analysis.findings.map((f) => ({
+      format: f.format,
+      errorType: f.errorType,
+      message: f.message,
+      ...(f.statusCode && { statusCode: f.statusCode }),
+      signature: f.signature,
+      keyFrames: f.keyFrames.map((frame) => `${formatFrame(frame)}${frame.isLibrary ? ' [library]' : ''}`),
+    })),
+    knownErrors: analysis.knownErrors,
+    ...(analysis.truncated && { note: 'Only the first 20,000 characters were analyzed' }),
+  };
+}
+
+/**
+ * Generate diagnostic steps based on issue, starting with the fixes for any
+ * known errors found by analyze_error
  */
 function generateDiagnosticSteps(
   issue: string,
-  complexity: string = 'moderate'
+  complexity: string = 'moderate',
+  errorAnalysis?: ErrorAnalysisResult
 ): L2AgentResponse['diagnosticSteps'] {
   // This would be more sophisticated in production
   // For now, return template steps based on common patterns
-  const steps: L2AgentResponse['diagnosticSteps'] = [];
+  const steps: NonNullable<L2AgentResponse['diagnosticSteps']> = [];
+  
+  errorAnalysis?.knownErrors
+    .filter((known) => known.resolution)
+    .forEach((known) => {
+      steps.push({
+        step: `Apply Known Fix: ${known.title}`,
+        instruction: known.resolution!,
+        expectedOutcome: `"${known.matchedSignature}" no longer appears`,
+      });
+    });
   
   const issueLower = issue.toLowerCase();
   
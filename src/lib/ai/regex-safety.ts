@@ -0,0 +1,111 @@
+/**
+ * Regex Safety
+ * Rejects tenant-supplied regular expressions that can backtrack
+ * catastrophically. A group repeated more than once may not contain a
+ * variable-length quantifier, e.g. (a+)+, or an alternation, e.g. (a|aa)+ or
+ * (\w|\d)+x, since either lets the engine split the same text many ways.
+ * Conservative: some safe patterns are rejected too. Pure.
+ */
+
+interface GroupScan {
+  quantified: boolean;
+  alternation: boolean;
+}
+
+// A quantifier at `index`: its length, and whether it allows more than one
+// repetition or a varying number of them
+function readQuantifier(pattern: string, index: number): { length: number; repeats: boolean; variable: boolean } | null {
+  const char = pattern[index];
+  let length = 0;
+  let repeats = false;
+  let variable = false;
+
+  if (char === '*' || char === '+') {
+    length = 1;
+    repeats = true;
+    variable = true;
+  } else if (char === '?') {
+    length = 1;
+    variable = true;
+  } else if (char === '{') {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+    if (!match) return null;
+    const min = Number(match[1]);
+    const max = match[2] ? (match[3] ? Number(match[3]) : Infinity) : min;
+    length = match[0].length;
+    repeats = max > 1;
+    variable = max > min;
+  } else {
+    return null;
+  }
+
+  // A lazy suffix doesn't change what can match
+  if (pattern[index + length] === '?') length++;
+  return { length, repeats, variable };
+}
+
+// Length of a group's opening, e.g. ( or (?: or (?<name>
+function groupOpeningLength(pattern: string, index: number): number {
+  if (pattern[index + 1] !== '?') return 1;
+  const named = /^\(\?<[A-Za-z_$][\w$]*>/.exec(pattern.slice(index));
+  if (named) return named[0].length;
+  const lookaround = /^\(\?(<=|<!|[:=!])/.exec(pattern.slice(index));
+  return lookaround ? lookaround[0].length : 2;
+}
+
+/**
+ * Why a pattern could backtrack catastrophically, or null if it looks safe.
+ * Assumes the pattern is otherwise valid; check that with new RegExp.
+ */
+export function unsafeRegexReason(pattern: string): string | null {
+  const stack: GroupScan[] = [{ quantified: false, alternation: false }];
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+    const current = stack[stack.length - 1];
+
+    if (char === '\\') {
+      i += 2;
+    } else if (char === '[') {
+      // Skip the character class; it's one token, whatever it contains
+      i++;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+      i++;
+    } else if (char === '(') {
+      stack.push({ quantified: false, alternation: false });
+      i += groupOpeningLength(pattern, i);
+      continue;
+    } else if (char === ')') {
+      const group = stack.length > 1 ? stack.pop()! : current;
+      const parent = stack[stack.length - 1];
+      i++;
+      const quantifier = readQuantifier(pattern, i);
+      if (quantifier?.repeats && (group.quantified || group.alternation)) {
+        return group.alternation
+          ? 'repeats a group that contains |'
+          : 'repeats a group that already contains a quantifier';
+      }
+      parent.quantified ||= group.quantified || Boolean(quantifier?.variable);
+      parent.alternation ||= group.alternation;
+      if (quantifier) i += quantifier.length;
+      continue;
+    } else if (char === '|') {
+      current.alternation = true;
+      i++;
+      continue;
+    } else {
+      i++;
+    }
+
+    // A quantifier on the token just read
+    const quantifier = readQuantifier(pattern, i);
+    if (quantifier) {
+      if (quantifier.variable) current.quantified = true;
+      i += quantifier.length;
+    }
+  }
+
+  return null;
+}
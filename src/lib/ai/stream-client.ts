@@ -0,0 +1,72 @@
+/**
+ * Agent Stream Reader (browser)
+ * Reads the Server-Sent Events from a streaming /api/ai/l1 or /api/ai/l2
+ * response. EventSource can't POST, so the body is parsed by hand.
+ */
+
+import type { AgentStreamEvent } from './stream';
+import type { AgentToolCall } from './tool-log';
+
+export interface AgentStreamHandlers {
+  // Called with the text so far after each delta
+  onText?: (text: string) => void;
+  onToolCall?: (call: AgentToolCall) => void;
+}
+
+function parseEvent<TResponse>(block: string): AgentStreamEvent<TResponse> | null {
+  let type = 'message';
+  let data = '';
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) type = line.slice(6).trim();
+    else if (line.startsWith('data:')) data += line.slice(5).trim();
+  }
+  if (!data) return null;
+  return { type, ...JSON.parse(data) } as AgentStreamEvent<TResponse>;
+}
+
+/**
+ * Read a streaming agent response; resolves with the final response from the done event
+ */
+export async function readAgentStream<TResponse>(
+  response: Response,
+  handlers: AgentStreamHandlers = {}
+): Promise<TResponse> {
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to get AI response');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const event = parseEvent<TResponse>(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (!event) continue;
+
+      switch (event.type) {
+        case 'delta':
+          text += event.content;
+          handlers.onText?.(text);
+          break;
+        case 'tool_call':
+          handlers.onToolCall?.(event.call);
+          break;
+        case 'done':
+          return event.response;
+        case 'error':
+          throw new Error(event.error);
+      }
+    }
+  }
+
+  throw new Error('AI response stream ended early');
+}
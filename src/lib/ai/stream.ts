@@ -0,0 +1,123 @@
+/**
+ * Agent Streaming
+ * Progress events from an agent turn (sanitized text deltas and tool calls),
+ * sent to the browser as Server-Sent Events
+ */
+
+import { createStreamSanitizer } from './guardrails';
+import type { LLMChatRequest, LLMChatResponse, LLMProvider } from '@/lib/llm';
+import type { RedactionPattern } from '@/lib/privacy/redaction';
+import type { AgentToolCall } from './tool-log';
+
+export type AgentProgressEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; call: AgentToolCall };
+
+// The done event carries the whole response; its message replaces the streamed
+// text, which may include text from model calls that ended up calling tools
+export type AgentStreamEvent<TResponse> =
+  | AgentProgressEvent
+  | { type: 'done'; response: TResponse }
+  | { type: 'error'; error: string };
+
+export interface AgentStreamOptions {
+  onEvent?: (event: AgentProgressEvent) => void;
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  // Stop proxies such as nginx from buffering the stream
+  'X-Accel-Buffering': 'no',
+};
+
+/**
+ * Whether a request asked for a stream (`Accept: text/event-stream` or `"stream": true`)
+ */
+export function wantsEventStream(request: Request, body?: { stream?: unknown }): boolean {
+  return body?.stream === true || (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * One model call. With an event handler the reply is streamed and each
+ * delta passes the guardrails (and the tenant's redactions) before it's emitted.
+ */
+export async function chatWithEvents(
+  provider: LLMProvider,
+  request: LLMChatRequest,
+  onEvent?: AgentStreamOptions['onEvent'],
+  redactions: RedactionPattern[] = []
+): Promise<LLMChatResponse> {
+  if (!onEvent) return provider.chat(request);
+
+  const sanitizer = createStreamSanitizer(redactions);
+  const completion = await provider.chatStream(request, (delta) => {
+    const safe = sanitizer.push(delta);
+    if (safe) onEvent({ type: 'delta', content: safe });
+  });
+  const rest = sanitizer.flush().text;
+  if (rest) onEvent({ type: 'delta', content: rest });
+  return completion;
+}
+
+/**
+ * Hold text deltas back until release() while tool calls pass straight through,
+ * for answers that may still be replaced once they're complete (e.g. by the
+ * grounding check); a held answer that is replaced is never sent
+ */
+export function holdDeltas(onEvent?: AgentStreamOptions['onEvent']) {
+  const held: AgentProgressEvent[] = [];
+  return {
+    onEvent: onEvent && ((event: AgentProgressEvent) => {
+      if (event.type === 'delta') held.push(event);
+      else onEvent(event);
+    }),
+    release() {
+      held.splice(0).forEach((event) => onEvent?.(event));
+    },
+  };
+}
+
+function encodeEvent<TResponse>(event: AgentStreamEvent<TResponse>): string {
+  const { type, ...data } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Run an agent turn as an SSE stream: progress events while it runs, then a
+ * done event with the response (plus anything `onDone` adds) or an error event
+ */
+export function streamAgentResponse<TResponse extends object>(
+  run: (onEvent: NonNullable<AgentStreamOptions['onEvent']>) => Promise<TResponse>,
+  options: { onDone?: (response: TResponse) => Promise<Record<string, unknown> | void> } = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AgentStreamEvent<TResponse>) => {
+        // A client that disconnected doesn't stop the turn; its results are still saved
+        if (!closed) controller.enqueue(encoder.encode(encodeEvent(event)));
+      };
+
+      try {
+        const response = await run(send);
+        const extra = await options.onDone?.(response);
+        send({ type: 'done', response: { ...response, ...extra } });
+      } catch (error) {
+        console.error('Agent stream error:', error);
+        send({ type: 'error', error: 'Failed to process request' });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+}
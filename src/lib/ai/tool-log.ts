@@ -0,0 +1,64 @@
+/**
+ * Tool Call Log
+ * Records the tools an AI agent ran during a turn on the case timeline
+ * (Admin SDK, server only)
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import type { SupportLevel } from '@/types';
+
+export interface AgentToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+  // What the tool did, in one line
+  summary: string;
+  // Model call (1-based) that requested the tool
+  iteration: number;
+  error?: boolean;
+  // When the tool started (epoch ms); the answer comes after it
+  startedAt: number;
+  durationMs: number;
+}
+
+/**
+ * Log each tool call from a turn as a tool_call timeline event
+ */
+export async function recordToolCalls(
+  tenantId: string,
+  caseId: string,
+  toolCalls: AgentToolCall[] | undefined,
+  level: SupportLevel = 'L1'
+): Promise<void> {
+  if (!toolCalls?.length) return;
+
+  const timeline = adminDb()
+    .collection('tenants')
+    .doc(tenantId)
+    .collection('cases')
+    .doc(caseId)
+    .collection('timeline');
+
+  const batch = adminDb().batch();
+  let previous = 0;
+  toolCalls.forEach((call) => {
+    // Stamped when the tool ran, so the calls come before the answer they fed;
+    // calls started in the same millisecond keep their order
+    const createdAt = Math.max(call.startedAt, previous + 1);
+    previous = createdAt;
+    batch.set(timeline.doc(), {
+      type: 'tool_call',
+      level,
+      content: `${call.name}: ${call.summary}`,
+      metadata: {
+        tool: call.name,
+        arguments: call.arguments,
+        iteration: call.iteration,
+        durationMs: call.durationMs,
+        ...(call.error && { error: true }),
+      },
+      createdBy: 'ai',
+      createdAt: new Date(createdAt),
+    });
+  });
+  await batch.commit();
+}
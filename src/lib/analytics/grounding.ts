@@ -0,0 +1,98 @@
+import { adminDb } from '@/lib/firebase/admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { MIN_GROUNDING_SCORE } from '@/lib/ai/grounding';
+
+export interface GroundingStats {
+  checked: number; // answers with a grounding score
+  averageScore: number; // 0-1
+  lowGroundingRate: number; // percentage below MIN_GROUNDING_SCORE - the hallucination rate
+}
+
+export interface GroundingAnalytics extends GroundingStats {
+  responses: number; // all AI answers, checked or not
+  downgraded: number; // answers replaced with an escalation
+  unsupportedClaims: number;
+  byLevel: Record<string, GroundingStats>;
+  daily: Array<GroundingStats & { date: string }>;
+}
+
+// The grounding fields read from ai_response metadata (see groundingMetadata)
+interface ResponseGrounding {
+  level: string;
+  date: string | null;
+  score?: number;
+  unsupportedClaims?: number;
+  downgraded?: boolean;
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+function stats(responses: ResponseGrounding[]): GroundingStats {
+  const scores = responses.map((r) => r.score).filter((s): s is number => typeof s === 'number');
+  const total = scores.reduce((sum, s) => sum + s, 0);
+  return {
+    checked: scores.length,
+    averageScore: scores.length > 0 ? Math.round((total / scores.length) * 100) / 100 : 0,
+    lowGroundingRate: percentage(scores.filter((s) => s < MIN_GROUNDING_SCORE).length, scores.length),
+  };
+}
+
+/**
+ * Grounding scores of AI answers given in the date range, overall, per support
+ * level and per day. One collection-group query over the tenant's ai_response
+ * events; answers recorded before events carried tenantId need
+ * scripts/backfill-timeline-tenant.js.
+ */
+export async function getGroundingAnalytics(
+  tenantId: string,
+  dateRange?: { start: Date; end: Date }
+): Promise<GroundingAnalytics> {
+  const db = adminDb();
+
+  // Default to last 30 days if no range specified
+  const endDate = dateRange?.end || new Date();
+  const startDate = dateRange?.start || new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+  const snapshot = await db.collectionGroup('timeline')
+    .where('tenantId', '==', tenantId)
+    .where('type', '==', 'ai_response')
+    .where('createdAt', '>=', Timestamp.fromDate(startDate))
+    .where('createdAt', '<=', Timestamp.fromDate(endDate))
+    .get();
+
+  const responses: ResponseGrounding[] = snapshot.docs.map((doc) => {
+    const data = doc.data();
+    const grounding = data.metadata?.grounding;
+    const createdAt = (data.createdAt as Timestamp | undefined)?.toDate?.();
+    return {
+      level: data.level || 'L1',
+      date: createdAt ? createdAt.toISOString().slice(0, 10) : null,
+      score: grounding?.score,
+      unsupportedClaims: grounding?.unsupportedClaims,
+      downgraded: grounding?.downgraded,
+    };
+  });
+
+  const byLevel: Record<string, GroundingStats> = {};
+  Array.from(new Set(responses.map((r) => r.level))).forEach((level) => {
+    byLevel[level] = stats(responses.filter((r) => r.level === level));
+  });
+
+  const days = new Map<string, ResponseGrounding[]>();
+  responses.forEach((r) => {
+    if (r.date) days.set(r.date, [...(days.get(r.date) || []), r]);
+  });
+
+  return {
+    responses: responses.length,
+    ...stats(responses),
+    downgraded: responses.filter((r) => r.downgraded).length,
+    unsupportedClaims: responses.reduce((sum, r) => sum + (r.unsupportedClaims || 0), 0),
+    byLevel,
+    daily: Array.from(days.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, dayResponses]) => ({ date, ...stats(dayResponses) })),
+  };
+}
@@ -5,9 +5,15 @@ export {
   getLevelPerformance,
 } from './metrics';
 
+export { getPlaybookAnalytics } from './playbooks';
+export { getGroundingAnalytics } from './grounding';
+
 export type {
   DashboardMetrics,
   CaseTrend,
   AgentMetrics,
   SLAMetrics,
 } from './metrics';
+
+export type { PlaybookAnalytics, PlaybookStepFunnel } from './playbooks';
+export type { GroundingAnalytics, GroundingStats } from './grounding';
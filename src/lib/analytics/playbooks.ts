@@ -0,0 +1,228 @@
+import { adminDb } from '@/lib/firebase/admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { ensurePlaybooksLoaded } from '@/lib/playbooks/loader';
+import { getPlaybook } from '@/lib/playbooks/engine';
+import type { PlaybookExecutionState } from '@/lib/playbooks/types';
+
+// Firestore 'in' queries take at most 30 values
+const RATING_QUERY_BATCH = 30;
+
+// Internal type for the case fields playbook analytics reads
+interface PlaybookCaseData {
+  id: string;
+  status?: string;
+  currentLevel?: string;
+  playbookState?: PlaybookExecutionState;
+}
+
+export interface PlaybookStepFunnel {
+  stepId: string;
+  title: string;
+  reached: number; // runs that were given this step
+  succeeded: number; // runs that completed it
+  failures: number; // failed or timed-out attempts across runs
+  escalations: number; // runs that escalated on this step
+  dropOffs: number; // runs that stopped here without resolving
+}
+
+export interface PlaybookAnalytics {
+  playbookId: string;
+  playbookName: string;
+  version: string;
+  entered: number;
+  resolved: number;
+  escalated: number;
+  // Ran out of steps without resolving or escalating
+  failed: number;
+  inProgress: number;
+  resolutionRate: number; // percentage
+  escalationRate: number; // percentage
+  avgStepsToResolution: number; // step attempts per resolved run
+  csat: {
+    responses: number;
+    averageRating: number; // 1-5
+    satisfiedRate: number; // percentage of 4 and 5 ratings
+  };
+  // Steps in playbook order; steps no longer in the playbook come last
+  funnel: PlaybookStepFunnel[];
+  mostFailedSteps: Array<{ stepId: string; title: string; failures: number }>;
+  escalationPoints: Array<{ stepId: string; title: string; count: number }>;
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+function isEscalated(c: PlaybookCaseData): boolean {
+  const state = c.playbookState!;
+  if (state.outcome === 'escalated') return true;
+  // The agent can also hand off mid-playbook (escalate_to_l2 / escalate_to_human)
+  return (
+    state.outcome !== 'resolved' &&
+    (['L2', 'L3'].includes(c.currentLevel as string) ||
+      ['escalated_L2', 'escalated_human'].includes(c.status as string))
+  );
+}
+
+/**
+ * Ratings for the given cases, keyed by case ID
+ */
+async function getCaseRatings(caseIds: string[]): Promise<Map<string, number>> {
+  const db = adminDb();
+  const ratings = new Map<string, number>();
+
+  const batches: string[][] = [];
+  for (let i = 0; i < caseIds.length; i += RATING_QUERY_BATCH) {
+    batches.push(caseIds.slice(i, i + RATING_QUERY_BATCH));
+  }
+
+  const snapshots = await Promise.all(
+    batches.map((batch) => db.collection('ratings').where('caseId', 'in', batch).get())
+  );
+  snapshots.forEach((snapshot) => {
+    snapshot.docs.forEach((doc) => {
+      const { caseId, rating } = doc.data();
+      if (typeof rating === 'number') ratings.set(caseId, rating);
+    });
+  });
+
+  return ratings;
+}
+
+/**
+ * Funnel, outcome and CSAT metrics per playbook and version, from the playbook
+ * state the L1 agent keeps on each case
+ */
+export async function getPlaybookAnalytics(
+  tenantId: string,
+  dateRange?: { start: Date; end: Date }
+): Promise<PlaybookAnalytics[]> {
+  const db = adminDb();
+  const casesRef = db.collection('tenants').doc(tenantId).collection('cases');
+
+  // Default to last 30 days if no range specified
+  const endDate = dateRange?.end || new Date();
+  const startDate = dateRange?.start || new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+  const [snapshot] = await Promise.all([
+    casesRef
+      .where('createdAt', '>=', Timestamp.fromDate(startDate))
+      .where('createdAt', '<=', Timestamp.fromDate(endDate))
+      .get(),
+    ensurePlaybooksLoaded(tenantId),
+  ]);
+
+  const cases = snapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }) as PlaybookCaseData)
+    .filter((c) => c.playbookState?.playbookId);
+  if (cases.length === 0) return [];
+
+  const ratings = await getCaseRatings(cases.map((c) => c.id));
+
+  // Group runs by playbook and version (runs from before versions were recorded share one group)
+  const groups = new Map<string, PlaybookCaseData[]>();
+  cases.forEach((c) => {
+    const key = `${c.playbookState!.playbookId}@${c.playbookState!.playbookVersion || 'unknown'}`;
+    groups.set(key, [...(groups.get(key) || []), c]);
+  });
+
+  const analytics: PlaybookAnalytics[] = [];
+  groups.forEach((runs) => {
+    const { playbookId, playbookVersion } = runs[0].playbookState!;
+    const playbook = getPlaybook(playbookId, tenantId);
+    const titles = new Map(playbook?.steps.map((step) => [step.id, step.title]) || []);
+    const titleOf = (stepId: string) => titles.get(stepId) || stepId;
+
+    const funnel = new Map<string, PlaybookStepFunnel>();
+    const stepFunnel = (stepId: string) => {
+      let entry = funnel.get(stepId);
+      if (!entry) {
+        entry = { stepId, title: titleOf(stepId), reached: 0, succeeded: 0, failures: 0, escalations: 0, dropOffs: 0 };
+        funnel.set(stepId, entry);
+      }
+      return entry;
+    };
+    playbook?.steps.forEach((step) => stepFunnel(step.id));
+
+    let resolved = 0;
+    let escalated = 0;
+    let failed = 0;
+    let resolvedStepAttempts = 0;
+    const runRatings: number[] = [];
+
+    runs.forEach((c) => {
+      const state = c.playbookState!;
+      const completions = state.completedSteps || [];
+      const reached = new Set([
+        ...Object.keys(state.stepIssuedAt || {}),
+        ...Object.keys(state.stepAttempts || {}),
+        state.currentStepId,
+      ]);
+
+      reached.forEach((stepId) => {
+        if (!stepId) return;
+        const entry = stepFunnel(stepId);
+        const attempts = state.stepAttempts?.[stepId] || 0;
+        const successes = completions.filter((id) => id === stepId).length;
+        entry.reached++;
+        if (successes > 0) entry.succeeded++;
+        entry.failures += Math.max(attempts - successes, 0);
+      });
+
+      const runEscalated = isEscalated(c);
+      if (state.outcome === 'resolved') {
+        resolved++;
+        resolvedStepAttempts += Object.values(state.stepAttempts || {}).reduce((sum, n) => sum + n, 0);
+      } else if (state.currentStepId) {
+        // The step the run ended (or is waiting) on
+        const entry = stepFunnel(state.currentStepId);
+        entry.dropOffs++;
+        if (runEscalated) entry.escalations++;
+      }
+      if (runEscalated) escalated++;
+      else if (state.outcome === 'failed') failed++;
+
+      const rating = ratings.get(c.id);
+      if (rating !== undefined) runRatings.push(rating);
+    });
+
+    const steps = Array.from(funnel.values());
+    const ratingTotal = runRatings.reduce((sum, r) => sum + r, 0);
+
+    analytics.push({
+      playbookId,
+      playbookName: playbook?.metadata.name || playbookId,
+      version: playbookVersion || 'unknown',
+      entered: runs.length,
+      resolved,
+      escalated,
+      failed,
+      inProgress: runs.length - resolved - escalated - failed,
+      resolutionRate: percentage(resolved, runs.length),
+      escalationRate: percentage(escalated, runs.length),
+      avgStepsToResolution: resolved > 0 ? Math.round((resolvedStepAttempts / resolved) * 10) / 10 : 0,
+      csat: {
+        responses: runRatings.length,
+        averageRating: runRatings.length > 0 ? Math.round((ratingTotal / runRatings.length) * 10) / 10 : 0,
+        satisfiedRate: percentage(runRatings.filter((r) => r >= 4).length, runRatings.length),
+      },
+      funnel: steps,
+      mostFailedSteps: steps
+        .filter((s) => s.failures > 0)
+        .sort((a, b) => b.failures - a.failures)
+        .slice(0, 3)
+        .map(({ stepId, title, failures }) => ({ stepId, title, failures })),
+      escalationPoints: steps
+        .filter((s) => s.escalations > 0)
+        .sort((a, b) => b.escalations - a.escalations)
+        .map(({ stepId, title, escalations }) => ({ stepId, title, count: escalations })),
+    });
+  });
+
+  // Each playbook's versions together, newest first
+  return analytics.sort(
+    (a, b) =>
+      a.playbookName.localeCompare(b.playbookName) ||
+      b.version.localeCompare(a.version, undefined, { numeric: true })
+  );
+}
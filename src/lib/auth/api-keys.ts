@@ -0,0 +1,111 @@
+/**
+ * API Keys
+ * Scoped, tenant-bound keys for server-to-server callers (e.g. CommandDesk AI)
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { adminDb } from '@/lib/firebase/admin';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { Permission } from './permissions';
+
+// API keys are scoped with the same permissions as the role matrix
+export type ApiKeyScope = Permission;
+
+export interface ApiKey {
+  id: string;
+  tenantId: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  revoked: boolean;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+// Keys are stored by hash only; the plaintext is shown once at creation
+const COLLECTION = 'api_keys';
+const KEY_PREFIX = 'tsk_';
+
+/**
+ * Check whether a bearer credential looks like an API key (vs. a Firebase ID token)
+ */
+export function isApiKey(credential: string): boolean {
+  return credential.startsWith(KEY_PREFIX);
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Create a new API key for a tenant. Returns the plaintext key once.
+ */
+export async function createApiKey(
+  tenantId: string,
+  name: string,
+  scopes: ApiKeyScope[]
+): Promise<{ key: string; apiKey: ApiKey }> {
+  const db = adminDb();
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const prefix = key.substring(0, 12);
+
+  const apiKey: Omit<ApiKey, 'id'> = {
+    tenantId,
+    name,
+    prefix,
+    scopes,
+    revoked: false,
+    createdAt: new Date(),
+  };
+
+  const docRef = db.collection(COLLECTION).doc(hashApiKey(key));
+  await docRef.set({
+    ...apiKey,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+
+  return { key, apiKey: { id: docRef.id, ...apiKey } };
+}
+
+/**
+ * Look up an API key by its plaintext value. Returns null for unknown or revoked keys.
+ */
+export async function verifyApiKey(key: string): Promise<ApiKey | null> {
+  if (!isApiKey(key)) return null;
+
+  const db = adminDb();
+  const docRef = db.collection(COLLECTION).doc(hashApiKey(key));
+  const docSnap = await docRef.get();
+
+  if (!docSnap.exists) return null;
+
+  const data = docSnap.data()!;
+  if (data.revoked) return null;
+
+  // Best-effort usage tracking; don't block the request on it
+  docRef.update({ lastUsedAt: FieldValue.serverTimestamp() }).catch((error) => {
+    console.warn('Failed to record API key usage:', error);
+  });
+
+  return {
+    id: docSnap.id,
+    tenantId: data.tenantId,
+    name: data.name,
+    prefix: data.prefix,
+    scopes: data.scopes || [],
+    revoked: false,
+    createdAt: (data.createdAt as Timestamp)?.toDate() || new Date(),
+    lastUsedAt: (data.lastUsedAt as Timestamp)?.toDate(),
+  };
+}
+
+/**
+ * Revoke an API key by ID
+ */
+export async function revokeApiKey(keyId: string): Promise<void> {
+  const db = adminDb();
+  await db.collection(COLLECTION).doc(keyId).update({
+    revoked: true,
+    revokedAt: FieldValue.serverTimestamp(),
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * Authenticated fetch for dashboard components.
+ * Attaches the signed-in user's Firebase ID token so API routes can resolve the tenant.
+ */
+export async function authFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const { auth } = await import('@/lib/firebase/client');
+  const token = await auth?.currentUser?.getIdToken();
+
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  return fetch(input, { ...init, headers });
+}
+
+/**
+ * Where to go after signing in: the `next` query param when it is a local path, else the dashboard.
+ */
+export function getRedirectPath(fallback = '/dashboard'): string {
+  if (typeof window === 'undefined') return fallback;
+  const next = new URLSearchParams(window.location.search).get('next');
+  // Reject absolute and protocol-relative URLs to avoid open redirects
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : fallback;
+}
@@ -0,0 +1,8 @@
+export { authenticateRequest, verifyUserIdentity, authorize, hasPermission, authErrorResponse } from './principal';
+export type { AuthPrincipal, AuthResult, AuthOptions, IdentityResult } from './principal';
+
+export { createApiKey, verifyApiKey, revokeApiKey, isApiKey } from './api-keys';
+export type { ApiKey, ApiKeyScope } from './api-keys';
+
+export { ROLE_PERMISSIONS, ALL_PERMISSIONS, USER_ROLES, roleHasPermission } from './permissions';
+export type { Permission } from './permissions';
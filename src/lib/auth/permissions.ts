@@ -0,0 +1,108 @@
+/**
+ * Role-Based Access Control
+ * Permission matrix shared by API routes and the dashboard.
+ * Keep in sync with the can() function in firestore.rules.
+ */
+
+import type { UserRole } from '@/types';
+
+export type Permission =
+  | 'case:read'
+  | 'case:write'
+  | 'case:resolve'
+  | 'case:escalate'
+  // Unredacted originals of customer text (owners only)
+  | 'case:read_sensitive'
+  | 'kb:read'
+  | 'kb:write'
+  | 'kb:train'
+  | 'kb:delete'
+  | 'playbook:read'
+  | 'playbook:write'
+  | 'incident:read'
+  | 'incident:write'
+  | 'analytics:read'
+  | 'l3:read'
+  | 'l3:assign'
+  | 'l3:resolve'
+  | 'ai:invoke'
+  | 'settings:write'
+  | 'team:manage'
+  | 'billing:manage';
+
+export const USER_ROLES: UserRole[] = ['owner', 'agent', 'viewer', 'human_support'];
+
+export const ALL_PERMISSIONS: Permission[] = [
+  'case:read',
+  'case:write',
+  'case:resolve',
+  'case:escalate',
+  'case:read_sensitive',
+  'kb:read',
+  'kb:write',
+  'kb:train',
+  'kb:delete',
+  'playbook:read',
+  'playbook:write',
+  'incident:read',
+  'incident:write',
+  'analytics:read',
+  'l3:read',
+  'l3:assign',
+  'l3:resolve',
+  'ai:invoke',
+  'settings:write',
+  'team:manage',
+  'billing:manage',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  agent: [
+    'case:read',
+    'case:write',
+    'case:resolve',
+    'case:escalate',
+    'kb:read',
+    'kb:write',
+    'kb:train',
+    'playbook:read',
+    'playbook:write',
+    'incident:read',
+    'incident:write',
+    'analytics:read',
+    'l3:read',
+    'ai:invoke',
+  ],
+  human_support: [
+    'case:read',
+    'case:write',
+    'case:resolve',
+    'case:escalate',
+    'kb:read',
+    'playbook:read',
+    'incident:read',
+    'incident:write',
+    'analytics:read',
+    'l3:read',
+    'l3:assign',
+    'l3:resolve',
+    'ai:invoke',
+  ],
+  viewer: [
+    'case:read',
+    'kb:read',
+    'playbook:read',
+    'incident:read',
+    'analytics:read',
+    'l3:read',
+  ],
+};
+
+/**
+ * Check if a role grants a permission
+ */
+export function roleHasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
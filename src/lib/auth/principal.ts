@@ -0,0 +1,203 @@
+/**
+ * Request Authentication
+ * Verifies Firebase ID tokens (dashboard) and API keys (server-to-server),
+ * and derives the tenant and role from the verified principal.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth, adminDb } from '@/lib/firebase/admin';
+import { isApiKey, verifyApiKey, type ApiKeyScope } from './api-keys';
+import { roleHasPermission, USER_ROLES, type Permission } from './permissions';
+import type { UserRole } from '@/types';
+
+export interface AuthPrincipal {
+  type: 'user' | 'api_key';
+  tenantId: string;
+  role: UserRole;
+  uid?: string;
+  email?: string;
+  keyId?: string;
+  keyName?: string;
+  scopes?: ApiKeyScope[];
+}
+
+export type AuthResult =
+  | { ok: true; principal: AuthPrincipal }
+  | { ok: false; status: 401 | 403; error: string };
+
+// A signed-in user whose tenant membership has not been resolved (e.g. accepting an invitation)
+export type IdentityResult =
+  | { ok: true; uid: string; email?: string; emailVerified: boolean; displayName?: string }
+  | { ok: false; status: 401; error: string };
+
+export interface AuthOptions {
+  // Tenant the caller claims to act on (body/query); must match the principal
+  tenantId?: string | null;
+  // Permission required: checked against the role matrix for users and key scopes for API keys
+  permission?: Permission;
+}
+
+/**
+ * Extract the bearer credential from Authorization or x-api-key headers
+ */
+function getCredential(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.substring(7).trim() || null;
+  }
+  return request.headers.get('x-api-key');
+}
+
+/**
+ * Resolve a dashboard user from a Firebase ID token
+ */
+async function resolveUserPrincipal(idToken: string): Promise<AuthResult> {
+  let decoded;
+  try {
+    decoded = await adminAuth().verifyIdToken(idToken);
+  } catch {
+    return { ok: false, status: 401, error: 'Invalid or expired ID token' };
+  }
+
+  // Tenants are keyed by the owner's UID unless a tenant claim has been set
+  const tenantId = typeof decoded.tenantId === 'string' ? decoded.tenantId : decoded.uid;
+
+  const memberDoc = await adminDb()
+    .collection('tenants')
+    .doc(tenantId)
+    .collection('members')
+    .doc(decoded.uid)
+    .get();
+
+  if (!memberDoc.exists) {
+    return { ok: false, status: 403, error: 'User is not a member of this tenant' };
+  }
+
+  const role = memberDoc.data()?.role as UserRole;
+  if (!USER_ROLES.includes(role)) {
+    return { ok: false, status: 403, error: 'User has no valid role' };
+  }
+
+  return {
+    ok: true,
+    principal: {
+      type: 'user',
+      tenantId,
+      role,
+      uid: decoded.uid,
+      email: decoded.email,
+    },
+  };
+}
+
+/**
+ * Resolve a server-to-server caller from an API key
+ */
+async function resolveApiKeyPrincipal(key: string): Promise<AuthResult> {
+  const apiKey = await verifyApiKey(key);
+  if (!apiKey) {
+    return { ok: false, status: 401, error: 'Invalid or revoked API key' };
+  }
+
+  return {
+    ok: true,
+    principal: {
+      type: 'api_key',
+      tenantId: apiKey.tenantId,
+      role: 'agent',
+      keyId: apiKey.id,
+      keyName: apiKey.name,
+      scopes: apiKey.scopes,
+    },
+  };
+}
+
+/**
+ * Authenticate an API request and derive its tenant.
+ *
+ * The tenant always comes from the verified principal. A tenant supplied by the
+ * caller (legacy x-tenant-id header, tenantId query param, or options.tenantId)
+ * is only accepted when it matches.
+ */
+export async function authenticateRequest(
+  request: NextRequest,
+  options: AuthOptions = {}
+): Promise<AuthResult> {
+  const credential = getCredential(request);
+  if (!credential) {
+    return { ok: false, status: 401, error: 'Authentication required' };
+  }
+
+  const result = isApiKey(credential)
+    ? await resolveApiKeyPrincipal(credential)
+    : await resolveUserPrincipal(credential);
+
+  if (!result.ok) return result;
+  const { principal } = result;
+
+  const requestedTenants = [
+    request.headers.get('x-tenant-id'),
+    request.nextUrl.searchParams.get('tenantId'),
+    options.tenantId,
+  ].filter((t): t is string => !!t);
+
+  if (requestedTenants.some((t) => t !== principal.tenantId)) {
+    return { ok: false, status: 403, error: 'Tenant mismatch' };
+  }
+
+  if (options.permission) {
+    return authorize(principal, options.permission);
+  }
+
+  return result;
+}
+
+/**
+ * Verify the caller's Firebase ID token without requiring tenant membership
+ */
+export async function verifyUserIdentity(request: NextRequest): Promise<IdentityResult> {
+  const credential = getCredential(request);
+  if (!credential || isApiKey(credential)) {
+    return { ok: false, status: 401, error: 'User authentication required' };
+  }
+
+  try {
+    const decoded = await adminAuth().verifyIdToken(credential);
+    return {
+      ok: true,
+      uid: decoded.uid,
+      email: decoded.email,
+      emailVerified: decoded.email_verified === true,
+      displayName: typeof decoded.name === 'string' ? decoded.name : undefined,
+    };
+  } catch {
+    return { ok: false, status: 401, error: 'Invalid or expired ID token' };
+  }
+}
+
+/**
+ * Check whether a principal holds a permission
+ */
+export function hasPermission(principal: AuthPrincipal, permission: Permission): boolean {
+  if (principal.type === 'api_key') {
+    return principal.scopes?.includes(permission) ?? false;
+  }
+  return roleHasPermission(principal.role, permission);
+}
+
+/**
+ * Authorize an already-authenticated principal for a specific permission
+ */
+export function authorize(principal: AuthPrincipal, permission: Permission): AuthResult {
+  if (!hasPermission(principal, permission)) {
+    return { ok: false, status: 403, error: `Missing permission: ${permission}` };
+  }
+  return { ok: true, principal };
+}
+
+/**
+ * Build the JSON error response for a failed authentication
+ */
+export function authErrorResponse(result: { status: 401 | 403; error: string }): NextResponse {
+  return NextResponse.json({ error: result.error }, { status: result.status });
+}
@@ -0,0 +1,85 @@
+'use client';
+
+/**
+ * Dashboard Permissions Hook
+ * Resolves the signed-in user's role and tenant from the API and exposes the permission matrix.
+ * Only hides controls; routes and Firestore rules still enforce every permission.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { onAuthStateChanged, type Auth } from 'firebase/auth';
+import { authFetch } from './client';
+import { roleHasPermission, type Permission } from './permissions';
+import type { UserRole } from '@/types';
+
+interface Identity {
+  role: UserRole | null;
+  // The tenant the user belongs to (the inviter's for invited members), not their UID
+  tenantId: string | null;
+}
+
+const NO_IDENTITY: Identity = { role: null, tenantId: null };
+
+// One lookup per signed-in user, shared by every component on the page
+let identityCache: { uid: string; identity: Promise<Identity> } | null = null;
+
+function loadIdentity(uid: string): Promise<Identity> {
+  if (identityCache?.uid !== uid) {
+    const identity = authFetch('/api/debug/whoami')
+      .then(async (res) => {
+        if (!res.ok) return NO_IDENTITY;
+        const data = await res.json();
+        return { role: data.role as UserRole, tenantId: data.tenantId as string };
+      })
+      .catch((error) => {
+        console.error('Failed to load role:', error);
+        return NO_IDENTITY;
+      });
+    identityCache = { uid, identity };
+  }
+  return identityCache.identity;
+}
+
+export function usePermissions() {
+  const [identity, setIdentity] = useState<Identity>(NO_IDENTITY);
+  const [loading, setLoading] = useState(true);
+  const { role, tenantId } = identity;
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+
+    import('@/lib/firebase/client').then((module) => {
+      if (cancelled) return;
+      if (!module.auth) {
+        setLoading(false);
+        return;
+      }
+      unsubscribe = onAuthStateChanged(module.auth as Auth, (user) => {
+        if (!user) {
+          identityCache = null;
+          setIdentity(NO_IDENTITY);
+          setLoading(false);
+          return;
+        }
+        loadIdentity(user.uid).then((resolved) => {
+          if (cancelled) return;
+          setIdentity(resolved);
+          setLoading(false);
+        });
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  const can = useCallback(
+    (permission: Permission) => roleHasPermission(role, permission),
+    [role]
+  );
+
+  return { role, tenantId, loading, can };
+}
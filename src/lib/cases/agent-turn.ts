@@ -0,0 +1,61 @@
+/**
+ * Agent Turn Log
+ * Records everything an AI agent turn leaves on a case, in one place for every
+ * channel (Admin SDK, server only)
+ */
+
+import { recordToolCalls, type AgentToolCall } from '@/lib/ai/tool-log';
+import { recordGuardrailEvents } from '@/lib/ai/guardrail-log';
+import { groundingMetadata, type AnswerGrounding } from '@/lib/ai/grounding';
+import type { GuardrailEvent } from '@/lib/ai/prompt-injection';
+import { recordPlaybookProgress } from '@/lib/playbooks/state';
+import type { PlaybookProgress } from '@/lib/playbooks/types';
+import { linkCaseToIncident, type IncidentReference } from '@/lib/incidents';
+import type { SupportLevel, TimelineEvent } from '@/types';
+import { addTimelineEvent } from './store';
+
+// The parts of an L1 or L2 agent response that are recorded
+export interface AgentTurn {
+  message: string;
+  playbook?: PlaybookProgress;
+  toolCalls?: AgentToolCall[];
+  guardrailEvents?: GuardrailEvent[];
+  grounding?: AnswerGrounding;
+  incident?: IncidentReference;
+}
+
+export interface AgentTurnOptions {
+  level?: SupportLevel;
+  // Channel-specific ai_response metadata (tokens, model, userInput, ...)
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Log the answer as an ai_response event (with its grounding score), then the
+ * playbook progress, tool calls and guardrail events, and link the case to the
+ * incident the answer was about. Returns the ai_response event.
+ */
+export async function recordAgentTurn(
+  tenantId: string,
+  caseId: string,
+  turn: AgentTurn,
+  { level = 'L1', metadata = {} }: AgentTurnOptions = {}
+): Promise<TimelineEvent> {
+  const responseEvent = await addTimelineEvent(tenantId, caseId, {
+    type: 'ai_response',
+    level,
+    content: turn.message,
+    metadata: {
+      ...metadata,
+      ...(turn.grounding && { grounding: groundingMetadata(turn.grounding) }),
+    },
+    createdBy: 'ai',
+  });
+
+  await recordPlaybookProgress(tenantId, caseId, turn.playbook);
+  await recordToolCalls(tenantId, caseId, turn.toolCalls, level);
+  await recordGuardrailEvents(tenantId, caseId, turn.guardrailEvents, level);
+  await linkCaseToIncident(tenantId, caseId, turn.incident);
+
+  return responseEvent;
+}
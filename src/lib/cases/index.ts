@@ -0,0 +1,12 @@
+export { generateTicketNumber } from './ticket';
+export {
+  getCase,
+  createCase,
+  updateCase,
+  getTimelineEvents,
+  addTimelineEvent,
+  getCasesByPhone,
+} from './store';
+export { recordAgentTurn } from './agent-turn';
+
+export type { AgentTurn, AgentTurnOptions } from './agent-turn';
@@ -0,0 +1,110 @@
+/**
+ * Case Store
+ * Cases and their timelines for API routes and webhooks. Same operations as
+ * lib/firebase/cases, but on the Admin SDK: the browser SDK has no database
+ * on the server (Admin SDK, server only)
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import type { DocumentSnapshot } from 'firebase-admin/firestore';
+import type { Case, TimelineEvent } from '@/types';
+import { generateTicketNumber } from './ticket';
+
+function casesCollection(tenantId: string) {
+  return adminDb().collection('tenants').doc(tenantId).collection('cases');
+}
+
+function timelineCollection(tenantId: string, caseId: string) {
+  return casesCollection(tenantId).doc(caseId).collection('timeline');
+}
+
+function docToCase(doc: DocumentSnapshot): Case | null {
+  if (!doc.exists) return null;
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    ...data,
+    createdAt: data.createdAt?.toDate?.() || new Date(),
+    updatedAt: data.updatedAt?.toDate?.() || new Date(),
+    resolvedAt: data.resolvedAt?.toDate?.() || undefined,
+  } as Case;
+}
+
+function docToTimelineEvent(doc: DocumentSnapshot): TimelineEvent | null {
+  if (!doc.exists) return null;
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    ...data,
+    createdAt: data.createdAt?.toDate?.() || new Date(),
+  } as TimelineEvent;
+}
+
+export async function getCase(tenantId: string, caseId: string): Promise<Case | null> {
+  return docToCase(await casesCollection(tenantId).doc(caseId).get());
+}
+
+/**
+ * Create a case with a ticket number and its opening timeline event
+ */
+export async function createCase(
+  tenantId: string,
+  caseData: Omit<Case, 'id' | 'ticketNumber' | 'createdAt' | 'updatedAt'>
+): Promise<Case> {
+  const ticketNumber = generateTicketNumber();
+  const now = new Date();
+
+  const docRef = await casesCollection(tenantId).add({
+    ...caseData,
+    ticketNumber,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await addTimelineEvent(tenantId, docRef.id, {
+    type: 'call_started',
+    level: caseData.currentLevel || 'L1',
+    content: `Case created via ${caseData.customerContact?.phone ? 'phone' : 'web'}`,
+    metadata: {},
+    createdBy: 'system',
+  });
+
+  return { id: docRef.id, ...caseData, ticketNumber, createdAt: now, updatedAt: now } as unknown as Case;
+}
+
+export async function updateCase(tenantId: string, caseId: string, updates: Partial<Case>): Promise<void> {
+  // Remove fields that shouldn't be updated directly
+  const { id, ticketNumber, createdAt, ...safeUpdates } = updates;
+
+  await casesCollection(tenantId).doc(caseId).update({ ...safeUpdates, updatedAt: new Date() });
+}
+
+export async function getTimelineEvents(tenantId: string, caseId: string): Promise<TimelineEvent[]> {
+  const snapshot = await timelineCollection(tenantId, caseId).orderBy('createdAt', 'asc').get();
+  return snapshot.docs
+    .map((doc) => docToTimelineEvent(doc))
+    .filter((event): event is TimelineEvent => event !== null);
+}
+
+export async function addTimelineEvent(
+  tenantId: string,
+  caseId: string,
+  event: Omit<TimelineEvent, 'id' | 'caseId' | 'createdAt'>
+): Promise<TimelineEvent> {
+  const createdAt = new Date();
+  const docRef = await timelineCollection(tenantId, caseId).add({ ...event, caseId, tenantId, createdAt });
+  return { id: docRef.id, caseId, tenantId, ...event, createdAt } as unknown as TimelineEvent;
+}
+
+/**
+ * A customer's latest cases by phone number, newest first
+ */
+export async function getCasesByPhone(tenantId: string, phone: string): Promise<Case[]> {
+  const snapshot = await casesCollection(tenantId)
+    .where('customerContact.phone', '==', phone)
+    .orderBy('createdAt', 'desc')
+    .limit(10)
+    .get();
+
+  return snapshot.docs.map((doc) => docToCase(doc)).filter((c): c is Case => c !== null);
+}
@@ -0,0 +1,7 @@
+// Generate ticket number: TS-YYYYMMDD-XXXX
+export function generateTicketNumber(): string {
+  const date = new Date();
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
+  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
+  return `TS-${dateStr}-${random}`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Error Analysis
+ * Runs the log analyzer on customer-provided text, matches the findings against
+ * the tenant's known errors and keeps the result on the case as an artifact
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import { redactSecrets } from '@/lib/ai/guardrails';
+import { analyzeErrorText, type LogAnalysis } from './log-analyzer';
+import { loadKnownErrors, matchKnownErrors, type KnownErrorArticle } from './known-errors';
+
+export interface ErrorAnalysisResult extends LogAnalysis {
+  knownErrors: Array<{
+    id: string;
+    title: string;
+    resolution?: string;
+    kbArticles: KnownErrorArticle[];
+    // Signature of the finding the entry matched
+    matchedSignature: string;
+  }>;
+  // Redacted start of the analyzed text, kept with the artifact
+  excerpt: string;
+  context?: string;
+}
+
+const EXCERPT_LENGTH = 2000;
+const MAX_KNOWN_ERRORS = 3;
+
+/**
+ * Analyze error text and look it up in the tenant's known-error catalogue
+ */
+export async function analyzeError(
+  tenantId: string,
+  errorText: string,
+  options: { product?: string; context?: string } = {}
+): Promise<ErrorAnalysisResult> {
+  // Customers paste logs with tokens and keys in them
+  const text = redactSecrets(errorText).text;
+  const analysis = analyzeErrorText(text);
+  const catalogue = analysis.findings.length > 0 ? await loadKnownErrors(tenantId) : [];
+
+  return {
+    ...analysis,
+    knownErrors: matchKnownErrors(analysis, catalogue, { product: options.product })
+      .slice(0, MAX_KNOWN_ERRORS)
+      .map(({ knownError, finding }) => ({
+        id: knownError.id,
+        title: knownError.title,
+        ...(knownError.resolution && { resolution: knownError.resolution }),
+        kbArticles: knownError.kbArticles || [],
+        matchedSignature: finding.signature,
+      })),
+    excerpt: text.substring(0, EXCERPT_LENGTH),
+    ...(options.context && { context: redactSecrets(options.context).text }),
+  };
+}
+
+/**
+ * Store an analysis as an error_analysis artifact on the case; returns the artifact ID
+ */
+export async function saveErrorAnalysisArtifact(
+  tenantId: string,
+  caseId: string,
+  analysis: ErrorAnalysisResult
+): Promise<string> {
+  const ref = await adminDb()
+    .collection('tenants')
+    .doc(tenantId)
+    .collection('cases')
+    .doc(caseId)
+    .collection('artifacts')
+    .add({
+      caseId,
+      type: 'error_analysis',
+      content: JSON.parse(JSON.stringify(analysis)),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  return ref.id;
+}
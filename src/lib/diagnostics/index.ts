@@ -0,0 +1,20 @@
+export { analyzeErrorText, normalizeErrorMessage } from './log-analyzer';
+export {
+  validateKnownError,
+  matchKnownErrors,
+  listKnownErrors,
+  loadKnownErrors,
+  saveKnownError,
+  deleteKnownError,
+} from './known-errors';
+export { analyzeError, saveErrorAnalysisArtifact } from './error-analysis';
+
+export type { LogFormat, LogFinding, LogAnalysis, StackFrame } from './log-analyzer';
+export type {
+  KnownError,
+  KnownErrorInput,
+  KnownErrorArticle,
+  KnownErrorMatch,
+  SaveKnownErrorResult,
+} from './known-errors';
+export type { ErrorAnalysisResult } from './error-analysis';
@@ -0,0 +1,243 @@
+/**
+ * Known Errors
+ * A tenant's catalogue of errors it has seen before, with the fix and the KB
+ * articles that explain it. Log analysis findings are matched against it.
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import { FieldValue, Timestamp, type DocumentData } from 'firebase-admin/firestore';
+import { unsafeRegexReason } from '@/lib/ai/regex-safety';
+import type { LogAnalysis, LogFinding } from './log-analyzer';
+
+export interface KnownErrorArticle {
+  docId: string;
+  title: string;
+  url?: string;
+}
+
+export interface KnownError {
+  id: string;
+  title: string;
+  // Regular expression (case-insensitive) tested against a finding's signature and message
+  pattern?: string;
+  // Exact error type, e.g. "TypeError" or "HTTP 429"
+  errorType?: string;
+  statusCode?: number;
+  // Only match cases for this product
+  product?: string;
+  resolution?: string;
+  kbArticles?: KnownErrorArticle[];
+  enabled: boolean;
+  updatedAt?: Date | null;
+  updatedBy?: string | null;
+}
+
+export type KnownErrorInput = Omit<KnownError, 'id' | 'updatedAt' | 'updatedBy'>;
+
+export interface KnownErrorMatch {
+  knownError: KnownError;
+  finding: LogFinding;
+  // Number of criteria that matched; higher is more specific
+  score: number;
+}
+
+export type SaveKnownErrorResult =
+  | { ok: true; knownError: KnownError }
+  | { ok: false; status: 400 | 404; error: string };
+
+const MAX_PATTERN_LENGTH = 300;
+const MAX_ARTICLES = 10;
+const CACHE_TTL_MS = 60 * 1000;
+// Patterns only see the start of a message, which bounds their running time
+const MATCH_TEXT_LIMIT = 2000;
+
+const catalogueCache = new Map<string, { entries: KnownError[]; expiresAt: number }>();
+const compiledPatterns = new Map<string, RegExp | null>();
+
+function compilePattern(pattern: string): RegExp | null {
+  if (!compiledPatterns.has(pattern)) {
+    let compiled: RegExp | null = null;
+    try {
+      compiled = new RegExp(pattern, 'i');
+    } catch {
+      // Invalid patterns are rejected on save; an old one simply never matches
+    }
+    compiledPatterns.set(pattern, compiled);
+  }
+  return compiledPatterns.get(pattern)!;
+}
+
+/**
+ * Check a catalogue entry before saving; returns the first problem found
+ */
+export function validateKnownError(input: Partial<KnownErrorInput>): string | null {
+  if (typeof input.title !== 'string' || !input.title.trim()) {
+    return 'title is required';
+  }
+  if (!input.pattern && !input.errorType && !input.statusCode) {
+    return 'At least one of pattern, errorType or statusCode is required';
+  }
+  if (input.pattern !== undefined) {
+    if (typeof input.pattern !== 'string' || input.pattern.length > MAX_PATTERN_LENGTH) {
+      return `pattern must be a string of at most ${MAX_PATTERN_LENGTH} characters`;
+    }
+    try {
+      new RegExp(input.pattern, 'i');
+    } catch {
+      return 'pattern is not a valid regular expression';
+    }
+    const unsafe = unsafeRegexReason(input.pattern);
+    if (unsafe) {
+      return `pattern ${unsafe}, which can make matching hang`;
+    }
+  }
+  if (input.statusCode !== undefined && (!Number.isInteger(input.statusCode) || input.statusCode < 100 || input.statusCode > 599)) {
+    return 'statusCode must be an HTTP status code';
+  }
+  if (input.kbArticles !== undefined) {
+    if (!Array.isArray(input.kbArticles) || input.kbArticles.length > MAX_ARTICLES) {
+      return `kbArticles must be a list of at most ${MAX_ARTICLES} articles`;
+    }
+    if (input.kbArticles.some((a) => !a?.docId || !a?.title)) {
+      return 'Each KB article needs a docId and a title';
+    }
+  }
+  return null;
+}
+
+/**
+ * Match each finding of an analysis against a catalogue. An entry matches a
+ * finding when every criterion it sets holds; the most specific match comes first.
+ */
+export function matchKnownErrors(
+  analysis: LogAnalysis,
+  catalogue: KnownError[],
+  options: { product?: string } = {}
+): KnownErrorMatch[] {
+  const matches: KnownErrorMatch[] = [];
+
+  for (const knownError of catalogue) {
+    if (!knownError.enabled) continue;
+    if (knownError.product && options.product && knownError.product !== options.product) continue;
+
+    for (const finding of analysis.findings) {
+      let score = 0;
+      if (knownError.errorType) {
+        if (knownError.errorType.toLowerCase() !== finding.errorType.toLowerCase()) continue;
+        score++;
+      }
+      if (knownError.statusCode) {
+        if (knownError.statusCode !== finding.statusCode) continue;
+        score++;
+      }
+      if (knownError.pattern) {
+        const pattern = compilePattern(knownError.pattern);
+        const text = `${finding.signature}\n${finding.errorType}: ${finding.message}`.substring(0, MATCH_TEXT_LIMIT);
+        if (!pattern?.test(text)) continue;
+        // A pattern is usually more telling than a type or status alone
+        score += 2;
+      }
+      if (knownError.product) score++;
+
+      matches.push({ knownError, finding, score });
+      // One match per entry: the first finding it fits
+      break;
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+// ============================================
+// Firestore
+// ============================================
+
+function knownErrorsCollection(tenantId: string) {
+  return adminDb().collection('tenants').doc(tenantId).collection('knownErrors');
+}
+
+function toKnownError(id: string, data: DocumentData): KnownError {
+  return {
+    id,
+    title: data.title,
+    ...(data.pattern && { pattern: data.pattern }),
+    ...(data.errorType && { errorType: data.errorType }),
+    ...(data.statusCode && { statusCode: data.statusCode }),
+    ...(data.product && { product: data.product }),
+    ...(data.resolution && { resolution: data.resolution }),
+    kbArticles: data.kbArticles || [],
+    enabled: data.enabled !== false,
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : null,
+    updatedBy: data.updatedBy || null,
+  };
+}
+
+export async function listKnownErrors(tenantId: string): Promise<KnownError[]> {
+  const snapshot = await knownErrorsCollection(tenantId).get();
+  return snapshot.docs
+    .map((doc) => toKnownError(doc.id, doc.data()))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * A tenant's catalogue for matching (cached for a minute; empty if it can't be read)
+ */
+export async function loadKnownErrors(tenantId: string): Promise<KnownError[]> {
+  const cached = catalogueCache.get(tenantId);
+  if (cached && cached.expiresAt >= Date.now()) return cached.entries;
+
+  try {
+    const entries = await listKnownErrors(tenantId);
+    catalogueCache.set(tenantId, { entries, expiresAt: Date.now() + CACHE_TTL_MS });
+    return entries;
+  } catch (error) {
+    console.error(`Known errors load error (${tenantId}):`, error);
+    return [];
+  }
+}
+
+/**
+ * Create an entry, or replace one when `id` is given
+ */
+export async function saveKnownError(
+  tenantId: string,
+  input: Partial<KnownErrorInput>,
+  options: { id?: string; savedBy: string }
+): Promise<SaveKnownErrorResult> {
+  const problem = validateKnownError(input);
+  if (problem) return { ok: false, status: 400, error: problem };
+
+  const collection = knownErrorsCollection(tenantId);
+  const ref = options.id ? collection.doc(options.id) : collection.doc();
+  if (options.id && !(await ref.get()).exists) {
+    return { ok: false, status: 404, error: 'Known error not found' };
+  }
+
+  const data = {
+    title: input.title!.trim(),
+    pattern: input.pattern || null,
+    errorType: input.errorType?.trim() || null,
+    statusCode: input.statusCode || null,
+    product: input.product || null,
+    resolution: input.resolution?.trim() || null,
+    kbArticles: (input.kbArticles || []).map(({ docId, title, url }) => ({ docId, title, ...(url && { url }) })),
+    enabled: input.enabled !== false,
+    updatedAt: FieldValue.serverTimestamp(),
+    updatedBy: options.savedBy,
+  };
+  await ref.set(data);
+  catalogueCache.delete(tenantId);
+
+  return { ok: true, knownError: toKnownError(ref.id, { ...data, updatedAt: Timestamp.now() }) };
+}
+
+/**
+ * Returns false if the entry doesn't exist
+ */
+export async function deleteKnownError(tenantId: string, id: string): Promise<boolean> {
+  const ref = knownErrorsCollection(tenantId).doc(id);
+  if (!(await ref.get()).exists) return false;
+  await ref.delete();
+  catalogueCache.delete(tenantId);
+  return true;
+}
@@ -0,0 +1,394 @@
+/**
+ * Log Analyzer
+ * Finds errors in text customers paste (logs, stack traces, console output):
+ * HTTP status codes, JavaScript, Python and Java stack traces and browser
+ * console messages. Each finding gets a normalized signature, so the same
+ * error matches the known-error catalogue however its details vary.
+ */
+
+export type LogFormat = 'http_status' | 'js_stack' | 'python_traceback' | 'java_stack' | 'browser_console';
+
+export interface StackFrame {
+  function?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  // Framework, runtime or dependency code rather than the application's own
+  isLibrary: boolean;
+}
+
+export interface LogFinding {
+  format: LogFormat;
+  errorType: string;
+  message: string;
+  statusCode?: number;
+  // errorType and message with variable parts replaced, plus the top application frame
+  signature: string;
+  // Innermost first: application frames, then the frame that threw if it's library code
+  keyFrames: StackFrame[];
+  // Line in the input where the finding starts (1-based)
+  line: number;
+}
+
+export interface LogAnalysis {
+  formats: LogFormat[];
+  findings: LogFinding[];
+  // The finding most likely to be the root cause
+  primary?: LogFinding;
+  truncated: boolean;
+}
+
+const MAX_INPUT_CHARS = 20000;
+const MAX_FINDINGS = 10;
+const MAX_KEY_FRAMES = 5;
+
+const HTTP_REASONS: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  408: 'Request Timeout',
+  409: 'Conflict',
+  413: 'Payload Too Large',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Entity',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout',
+};
+
+const LIBRARY_PATH = /node_modules|site-packages|dist-packages|\/lib\/python\d|^node:|^internal\/|<anonymous>|webpack\/bootstrap|chrome-extension:|\bnative\b/i;
+const LIBRARY_PACKAGE = /^(java|javax|jdk|sun|com\.sun|kotlin|scala|org\.springframework|org\.apache|org\.hibernate|org\.postgresql|com\.mysql|com\.zaxxer|io\.netty|reactor|okhttp3|com\.fasterxml)\./;
+
+// ============================================
+// Signatures
+// ============================================
+
+/**
+ * Replace the parts of an error message that vary between occurrences
+ */
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .replace(/https?:\/\/[^\s'")]+/g, '<url>')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\b[0-9a-f]{16,}\b/gi, '<hex>')
+    .replace(/(["'`])(?:(?!\1).){1,80}\1/g, '<str>')
+    .replace(/\b\d+(\.\d+)?\b/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 200);
+}
+
+function fileName(path?: string): string | undefined {
+  return path?.split(/[\\/]/).pop()?.split('?')[0];
+}
+
+function buildSignature(errorType: string, message: string, frames: StackFrame[]): string {
+  const base = message ? `${errorType}: ${normalizeErrorMessage(message)}` : errorType;
+  const top = frames.find((f) => !f.isLibrary);
+  if (!top) return base;
+  return `${base} @ ${top.function || '<anonymous>'}${top.file ? ` (${fileName(top.file)})` : ''}`;
+}
+
+function selectKeyFrames(frames: StackFrame[]): StackFrame[] {
+  const appFrames = frames.filter((f) => !f.isLibrary).slice(0, MAX_KEY_FRAMES);
+  // The frame that actually threw is useful even when it's inside a library
+  if (frames[0]?.isLibrary && appFrames.length < MAX_KEY_FRAMES) {
+    return [frames[0], ...appFrames];
+  }
+  return appFrames.length > 0 ? appFrames : frames.slice(0, MAX_KEY_FRAMES);
+}
+
+function finding(
+  format: LogFormat,
+  errorType: string,
+  message: string,
+  frames: StackFrame[],
+  line: number,
+  statusCode?: number
+): LogFinding {
+  return {
+    format,
+    errorType,
+    message: message.trim().substring(0, 500),
+    ...(statusCode && { statusCode }),
+    signature: buildSignature(errorType, message, frames),
+    keyFrames: selectKeyFrames(frames),
+    line,
+  };
+}
+
+// ============================================
+// Format parsers
+// Each takes the input lines and returns findings plus the lines it consumed
+// ============================================
+
+interface ParseResult {
+  findings: LogFinding[];
+  consumed: Set<number>;
+}
+
+const JS_ERROR_HEADER = /^\s*(?:Uncaught (?:\(in promise\) )?)?((?:[A-Z]\w*)?(?:Error|Exception))(?: \[(\w+)\])?: ?(.*)$/;
+const JS_FRAME_V8 = /^\s+at (?:(?:async )?(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/;
+const JS_FRAME_GECKO = /^\s*(\S*?)@(.+?):(\d+):(\d+)\s*$/;
+
+function parseJavaScript(lines: string[]): ParseResult {
+  const findings: LogFinding[] = [];
+  const consumed = new Set<number>();
+
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i].match(JS_ERROR_HEADER);
+    if (!header) continue;
+
+    const frames: StackFrame[] = [];
+    let j = i + 1;
+    for (; j < lines.length; j++) {
+      const v8 = lines[j].match(JS_FRAME_V8);
+      const gecko = !v8 && lines[j].match(JS_FRAME_GECKO);
+      const m = v8 || gecko;
+      if (!m) break;
+      frames.push({
+        function: m[1] || undefined,
+        file: m[2],
+        line: Number(m[3]),
+        column: Number(m[4]),
+        isLibrary: LIBRARY_PATH.test(m[2]),
+      });
+    }
+
+    // A bare "Error: ..." line without frames is left to the other parsers
+    if (frames.length === 0 && !/^\s*Uncaught/.test(lines[i])) continue;
+
+    const errorType = header[2] ? `${header[1]} [${header[2]}]` : header[1];
+    // An uncaught error without a stack is how browser consoles print it
+    findings.push(finding(frames.length > 0 ? 'js_stack' : 'browser_console', errorType, header[3], frames, i + 1));
+    for (let k = i; k < j; k++) consumed.add(k);
+    i = j - 1;
+  }
+
+  return { findings, consumed };
+}
+
+const PY_TRACEBACK = /^\s*Traceback \(most recent call last\):/;
+const PY_FRAME = /^\s+File "(.+?)", line (\d+)(?:, in (.+))?$/;
+const PY_EXCEPTION = /^([A-Za-z_][\w.]*(?:Error|Exception|Warning|Exit|Interrupt|Iteration))(?:: (.*))?$/;
+
+function parsePython(lines: string[]): ParseResult {
+  const findings: LogFinding[] = [];
+  const consumed = new Set<number>();
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!PY_TRACEBACK.test(lines[i])) continue;
+
+    const frames: StackFrame[] = [];
+    let j = i + 1;
+    let exception: RegExpMatchArray | null = null;
+    for (; j < lines.length; j++) {
+      const frame = lines[j].match(PY_FRAME);
+      if (frame) {
+        frames.push({
+          function: frame[3],
+          file: frame[1],
+          line: Number(frame[2]),
+          isLibrary: LIBRARY_PATH.test(frame[1]),
+        });
+        continue;
+      }
+      exception = lines[j].match(PY_EXCEPTION);
+      // Source lines and caret markers sit between frames
+      if (exception || !/^\s/.test(lines[j])) break;
+    }
+
+    // Python lists the innermost call last
+    frames.reverse();
+    const [errorType, message] = exception ? [exception[1], exception[2] || ''] : ['Traceback', ''];
+    findings.push(finding('python_traceback', errorType, message, frames, i + 1));
+    for (let k = i; k <= Math.min(j, lines.length - 1); k++) consumed.add(k);
+    i = j;
+  }
+
+  return { findings, consumed };
+}
+
+const JAVA_HEADER =
+  /^\s*(?:Exception in thread "[^"]*" |Caused by: )?((?:[a-zA-Z_$][\w$]*\.)+[A-Z][\w$]*(?:Exception|Error|Throwable))(?:: (.*))?$/;
+const JAVA_FRAME = /^\s+at ([\w$.<>/]+)\.([\w$<>]+)\(([^)]*)\)/;
+
+function parseJava(lines: string[]): ParseResult {
+  const findings: LogFinding[] = [];
+  const consumed = new Set<number>();
+
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i].match(JAVA_HEADER);
+    if (!header || /^\s*Caused by:/.test(lines[i])) continue;
+
+    // The last "Caused by" is the root cause; report it with its own frames
+    let cause = { header, frames: [] as StackFrame[], line: i + 1 };
+    let j = i + 1;
+    for (; j < lines.length; j++) {
+      const frame = lines[j].match(JAVA_FRAME);
+      if (frame) {
+        const [file, lineNo] = frame[3].split(':');
+        cause.frames.push({
+          function: `${frame[1].split('.').pop()}.${frame[2]}`,
+          file: file === 'Native Method' || file === 'Unknown Source' ? undefined : file,
+          line: lineNo ? Number(lineNo) : undefined,
+          isLibrary: LIBRARY_PACKAGE.test(frame[1]),
+        });
+        continue;
+      }
+      if (/^\s+\.\.\. \d+ more/.test(lines[j])) continue;
+      const causedBy = lines[j].match(JAVA_HEADER);
+      if (causedBy && /^\s*Caused by:/.test(lines[j])) {
+        cause = { header: causedBy, frames: [], line: j + 1 };
+        continue;
+      }
+      break;
+    }
+
+    const errorType = cause.header[1].split('.').pop()!;
+    const f = finding('java_stack', errorType, cause.header[2] || '', cause.frames, cause.line);
+    f.signature = buildSignature(cause.header[1], cause.header[2] || '', cause.frames);
+    findings.push(f);
+    for (let k = i; k < j; k++) consumed.add(k);
+    i = j - 1;
+  }
+
+  return { findings, consumed };
+}
+
+const CONSOLE_PATTERNS: Array<{ pattern: RegExp; errorType: (m: RegExpMatchArray) => string; status?: (m: RegExpMatchArray) => number }> = [
+  {
+    pattern: /Failed to load resource: the server responded with a status of (\d{3})/i,
+    errorType: () => 'ResourceLoadError',
+    status: (m) => Number(m[1]),
+  },
+  {
+    pattern: /has been blocked by CORS policy/i,
+    errorType: () => 'CORSError',
+  },
+  {
+    pattern: /net::(ERR_[A-Z_]+)/,
+    errorType: (m) => `NetworkError (${m[1]})`,
+  },
+  {
+    pattern: /Refused to (?:load|execute|connect|frame|apply)[^.]*Content Security Policy/i,
+    errorType: () => 'ContentSecurityPolicyViolation',
+  },
+  {
+    pattern: /Mixed Content: /i,
+    errorType: () => 'MixedContentError',
+  },
+  {
+    pattern: /ChunkLoadError|Loading chunk [\w-]+ failed/i,
+    errorType: () => 'ChunkLoadError',
+  },
+];
+
+function parseBrowserConsole(lines: string[], skip: Set<number>): ParseResult {
+  const findings: LogFinding[] = [];
+  const consumed = new Set<number>();
+
+  lines.forEach((text, i) => {
+    if (skip.has(i)) return;
+    for (const { pattern, errorType, status } of CONSOLE_PATTERNS) {
+      const m = text.match(pattern);
+      if (!m) continue;
+      // Drop the console's own prefixes, e.g. "[Error] " or "console.js:12 "
+      const message = text.replace(/^\s*(?:\[\w+\]\s*)?(?:\S+\.js:\d+\s+)?/, '');
+      findings.push(finding('browser_console', errorType(m), message, [], i + 1, status?.(m)));
+      consumed.add(i);
+      return;
+    }
+  });
+
+  return { findings, consumed };
+}
+
+const HTTP_STATUS_PATTERNS = [
+  /\bHTTP\/[\d.]+\s+([45]\d{2})\b(?:\s+([A-Za-z][A-Za-z ]{1,40}))?/,
+  /\b(?:status(?:[ _]?code)?|statusCode|response code|error code)["']?\s*[:=]?\s*["']?([45]\d{2})\b/i,
+  /\b(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+\S+\s+([45]\d{2})\b/,
+  /\b([45]\d{2})\s+(Bad Request|Unauthorized|Forbidden|Not Found|Method Not Allowed|Request Timeout|Conflict|Payload Too Large|Too Many Requests|Internal Server Error|Not Implemented|Bad Gateway|Service Unavailable|Gateway Timeout)\b/i,
+];
+
+function parseHttpStatus(lines: string[], skip: Set<number>): ParseResult {
+  const findings: LogFinding[] = [];
+  const consumed = new Set<number>();
+
+  lines.forEach((text, i) => {
+    if (skip.has(i)) return;
+    for (const pattern of HTTP_STATUS_PATTERNS) {
+      const m = text.match(pattern);
+      if (!m) continue;
+      const status = Number(/^[45]\d{2}$/.test(m[1]) ? m[1] : m[2]);
+      const reason = HTTP_REASONS[status] || (status >= 500 ? 'Server Error' : 'Client Error');
+      const f = finding('http_status', `HTTP ${status}`, text.trim(), [], i + 1, status);
+      // The status is the signature; the rest of the line (URLs, IDs) varies
+      f.signature = `HTTP ${status} ${reason}`;
+      findings.push(f);
+      consumed.add(i);
+      return;
+    }
+  });
+
+  return { findings, consumed };
+}
+
+// ============================================
+// Analysis
+// ============================================
+
+// Lower is more likely to be the root cause
+const FORMAT_PRIORITY: Record<LogFormat, number> = {
+  python_traceback: 0,
+  java_stack: 0,
+  js_stack: 1,
+  browser_console: 2,
+  http_status: 3,
+};
+
+/**
+ * Analyze pasted error text. Input beyond 20,000 characters is ignored.
+ */
+export function analyzeErrorText(text: string): LogAnalysis {
+  const truncated = text.length > MAX_INPUT_CHARS;
+  const lines = text.substring(0, MAX_INPUT_CHARS).replace(/\r\n?/g, '\n').split('\n');
+
+  // Stack traces first; their lines aren't re-read as console or HTTP lines
+  const consumed = new Set<number>();
+  const findings: LogFinding[] = [];
+  for (const parse of [parsePython, parseJava, parseJavaScript]) {
+    const result = parse(lines);
+    result.findings
+      .filter((f) => !consumed.has(f.line - 1))
+      .forEach((f) => findings.push(f));
+    result.consumed.forEach((i) => consumed.add(i));
+  }
+  const consoleResult = parseBrowserConsole(lines, consumed);
+  findings.push(...consoleResult.findings);
+  consoleResult.consumed.forEach((i) => consumed.add(i));
+  findings.push(...parseHttpStatus(lines, consumed).findings);
+
+  // One finding per signature, in input order
+  const unique = findings
+    .sort((a, b) => a.line - b.line)
+    .filter((f, i, all) => all.findIndex((other) => other.signature === f.signature) === i)
+    .slice(0, MAX_FINDINGS);
+
+  const primary = [...unique].sort(
+    (a, b) => FORMAT_PRIORITY[a.format] - FORMAT_PRIORITY[b.format] || (b.statusCode || 0) - (a.statusCode || 0)
+  )[0];
+
+  return {
+    formats: Array.from(new Set(unique.map((f) => f.format))),
+    findings: unique,
+    primary,
+    truncated,
+  };
+}
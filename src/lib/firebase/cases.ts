@@ -17,16 +17,9 @@ import {
   QueryConstraint,
 } from 'firebase/firestore';
 import { db } from './client';
+import { generateTicketNumber } from '@/lib/cases/ticket';
 import type { Case, TimelineEvent, CaseStatus, CaseSeverity, SupportLevel } from '@/types';
 
-// Generate ticket number: TS-YYYYMMDD-XXXX
-export function generateTicketNumber(): string {
-  const date = new Date();
-  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
-  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-  return `TS-${dateStr}-${random}`;
-}
-
 // Convert Firestore doc to Case
 function docToCase(docSnap: DocumentSnapshot): Case | null {
   if (!docSnap.exists()) return null;
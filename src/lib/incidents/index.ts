@@ -0,0 +1,24 @@
+export {
+  INCIDENT_STATUSES,
+  isIncidentActive,
+  validateIncident,
+  matchIncident,
+  formatIncidentReply,
+} from './matching';
+export {
+  listIncidents,
+  getIncident,
+  getActiveIncidents,
+  findActiveIncident,
+  createIncident,
+  updateIncident,
+  linkCaseToIncident,
+} from './store';
+
+export type {
+  Incident,
+  IncidentInput,
+  IncidentStatus,
+  IncidentReference,
+  SaveIncidentResult,
+} from './types';
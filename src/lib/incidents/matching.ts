@@ -0,0 +1,92 @@
+/**
+ * Incident Matching
+ * Decides whether a customer message is about an active incident and words the reply
+ */
+
+import type { Incident, IncidentInput, IncidentStatus } from './types';
+
+export const INCIDENT_STATUSES: IncidentStatus[] = ['investigating', 'identified', 'monitoring', 'resolved'];
+
+const STATUS_DESCRIPTIONS: Record<Exclude<IncidentStatus, 'resolved'>, string> = {
+  investigating: 'Our team is investigating the cause.',
+  identified: 'We have identified the cause and are working on a fix.',
+  monitoring: 'A fix has been applied and we are monitoring the results.',
+};
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_KEYWORDS = 20;
+
+export function isIncidentActive(incident: Pick<Incident, 'status'>): boolean {
+  return incident.status !== 'resolved';
+}
+
+/**
+ * Check an incident before saving; returns the first problem found
+ */
+export function validateIncident(input: Partial<IncidentInput>): string | null {
+  if (typeof input.title !== 'string' || !input.title.trim() || input.title.length > MAX_TITLE_LENGTH) {
+    return `title is required (at most ${MAX_TITLE_LENGTH} characters)`;
+  }
+  if (!Array.isArray(input.products) || input.products.length === 0 || input.products.some((p) => typeof p !== 'string' || !p.trim())) {
+    return 'products must list at least one affected product';
+  }
+  if (input.keywords !== undefined && (!Array.isArray(input.keywords) || input.keywords.length > MAX_KEYWORDS || input.keywords.some((k) => typeof k !== 'string'))) {
+    return `keywords must be a list of at most ${MAX_KEYWORDS} words`;
+  }
+  if (!input.status || !INCIDENT_STATUSES.includes(input.status)) {
+    return `status must be one of ${INCIDENT_STATUSES.join(', ')}`;
+  }
+  if (typeof input.customerMessage !== 'string' || !input.customerMessage.trim() || input.customerMessage.length > MAX_MESSAGE_LENGTH) {
+    return `customerMessage is required (at most ${MAX_MESSAGE_LENGTH} characters)`;
+  }
+  if (input.eta && Number.isNaN(Date.parse(input.eta))) {
+    return 'eta must be a date and time';
+  }
+  return null;
+}
+
+/**
+ * The active incident a message is about. A case already linked to an active
+ * incident stays with it; otherwise the most recently updated match wins.
+ */
+export function matchIncident(
+  incidents: Incident[],
+  context: { product: string; message: string; incidentId?: string }
+): Incident | undefined {
+  const active = incidents.filter(isIncidentActive);
+
+  if (context.incidentId) {
+    const linked = active.find((i) => i.id === context.incidentId);
+    if (linked) return linked;
+  }
+
+  const product = context.product.trim().toLowerCase();
+  const message = context.message.toLowerCase();
+  return active
+    .filter((i) => i.products.some((p) => p.trim().toLowerCase() === product))
+    .filter((i) => i.keywords.length === 0 || i.keywords.some((k) => k.trim() && message.includes(k.trim().toLowerCase())))
+    .sort((a, b) => (b.updatedAt || '').localeCompare(a.updatedAt || ''))[0];
+}
+
+/**
+ * Customer-facing reply for an active incident: the tenant's message, the
+ * current status and the ETA
+ */
+export function formatIncidentReply(incident: Incident, language = 'en'): string {
+  const parts = [incident.customerMessage.trim()];
+  if (isIncidentActive(incident)) {
+    parts.push(STATUS_DESCRIPTIONS[incident.status as keyof typeof STATUS_DESCRIPTIONS]);
+  }
+  if (incident.eta && Date.parse(incident.eta) > Date.now()) {
+    let eta: string;
+    try {
+      eta = new Date(incident.eta).toLocaleString(language, { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' });
+    } catch {
+      eta = new Date(incident.eta).toUTCString();
+    }
+    parts.push(`We expect it to be resolved by ${eta} (UTC).`);
+  }
+  parts.push("We've linked your case to this incident and will update it as soon as it's resolved.");
+  return parts.join('\n\n');
+}
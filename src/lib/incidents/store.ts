@@ -0,0 +1,238 @@
+/**
+ * Incident Store
+ * Tenant incidents in Firestore, the cases linked to them, and closing those
+ * cases when an incident is resolved (Admin SDK, server only)
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import { FieldValue, Timestamp, type DocumentData } from 'firebase-admin/firestore';
+import { isIncidentActive, matchIncident, validateIncident } from './matching';
+import type { Incident, IncidentInput, IncidentReference, SaveIncidentResult } from './types';
+
+const CACHE_TTL_MS = 30 * 1000;
+// Each linked case takes two writes (case and timeline event); batches allow 500
+const CASES_PER_BATCH = 200;
+
+const activeCache = new Map<string, { incidents: Incident[]; expiresAt: number }>();
+
+function incidentsCollection(tenantId: string) {
+  return adminDb().collection('tenants').doc(tenantId).collection('incidents');
+}
+
+function casesCollection(tenantId: string) {
+  return adminDb().collection('tenants').doc(tenantId).collection('cases');
+}
+
+function toIso(value: unknown): string | null {
+  return value instanceof Timestamp ? value.toDate().toISOString() : null;
+}
+
+function toIncident(id: string, data: DocumentData): Incident {
+  return {
+    id,
+    title: data.title,
+    products: data.products || [],
+    keywords: data.keywords || [],
+    status: data.status,
+    customerMessage: data.customerMessage,
+    eta: data.eta || null,
+    linkedCaseCount: data.linkedCaseCount || 0,
+    createdAt: toIso(data.createdAt),
+    updatedAt: toIso(data.updatedAt),
+    resolvedAt: toIso(data.resolvedAt),
+    updatedBy: data.updatedBy || null,
+  };
+}
+
+function cleanInput(input: IncidentInput) {
+  return {
+    title: input.title.trim(),
+    products: Array.from(new Set(input.products.map((p) => p.trim()))),
+    keywords: (input.keywords || []).map((k) => k.trim()).filter(Boolean),
+    status: input.status,
+    customerMessage: input.customerMessage.trim(),
+    eta: input.eta ? new Date(input.eta).toISOString() : null,
+  };
+}
+
+/**
+ * All incidents, newest first
+ */
+export async function listIncidents(tenantId: string): Promise<Incident[]> {
+  const snapshot = await incidentsCollection(tenantId).orderBy('createdAt', 'desc').get();
+  return snapshot.docs.map((doc) => toIncident(doc.id, doc.data()));
+}
+
+export async function getIncident(tenantId: string, incidentId: string): Promise<Incident | null> {
+  const doc = await incidentsCollection(tenantId).doc(incidentId).get();
+  return doc.exists ? toIncident(doc.id, doc.data()!) : null;
+}
+
+/**
+ * Active incidents (cached briefly, since every L1 turn checks them)
+ */
+export async function getActiveIncidents(tenantId: string): Promise<Incident[]> {
+  const cached = activeCache.get(tenantId);
+  if (cached && cached.expiresAt >= Date.now()) return cached.incidents;
+
+  const snapshot = await incidentsCollection(tenantId)
+    .where('status', 'in', ['investigating', 'identified', 'monitoring'])
+    .get();
+  const incidents = snapshot.docs.map((doc) => toIncident(doc.id, doc.data()));
+  activeCache.set(tenantId, { incidents, expiresAt: Date.now() + CACHE_TTL_MS });
+  return incidents;
+}
+
+/**
+ * The active incident a customer message is about, if any. Lookup failures
+ * return undefined so triage carries on as usual.
+ */
+export async function findActiveIncident(
+  tenantId: string,
+  context: { product: string; message: string; incidentId?: string }
+): Promise<Incident | undefined> {
+  try {
+    return matchIncident(await getActiveIncidents(tenantId), context);
+  } catch (error) {
+    console.error(`Incident lookup error (${tenantId}):`, error);
+    return undefined;
+  }
+}
+
+export async function createIncident(
+  tenantId: string,
+  input: Partial<IncidentInput>,
+  options: { savedBy: string }
+): Promise<SaveIncidentResult> {
+  const problem = validateIncident({ ...input, status: input.status || 'investigating' });
+  if (problem) return { ok: false, status: 400, error: problem };
+
+  const data = {
+    ...cleanInput({ ...(input as IncidentInput), status: input.status || 'investigating' }),
+    linkedCaseCount: 0,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+    resolvedAt: null,
+    updatedBy: options.savedBy,
+  };
+  const ref = await incidentsCollection(tenantId).add(data);
+  activeCache.delete(tenantId);
+
+  const now = Timestamp.now();
+  return { ok: true, incident: toIncident(ref.id, { ...data, createdAt: now, updatedAt: now }) };
+}
+
+/**
+ * Update an incident. Resolving it also resolves the cases linked to it.
+ */
+export async function updateIncident(
+  tenantId: string,
+  incidentId: string,
+  changes: Partial<IncidentInput>,
+  options: { savedBy: string }
+): Promise<SaveIncidentResult> {
+  const ref = incidentsCollection(tenantId).doc(incidentId);
+  const doc = await ref.get();
+  if (!doc.exists) return { ok: false, status: 404, error: 'Incident not found' };
+
+  const current = toIncident(doc.id, doc.data()!);
+  const merged: IncidentInput = {
+    title: changes.title ?? current.title,
+    products: changes.products ?? current.products,
+    keywords: changes.keywords ?? current.keywords,
+    status: changes.status ?? current.status,
+    customerMessage: changes.customerMessage ?? current.customerMessage,
+    eta: changes.eta !== undefined ? changes.eta : current.eta,
+  };
+  const problem = validateIncident(merged);
+  if (problem) return { ok: false, status: 400, error: problem };
+
+  const resolving = isIncidentActive(current) && merged.status === 'resolved';
+  const reopening = !isIncidentActive(current) && merged.status !== 'resolved';
+  const data = {
+    ...cleanInput(merged),
+    updatedAt: FieldValue.serverTimestamp(),
+    updatedBy: options.savedBy,
+    ...(resolving && { resolvedAt: FieldValue.serverTimestamp() }),
+    ...(reopening && { resolvedAt: null }),
+  };
+  await ref.update(data);
+  activeCache.delete(tenantId);
+
+  const now = Timestamp.now();
+  const incident = toIncident(incidentId, {
+    ...doc.data(),
+    ...data,
+    updatedAt: now,
+    resolvedAt: resolving ? now : reopening ? null : doc.data()!.resolvedAt,
+  });
+  if (!resolving) return { ok: true, incident };
+
+  const casesResolved = await resolveLinkedCases(tenantId, incident);
+  return { ok: true, incident, casesResolved };
+}
+
+/**
+ * Link a case to the incident L1 answered with and park it as pending
+ */
+export async function linkCaseToIncident(
+  tenantId: string,
+  caseId: string,
+  incident: IncidentReference | undefined
+): Promise<void> {
+  if (!incident) return;
+
+  const db = adminDb();
+  const caseRef = casesCollection(tenantId).doc(caseId);
+  const incidentRef = incidentsCollection(tenantId).doc(incident.id);
+
+  await db.runTransaction(async (tx) => {
+    const caseDoc = await tx.get(caseRef);
+    const alreadyLinked = caseDoc.data()?.incidentId === incident.id;
+
+    tx.update(caseRef, { incidentId: incident.id, status: 'pending', updatedAt: new Date() });
+    if (alreadyLinked) return;
+
+    tx.update(incidentRef, { linkedCaseCount: FieldValue.increment(1) });
+    tx.set(caseRef.collection('timeline').doc(), {
+      type: 'incident_update',
+      level: 'L1',
+      content: `Linked to incident: ${incident.title} (${incident.status})`,
+      metadata: { incidentId: incident.id, status: incident.status, ...(incident.eta && { eta: incident.eta }) },
+      createdBy: 'system',
+      createdAt: new Date(),
+    });
+  });
+}
+
+/**
+ * Resolve the open cases linked to an incident; returns how many were resolved
+ */
+async function resolveLinkedCases(tenantId: string, incident: Incident): Promise<number> {
+  const snapshot = await casesCollection(tenantId).where('incidentId', '==', incident.id).get();
+  const open = snapshot.docs.filter((doc) => doc.data().status !== 'resolved');
+
+  for (let i = 0; i < open.length; i += CASES_PER_BATCH) {
+    const batch = adminDb().batch();
+    const now = new Date();
+    open.slice(i, i + CASES_PER_BATCH).forEach((doc) => {
+      batch.update(doc.ref, {
+        status: 'resolved',
+        summary: `Resolved with incident: ${incident.title}`,
+        resolvedAt: now,
+        updatedAt: now,
+      });
+      batch.set(doc.ref.collection('timeline').doc(), {
+        type: 'incident_update',
+        level: doc.data().currentLevel || 'L1',
+        content: `Incident resolved: ${incident.title}`,
+        metadata: { incidentId: incident.id, status: 'resolved' },
+        createdBy: 'system',
+        createdAt: now,
+      });
+    });
+    await batch.commit();
+  }
+
+  return open.length;
+}
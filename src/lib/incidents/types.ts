@@ -0,0 +1,39 @@
+/**
+ * Incident Types
+ * Known outages and issues that L1 answers directly while they're active
+ */
+
+export type IncidentStatus = 'investigating' | 'identified' | 'monitoring' | 'resolved';
+
+export interface Incident {
+  id: string;
+  title: string;
+  // Case products the incident affects (compared case-insensitively)
+  products: string[];
+  // When set, only cases whose message mentions one of these match
+  keywords: string[];
+  status: IncidentStatus;
+  // Shown to customers in place of an AI answer
+  customerMessage: string;
+  // Expected resolution time (ISO 8601)
+  eta: string | null;
+  linkedCaseCount: number;
+  createdAt: string | null;
+  updatedAt: string | null;
+  resolvedAt: string | null;
+  updatedBy: string | null;
+}
+
+export type IncidentInput = Pick<Incident, 'title' | 'products' | 'keywords' | 'status' | 'customerMessage' | 'eta'>;
+
+// What an L1 turn reports when it answered with an incident (see linkCaseToIncident)
+export interface IncidentReference {
+  id: string;
+  title: string;
+  status: IncidentStatus;
+  eta: string | null;
+}
+
+export type SaveIncidentResult =
+  | { ok: true; incident: Incident; casesResolved?: number }
+  | { ok: false; status: 400 | 404; error: string };
@@ -1,21 +1,8 @@
-import OpenAI from 'openai';
-
-// Initialize OpenAI client
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-    openaiClient = new OpenAI({ apiKey });
-  }
-  return openaiClient;
-}
+import { getLLMProvider } from '@/lib/llm';
 
 // Embedding model configuration
-const EMBEDDING_MODEL = 'text-embedding-3-small';
+// (the index is shared, so this is global rather than per tenant)
+const EMBEDDING_MODEL = process.env.LLM_EMBEDDING_MODEL || 'text-embedding-3-small';
 const EMBEDDING_DIMENSIONS = 1536;
 const MAX_BATCH_SIZE = 100; // OpenAI's limit for batch embedding
 const RATE_LIMIT_DELAY = 100; // ms between batches to avoid rate limits
@@ -28,15 +15,13 @@ export interface EmbeddingResult {
 
 // Generate embedding for a single text
 export async function generateEmbedding(text: string): Promise<number[]> {
-  const client = getOpenAIClient();
-  
-  const response = await client.embeddings.create({
+  const [embedding] = await getLLMProvider().embed({
     model: EMBEDDING_MODEL,
-    input: text,
+    input: [text],
     dimensions: EMBEDDING_DIMENSIONS,
   });
   
-  return response.data[0].embedding;
+  return embedding;
 }
 
 // Generate embeddings for multiple texts (with batching and rate limiting)
@@ -44,7 +29,7 @@ export async function generateEmbeddings(
   texts: string[],
   onProgress?: (completed: number, total: number) => void
 ): Promise<EmbeddingResult[]> {
-  const client = getOpenAIClient();
+  const provider = getLLMProvider();
   const results: EmbeddingResult[] = [];
   
   // Process in batches
@@ -53,17 +38,17 @@ export async function generateEmbeddings(
     const batchIndices = batch.map((_, idx) => i + idx);
     
     try {
-      const response = await client.embeddings.create({
+      const embeddings = await provider.embed({
         model: EMBEDDING_MODEL,
         input: batch,
         dimensions: EMBEDDING_DIMENSIONS,
       });
       
       // Map embeddings back to texts
-      for (let j = 0; j < response.data.length; j++) {
+      for (let j = 0; j < embeddings.length; j++) {
         results.push({
           text: batch[j],
-          embedding: response.data[j].embedding,
+          embedding: embeddings[j],
           index: batchIndices[j],
         });
       }
@@ -1,10 +1,13 @@
 export {
   addToL3Queue,
   getL3Queue,
+  getQueueItem,
   assignToAgent,
   updateQueueItemStatus,
   getQueueStats,
   getAvailableAgents,
+  getAgent,
+  syncL3Agent,
   resolveL3Case,
 } from './queue';
 
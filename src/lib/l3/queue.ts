@@ -1,5 +1,5 @@
 import { adminDb } from '@/lib/firebase/admin';
-import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { FieldValue, Timestamp, type DocumentSnapshot } from 'firebase-admin/firestore';
 
 export interface L3Agent {
   id: string;
@@ -36,6 +36,20 @@ export interface L3QueueItem {
 const COLLECTION = 'l3_queue';
 const AGENTS_COLLECTION = 'l3_agents';
 
+// Roster entries are per tenant: a member of two tenants has an entry in each
+function agentRef(tenantId: string, uid: string) {
+  return adminDb().collection(AGENTS_COLLECTION).doc(`${tenantId}_${uid}`);
+}
+
+function toAgent(doc: DocumentSnapshot): L3Agent {
+  const data = doc.data()!;
+  return {
+    ...data,
+    id: data.uid,
+    lastActive: (data.lastActive as Timestamp)?.toDate() || new Date(),
+  } as L3Agent;
+}
+
 /**
  * Add a case to the L3 queue
  */
@@ -103,10 +117,28 @@ export async function getL3Queue(
   });
 }
 
+/**
+ * Get a single queue item
+ */
+export async function getQueueItem(queueItemId: string): Promise<L3QueueItem | null> {
+  const db = adminDb();
+  const doc = await db.collection(COLLECTION).doc(queueItemId).get();
+  if (!doc.exists) return null;
+
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    ...data,
+    queuedAt: (data.queuedAt as Timestamp)?.toDate() || new Date(),
+    assignedAt: (data.assignedAt as Timestamp)?.toDate(),
+  } as L3QueueItem;
+}
+
 /**
  * Assign a queue item to an agent
  */
 export async function assignToAgent(
+  tenantId: string,
   queueItemId: string,
   agentId: string,
   agentName: string
@@ -124,8 +156,7 @@ export async function assignToAgent(
   });
 
   // Update agent's case count
-  const agentRef = db.collection(AGENTS_COLLECTION).doc(agentId);
-  batch.update(agentRef, {
+  batch.update(agentRef(tenantId, agentId), {
     currentCaseCount: FieldValue.increment(1),
     status: 'busy',
     lastActive: FieldValue.serverTimestamp(),
@@ -206,13 +237,51 @@ export async function getAvailableAgents(tenantId: string): Promise<L3Agent[]> {
     .where('status', '==', 'available')
     .get();
 
-  return snapshot.docs.map((doc) => {
-    const data = doc.data();
-    return {
-      id: doc.id,
-      ...data,
-      lastActive: (data.lastActive as Timestamp)?.toDate() || new Date(),
-    } as L3Agent;
+  return snapshot.docs.map(toAgent);
+}
+
+/**
+ * Get a tenant's L3 agent by UID
+ */
+export async function getAgent(tenantId: string, agentId: string): Promise<L3Agent | null> {
+  const doc = await agentRef(tenantId, agentId).get();
+  if (!doc.exists) return null;
+  return toAgent(doc);
+}
+
+/**
+ * Keep the L3 roster in step with tenant membership.
+ * Pass the member's profile to put them on the roster, or null to take them off.
+ * Workload fields (status, case count, skills) survive profile updates.
+ */
+export async function syncL3Agent(
+  tenantId: string,
+  uid: string,
+  profile: { name: string; email: string } | null
+): Promise<void> {
+  const ref = agentRef(tenantId, uid);
+  const agentDoc = await ref.get();
+
+  if (!profile) {
+    if (agentDoc.exists) await ref.delete();
+    return;
+  }
+
+  if (agentDoc.exists) {
+    await ref.update({ name: profile.name, email: profile.email });
+    return;
+  }
+
+  await ref.set({
+    tenantId,
+    uid,
+    name: profile.name,
+    email: profile.email,
+    status: 'available',
+    skills: [],
+    maxConcurrentCases: 3,
+    currentCaseCount: 0,
+    lastActive: FieldValue.serverTimestamp(),
   });
 }
 
@@ -220,6 +289,7 @@ export async function getAvailableAgents(tenantId: string): Promise<L3Agent[]> {
  * Mark case as resolved and free up agent
  */
 export async function resolveL3Case(
+  tenantId: string,
   queueItemId: string,
   agentId: string
 ): Promise<void> {
@@ -231,12 +301,12 @@ export async function resolveL3Case(
   batch.update(queueRef, { status: 'resolved' });
 
   // Update agent's case count
-  const agentRef = db.collection(AGENTS_COLLECTION).doc(agentId);
-  const agentDoc = await agentRef.get();
+  const ref = agentRef(tenantId, agentId);
+  const agentDoc = await ref.get();
   const agentData = agentDoc.data();
   
   const newCount = Math.max(0, (agentData?.currentCaseCount || 1) - 1);
-  batch.update(agentRef, {
+  batch.update(ref, {
     currentCaseCount: newCount,
     status: newCount === 0 ? 'available' : 'busy',
     lastActive: FieldValue.serverTimestamp(),
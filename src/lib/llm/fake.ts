@@ -0,0 +1,117 @@
+/**
+ * Fake Provider
+ * Deterministic stand-in for tests, simulations and local development
+ * without API keys. Chat replies come from a script or a callback; embeddings
+ * are hashed bags of words, so texts sharing words get similar vectors.
+ */
+
+import type { LLMChatRequest, LLMChatResponse, LLMDeltaHandler, LLMProvider, LLMToolCall } from './types';
+
+export type FakeReply =
+  | string
+  | {
+      content?: string | null;
+      toolCalls?: Array<{ name: string; arguments: Record<string, unknown> | string }>;
+    };
+
+export interface FakeProviderOptions {
+  // Replies used in order, one per chat call; the last one repeats
+  replies?: FakeReply[];
+  // Computes the reply instead of a script (takes precedence over replies)
+  respond?: (request: LLMChatRequest, callIndex: number) => FakeReply | Promise<FakeReply>;
+  embeddingDimensions?: number;
+}
+
+export interface FakeLLMProvider extends LLMProvider {
+  // Every chat request received, for assertions
+  readonly calls: LLMChatRequest[];
+}
+
+const DEFAULT_REPLY = 'This is a test response.';
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// FNV-1a, stable across runs and platforms
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Bag-of-words vector, normalized to unit length
+ */
+export function fakeEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9\u00c0-\u1fff\u3040-\ufe4f]+/g) || [];
+  for (const word of words) {
+    const h = hash(word);
+    vector[h % dimensions] += h & 0x80000000 ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+export function createFakeProvider(options: FakeProviderOptions = {}): FakeLLMProvider {
+  const calls: LLMChatRequest[] = [];
+  const dimensions = options.embeddingDimensions || 1536;
+
+  const chat = async (request: LLMChatRequest): Promise<LLMChatResponse> => {
+    const callIndex = calls.length;
+    calls.push(request);
+
+    const replies = options.replies || [];
+    const reply = options.respond
+      ? await options.respond(request, callIndex)
+      : replies[Math.min(callIndex, replies.length - 1)] ?? DEFAULT_REPLY;
+
+    const content = typeof reply === 'string' ? reply : reply.content ?? null;
+    const toolCalls: LLMToolCall[] =
+      typeof reply === 'string'
+        ? []
+        : (reply.toolCalls || []).map((call, i) => ({
+            id: `fake_call_${callIndex}_${i}`,
+            name: call.name,
+            arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments),
+          }));
+
+    const promptTokens = request.messages.reduce(
+      (sum, m) => sum + estimateTokens(('content' in m && m.content) || ''),
+      0
+    );
+    const completionTokens = estimateTokens(content || '') + toolCalls.reduce((sum, c) => sum + estimateTokens(c.arguments), 0);
+
+    return {
+      content,
+      toolCalls,
+      model: request.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+    };
+  };
+
+  return {
+    name: 'fake',
+    calls,
+    chat,
+
+    // Streams the reply a word at a time
+    async chatStream(request: LLMChatRequest, onDelta: LLMDeltaHandler): Promise<LLMChatResponse> {
+      const response = await chat(request);
+      for (const piece of response.content?.match(/\S+\s*|\s+/g) || []) {
+        onDelta(piece);
+      }
+      return response;
+    },
+
+    async embed({ input, dimensions: requested }) {
+      return input.map((text) => fakeEmbedding(text, requested || dimensions));
+    },
+  };
+}
@@ -0,0 +1,21 @@
+export { getLLMProvider, setLLMProvider, getDefaultProviderName, LLM_PROVIDERS } from './provider';
+export { createOpenAIProvider, createOpenAICompatibleProvider } from './openai';
+export { createFakeProvider, fakeEmbedding } from './fake';
+export { DEFAULT_LLM_SETTINGS, resolveLLMSettings, getLLMSettings } from './settings';
+
+export type {
+  LLMProvider,
+  LLMProviderName,
+  LLMMessage,
+  LLMToolDefinition,
+  LLMToolCall,
+  LLMToolChoice,
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMDeltaHandler,
+  LLMEmbeddingRequest,
+  LLMSettings,
+  LLMLevel,
+} from './types';
+export type { OpenAIProviderOptions } from './openai';
+export type { FakeLLMProvider, FakeProviderOptions, FakeReply } from './fake';
@@ -0,0 +1,180 @@
+/**
+ * OpenAI Provider
+ * Chat and embeddings through the OpenAI SDK; the same client talks to
+ * OpenAI-compatible local servers (Ollama, vLLM, LM Studio, ...) via baseURL
+ */
+
+import OpenAI from 'openai';
+import type {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMDeltaHandler,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMToolChoice,
+} from './types';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  // Local servers often reject the `dimensions` embedding parameter
+  supportsEmbeddingDimensions?: boolean;
+}
+
+function toOpenAIMessage(message: LLMMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls?.length && {
+          tool_calls: message.toolCalls.map((call) => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        }),
+      };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+function toOpenAIToolChoice(choice: LLMToolChoice): OpenAI.Chat.Completions.ChatCompletionToolChoiceOption {
+  return typeof choice === 'string' ? choice : { type: 'function', function: { name: choice.name } };
+}
+
+function toOpenAIParams(request: LLMChatRequest) {
+  return {
+    model: request.model,
+    messages: request.messages.map(toOpenAIMessage),
+    ...(request.tools?.length && {
+      tools: request.tools.map((tool) => ({ type: 'function' as const, function: tool })),
+      tool_choice: toOpenAIToolChoice(request.toolChoice || 'auto'),
+    }),
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+  };
+}
+
+function createProvider(name: LLMProviderName, options: OpenAIProviderOptions): LLMProvider {
+  // Lazy-initialized so importing the module never needs credentials
+  let client: OpenAI | null = null;
+  const getClient = () => {
+    if (!client) {
+      client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    }
+    return client;
+  };
+
+  return {
+    name,
+
+    async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+      const completion = await getClient().chat.completions.create(toOpenAIParams(request));
+
+      const choice = completion.choices[0];
+      return {
+        content: choice?.message.content ?? null,
+        // Only function tools are offered, so custom tool calls are dropped
+        toolCalls: (choice?.message.tool_calls || []).flatMap((call) =>
+          'function' in call ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments }] : []
+        ),
+        model: completion.model,
+        usage: {
+          promptTokens: completion.usage?.prompt_tokens || 0,
+          completionTokens: completion.usage?.completion_tokens || 0,
+          totalTokens: completion.usage?.total_tokens || 0,
+        },
+        finishReason: choice?.finish_reason,
+      };
+    },
+
+    async chatStream(request: LLMChatRequest, onDelta: LLMDeltaHandler): Promise<LLMChatResponse> {
+      const stream = await getClient().chat.completions.create({
+        ...toOpenAIParams(request),
+        stream: true,
+        // Usage arrives in a final chunk without choices
+        stream_options: { include_usage: true },
+      });
+
+      let content = '';
+      let model = request.model;
+      let finishReason: string | undefined;
+      let usage: OpenAI.CompletionUsage | undefined;
+      // Tool call pieces arrive by index: id and name first, then the arguments in parts
+      const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+        usage = chunk.usage || usage;
+        const choice = chunk.choices[0];
+        if (!choice) continue;
+
+        if (choice.delta.content) {
+          content += choice.delta.content;
+          onDelta(choice.delta.content);
+        }
+        for (const part of choice.delta.tool_calls || []) {
+          const call = (toolCalls[part.index] ||= { id: '', name: '', arguments: '' });
+          call.id = part.id || call.id;
+          call.name += part.function?.name || '';
+          call.arguments += part.function?.arguments || '';
+        }
+        finishReason = choice.finish_reason || finishReason;
+      }
+
+      return {
+        content: content || null,
+        toolCalls: toolCalls.filter(Boolean),
+        model,
+        usage: {
+          promptTokens: usage?.prompt_tokens || 0,
+          completionTokens: usage?.completion_tokens || 0,
+          totalTokens: usage?.total_tokens || 0,
+        },
+        finishReason,
+      };
+    },
+
+    async embed({ model, input, dimensions }) {
+      const response = await getClient().embeddings.create({
+        model,
+        input,
+        ...(dimensions && options.supportsEmbeddingDimensions !== false && { dimensions }),
+      });
+      return response.data.sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    },
+  };
+}
+
+/**
+ * The OpenAI API
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions = {}): LLMProvider {
+  const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY environment variable is not set');
+  }
+  return createProvider('openai', { ...options, apiKey });
+}
+
+/**
+ * An OpenAI-compatible server such as a local model endpoint
+ */
+export function createOpenAICompatibleProvider(options: OpenAIProviderOptions = {}): LLMProvider {
+  const baseURL = options.baseURL ?? process.env.LLM_LOCAL_BASE_URL;
+  if (!baseURL) {
+    throw new Error('LLM_LOCAL_BASE_URL environment variable is not set');
+  }
+  return createProvider('local', {
+    supportsEmbeddingDimensions: false,
+    ...options,
+    baseURL,
+    // The SDK requires a key; most local servers ignore it
+    apiKey: options.apiKey ?? (process.env.LLM_LOCAL_API_KEY || 'local'),
+  });
+}
@@ -0,0 +1,41 @@
+/**
+ * LLM Provider Registry
+ * One lazily created provider per kind, shared by the agents and embeddings
+ */
+
+import { createOpenAIProvider, createOpenAICompatibleProvider } from './openai';
+import { createFakeProvider } from './fake';
+import type { LLMProvider, LLMProviderName } from './types';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'local', 'fake'];
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+/**
+ * Provider used when a tenant doesn't choose one (LLM_PROVIDER, default openai)
+ */
+export function getDefaultProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER as LLMProviderName | undefined;
+  return configured && LLM_PROVIDERS.includes(configured) ? configured : 'openai';
+}
+
+export function getLLMProvider(name: LLMProviderName = getDefaultProviderName()): LLMProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider =
+      name === 'local' ? createOpenAICompatibleProvider() : name === 'fake' ? createFakeProvider() : createOpenAIProvider();
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Replace a provider, e.g. with a scripted fake in tests; null restores the default
+ */
+export function setLLMProvider(name: LLMProviderName, provider: LLMProvider | null): void {
+  if (provider) {
+    providers.set(name, provider);
+  } else {
+    providers.delete(name);
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * LLM Settings
+ * Model, temperature and max tokens per support level, with per-tenant
+ * overrides from tenant settings (settings.llm.L1 / settings.llm.L2)
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import { LLM_PROVIDERS, getDefaultProviderName } from './provider';
+import type { LLMLevel, LLMSettings } from './types';
+
+export const DEFAULT_LLM_SETTINGS: Record<LLMLevel, Omit<LLMSettings, 'provider'>> = {
+  L1: { model: 'gpt-4', temperature: 0.7, maxTokens: 1000 },
+  // More focused and longer answers for advanced troubleshooting
+  L2: { model: 'gpt-4', temperature: 0.5, maxTokens: 1500 },
+};
+
+const MAX_TOKENS_LIMIT = 16000;
+const CACHE_TTL_MS = 60 * 1000;
+
+const tenantCache = new Map<string, { overrides: Partial<Record<LLMLevel, Partial<LLMSettings>>>; expiresAt: number }>();
+
+/**
+ * Defaults for a level with a tenant's overrides applied; invalid values are ignored
+ */
+export function resolveLLMSettings(level: LLMLevel, overrides: Partial<LLMSettings> = {}): LLMSettings {
+  const settings: LLMSettings = { provider: getDefaultProviderName(), ...DEFAULT_LLM_SETTINGS[level] };
+
+  if (overrides.provider && LLM_PROVIDERS.includes(overrides.provider)) {
+    settings.provider = overrides.provider;
+  }
+  if (typeof overrides.model === 'string' && overrides.model.trim()) {
+    settings.model = overrides.model.trim();
+  }
+  if (typeof overrides.temperature === 'number' && overrides.temperature >= 0 && overrides.temperature <= 2) {
+    settings.temperature = overrides.temperature;
+  }
+  if (
+    typeof overrides.maxTokens === 'number' &&
+    Number.isInteger(overrides.maxTokens) &&
+    overrides.maxTokens > 0 &&
+    overrides.maxTokens <= MAX_TOKENS_LIMIT
+  ) {
+    settings.maxTokens = overrides.maxTokens;
+  }
+
+  return settings;
+}
+
+/**
+ * A tenant's settings for one level (tenant documents are cached for a minute)
+ */
+export async function getLLMSettings(tenantId: string, level: LLMLevel): Promise<LLMSettings> {
+  let cached = tenantCache.get(tenantId);
+  if (!cached || cached.expiresAt < Date.now()) {
+    try {
+      const tenantDoc = await adminDb().collection('tenants').doc(tenantId).get();
+      cached = { overrides: tenantDoc.data()?.settings?.llm || {}, expiresAt: Date.now() + CACHE_TTL_MS };
+      tenantCache.set(tenantId, cached);
+    } catch (error) {
+      console.error(`LLM settings load error (${tenantId}):`, error);
+      return resolveLLMSettings(level);
+    }
+  }
+  return resolveLLMSettings(level, cached.overrides[level]);
+}
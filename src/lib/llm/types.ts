@@ -0,0 +1,78 @@
+/**
+ * LLM Provider Types
+ * Provider-neutral shapes for chat with tools and for embeddings
+ */
+
+export type LLMProviderName = 'openai' | 'local' | 'fake';
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema for the arguments
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  // Raw JSON as produced by the model; may be malformed
+  arguments: string;
+}
+
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export type LLMToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+export interface LLMChatRequest {
+  model: string;
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  toolChoice?: LLMToolChoice;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMChatResponse {
+  content: string | null;
+  toolCalls: LLMToolCall[];
+  // Model that answered, as reported by the provider
+  model: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  finishReason?: string;
+}
+
+export interface LLMEmbeddingRequest {
+  model: string;
+  input: string[];
+  dimensions?: number;
+}
+
+export type LLMDeltaHandler = (delta: string) => void;
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+  // Same result as chat; content is passed to onDelta piece by piece as it's generated
+  chatStream(request: LLMChatRequest, onDelta: LLMDeltaHandler): Promise<LLMChatResponse>;
+  // One vector per input, in input order
+  embed(request: LLMEmbeddingRequest): Promise<number[][]>;
+}
+
+/**
+ * Model settings for one support level
+ */
+export interface LLMSettings {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export type LLMLevel = 'L1' | 'L2';
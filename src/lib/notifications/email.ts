@@ -155,3 +155,40 @@ export async function sendCaseAssignmentEmail(
     return { success: false, error: error instanceof Error ? error.message : 'Failed to send email' };
   }
 }
+
+export async function sendTeamInvitationEmail(
+  to: string,
+  data: {
+    tenantName: string;
+    invitedByName: string;
+    role: string;
+    acceptUrl: string;
+  }
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const resend = getResendClient();
+    const fromEmail = process.env.RESEND_FROM_EMAIL || 'support@techsupport-ai.com';
+
+    const result = await resend.emails.send({
+      from: `TechSupport AI <${fromEmail}>`,
+      to,
+      subject: `${data.invitedByName} invited you to ${data.tenantName} on TechSupport AI`,
+      html: `
+        <div style="font-family: sans-serif; padding: 20px;">
+          <h2>You're invited</h2>
+          <p>${data.invitedByName} invited you to join <strong>${data.tenantName}</strong> as ${data.role}.</p>
+          <a href="${data.acceptUrl}" style="display: inline-block; background: #2563eb; color: white; padding: 10px 20px; border-radius: 6px; text-decoration: none;">Accept Invitation</a>
+          <p style="color: #6b7280; font-size: 12px; margin-top: 20px;">This invitation expires in 7 days.</p>
+        </div>
+      `,
+    });
+
+    if (result.error) {
+      return { success: false, error: result.error.message };
+    }
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to send email' };
+  }
+}
@@ -1,4 +1,4 @@
-export { sendL3EscalationEmail, sendCaseAssignmentEmail } from './email';
+export { sendL3EscalationEmail, sendCaseAssignmentEmail, sendTeamInvitationEmail } from './email';
 export type { L3EscalationEmailData } from './email';
 
 export { sendL3EscalationSlack, sendCaseAssignmentSlack } from './slack';
@@ -0,0 +1,353 @@
+/**
+ * Playbook Conditions
+ * A small expression language for PlaybookTrigger.condition and step
+ * branches, parsed and evaluated here instead of with eval. Example:
+ *   severity >= 'high' && source in ['phone', 'sms'] || failedAttempts > 2
+ *
+ * Supports field names, playbook variables as vars.<name>, string/number/boolean
+ * literals, lists, parentheses, !, &&, ||, ==, !=, <, <=, >, >= and `in`.
+ * String comparisons ignore case; severities compare by rank
+ * (low < medium < high < critical). Unset fields and variables are null.
+ */
+
+import type { PlaybookMatchContext } from './types';
+
+export const CONDITION_FIELDS = ['product', 'category', 'severity', 'language', 'source', 'failedAttempts'] as const;
+export type ConditionField = (typeof CONDITION_FIELDS)[number];
+
+type ConditionValue = string | number | boolean | null | ConditionValue[];
+type CompareOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+export type ConditionNode =
+  | { type: 'literal'; value: string | number | boolean }
+  | { type: 'field'; name: ConditionField }
+  | { type: 'variable'; name: string }
+  | { type: 'list'; items: ConditionNode[] }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'logical'; operator: '&&' | '||'; left: ConditionNode; right: ConditionNode }
+  | { type: 'compare'; operator: CompareOperator; left: ConditionNode; right: ConditionNode };
+
+export type ConditionParseResult = { ok: true; node: ConditionNode } | { ok: false; error: string };
+
+const MAX_CONDITION_LENGTH = 500;
+const MAX_DEPTH = 20;
+const SEVERITY_RANK: Record<string, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+// ============================================
+// Tokenizer
+// ============================================
+
+type Token =
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'word'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'end'; pos: number };
+
+// Longest first so `===` isn't read as `==` followed by `=`
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', '[', ']', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = pos + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) end++;
+        value += source[end++];
+      }
+      if (end >= source.length) throw new Error(`Unterminated string at position ${pos + 1}`);
+      tokens.push({ kind: 'string', value, pos });
+      pos = end + 1;
+      continue;
+    }
+
+    const number = source.slice(pos).match(/^\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), pos });
+      pos += number[0].length;
+      continue;
+    }
+
+    const word = source.slice(pos).match(/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?/);
+    if (word) {
+      tokens.push({ kind: 'word', value: word[0], pos });
+      pos += word[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, pos));
+    if (!op) throw new Error(`Unexpected character "${char}" at position ${pos + 1}`);
+    // Strict and loose equality mean the same here; there is no type coercion
+    tokens.push({ kind: 'op', value: op === '===' ? '==' : op === '!==' ? '!=' : op, pos });
+    pos += op.length;
+  }
+
+  tokens.push({ kind: 'end', pos });
+  return tokens;
+}
+
+// ============================================
+// Parser (recursive descent)
+// ============================================
+
+class ConditionParser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'end') throw new Error(`Unexpected ${describe(next)} at position ${next.pos + 1}`);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'op' && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    const token = this.next();
+    if (token.kind !== 'op' || token.value !== value) {
+      throw new Error(`Expected "${value}" but found ${describe(token)} at position ${token.pos + 1}`);
+    }
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_DEPTH) throw new Error('Condition is nested too deeply');
+    const node = parse();
+    this.depth--;
+    return node;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.isOp('||')) {
+      this.next();
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.isOp('&&')) {
+      this.next();
+      left = { type: 'logical', operator: '&&', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.isOp('!')) {
+      this.next();
+      return this.nested(() => ({ type: 'not', operand: this.parseNot() }));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parseOperand();
+    const token = this.peek();
+
+    if (token.kind === 'word' && token.value === 'in') {
+      this.next();
+      return { type: 'compare', operator: 'in', left, right: this.parseOperand() };
+    }
+    if (token.kind === 'op' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      this.next();
+      return { type: 'compare', operator: token.value as CompareOperator, left, right: this.parseOperand() };
+    }
+    return left;
+  }
+
+  private parseOperand(): ConditionNode {
+    const token = this.next();
+
+    if (token.kind === 'string' || token.kind === 'number') {
+      return { type: 'literal', value: token.value };
+    }
+
+    if (token.kind === 'word') {
+      if (token.value === 'true' || token.value === 'false') {
+        return { type: 'literal', value: token.value === 'true' };
+      }
+      if ((CONDITION_FIELDS as readonly string[]).includes(token.value)) {
+        return { type: 'field', name: token.value as ConditionField };
+      }
+      if (token.value.startsWith('vars.')) {
+        return { type: 'variable', name: token.value.substring('vars.'.length) };
+      }
+      throw new Error(
+        `Unknown field "${token.value}" at position ${token.pos + 1}; use one of ${CONDITION_FIELDS.join(', ')} or vars.<name>`
+      );
+    }
+
+    if (token.kind === 'op' && token.value === '(') {
+      const node = this.nested(() => this.parseOr());
+      this.expectOp(')');
+      return node;
+    }
+
+    if (token.kind === 'op' && token.value === '[') {
+      const items: ConditionNode[] = [];
+      while (!this.isOp(']')) {
+        items.push(this.nested(() => this.parseOperand()));
+        if (!this.isOp(']')) this.expectOp(',');
+      }
+      this.next();
+      return { type: 'list', items };
+    }
+
+    throw new Error(`Unexpected ${describe(token)} at position ${token.pos + 1}`);
+  }
+}
+
+function describe(token: Token): string {
+  return token.kind === 'end' ? 'end of condition' : `"${token.value}"`;
+}
+
+const parseCache = new Map<string, ConditionParseResult>();
+
+/**
+ * Parse a condition, reporting syntax errors and unknown fields
+ */
+export function parseCondition(source: string): ConditionParseResult {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  let result: ConditionParseResult;
+  if (source.length > MAX_CONDITION_LENGTH) {
+    result = { ok: false, error: `Condition is longer than ${MAX_CONDITION_LENGTH} characters` };
+  } else {
+    try {
+      result = { ok: true, node: new ConditionParser(tokenize(source)).parse() };
+    } catch (error) {
+      result = { ok: false, error: error instanceof Error ? error.message : 'Invalid condition' };
+    }
+  }
+
+  // Conditions come from a handful of playbooks; the bound only guards against churn
+  if (parseCache.size >= 500) parseCache.clear();
+  parseCache.set(source, result);
+  return result;
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+function evaluateNode(node: ConditionNode, context: PlaybookMatchContext): ConditionValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return context[node.name] ?? null;
+    case 'variable':
+      return context.variables?.[node.name] ?? null;
+    case 'list':
+      return node.items.map((item) => evaluateNode(item, context));
+    case 'not':
+      return !truthy(evaluateNode(node.operand, context));
+    case 'logical':
+      return node.operator === '&&'
+        ? truthy(evaluateNode(node.left, context)) && truthy(evaluateNode(node.right, context))
+        : truthy(evaluateNode(node.left, context)) || truthy(evaluateNode(node.right, context));
+    case 'compare':
+      return compare(node.operator, evaluateNode(node.left, context), evaluateNode(node.right, context));
+  }
+}
+
+function truthy(value: ConditionValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function equals(a: ConditionValue, b: ConditionValue): boolean {
+  if (typeof a === 'string' && typeof b === 'string') return a.toLowerCase() === b.toLowerCase();
+  return a === b;
+}
+
+function compare(operator: CompareOperator, left: ConditionValue, right: ConditionValue): boolean {
+  switch (operator) {
+    case '==':
+      return equals(left, right);
+    case '!=':
+      return !equals(left, right);
+    case 'in':
+      if (Array.isArray(right)) return right.some((item) => equals(left, item));
+      // Substring test, e.g. 'mobile' in product
+      return typeof left === 'string' && typeof right === 'string' && right.toLowerCase().includes(left.toLowerCase());
+  }
+
+  // Ordering: numbers, or severities by rank; anything else never matches
+  let a: number | undefined;
+  let b: number | undefined;
+  if (typeof left === 'number' && typeof right === 'number') {
+    a = left;
+    b = right;
+  } else if (typeof left === 'string' && typeof right === 'string') {
+    a = SEVERITY_RANK[left.toLowerCase()];
+    b = SEVERITY_RANK[right.toLowerCase()];
+  }
+  if (a === undefined || b === undefined) return false;
+
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+/**
+ * Variable names a parsed condition reads through vars.<name>
+ */
+export function getConditionVariables(node: ConditionNode): string[] {
+  switch (node.type) {
+    case 'variable':
+      return [node.name];
+    case 'list':
+      return node.items.flatMap(getConditionVariables);
+    case 'not':
+      return getConditionVariables(node.operand);
+    case 'logical':
+    case 'compare':
+      return [...getConditionVariables(node.left), ...getConditionVariables(node.right)];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Evaluate a condition against case fields and variables. Invalid conditions never match.
+ */
+export function evaluateCondition(source: string, context: PlaybookMatchContext): boolean {
+  const parsed = parseCondition(source);
+  if (!parsed.ok) return false;
+  return truthy(evaluateNode(parsed.node, context));
+}
@@ -10,10 +10,25 @@ import {
   PlaybookExecutionResult,
   PlaybookValidationResult,
   PlaybookValidationError,
+  PlaybookMatch,
+  PlaybookMatchContext,
 } from './types';
+import { parseCondition, evaluateCondition, getConditionVariables } from './conditions';
+import {
+  BUILT_IN_VARIABLES,
+  VARIABLE_NAME_PATTERN,
+  findPlaceholders,
+  getKnownVariableNames,
+  normalizeCapturedValue,
+} from './variables';
+import { PLAYBOOK_LOCALES, LOCALIZED_STEP_FIELDS, getMissingTranslations, getPlaybookLocales } from './localization';
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
 
-// In-memory playbook registry
+// In-memory playbook registry: built-in playbooks, plus each tenant's own
+// (filled by the loader; tenant playbooks override built-ins with the same ID)
 const playbookRegistry: Map<string, Playbook> = new Map();
+const tenantPlaybookRegistry: Map<string, Map<string, Playbook>> = new Map();
 
 /**
  * Load a playbook from JSON
@@ -32,74 +47,212 @@ export function loadPlaybook(json: unknown): Playbook {
 }
 
 /**
- * Register a playbook in the registry
+ * Register a playbook in the registry, for one tenant when tenantId is given
  */
-export function registerPlaybook(playbook: Playbook): void {
-  playbookRegistry.set(playbook.metadata.id, playbook);
+export function registerPlaybook(playbook: Playbook, tenantId?: string): void {
+  if (!tenantId) {
+    playbookRegistry.set(playbook.metadata.id, playbook);
+    return;
+  }
+  
+  const tenantPlaybooks = tenantPlaybookRegistry.get(tenantId) || new Map();
+  tenantPlaybooks.set(playbook.metadata.id, playbook);
+  tenantPlaybookRegistry.set(tenantId, tenantPlaybooks);
 }
 
 /**
- * Get a playbook by ID
+ * Replace the registered playbooks (built-in, or one tenant's) in one go
  */
-export function getPlaybook(id: string): Playbook | undefined {
-  return playbookRegistry.get(id);
+export function replacePlaybooks(playbooks: Playbook[], tenantId?: string): void {
+  const registry = new Map(playbooks.map((p) => [p.metadata.id, p]));
+  
+  if (tenantId) {
+    tenantPlaybookRegistry.set(tenantId, registry);
+  } else {
+    playbookRegistry.clear();
+    registry.forEach((playbook, id) => playbookRegistry.set(id, playbook));
+  }
 }
 
 /**
- * Get all registered playbooks
+ * Get a playbook by ID, preferring the tenant's own
  */
-export function getAllPlaybooks(): Playbook[] {
-  return Array.from(playbookRegistry.values());
+export function getPlaybook(id: string, tenantId?: string): Playbook | undefined {
+  return (tenantId && tenantPlaybookRegistry.get(tenantId)?.get(id)) || playbookRegistry.get(id);
 }
 
 /**
- * Find playbooks matching criteria
+ * Get all registered playbooks available to a tenant (built-in only when omitted)
  */
-export function findPlaybooks(criteria: {
-  product?: string;
-  category?: string;
-  keywords?: string[];
-}): Playbook[] {
-  return getAllPlaybooks().filter((playbook) => {
-    const triggers = playbook.triggers;
-    
-    // Check product match
-    if (criteria.product && triggers.products) {
-      if (!triggers.products.includes(criteria.product)) {
-        return false;
-      }
+export function getAllPlaybooks(tenantId?: string): Playbook[] {
+  const playbooks = new Map(playbookRegistry);
+  if (tenantId) {
+    tenantPlaybookRegistry.get(tenantId)?.forEach((playbook, id) => playbooks.set(id, playbook));
+  }
+  return Array.from(playbooks.values());
+}
+
+/**
+ * Words from a customer message worth matching against trigger keywords
+ */
+export function extractKeywords(message: string): string[] {
+  return message.split(/[\s.,!?;:()"]+/).filter((w) => w.length > 3);
+}
+
+/**
+ * Score one playbook against a case. Returns null when it can't apply: the
+ * product is outside its triggers, its condition is false, or none of its
+ * keyword, category, severity or condition triggers fired.
+ */
+export function scorePlaybook(
+  playbook: Playbook,
+  criteria: PlaybookMatchContext & { keywords?: string[] }
+): PlaybookMatch | null {
+  const triggers = playbook.triggers || {};
+  const matchedTriggers: string[] = [];
+  
+  // Product scopes the playbook rather than scoring it
+  if (criteria.product && triggers.products?.length && !triggers.products.includes(criteria.product)) {
+    return null;
+  }
+  
+  if (triggers.condition) {
+    if (!evaluateCondition(triggers.condition, criteria)) {
+      return null;
     }
-    
-    // Check category match
-    if (criteria.category && triggers.categories) {
-      if (!triggers.categories.includes(criteria.category)) {
-        return false;
-      }
+    matchedTriggers.push('condition');
+  }
+  
+  // Each trigger keyword found in the message counts once
+  const words = (criteria.keywords || []).map((kw) => kw.toLowerCase());
+  triggers.keywords?.forEach((keyword) => {
+    const tk = keyword.toLowerCase();
+    if (words.some((kw) => tk.includes(kw) || kw.includes(tk))) {
+      matchedTriggers.push(`keyword:${keyword}`);
+    }
+  });
+  
+  if (criteria.category && triggers.categories?.includes(criteria.category)) {
+    matchedTriggers.push(`category:${criteria.category}`);
+  }
+  
+  if (criteria.severity && triggers.severity?.includes(criteria.severity)) {
+    matchedTriggers.push(`severity:${criteria.severity}`);
+  }
+  
+  // Playbooks with nothing to score on apply to every case in their products
+  const scoresOn = Boolean(
+    triggers.condition || triggers.keywords?.length || triggers.categories?.length || triggers.severity?.length
+  );
+  if (scoresOn && matchedTriggers.length === 0) {
+    return null;
+  }
+  
+  return { playbook, score: matchedTriggers.length, matchedTriggers };
+}
+
+/**
+ * Score playbooks against a case, best first (ties keep registry order)
+ */
+export function rankPlaybooks(
+  criteria: PlaybookMatchContext & { tenantId?: string; keywords?: string[] },
+  playbooks: Playbook[] = getAllPlaybooks(criteria.tenantId)
+): PlaybookMatch[] {
+  return playbooks
+    .map((playbook) => scorePlaybook(playbook, criteria))
+    .filter((match): match is PlaybookMatch => match !== null)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Find playbooks matching criteria, among the registry or a given list, best match first
+ */
+export function findPlaybooks(
+  criteria: PlaybookMatchContext & { tenantId?: string; keywords?: string[] },
+  playbooks?: Playbook[]
+): Playbook[] {
+  return rankPlaybooks(criteria, playbooks).map((match) => match.playbook);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Lists, objects and text in the wrong place. The checks below walk the
+// playbook assuming these shapes, so a request body that gets them wrong is
+// reported here instead of throwing there.
+function getShapeErrors(playbook: unknown): PlaybookValidationError[] {
+  const errors: PlaybookValidationError[] = [];
+  const expect = (ok: boolean, path: string, message: string) => {
+    if (!ok) errors.push({ path, message, severity: 'error' });
+  };
+  const optional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+  const isText = (value: unknown) => typeof value === 'string';
+  
+  if (!isRecord(playbook)) {
+    return [{ path: 'playbook', message: 'Playbook must be an object', severity: 'error' }];
+  }
+  
+  expect(optional(playbook.metadata, isRecord), 'metadata', 'Metadata must be an object');
+  if (isRecord(playbook.metadata)) {
+    expect(optional(playbook.metadata.locales, Array.isArray), 'metadata.locales', 'Locales must be a list');
+  }
+  expect(optional(playbook.triggers, isRecord), 'triggers', 'Triggers must be an object');
+  if (isRecord(playbook.triggers)) {
+    expect(optional(playbook.triggers.severity, Array.isArray), 'triggers.severity', 'Severities must be a list');
+    expect(optional(playbook.triggers.condition, isText), 'triggers.condition', 'Condition must be text');
+  }
+  expect(optional(playbook.variables, isRecord), 'variables', 'Variables must be an object');
+  expect(optional(playbook.escalation, isRecord), 'escalation', 'Escalation config must be an object');
+  
+  expect(optional(playbook.steps, Array.isArray), 'steps', 'Steps must be a list');
+  if (!Array.isArray(playbook.steps)) return errors;
+  
+  playbook.steps.forEach((step: unknown, index) => {
+    const stepPath = `steps[${index}]`;
+    if (!isRecord(step)) {
+      errors.push({ path: stepPath, message: 'Step must be an object', severity: 'error' });
+      return;
     }
     
-    // Check keyword match (any keyword)
-    if (criteria.keywords && triggers.keywords) {
-      const hasMatch = criteria.keywords.some((kw) =>
-        triggers.keywords!.some((tk) =>
-          tk.toLowerCase().includes(kw.toLowerCase()) ||
-          kw.toLowerCase().includes(tk.toLowerCase())
-        )
-      );
-      if (!hasMatch) {
-        return false;
-      }
+    (['id', 'nextOnSuccess', 'nextOnFailure', ...LOCALIZED_STEP_FIELDS] as const).forEach((field) => {
+      expect(optional(step[field], isText), `${stepPath}.${field}`, `${field} must be text`);
+    });
+    expect(optional(step.capture, isRecord), `${stepPath}.capture`, 'Capture must be an object');
+    
+    expect(optional(step.translations, isRecord), `${stepPath}.translations`, 'Translations must be an object');
+    if (isRecord(step.translations)) {
+      Object.entries(step.translations).forEach(([locale, translation]) => {
+        expect(isRecord(translation), `${stepPath}.translations.${locale}`, 'Translation must be an object');
+      });
     }
     
-    return true;
+    expect(optional(step.branches, Array.isArray), `${stepPath}.branches`, 'Branches must be a list');
+    if (Array.isArray(step.branches)) {
+      step.branches.forEach((branch: unknown, branchIndex) => {
+        const branchPath = `${stepPath}.branches[${branchIndex}]`;
+        if (!isRecord(branch)) {
+          errors.push({ path: branchPath, message: 'Branch must be an object', severity: 'error' });
+        } else {
+          expect(optional(branch.when, isText), `${branchPath}.when`, 'Branch condition must be text');
+          expect(optional(branch.next, isText), `${branchPath}.next`, 'Branch target must be a step ID');
+        }
+      });
+    }
   });
+  
+  return errors;
 }
 
 /**
  * Validate a playbook structure
  */
 export function validatePlaybook(playbook: Playbook): PlaybookValidationResult {
-  const errors: PlaybookValidationError[] = [];
+  const errors: PlaybookValidationError[] = getShapeErrors(playbook);
   const warnings: PlaybookValidationError[] = [];
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings };
+  }
   
   // Validate metadata
   if (!playbook.metadata) {
@@ -116,12 +269,27 @@ export function validatePlaybook(playbook: Playbook): PlaybookValidationResult {
     }
   }
   
+  // Validate triggers
+  if (playbook.triggers) {
+    playbook.triggers.severity?.forEach((severity, index) => {
+      if (!SEVERITIES.includes(severity)) {
+        errors.push({ path: `triggers.severity[${index}]`, message: `Unknown severity: ${severity}`, severity: 'error' });
+      }
+    });
+    
+    if (playbook.triggers.condition) {
+      const parsed = parseCondition(playbook.triggers.condition);
+      if (!parsed.ok) {
+        errors.push({ path: 'triggers.condition', message: `Invalid condition: ${parsed.error}`, severity: 'error' });
+      }
+    }
+  }
+  
   // Validate steps
   if (!playbook.steps || playbook.steps.length === 0) {
     errors.push({ path: 'steps', message: 'At least one step is required', severity: 'error' });
   } else {
     const stepIds = new Set<string>();
-    const referencedIds = new Set<string>();
     
     playbook.steps.forEach((step, index) => {
       const stepPath = `steps[${index}]`;
@@ -142,23 +310,119 @@ export function validatePlaybook(playbook: Playbook): PlaybookValidationResult {
         errors.push({ path: `${stepPath}.instruction`, message: 'Step instruction is required', severity: 'error' });
       }
       
-      // Track referenced step IDs
-      if (step.nextOnSuccess) referencedIds.add(step.nextOnSuccess);
-      if (step.nextOnFailure) referencedIds.add(step.nextOnFailure);
+      if (step.maxAttempts !== undefined && (!Number.isInteger(step.maxAttempts) || step.maxAttempts < 1)) {
+        errors.push({ path: `${stepPath}.maxAttempts`, message: 'Max attempts must be a whole number of at least 1', severity: 'error' });
+      }
+      
+      if (step.timeout !== undefined && (typeof step.timeout !== 'number' || !(step.timeout > 0))) {
+        errors.push({ path: `${stepPath}.timeout`, message: 'Timeout must be a positive number of seconds', severity: 'error' });
+      }
+      
+      if (step.capture) {
+        const variable = step.capture.variable;
+        if (!variable || !VARIABLE_NAME_PATTERN.test(variable)) {
+          errors.push({ path: `${stepPath}.capture.variable`, message: 'Capture variable must be a name like "platform"', severity: 'error' });
+        } else if (variable in BUILT_IN_VARIABLES) {
+          errors.push({ path: `${stepPath}.capture.variable`, message: `"${variable}" is a built-in variable and can't be captured`, severity: 'error' });
+        }
+      }
+      
+      step.branches?.forEach((branch, branchIndex) => {
+        const parsed = parseCondition(branch.when || '');
+        if (!branch.when || !parsed.ok) {
+          errors.push({
+            path: `${stepPath}.branches[${branchIndex}].when`,
+            message: branch.when && !parsed.ok ? `Invalid condition: ${parsed.error}` : 'Branch condition is required',
+            severity: 'error',
+          });
+        }
+      });
+    });
+    
+    // Placeholders and branch variables should be ones the playbook can fill
+    const knownVariables = getKnownVariableNames(playbook);
+    playbook.steps.forEach((step, index) => {
+      const unknown = findPlaceholders(step.instruction || '').filter((name) => !knownVariables.has(name));
+      if (unknown.length > 0) {
+        warnings.push({
+          path: `steps[${index}].instruction`,
+          message: `Unknown variables: ${Array.from(new Set(unknown)).join(', ')}`,
+          severity: 'warning',
+        });
+      }
+      
+      step.branches?.forEach((branch, branchIndex) => {
+        const parsed = parseCondition(branch.when || '');
+        const unknownVars = parsed.ok ? getConditionVariables(parsed.node).filter((name) => !knownVariables.has(name)) : [];
+        if (unknownVars.length > 0) {
+          warnings.push({
+            path: `steps[${index}].branches[${branchIndex}].when`,
+            message: `Unknown variables: ${Array.from(new Set(unknownVars)).join(', ')}`,
+            severity: 'warning',
+          });
+        }
+      });
     });
     
-    // Check for unreachable steps
-    referencedIds.forEach((refId) => {
-      if (!stepIds.has(refId)) {
+    // Check for dangling next-step references
+    playbook.steps.forEach((step, index) => {
+      (['nextOnSuccess', 'nextOnFailure'] as const).forEach((field) => {
+        const refId = step[field];
+        if (refId && !stepIds.has(refId)) {
+          errors.push({
+            path: `steps[${index}].${field}`,
+            message: `Referenced step ID does not exist: ${refId}`,
+            severity: 'error',
+          });
+        }
+      });
+      
+      step.branches?.forEach((branch, branchIndex) => {
+        if (!branch.next || !stepIds.has(branch.next)) {
+          errors.push({
+            path: `steps[${index}].branches[${branchIndex}].next`,
+            message: branch.next ? `Referenced step ID does not exist: ${branch.next}` : 'Branch target step is required',
+            severity: 'error',
+          });
+        }
+      });
+    });
+    
+    // Check for steps that can't be reached from the first step
+    const reachable = getReachableStepIds(playbook);
+    playbook.steps.forEach((step, index) => {
+      if (step.id && !reachable.has(step.id)) {
         errors.push({
-          path: 'steps',
-          message: `Referenced step ID does not exist: ${refId}`,
+          path: `steps[${index}]`,
+          message: `Step is unreachable from the first step: ${step.id}`,
           severity: 'error',
         });
       }
     });
   }
   
+  // Translations: warn about unsupported locales and untranslated strings
+  if (playbook.metadata && playbook.steps) {
+    const unsupported = getPlaybookLocales(playbook).filter(
+      (locale) => !(PLAYBOOK_LOCALES as readonly string[]).includes(locale)
+    );
+    if (unsupported.length > 0) {
+      warnings.push({
+        path: 'metadata.locales',
+        message: `Unsupported languages: ${unsupported.join(', ')} (supported: ${PLAYBOOK_LOCALES.join(', ')})`,
+        severity: 'warning',
+      });
+    }
+    
+    getMissingTranslations(playbook).forEach(({ stepIndex, locale, fields }) => {
+      warnings.push({
+        path: `steps[${stepIndex}].translations.${locale}`,
+        message: `Missing ${locale} text for ${fields.join(', ')}; the default language is used`,
+        severity: 'warning',
+      });
+    });
+  }
+  
   // Validate escalation
   if (!playbook.escalation) {
     warnings.push({ path: 'escalation', message: 'Escalation config is recommended', severity: 'warning' });
@@ -177,22 +441,53 @@ export function validatePlaybook(playbook: Playbook): PlaybookValidationResult {
   };
 }
 
+/**
+ * Step IDs reachable from the first step by following success, failure and branch paths
+ */
+export function getReachableStepIds(playbook: Playbook): Set<string> {
+  const stepsById = new Map(playbook.steps.map((s) => [s.id, s]));
+  const reachable = new Set<string>();
+  const pending = playbook.steps[0]?.id ? [playbook.steps[0].id] : [];
+  
+  while (pending.length > 0) {
+    const step = stepsById.get(pending.pop()!);
+    if (!step || reachable.has(step.id)) continue;
+    reachable.add(step.id);
+    if (step.nextOnSuccess) pending.push(step.nextOnSuccess);
+    if (step.nextOnFailure) pending.push(step.nextOnFailure);
+    step.branches?.forEach((branch) => branch.next && pending.push(branch.next));
+  }
+  
+  return reachable;
+}
+
+/**
+ * Next version for a saved playbook (patch bump, e.g. 1.2.3 -> 1.2.4)
+ */
+export function bumpPlaybookVersion(version?: string): string {
+  const match = version?.match(/^(\d+)\.(\d+)\.(\d+)/);
+  if (!match) return '1.0.0';
+  return `${match[1]}.${match[2]}.${Number(match[3]) + 1}`;
+}
+
 /**
  * Create initial execution state for a playbook
  */
-export function createExecutionState(playbook: Playbook): PlaybookExecutionState {
+export function createExecutionState(playbook: Playbook, now: Date = new Date()): PlaybookExecutionState {
   const firstStep = playbook.steps[0];
   
   return {
     playbookId: playbook.metadata.id,
+    playbookVersion: playbook.metadata.version,
     currentStepId: firstStep?.id || '',
     stepAttempts: {},
     completedSteps: [],
     failedSteps: [],
-    startedAt: new Date(),
-    lastUpdatedAt: new Date(),
+    startedAt: now,
+    lastUpdatedAt: now,
     variables: playbook.variables || {},
     outcome: 'in_progress',
+    stepIssuedAt: firstStep ? { [firstStep.id]: now } : {},
   };
 }
 
@@ -207,13 +502,62 @@ export function getCurrentStep(
 }
 
 /**
- * Execute a step and get the result
+ * Whether the customer took longer than the current step's timeout to respond
+ */
+export function isStepTimedOut(
+  playbook: Playbook,
+  state: PlaybookExecutionState,
+  now: Date = new Date()
+): boolean {
+  const step = getCurrentStep(playbook, state);
+  const issuedAt = state.stepIssuedAt?.[state.currentStepId];
+  if (!step?.timeout || !issuedAt || isPlaybookComplete(state)) return false;
+  return now.getTime() - issuedAt.getTime() > step.timeout * 1000;
+}
+
+// Make a step current and restart its clock (also used when a step is retried)
+function issueStep(state: PlaybookExecutionState, stepId: string, now: Date): void {
+  state.currentStepId = stepId;
+  state.stepIssuedAt = { ...state.stepIssuedAt, [stepId]: now };
+}
+
+// First branch of the step for this outcome whose condition holds
+function selectBranch(
+  step: PlaybookStep,
+  state: PlaybookExecutionState,
+  on: 'success' | 'failure'
+): string | undefined {
+  const v = state.variables;
+  const context = {
+    product: v.product,
+    category: v.category,
+    severity: v.severity as PlaybookMatchContext['severity'],
+    language: v.language,
+    source: v.source,
+    variables: v,
+  };
+  return step.branches?.find((branch) => (branch.on || 'success') === on && evaluateCondition(branch.when, context))?.next;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds % 3600 === 0) return `${seconds / 3600} hour${seconds === 3600 ? '' : 's'}`;
+  if (seconds % 60 === 0) return `${seconds / 60} minute${seconds === 60 ? '' : 's'}`;
+  return `${seconds} seconds`;
+}
+
+/**
+ * Execute a step and get the result.
+ * A reply after the step's timeout counts as a failed attempt with outcome
+ * 'timeout'. Success on a step that requires confirmation is held back
+ * (outcome 'awaiting_confirmation', no attempt used) until `confirmed` is set.
  */
 export function executeStep(
   playbook: Playbook,
   state: PlaybookExecutionState,
-  stepOutcome: 'success' | 'failure'
+  stepOutcome: 'success' | 'failure',
+  options: { confirmed?: boolean; captured?: string; now?: Date } = {}
 ): PlaybookExecutionResult {
+  const now = options.now || new Date();
   const step = getCurrentStep(playbook, state);
   
   if (!step) {
@@ -228,34 +572,82 @@ export function executeStep(
     };
   }
   
+  const timedOut = isStepTimedOut(playbook, state, now);
+  state.lastUpdatedAt = now;
+  
+  if (!timedOut && stepOutcome === 'success' && step.requiresConfirmation && !options.confirmed) {
+    state.awaitingConfirmation = step.id;
+    return {
+      success: false,
+      stepId: step.id,
+      stepTitle: step.title,
+      outcome: 'awaiting_confirmation',
+      message: `Waiting for the customer to confirm: ${step.expectedOutcome || step.title}`,
+      shouldEscalate: false,
+    };
+  }
+  delete state.awaitingConfirmation;
+  
+  // Store the customer's answer before branching so branches can use it
+  let captured: PlaybookExecutionResult['captured'];
+  const capturedValue = step.capture && !timedOut ? normalizeCapturedValue(step, options.captured) : undefined;
+  if (step.capture && capturedValue !== undefined) {
+    captured = { variable: step.capture.variable, value: capturedValue };
+    state.variables = { ...state.variables, [captured.variable]: capturedValue };
+  }
+  
   // Update attempt count
   const attempts = (state.stepAttempts[step.id] || 0) + 1;
   state.stepAttempts[step.id] = attempts;
-  state.lastUpdatedAt = new Date();
   
-  // Check max attempts
+  const outcome = timedOut ? 'timeout' : stepOutcome;
+  const timeoutMessage = timedOut
+    ? `No response within ${formatDuration(step.timeout!)}`
+    : undefined;
+  
+  // Check max attempts: take the failure path if there is one, otherwise the
+  // run ends here (escalated by the caller, or failed without escalating)
   const maxAttempts = step.maxAttempts || 3;
-  if (attempts > maxAttempts && stepOutcome === 'failure') {
-    state.failedSteps.push(step.id);
+  if (attempts > maxAttempts && outcome !== 'success') {
+    if (!state.failedSteps.includes(step.id)) state.failedSteps.push(step.id);
+    const message = `Step failed after ${attempts} attempts: ${timeoutMessage || step.failureHint || 'Unable to complete step'}`;
+    
+    const nextOnFailure = selectBranch(step, state, 'failure') || step.nextOnFailure;
+    if (nextOnFailure) {
+      issueStep(state, nextOnFailure, now);
+      return {
+        success: false,
+        stepId: step.id,
+        stepTitle: step.title,
+        outcome,
+        message,
+        nextStepId: nextOnFailure,
+        shouldEscalate: false,
+        captured,
+      };
+    }
     
+    const shouldEscalate = step.escalateOnFailure ?? true;
+    if (!shouldEscalate) state.outcome = 'failed';
     return {
       success: false,
       stepId: step.id,
       stepTitle: step.title,
-      outcome: 'failure',
-      message: `Step failed after ${attempts} attempts: ${step.failureHint || 'Unable to complete step'}`,
-      shouldEscalate: step.escalateOnFailure ?? true,
-      escalationReason: `Max attempts exceeded for step: ${step.title}`,
+      outcome,
+      message,
+      shouldEscalate,
+      escalationReason: shouldEscalate ? `Max attempts exceeded for step: ${step.title}` : undefined,
+      captured,
     };
   }
   
-  if (stepOutcome === 'success') {
+  if (outcome === 'success') {
     state.completedSteps.push(step.id);
     
     // Determine next step
-    const nextStepId = step.nextOnSuccess;
+    const nextStepId = selectBranch(step, state, 'success') || step.nextOnSuccess;
     if (nextStepId) {
-      state.currentStepId = nextStepId;
+      issueStep(state, nextStepId, now);
     } else {
       // No next step = playbook complete
       state.outcome = 'resolved';
@@ -269,23 +661,22 @@ export function executeStep(
       message: step.expectedOutcome || 'Step completed successfully',
       nextStepId,
       shouldEscalate: false,
+      captured,
     };
   } else {
-    // Failure with remaining attempts
-    const nextOnFailure = step.nextOnFailure;
-    
-    if (nextOnFailure) {
-      state.currentStepId = nextOnFailure;
-    }
+    // Failure or timeout with remaining attempts: move on, or give the step again
+    const nextOnFailure = selectBranch(step, state, 'failure') || step.nextOnFailure;
+    issueStep(state, nextOnFailure || step.id, now);
     
     return {
       success: false,
       stepId: step.id,
       stepTitle: step.title,
-      outcome: 'failure',
-      message: step.failureHint || 'Step did not complete as expected',
+      outcome,
+      message: timeoutMessage || step.failureHint || 'Step did not complete as expected',
       nextStepId: nextOnFailure,
       shouldEscalate: false, // Not yet, still have attempts or alternative path
+      captured,
     };
   }
 }
@@ -294,7 +685,7 @@ export function executeStep(
  * Check if playbook is complete
  */
 export function isPlaybookComplete(state: PlaybookExecutionState): boolean {
-  return state.outcome === 'resolved' || state.outcome === 'escalated';
+  return state.outcome === 'resolved' || state.outcome === 'escalated' || state.outcome === 'failed';
 }
 
 /**
@@ -316,13 +707,10 @@ export function formatInstruction(
   instruction: string,
   variables: Record<string, string>
 ): string {
-  let formatted = instruction;
-  
-  for (const [key, value] of Object.entries(variables)) {
-    formatted = formatted.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value);
-  }
-  
-  return formatted;
+  // Unknown placeholders are left as written so gaps show up in review
+  return instruction.replace(/\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  );
 }
 
 /**
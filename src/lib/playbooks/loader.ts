@@ -0,0 +1,132 @@
+/**
+ * Playbook Loader
+ * Fills the playbook registry from the playbooks/ directory and from each
+ * tenant's Firestore playbooks, keeping both in sync as they change
+ */
+
+import { promises as fs, watch, type FSWatcher } from 'fs';
+import path from 'path';
+import { adminDb } from '@/lib/firebase/admin';
+import { loadPlaybook, replacePlaybooks } from './engine';
+import type { Playbook } from './types';
+
+const PLAYBOOKS_DIR = process.env.PLAYBOOKS_DIR || path.join(process.cwd(), 'playbooks');
+
+// tenants/{tenantId}/playbooks/{playbookId}, each document a full playbook
+const TENANT_COLLECTION = 'playbooks';
+
+let builtInLoad: Promise<number> | null = null;
+let directoryWatcher: FSWatcher | null = null;
+const tenantSubscriptions: Map<string, Promise<void>> = new Map();
+
+function parsePlaybook(source: string, json: unknown): Playbook | null {
+  try {
+    return loadPlaybook(json);
+  } catch (error) {
+    console.error(`Skipping playbook ${source}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Validate and register every playbook in the playbooks/ directory.
+ * Invalid files are logged and skipped so one bad playbook doesn't disable the rest.
+ */
+export async function loadBuiltInPlaybooks(): Promise<number> {
+  const files = (await fs.readdir(PLAYBOOKS_DIR)).filter((f) => f.endsWith('.json')).sort();
+  const playbooks: Playbook[] = [];
+
+  for (const file of files) {
+    try {
+      const json = JSON.parse(await fs.readFile(path.join(PLAYBOOKS_DIR, file), 'utf8'));
+      const playbook = parsePlaybook(file, json);
+      if (playbook) playbooks.push(playbook);
+    } catch (error) {
+      console.error(`Skipping playbook ${file}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  replacePlaybooks(playbooks);
+  return playbooks.length;
+}
+
+/**
+ * Reload built-in playbooks when files change (development only;
+ * deployed bundles are immutable)
+ */
+function watchPlaybookDirectory(): void {
+  if (directoryWatcher || process.env.NODE_ENV === 'production') return;
+
+  let reloadTimer: NodeJS.Timeout | undefined;
+  try {
+    directoryWatcher = watch(PLAYBOOKS_DIR, () => {
+      // Editors emit several events per save
+      clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => {
+        loadBuiltInPlaybooks()
+          .then((count) => console.log(`Reloaded ${count} playbooks from ${PLAYBOOKS_DIR}`))
+          .catch((error) => console.error('Playbook reload error:', error));
+      }, 200);
+    });
+    directoryWatcher.unref();
+  } catch (error) {
+    console.error('Playbook directory watch error:', error);
+  }
+}
+
+/**
+ * Keep a tenant's registered playbooks in sync with Firestore.
+ * Resolves once the first snapshot has been registered.
+ */
+function subscribeTenantPlaybooks(tenantId: string): Promise<void> {
+  return new Promise((resolve) => {
+    try {
+      adminDb()
+        .collection('tenants')
+        .doc(tenantId)
+        .collection(TENANT_COLLECTION)
+        .onSnapshot(
+          (snapshot) => {
+            const playbooks = snapshot.docs
+              .map((doc) => parsePlaybook(`${tenantId}/${doc.id}`, doc.data()))
+              .filter((p): p is Playbook => p !== null);
+            replacePlaybooks(playbooks, tenantId);
+            resolve();
+          },
+          (error) => {
+            // Drop the subscription so the next request retries
+            console.error(`Tenant playbook listener error (${tenantId}):`, error);
+            tenantSubscriptions.delete(tenantId);
+            resolve();
+          }
+        );
+    } catch (error) {
+      console.error(`Tenant playbook load error (${tenantId}):`, error);
+      tenantSubscriptions.delete(tenantId);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Make sure built-in playbooks (and the tenant's, when given) are registered.
+ * Cheap after the first call, so it's safe to await on every request.
+ */
+export async function ensurePlaybooksLoaded(tenantId?: string): Promise<void> {
+  if (!builtInLoad) {
+    builtInLoad = loadBuiltInPlaybooks().catch((error) => {
+      console.error('Built-in playbook load error:', error);
+      builtInLoad = null;
+      return 0;
+    });
+    watchPlaybookDirectory();
+  }
+  await builtInLoad;
+
+  if (tenantId) {
+    if (!tenantSubscriptions.has(tenantId)) {
+      tenantSubscriptions.set(tenantId, subscribeTenantPlaybooks(tenantId));
+    }
+    await tenantSubscriptions.get(tenantId);
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Playbook Localization
+ * Step text is written in the playbook's default language (metadata.language),
+ * with optional per-locale overrides in step.translations. Strings missing
+ * from a locale fall back to the default language.
+ */
+
+import type { Playbook, PlaybookStep, PlaybookStepText } from './types';
+
+// Mirrors the app locales in src/i18n.ts (not imported: that module is server/next-intl only)
+export const PLAYBOOK_LOCALES = ['en', 'fr', 'de', 'it', 'zh', 'fa'] as const;
+
+export const LOCALIZED_STEP_FIELDS = ['title', 'instruction', 'expectedOutcome', 'failureHint'] as const;
+
+/**
+ * Base language code, e.g. 'fr-CA' -> 'fr'
+ */
+export function normalizeLocale(language?: string): string {
+  return (language || '').trim().toLowerCase().split(/[-_]/)[0];
+}
+
+export function getDefaultLocale(playbook: Playbook): string {
+  return normalizeLocale(playbook.metadata?.language) || 'en';
+}
+
+/**
+ * Languages a playbook is written in: the default first, then declared and translated locales
+ */
+export function getPlaybookLocales(playbook: Playbook): string[] {
+  const locales = new Set<string>([getDefaultLocale(playbook)]);
+  playbook.metadata?.locales?.forEach((locale) => locales.add(normalizeLocale(locale)));
+  playbook.steps?.forEach((step) => {
+    Object.keys(step.translations || {}).forEach((locale) => locales.add(normalizeLocale(locale)));
+  });
+  return Array.from(locales).filter(Boolean);
+}
+
+/**
+ * A step's text in one locale, falling back field by field to the default language
+ */
+export function localizeStep(step: PlaybookStep, locale: string, defaultLocale: string): PlaybookStep {
+  const target = normalizeLocale(locale);
+  if (!target || target === defaultLocale || !step.translations) return step;
+
+  const translation = step.translations[target];
+  if (!translation) return step;
+
+  const localized = { ...step };
+  for (const field of LOCALIZED_STEP_FIELDS) {
+    const text = translation[field];
+    if (text && text.trim()) localized[field] = text;
+  }
+  return localized;
+}
+
+/**
+ * The playbook with step text in the case's language where available
+ */
+export function localizePlaybook(playbook: Playbook, language?: string): Playbook {
+  const locale = normalizeLocale(language);
+  const defaultLocale = getDefaultLocale(playbook);
+  if (!locale || locale === defaultLocale) return playbook;
+
+  return {
+    ...playbook,
+    steps: playbook.steps.map((step) => localizeStep(step, locale, defaultLocale)),
+  };
+}
+
+/**
+ * Step fields with default-language text but no translation, per step and locale
+ */
+export function getMissingTranslations(
+  playbook: Playbook
+): Array<{ stepIndex: number; locale: string; fields: Array<keyof PlaybookStepText> }> {
+  const defaultLocale = getDefaultLocale(playbook);
+  const locales = getPlaybookLocales(playbook).filter((locale) => locale !== defaultLocale);
+  const missing: Array<{ stepIndex: number; locale: string; fields: Array<keyof PlaybookStepText> }> = [];
+
+  playbook.steps?.forEach((step, stepIndex) => {
+    locales.forEach((locale) => {
+      const translation = step.translations?.[locale] || {};
+      const fields = LOCALIZED_STEP_FIELDS.filter((field) => step[field]?.trim() && !translation[field]?.trim());
+      if (fields.length > 0) missing.push({ stepIndex, locale, fields });
+    });
+  });
+
+  return missing;
+}
@@ -0,0 +1,334 @@
+/**
+ * Playbook Simulator
+ * Dry-runs scripted customer conversations through the playbook engine so
+ * runbooks can be tested before publishing and regression-tested afterwards
+ */
+
+import {
+  getAllPlaybooks,
+  findPlaybooks,
+  extractKeywords,
+  createExecutionState,
+  executeStep,
+  getCurrentStep,
+  formatInstruction,
+  isPlaybookComplete,
+} from './engine';
+import type {
+  Playbook,
+  PlaybookExecutionResult,
+  PlaybookExecutionState,
+  PlaybookSeverity,
+  PlaybookStep,
+} from './types';
+import { resolveBuiltInVariables } from './variables';
+import { localizePlaybook } from './localization';
+import { createFakeProvider } from '@/lib/llm/fake';
+import type { LLMProvider, LLMToolDefinition } from '@/lib/llm/types';
+import type { CaseSource } from '@/types';
+
+export type StepOutcome = 'success' | 'failure';
+
+export interface SimulationTurn {
+  // What the customer says in reply to the current step
+  message: string;
+  // Declared outcome for this turn; required unless a classifier is used
+  outcome?: StepOutcome;
+  // Customer explicitly confirmed the step (for steps with requiresConfirmation).
+  // Defaults to true for classified successes, false for declared ones.
+  confirmed?: boolean;
+  // Seconds since the previous turn, to exercise step timeouts
+  delaySeconds?: number;
+  // Answer to store for steps with a capture
+  captured?: string;
+}
+
+export interface SimulationScenario {
+  name?: string;
+  // Case context used to pick the playbook (keywords come from the first turn)
+  product?: string;
+  category?: string;
+  severity?: PlaybookSeverity;
+  language?: string;
+  source?: string;
+  failedAttempts?: number;
+  // Skip matching and run this playbook
+  playbookId?: string;
+  variables?: Record<string, string>;
+  turns: SimulationTurn[];
+  // Optional expectations checked after the run
+  expect?: {
+    playbookId?: string;
+    path?: string[];
+    outcome?: SimulationOutcome;
+    escalatedAt?: string;
+  };
+}
+
+export type SimulationOutcome = 'resolved' | 'escalated' | 'failed' | 'in_progress' | 'no_playbook';
+
+export interface SimulatedStep {
+  turn: number;
+  stepId: string;
+  stepTitle: string;
+  instruction: string;
+  customerMessage: string;
+  // Outcome reported for the turn, and what the engine made of it
+  reportedOutcome: StepOutcome;
+  outcome: PlaybookExecutionResult['outcome'];
+  attempt: number;
+  nextStepId?: string;
+  shouldEscalate: boolean;
+  escalationReason?: string;
+}
+
+export interface SimulationResult {
+  name?: string;
+  playbookId: string | null;
+  // Best match first
+  matchedPlaybookIds: string[];
+  // Step IDs in the order they were attempted
+  path: string[];
+  steps: SimulatedStep[];
+  attempts: Record<string, number>;
+  escalations: Array<{ turn: number; stepId: string; reason: string }>;
+  outcome: SimulationOutcome;
+  // Turns left over after the playbook finished
+  unusedTurns: number;
+  finalState: PlaybookExecutionState | null;
+  // Present when the scenario declares expectations
+  passed?: boolean;
+  failures?: string[];
+}
+
+/**
+ * Decides a step's outcome from the customer's reply when the script doesn't declare one
+ */
+export type OutcomeClassifier = (input: {
+  playbook: Playbook;
+  step: PlaybookStep;
+  instruction: string;
+  message: string;
+}) => Promise<StepOutcome>;
+
+/**
+ * Run one scenario. `playbooks` defaults to the registry; pass a list to test
+ * unsaved playbook JSON.
+ */
+export async function simulatePlaybook(
+  scenario: SimulationScenario,
+  options: { playbooks?: Playbook[]; tenantId?: string; classifyOutcome?: OutcomeClassifier } = {}
+): Promise<SimulationResult> {
+  const firstMessage = scenario.turns[0]?.message || '';
+  const matched = scenario.playbookId
+    ? (options.playbooks || getAllPlaybooks(options.tenantId)).filter((p) => p.metadata.id === scenario.playbookId)
+    : findPlaybooks(
+        {
+          tenantId: options.tenantId,
+          product: scenario.product,
+          category: scenario.category,
+          severity: scenario.severity,
+          language: scenario.language,
+          source: scenario.source,
+          failedAttempts: scenario.failedAttempts,
+          keywords: extractKeywords(firstMessage),
+        },
+        options.playbooks
+      );
+
+  const playbook = matched[0] && localizePlaybook(matched[0], scenario.language);
+  const result: SimulationResult = {
+    name: scenario.name,
+    playbookId: playbook?.metadata.id || null,
+    matchedPlaybookIds: matched.map((p) => p.metadata.id),
+    path: [],
+    steps: [],
+    attempts: {},
+    escalations: [],
+    outcome: 'no_playbook',
+    unusedTurns: scenario.turns.length,
+    finalState: null,
+  };
+
+  if (!playbook) {
+    return checkExpectations(scenario, result);
+  }
+
+  // Simulated clock, advanced by each turn's delay
+  let now = new Date();
+  const state = createExecutionState(playbook, now);
+  state.variables = {
+    ...state.variables,
+    ...resolveBuiltInVariables({
+      case: {
+        product: scenario.product,
+        category: scenario.category,
+        severity: scenario.severity,
+        language: scenario.language,
+        source: scenario.source as CaseSource | undefined,
+      },
+    }),
+    ...scenario.variables,
+  };
+
+  let turnIndex = 0;
+  for (; turnIndex < scenario.turns.length && !isPlaybookComplete(state); turnIndex++) {
+    const turn = scenario.turns[turnIndex];
+    now = new Date(now.getTime() + (turn.delaySeconds || 0) * 1000);
+    const step = getCurrentStep(playbook, state);
+    const instruction = step ? formatInstruction(step.instruction, state.variables) : '';
+
+    let outcome = turn.outcome;
+    let confirmed = turn.confirmed ?? false;
+    if (!outcome && step && options.classifyOutcome) {
+      outcome = await options.classifyOutcome({ playbook, step, instruction, message: turn.message });
+      confirmed = turn.confirmed ?? outcome === 'success';
+    }
+    if (!outcome) {
+      throw new Error(`Turn ${turnIndex + 1} has no outcome and no classifier is configured`);
+    }
+
+    const stepResult = executeStep(playbook, state, outcome, { confirmed, captured: turn.captured, now });
+    result.path.push(stepResult.stepId);
+    result.steps.push({
+      turn: turnIndex + 1,
+      stepId: stepResult.stepId,
+      stepTitle: stepResult.stepTitle,
+      instruction,
+      customerMessage: turn.message,
+      reportedOutcome: outcome,
+      outcome: stepResult.outcome,
+      attempt: state.stepAttempts[stepResult.stepId] || 0,
+      nextStepId: stepResult.nextStepId,
+      shouldEscalate: stepResult.shouldEscalate,
+      escalationReason: stepResult.escalationReason,
+    });
+
+    if (stepResult.shouldEscalate) {
+      // Same handling as the L1 agent: the playbook ends in escalation
+      state.outcome = 'escalated';
+      result.escalations.push({
+        turn: turnIndex + 1,
+        stepId: stepResult.stepId,
+        reason: stepResult.escalationReason || stepResult.message,
+      });
+    }
+  }
+
+  result.attempts = { ...state.stepAttempts };
+  result.outcome = state.outcome || 'in_progress';
+  result.unusedTurns = scenario.turns.length - turnIndex;
+  result.finalState = state;
+
+  return checkExpectations(scenario, result);
+}
+
+function checkExpectations(scenario: SimulationScenario, result: SimulationResult): SimulationResult {
+  const expect = scenario.expect;
+  if (!expect) return result;
+
+  const failures: string[] = [];
+  if (expect.playbookId !== undefined && expect.playbookId !== result.playbookId) {
+    failures.push(`Expected playbook ${expect.playbookId}, got ${result.playbookId ?? 'none'}`);
+  }
+  if (expect.path && expect.path.join(' > ') !== result.path.join(' > ')) {
+    failures.push(`Expected path ${expect.path.join(' > ')}, got ${result.path.join(' > ') || '(empty)'}`);
+  }
+  if (expect.outcome && expect.outcome !== result.outcome) {
+    failures.push(`Expected outcome ${expect.outcome}, got ${result.outcome}`);
+  }
+  if (expect.escalatedAt && result.escalations[0]?.stepId !== expect.escalatedAt) {
+    failures.push(`Expected escalation at ${expect.escalatedAt}, got ${result.escalations[0]?.stepId ?? 'none'}`);
+  }
+
+  return { ...result, passed: failures.length === 0, failures };
+}
+
+/**
+ * Run several scenarios and summarize them; the entry point for regression tests.
+ * Throws nothing for failed expectations so every scenario is reported.
+ */
+export async function runPlaybookScenarios(
+  scenarios: SimulationScenario[],
+  options: Parameters<typeof simulatePlaybook>[1] = {}
+): Promise<{ passed: number; failed: number; results: SimulationResult[] }> {
+  const results: SimulationResult[] = [];
+  for (const scenario of scenarios) {
+    results.push(await simulatePlaybook(scenario, options));
+  }
+
+  const failed = results.filter((r) => r.passed === false).length;
+  return { passed: results.length - failed, failed, results };
+}
+
+// ============================================
+// LLM-backed outcome classification
+// ============================================
+
+const OUTCOME_TOOL: LLMToolDefinition = {
+  name: 'execute_playbook_step',
+  description: 'Record the outcome of the current playbook step',
+  parameters: {
+    type: 'object',
+    properties: {
+      stepId: { type: 'string' },
+      outcome: { type: 'string', enum: ['success', 'failure'] },
+    },
+    required: ['stepId', 'outcome'],
+  },
+};
+
+/**
+ * Classify outcomes with a chat model, the way the L1 agent would
+ */
+export function createLLMOutcomeClassifier(provider: LLMProvider, model = 'gpt-4'): OutcomeClassifier {
+  return async ({ playbook, step, instruction, message }) => {
+    const completion = await provider.chat({
+      model,
+      temperature: 0,
+      tools: [OUTCOME_TOOL],
+      toolChoice: { name: OUTCOME_TOOL.name },
+      messages: [
+        {
+          role: 'system',
+          content: `You are following the support playbook "${playbook.metadata.name}".
+Current step ID: ${step.id}
+Step: ${step.title}
+Instructions given to the customer: ${instruction}
+${step.expectedOutcome ? `Expected outcome: ${step.expectedOutcome}\n` : ''}
+Decide from the customer's reply whether the step succeeded and call execute_playbook_step.`,
+        },
+        { role: 'user', content: message },
+      ],
+    });
+
+    const call = completion.toolCalls[0];
+    if (!call) return 'failure';
+
+    try {
+      return JSON.parse(call.arguments).outcome === 'success' ? 'success' : 'failure';
+    } catch {
+      return 'failure';
+    }
+  };
+}
+
+const POSITIVE_REPLY = /\b(yes|yep|yeah|worked|works|working|fixed|done|resolved|success|got it|that did it|received)\b/i;
+const NEGATIVE_REPLY = /\b(no|nope|not|didn't|doesn't|don't|still|can't|cannot|won't|error|fail(ed|s)?)\b/i;
+
+/**
+ * Deterministic stand-in for the chat model: positive replies succeed, anything else fails.
+ * Exercises the LLM classification path without calling a real provider.
+ */
+export function createStubOutcomeProvider(): LLMProvider {
+  return createFakeProvider({
+    respond: ({ messages }) => {
+      const system = messages.find((m) => m.role === 'system')?.content || '';
+      const reply = messages.find((m) => m.role === 'user')?.content || '';
+      const stepId = system.match(/Current step ID: (\S+)/)?.[1] || '';
+      const outcome = POSITIVE_REPLY.test(reply) && !NEGATIVE_REPLY.test(reply) ? 'success' : 'failure';
+
+      return { content: null, toolCalls: [{ name: OUTCOME_TOOL.name, arguments: { stepId, outcome } }] };
+    },
+  });
+}
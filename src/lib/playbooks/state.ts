@@ -0,0 +1,115 @@
+/**
+ * Playbook State Persistence
+ * Stores each case's playbook execution state on the case document,
+ * records step outcomes on the timeline and resolves built-in variables
+ * (Admin SDK, server only)
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { resolveBuiltInVariables } from './variables';
+import type { PlaybookExecutionResult, PlaybookExecutionState, PlaybookProgress } from './types';
+
+const OUTCOME_LABELS: Record<PlaybookExecutionResult['outcome'], string> = {
+  success: 'success',
+  failure: 'failure',
+  skipped: 'skipped',
+  timeout: 'timed out',
+  awaiting_confirmation: 'awaiting customer confirmation',
+};
+
+function caseRef(tenantId: string, caseId: string) {
+  return adminDb().collection('tenants').doc(tenantId).collection('cases').doc(caseId);
+}
+
+function toDate(value: unknown): Date {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  return new Date(value as string);
+}
+
+/**
+ * Restore a case's playbook state, or undefined if no playbook has started
+ */
+export async function loadPlaybookState(
+  tenantId: string,
+  caseId: string
+): Promise<PlaybookExecutionState | undefined> {
+  const doc = await caseRef(tenantId, caseId).get();
+  const state = doc.data()?.playbookState;
+  if (!state) return undefined;
+
+  const stepIssuedAt: Record<string, Date> = {};
+  for (const [stepId, issuedAt] of Object.entries(state.stepIssuedAt || {})) {
+    stepIssuedAt[stepId] = toDate(issuedAt);
+  }
+
+  return {
+    ...state,
+    startedAt: toDate(state.startedAt),
+    lastUpdatedAt: toDate(state.lastUpdatedAt),
+    stepIssuedAt,
+  } as PlaybookExecutionState;
+}
+
+/**
+ * Built-in playbook variables for a case, from the case and tenant documents
+ */
+export async function loadPlaybookVariables(tenantId: string, caseId: string): Promise<Record<string, string>> {
+  const [caseDoc, tenantDoc] = await Promise.all([
+    caseRef(tenantId, caseId).get(),
+    adminDb().collection('tenants').doc(tenantId).get(),
+  ]);
+  const caseData = caseDoc.data() || {};
+  const tenant = tenantDoc.data() || {};
+
+  return resolveBuiltInVariables({
+    case: {
+      id: caseId,
+      ticketNumber: caseData.ticketNumber,
+      product: caseData.product,
+      category: caseData.category,
+      severity: caseData.severity,
+      language: caseData.language,
+      source: caseData.source,
+      customerName: caseData.customerContact?.name,
+    },
+    tenant: { name: tenant.name, settings: tenant.settings },
+  });
+}
+
+/**
+ * Save the state from an L1 turn and log the executed step, if any
+ */
+export async function recordPlaybookProgress(
+  tenantId: string,
+  caseId: string,
+  progress: PlaybookProgress | undefined
+): Promise<void> {
+  if (!progress?.state) return;
+  const { state, result, notes } = progress;
+
+  const ref = caseRef(tenantId, caseId);
+  await ref.update({ playbookState: state, updatedAt: new Date() });
+
+  if (!result) return;
+
+  await ref.collection('timeline').add({
+    type: 'step_attempted',
+    level: 'L1',
+    content: `${result.stepTitle}: ${OUTCOME_LABELS[result.outcome]} — ${result.message}`,
+    metadata: {
+      playbookId: state.playbookId,
+      stepId: result.stepId,
+      outcome: result.outcome,
+      attempt: state.stepAttempts[result.stepId] || 0,
+      shouldEscalate: result.shouldEscalate,
+      ...(result.nextStepId && { nextStepId: result.nextStepId }),
+      ...(result.escalationReason && { escalationReason: result.escalationReason }),
+      ...(result.captured && { captured: { [result.captured.variable]: result.captured.value } }),
+      ...(notes && { notes }),
+    },
+    createdBy: 'ai',
+    createdAt: new Date(),
+  });
+}
@@ -0,0 +1,148 @@
+/**
+ * Playbook Store
+ * Tenant playbooks in Firestore, saved with validation and version history
+ * (the loader picks up changes through its snapshot listener)
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import { FieldValue, Timestamp, type DocumentData } from 'firebase-admin/firestore';
+import { getAllPlaybooks, validatePlaybook, bumpPlaybookVersion } from './engine';
+import { ensurePlaybooksLoaded } from './loader';
+import type { Playbook, PlaybookRecord, PlaybookValidationResult } from './types';
+
+export type SavePlaybookResult =
+  | { ok: true; record: PlaybookRecord }
+  | { ok: false; status: 400 | 409; error: string; validation?: PlaybookValidationResult };
+
+function playbooksCollection(tenantId: string) {
+  return adminDb().collection('tenants').doc(tenantId).collection('playbooks');
+}
+
+async function getBuiltInPlaybooks(): Promise<Map<string, Playbook>> {
+  await ensurePlaybooksLoaded();
+  return new Map(getAllPlaybooks().map((p) => [p.metadata.id, p]));
+}
+
+function toRecord(data: DocumentData, builtIns: Map<string, Playbook>): PlaybookRecord {
+  const { updatedAt, updatedBy, ...playbook } = data;
+  return {
+    playbook: playbook as Playbook,
+    source: 'tenant',
+    overridesBuiltIn: builtIns.has(playbook.metadata?.id),
+    updatedAt: updatedAt instanceof Timestamp ? updatedAt.toDate() : null,
+    updatedBy: updatedBy || null,
+  };
+}
+
+function builtInRecord(playbook: Playbook): PlaybookRecord {
+  return { playbook, source: 'builtin', overridesBuiltIn: false, updatedAt: null, updatedBy: null };
+}
+
+/**
+ * All playbooks available to a tenant: its own, plus built-ins it hasn't replaced
+ */
+export async function listPlaybooks(tenantId: string): Promise<PlaybookRecord[]> {
+  const builtIns = await getBuiltInPlaybooks();
+  const snapshot = await playbooksCollection(tenantId).get();
+
+  const records = snapshot.docs.map((doc) => toRecord(doc.data(), builtIns));
+  const tenantIds = new Set(records.map((r) => r.playbook.metadata.id));
+  builtIns.forEach((playbook, id) => {
+    if (!tenantIds.has(id)) records.push(builtInRecord(playbook));
+  });
+
+  return records.sort((a, b) => a.playbook.metadata.name.localeCompare(b.playbook.metadata.name));
+}
+
+/**
+ * Get one playbook as the tenant sees it
+ */
+export async function getPlaybookRecord(tenantId: string, playbookId: string): Promise<PlaybookRecord | null> {
+  const builtIns = await getBuiltInPlaybooks();
+  const doc = await playbooksCollection(tenantId).doc(playbookId).get();
+  if (doc.exists) return toRecord(doc.data()!, builtIns);
+
+  const builtIn = builtIns.get(playbookId);
+  return builtIn ? builtInRecord(builtIn) : null;
+}
+
+/**
+ * Save a tenant playbook as the next version. `baseVersion` is the version the
+ * editor started from; a different current version means someone else saved first.
+ */
+export async function savePlaybook(
+  tenantId: string,
+  playbook: Playbook,
+  options: { baseVersion?: string; savedBy: string }
+): Promise<SavePlaybookResult> {
+  const validation = validatePlaybook(playbook);
+  if (!validation.valid) {
+    return { ok: false, status: 400, error: 'Playbook has validation errors', validation };
+  }
+
+  const builtIns = await getBuiltInPlaybooks();
+  const db = adminDb();
+  const ref = playbooksCollection(tenantId).doc(playbook.metadata.id);
+
+  return db.runTransaction(async (tx): Promise<SavePlaybookResult> => {
+    const existing = await tx.get(ref);
+    const currentVersion = existing.exists
+      ? (existing.data()!.metadata?.version as string | undefined)
+      : builtIns.get(playbook.metadata.id)?.metadata.version;
+
+    if (currentVersion !== options.baseVersion) {
+      return {
+        ok: false,
+        status: 409,
+        error: !options.baseVersion
+          ? `A playbook with ID ${playbook.metadata.id} already exists`
+          : currentVersion
+            ? `Playbook was changed to version ${currentVersion} since you opened it`
+            : 'Playbook no longer exists',
+      };
+    }
+
+    const now = new Date();
+    const saved: Playbook = {
+      ...playbook,
+      metadata: {
+        ...playbook.metadata,
+        version: currentVersion ? bumpPlaybookVersion(currentVersion) : '1.0.0',
+        createdAt: playbook.metadata.createdAt || now.toISOString(),
+        updatedAt: now.toISOString(),
+      },
+    };
+
+    tx.set(ref, { ...saved, updatedAt: FieldValue.serverTimestamp(), updatedBy: options.savedBy });
+    // Every saved version is kept for history and rollback
+    tx.set(ref.collection('versions').doc(saved.metadata.version), {
+      ...saved,
+      savedAt: FieldValue.serverTimestamp(),
+      savedBy: options.savedBy,
+    });
+
+    return {
+      ok: true,
+      record: {
+        playbook: saved,
+        source: 'tenant',
+        overridesBuiltIn: builtIns.has(saved.metadata.id),
+        updatedAt: now,
+        updatedBy: options.savedBy,
+      },
+    };
+  });
+}
+
+/**
+ * Delete a tenant playbook (a built-in with the same ID becomes active again).
+ * Version history is kept.
+ */
+export async function deletePlaybook(tenantId: string, playbookId: string): Promise<boolean> {
+  const ref = playbooksCollection(tenantId).doc(playbookId);
+  const doc = await ref.get();
+  if (!doc.exists) return false;
+
+  await ref.delete();
+  return true;
+}
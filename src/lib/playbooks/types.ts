@@ -15,14 +15,54 @@ export interface PlaybookStep {
   requiresConfirmation?: boolean;
   maxAttempts?: number;
   timeout?: number; // seconds
+  // Store the customer's answer to this step in a state variable
+  capture?: {
+    variable: string;
+    description?: string;
+    options?: string[]; // Allowed answers; anything else isn't stored
+  };
+  // Checked in order before nextOnSuccess/nextOnFailure; the first match wins
+  branches?: PlaybookBranch[];
+  // Text for other languages, keyed by locale (see localization.ts)
+  translations?: Record<string, PlaybookStepText>;
+}
+
+export type PlaybookStepText = Partial<Pick<PlaybookStep, 'title' | 'instruction' | 'expectedOutcome' | 'failureHint'>>;
+
+export interface PlaybookBranch {
+  when: string; // Condition expression, may use vars.<name>
+  next: string;
+  on?: 'success' | 'failure'; // Defaults to success
 }
 
+export type PlaybookSeverity = 'low' | 'medium' | 'high' | 'critical';
+
 export interface PlaybookTrigger {
   keywords?: string[];
   categories?: string[];
   products?: string[];
-  severity?: ('low' | 'medium' | 'high' | 'critical')[];
-  condition?: string; // JS expression for complex conditions
+  severity?: PlaybookSeverity[];
+  condition?: string; // Condition expression over case fields (see conditions.ts)
+}
+
+// Case fields available to trigger matching and conditions
+export interface PlaybookMatchContext {
+  product?: string;
+  category?: string;
+  severity?: PlaybookSeverity;
+  language?: string;
+  source?: string;
+  failedAttempts?: number;
+  // Playbook state variables, read as vars.<name> in step branches
+  variables?: Record<string, string>;
+}
+
+export interface PlaybookMatch {
+  playbook: Playbook;
+  // Number of triggers that fired
+  score: number;
+  // e.g. 'keyword:password', 'category:account', 'severity:high', 'condition'
+  matchedTriggers: string[];
 }
 
 export interface PlaybookMetadata {
@@ -32,7 +72,8 @@ export interface PlaybookMetadata {
   version: string;
   product: string;
   category: string;
-  language: string;
+  language: string; // Default language of the step text
+  locales?: string[]; // Other languages the steps are translated into
   author?: string;
   createdAt?: string;
   updatedAt?: string;
@@ -55,6 +96,8 @@ export interface Playbook {
 
 export interface PlaybookExecutionState {
   playbookId: string;
+  // Version the run started on, for per-version analytics
+  playbookVersion?: string;
   currentStepId: string;
   stepAttempts: Record<string, number>;
   completedSteps: string[];
@@ -62,18 +105,25 @@ export interface PlaybookExecutionState {
   startedAt: Date;
   lastUpdatedAt: Date;
   variables: Record<string, string>;
-  outcome?: 'resolved' | 'escalated' | 'in_progress';
+  // failed: a step ran out of attempts with nowhere to go and no escalation
+  outcome?: 'resolved' | 'escalated' | 'failed' | 'in_progress';
+  // When each step was last given to the customer, for step timeouts
+  stepIssuedAt?: Record<string, Date>;
+  // Step reported successful but still waiting for the customer to confirm it
+  awaitingConfirmation?: string;
 }
 
 export interface PlaybookExecutionResult {
   success: boolean;
   stepId: string;
   stepTitle: string;
-  outcome: 'success' | 'failure' | 'skipped' | 'timeout';
+  outcome: 'success' | 'failure' | 'skipped' | 'timeout' | 'awaiting_confirmation';
   message: string;
   nextStepId?: string;
   shouldEscalate: boolean;
   escalationReason?: string;
+  // Variable captured from the customer's answer this turn
+  captured?: { variable: string; value: string };
 }
 
 export interface PlaybookValidationError {
@@ -87,3 +137,22 @@ export interface PlaybookValidationResult {
   errors: PlaybookValidationError[];
   warnings: PlaybookValidationError[];
 }
+
+export interface PlaybookProgress {
+  // State after this turn, or undefined when no playbook is active
+  state?: PlaybookExecutionState;
+  // Outcome of the step executed this turn, if any
+  result?: PlaybookExecutionResult;
+  notes?: string;
+}
+
+export type PlaybookSource = 'builtin' | 'tenant';
+
+export interface PlaybookRecord {
+  playbook: Playbook;
+  source: PlaybookSource;
+  // Tenant playbook replacing a built-in one with the same ID
+  overridesBuiltIn: boolean;
+  updatedAt: Date | null;
+  updatedBy: string | null;
+}
@@ -0,0 +1,113 @@
+/**
+ * Playbook Variables
+ * Values for {{variable}} placeholders in step instructions. Three sources,
+ * later ones winning:
+ *   1. Playbook.variables - defaults declared by the playbook author
+ *   2. Built-in variables - filled from the case and tenant each turn
+ *   3. Captured variables - a step's `capture` stores the customer's answer
+ *
+ * Captured and built-in values can also steer step branches through
+ * `vars.<name>` in branch conditions (see conditions.ts).
+ */
+
+import type { Case, TenantSettings } from '@/types';
+import type { Playbook, PlaybookStep } from './types';
+
+/**
+ * Built-in variables and where each comes from
+ */
+export const BUILT_IN_VARIABLES = {
+  customerName: 'Customer name from the case contact ("there" when unknown)',
+  product: 'Case product',
+  category: 'Case category',
+  severity: 'Case severity',
+  language: 'Case language code',
+  source: 'Channel the case came from (phone, sms, web, api, ...)',
+  caseId: 'Case ID',
+  ticketNumber: 'Ticket number shown to the customer',
+  companyName: 'Tenant name',
+  supportEmail: "Tenant support email (falls back to the escalation email)",
+  supportPhone: "Tenant's support phone number",
+} as const;
+
+export type BuiltInVariable = keyof typeof BUILT_IN_VARIABLES;
+
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface VariableSources {
+  case?: Partial<Pick<Case, 'id' | 'ticketNumber' | 'product' | 'category' | 'severity' | 'language' | 'source'>> & {
+    customerName?: string;
+  };
+  tenant?: {
+    name?: string;
+    settings?: Partial<TenantSettings>;
+  };
+}
+
+/**
+ * Built-in variable values for a case; unknown values are left out so their
+ * placeholders stay visible instead of turning into blanks
+ */
+export function resolveBuiltInVariables(sources: VariableSources): Record<string, string> {
+  const c = sources.case || {};
+  const settings = sources.tenant?.settings || {};
+
+  const values: Record<BuiltInVariable, string | undefined> = {
+    customerName: c.customerName || 'there',
+    product: c.product,
+    category: c.category,
+    severity: c.severity,
+    language: c.language,
+    source: c.source,
+    caseId: c.id,
+    ticketNumber: c.ticketNumber,
+    companyName: sources.tenant?.name,
+    supportEmail: settings.supportEmail || settings.escalationEmail,
+    supportPhone: settings.supportPhone || settings.twilioPhoneNumber,
+  };
+
+  const resolved: Record<string, string> = {};
+  for (const [name, value] of Object.entries(values)) {
+    if (value) resolved[name] = value;
+  }
+  return resolved;
+}
+
+/**
+ * Variables a playbook's own steps capture from customer answers
+ */
+export function getCapturedVariableNames(playbook: Playbook): string[] {
+  return (playbook.steps || []).flatMap((step) => (step.capture?.variable ? [step.capture.variable] : []));
+}
+
+/**
+ * Every variable name a playbook can rely on: built-ins, declared defaults and captures
+ */
+export function getKnownVariableNames(playbook: Playbook): Set<string> {
+  return new Set([
+    ...Object.keys(BUILT_IN_VARIABLES),
+    ...Object.keys(playbook.variables || {}),
+    ...getCapturedVariableNames(playbook),
+  ]);
+}
+
+/**
+ * {{placeholders}} used in a piece of text
+ */
+export function findPlaceholders(text: string): string[] {
+  return Array.from(text.matchAll(/\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g), (m) => m[1]);
+}
+
+/**
+ * Normalize a captured answer: trimmed, and mapped onto one of the step's
+ * options (case-insensitively) when it declares them. Undefined when the
+ * answer doesn't fit.
+ */
+export function normalizeCapturedValue(step: PlaybookStep, value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const trimmed = value.trim().substring(0, 200);
+
+  const options = step.capture?.options;
+  if (!options?.length) return trimmed;
+  return options.find((option) => option.toLowerCase() === trimmed.toLowerCase());
+}
@@ -0,0 +1,72 @@
+/**
+ * Original Text Encryption
+ * AES-256-GCM for the unredacted copy of customer text (server only).
+ * Set REDACTION_ENCRYPTION_KEY to 32 bytes, base64 or hex encoded; without it
+ * only the redacted copy is kept.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+
+export interface EncryptedText {
+  version: 1;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function loadKey(): Buffer | null {
+  const raw = process.env.REDACTION_ENCRYPTION_KEY?.trim();
+  if (!raw) return null;
+
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    console.error('REDACTION_ENCRYPTION_KEY must be 32 bytes; originals are not being stored');
+    return null;
+  }
+  return key;
+}
+
+export function isOriginalEncryptionEnabled(): boolean {
+  return loadKey() !== null;
+}
+
+/**
+ * Encrypt text, or null when no key is configured
+ */
+export function encryptText(text: string): EncryptedText | null {
+  const key = loadKey();
+  if (!key) return null;
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+
+  return {
+    version: 1,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt text from encryptText; null when there's no key or the key doesn't match
+ */
+export function decryptText(encrypted: EncryptedText): string | null {
+  const key = loadKey();
+  if (!key) return null;
+
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(encrypted.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch (error) {
+    console.error('Failed to decrypt original text:', error);
+    return null;
+  }
+}
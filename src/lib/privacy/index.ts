@@ -0,0 +1,18 @@
+export {
+  SECRET_PATTERNS,
+  PII_PATTERNS,
+  INGESTION_PATTERNS,
+  redactText,
+  countRedactions,
+} from './redaction';
+export { isOriginalEncryptionEnabled, encryptText, decryptText } from './encryption';
+export {
+  redactIncoming,
+  redactionMetadata,
+  saveRedactedOriginal,
+  getRedactedOriginal,
+} from './ingest';
+
+export type { RedactionPattern, RedactionResult } from './redaction';
+export type { EncryptedText } from './encryption';
+export type { IngestedText, RedactedOriginal, GetRedactedOriginalResult } from './ingest';
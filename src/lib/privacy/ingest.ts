@@ -0,0 +1,117 @@
+/**
+ * Ingestion Redaction
+ * Customer text from every channel passes through here before it's written to
+ * the timeline or sent to a model. The redacted copy is what gets stored; the
+ * original is kept encrypted, when a key is configured, in
+ * cases/{caseId}/originals/{eventId} (Admin SDK, server only).
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import { redactText, countRedactions, INGESTION_PATTERNS, type RedactionPattern } from './redaction';
+import { encryptText, decryptText, type EncryptedText } from './encryption';
+
+export interface IngestedText {
+  // Redacted copy - safe to store and to send to the LLM
+  text: string;
+  counts: Record<string, number>;
+  redactionCount: number;
+  // Only when something was redacted and encryption is configured
+  original: EncryptedText | null;
+}
+
+export interface RedactedOriginal {
+  eventId: string;
+  // Where the redacted copy lives on the event, e.g. 'content' or 'metadata.userInput'
+  field: string;
+  text: string;
+}
+
+/**
+ * Redact customer text as it arrives, with the tenant's custom redactions
+ * (see getTenantRedactions) on top of the built-in patterns
+ */
+export function redactIncoming(text: string, extraPatterns: RedactionPattern[] = []): IngestedText {
+  const result = redactText(text, [...INGESTION_PATTERNS, ...extraPatterns]);
+  return {
+    text: result.text,
+    counts: countRedactions(result.redactions),
+    redactionCount: result.redactions.length,
+    original: result.hasSecrets ? encryptText(text) : null,
+  };
+}
+
+/**
+ * Metadata to record on the timeline event holding the redacted text; empty
+ * when nothing was redacted (Firestore rejects undefined fields)
+ */
+export function redactionMetadata(ingested: IngestedText): Record<string, unknown> {
+  if (ingested.redactionCount === 0) return {};
+  return {
+    redactions: ingested.counts,
+    redactionCount: ingested.redactionCount,
+    hasOriginal: ingested.original !== null,
+  };
+}
+
+function originalsCollection(tenantId: string, caseId: string) {
+  return adminDb()
+    .collection('tenants')
+    .doc(tenantId)
+    .collection('cases')
+    .doc(caseId)
+    .collection('originals');
+}
+
+/**
+ * Keep the encrypted original for a timeline event. Failures are logged, not
+ * thrown: the redacted copy is already stored and the customer still gets a reply.
+ */
+export async function saveRedactedOriginal(
+  tenantId: string,
+  caseId: string,
+  eventId: string,
+  ingested: IngestedText,
+  field = 'content'
+): Promise<void> {
+  if (!ingested.original) return;
+
+  try {
+    await originalsCollection(tenantId, caseId).doc(eventId).set({
+      field,
+      encrypted: ingested.original,
+      createdAt: new Date(),
+    });
+  } catch (error) {
+    console.error('Failed to store redacted original:', error);
+  }
+}
+
+export type GetRedactedOriginalResult =
+  | { ok: true; original: RedactedOriginal }
+  | { ok: false; status: 404 | 503; error: string };
+
+/**
+ * Decrypt the original text of a timeline event and record who read it
+ */
+export async function getRedactedOriginal(
+  tenantId: string,
+  caseId: string,
+  eventId: string,
+  readBy: string
+): Promise<GetRedactedOriginalResult> {
+  const ref = originalsCollection(tenantId, caseId).doc(eventId);
+  const doc = await ref.get();
+  if (!doc.exists) {
+    return { ok: false, status: 404, error: 'No original stored for this event' };
+  }
+
+  const data = doc.data()!;
+  const text = decryptText(data.encrypted as EncryptedText);
+  if (text === null) {
+    return { ok: false, status: 503, error: 'Original cannot be decrypted with the configured key' };
+  }
+
+  await ref.update({ lastReadBy: readBy, lastReadAt: new Date() });
+
+  return { ok: true, original: { eventId, field: data.field, text } };
+}
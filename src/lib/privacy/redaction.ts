@@ -0,0 +1,105 @@
+/**
+ * Redaction
+ * The one set of secret and PII patterns used wherever customer text is
+ * stored or sent to a model (pure, safe to import from client components)
+ */
+
+export interface RedactionPattern {
+  pattern: RegExp;
+  name: string;
+}
+
+// Credentials and payment data - redacted everywhere, including AI output
+export const SECRET_PATTERNS: RedactionPattern[] = [
+  // API Keys & Tokens
+  { pattern: /(?:api[_-]?key|apikey)[=:\s]+['"]?([a-zA-Z0-9_\-]{20,})['"]?/gi, name: 'API Key' },
+  { pattern: /(?:bearer|token)[:\s]+['"]?([a-zA-Z0-9_\-\.]{20,})['"]?/gi, name: 'Bearer Token' },
+  { pattern: /sk-[a-zA-Z0-9]{32,}/gi, name: 'OpenAI API Key' },
+  { pattern: /ghp_[a-zA-Z0-9]{36}/gi, name: 'GitHub Token' },
+  { pattern: /gho_[a-zA-Z0-9]{36}/gi, name: 'GitHub OAuth Token' },
+  { pattern: /xox[baprs]-[a-zA-Z0-9\-]+/gi, name: 'Slack Token' },
+
+  // AWS
+  { pattern: /AKIA[A-Z0-9]{16}/gi, name: 'AWS Access Key' },
+  { pattern: /(?:aws[_-]?secret|secret[_-]?key)[=:\s]+['"]?([a-zA-Z0-9\/+=]{40})['"]?/gi, name: 'AWS Secret' },
+
+  // Passwords
+  { pattern: /(?:password|passwd|pwd)[=:\s]+['"]?([^\s'"]{8,})['"]?/gi, name: 'Password' },
+  { pattern: /(?:secret|credential)[=:\s]+['"]?([^\s'"]{8,})['"]?/gi, name: 'Secret' },
+
+  // Credit Cards (also written in groups of four)
+  { pattern: /\b(?:4[0-9]{12}(?:[0-9]{3})?|5[1-5][0-9]{14}|3[47][0-9]{13}|6(?:011|5[0-9]{2})[0-9]{12})\b/g, name: 'Credit Card' },
+  { pattern: /\b\d{4}[\s-]\d{4}[\s-]\d{4}[\s-]\d{4}\b/g, name: 'Credit Card' },
+
+  // SSN
+  { pattern: /\b\d{3}-\d{2}-\d{4}\b/g, name: 'SSN' },
+
+  // Private Keys
+  { pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/gi, name: 'Private Key' },
+
+  // Connection Strings
+  { pattern: /(?:mongodb|mysql|postgresql|redis|amqp):\/\/[^\s]+/gi, name: 'Connection String' },
+
+  // Email with password pattern
+  { pattern: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}:[^\s]+/gi, name: 'Email:Password' },
+];
+
+// Contact details customers send about themselves - redacted from incoming text
+// but not from AI replies, which legitimately quote support addresses
+export const PII_PATTERNS: RedactionPattern[] = [
+  { pattern: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, name: 'Email' },
+  // International numbers with a leading +, or North American 3-3-4
+  { pattern: /\+\d{1,3}(?:[\s.-]?\(?\d{1,4}\)?){3,5}\b/g, name: 'Phone' },
+  { pattern: /(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g, name: 'Phone' },
+];
+
+export const INGESTION_PATTERNS: RedactionPattern[] = [...SECRET_PATTERNS, ...PII_PATTERNS];
+
+export interface RedactionResult {
+  text: string;
+  redactions: Array<{
+    type: string;
+    original: string;
+    position: number;
+  }>;
+  hasSecrets: boolean;
+}
+
+/**
+ * Replace each match with `[REDACTED <type>]`. Patterns run in order on the
+ * text redacted so far, so a broad pattern never re-matches a narrower one.
+ */
+export function redactText(text: string, patterns: RedactionPattern[] = INGESTION_PATTERNS): RedactionResult {
+  let result = text;
+  const redactions: RedactionResult['redactions'] = [];
+
+  for (const { pattern, name } of patterns) {
+    result = result.replace(pattern, (match: string, ...args: unknown[]) => {
+      // The offset follows the capture groups
+      const position = args.find((arg): arg is number => typeof arg === 'number') ?? 0;
+      redactions.push({
+        type: name,
+        original: match.substring(0, 4) + '...',
+        position,
+      });
+      return `[REDACTED ${name}]`;
+    });
+  }
+
+  return {
+    text: result,
+    redactions,
+    hasSecrets: redactions.length > 0,
+  };
+}
+
+/**
+ * Redactions per type, e.g. `{ Email: 2, 'Credit Card': 1 }`
+ */
+export function countRedactions(redactions: RedactionResult['redactions']): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const { type } of redactions) {
+    counts[type] = (counts[type] || 0) + 1;
+  }
+  return counts;
+}
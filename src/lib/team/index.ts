@@ -0,0 +1,19 @@
+export {
+  getMember,
+  listMembers,
+  addMember,
+  updateMemberRole,
+  removeMember,
+  countOwners,
+} from './members';
+
+export {
+  createInvitation,
+  listInvitations,
+  getInvitationByToken,
+  revokeInvitation,
+  acceptInvitation,
+} from './invitations';
+
+export type { TenantMember } from './members';
+export type { Invitation, InvitationStatus, AcceptInvitationResult } from './invitations';
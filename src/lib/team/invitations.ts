@@ -0,0 +1,197 @@
+import { createHash, randomBytes } from 'crypto';
+import { adminDb } from '@/lib/firebase/admin';
+import { FieldValue, Timestamp, type DocumentData } from 'firebase-admin/firestore';
+import { addMember, getActiveTenantId, type TenantMember } from './members';
+import type { UserRole } from '@/types';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+export interface Invitation {
+  id: string;
+  tenantId: string;
+  email: string;
+  role: UserRole;
+  invitedBy: string;
+  invitedByName: string;
+  status: InvitationStatus;
+  createdAt: Date;
+  expiresAt: Date;
+  acceptedBy?: string;
+}
+
+export type AcceptInvitationResult =
+  | { ok: true; member: TenantMember }
+  | { ok: false; status: 403 | 404 | 409 | 410; error: string };
+
+// Invitations are stored by token hash only, like API keys; the token travels in the accept link
+const COLLECTION = 'invitations';
+const INVITATION_TTL_DAYS = 7;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toInvitation(id: string, data: DocumentData): Invitation {
+  return {
+    id,
+    tenantId: data.tenantId,
+    email: data.email,
+    role: data.role,
+    invitedBy: data.invitedBy,
+    invitedByName: data.invitedByName,
+    status: data.status,
+    createdAt: (data.createdAt as Timestamp)?.toDate() || new Date(),
+    expiresAt: (data.expiresAt as Timestamp)?.toDate() || new Date(),
+    acceptedBy: data.acceptedBy,
+  };
+}
+
+/**
+ * Create an invitation. Returns the plaintext token once.
+ */
+export async function createInvitation(
+  tenantId: string,
+  data: { email: string; role: UserRole; invitedBy: string; invitedByName: string }
+): Promise<{ token: string; invitation: Invitation }> {
+  const db = adminDb();
+  const token = randomBytes(24).toString('base64url');
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  const invitation: Omit<Invitation, 'id'> = {
+    tenantId,
+    email: data.email.trim().toLowerCase(),
+    role: data.role,
+    invitedBy: data.invitedBy,
+    invitedByName: data.invitedByName,
+    status: 'pending',
+    createdAt: new Date(),
+    expiresAt,
+  };
+
+  const docRef = db.collection(COLLECTION).doc(hashToken(token));
+  await docRef.set({
+    ...invitation,
+    createdAt: FieldValue.serverTimestamp(),
+    expiresAt: Timestamp.fromDate(expiresAt),
+  });
+
+  return { token, invitation: { id: docRef.id, ...invitation } };
+}
+
+/**
+ * List pending invitations for a tenant
+ */
+export async function listInvitations(tenantId: string): Promise<Invitation[]> {
+  const db = adminDb();
+  const snapshot = await db.collection(COLLECTION)
+    .where('tenantId', '==', tenantId)
+    .where('status', '==', 'pending')
+    .get();
+
+  return snapshot.docs
+    .map((doc) => toInvitation(doc.id, doc.data()))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Look up an invitation by the token from its accept link
+ */
+export async function getInvitationByToken(token: string): Promise<Invitation | null> {
+  const db = adminDb();
+  const doc = await db.collection(COLLECTION).doc(hashToken(token)).get();
+  if (!doc.exists) return null;
+  return toInvitation(doc.id, doc.data()!);
+}
+
+/**
+ * Revoke a pending invitation
+ */
+export async function revokeInvitation(tenantId: string, invitationId: string): Promise<boolean> {
+  const db = adminDb();
+  const docRef = db.collection(COLLECTION).doc(invitationId);
+  const doc = await docRef.get();
+
+  if (!doc.exists || doc.data()?.tenantId !== tenantId || doc.data()?.status !== 'pending') {
+    return false;
+  }
+
+  await docRef.update({
+    status: 'revoked',
+    revokedAt: FieldValue.serverTimestamp(),
+  });
+  return true;
+}
+
+/**
+ * Accept an invitation as the signed-in user. The account email must match the
+ * invite and be verified, so registering the address alone isn't enough.
+ * Members have one tenant at a time, so someone who already belongs to
+ * another tenant is refused rather than silently losing access to it.
+ */
+export async function acceptInvitation(
+  token: string,
+  user: { uid: string; email?: string; emailVerified: boolean; displayName?: string }
+): Promise<AcceptInvitationResult> {
+  const db = adminDb();
+  const docRef = db.collection(COLLECTION).doc(hashToken(token));
+  const activeTenantId = await getActiveTenantId(user.uid);
+
+  // Claim the invitation atomically so a link can only be used once
+  const claimed = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(docRef);
+    if (!doc.exists) {
+      return { ok: false as const, status: 404 as const, error: 'Invitation not found' };
+    }
+
+    const invitation = toInvitation(doc.id, doc.data()!);
+    if (invitation.status !== 'pending') {
+      return { ok: false as const, status: 410 as const, error: `Invitation has been ${invitation.status}` };
+    }
+    if (invitation.expiresAt.getTime() < Date.now()) {
+      return { ok: false as const, status: 410 as const, error: 'Invitation has expired' };
+    }
+    if (invitation.email !== user.email?.toLowerCase()) {
+      return { ok: false as const, status: 403 as const, error: `This invitation was sent to ${invitation.email}` };
+    }
+    if (!user.emailVerified) {
+      return { ok: false as const, status: 403 as const, error: `Verify ${invitation.email} before accepting this invitation` };
+    }
+
+    const memberDoc = await tx.get(
+      db.collection('tenants').doc(invitation.tenantId).collection('members').doc(user.uid)
+    );
+    if (memberDoc.exists) {
+      return { ok: false as const, status: 409 as const, error: 'You are already a member of this team' };
+    }
+    const activeMemberDoc = await tx.get(
+      db.collection('tenants').doc(activeTenantId).collection('members').doc(user.uid)
+    );
+    if (activeMemberDoc.exists) {
+      return {
+        ok: false as const,
+        status: 409 as const,
+        error: 'You already belong to another team; an account can only belong to one team at a time',
+      };
+    }
+
+    tx.update(docRef, {
+      status: 'accepted',
+      acceptedBy: user.uid,
+      acceptedAt: FieldValue.serverTimestamp(),
+    });
+    return { ok: true as const, invitation };
+  });
+
+  if (!claimed.ok) return claimed;
+  const { invitation } = claimed;
+
+  const member = await addMember(invitation.tenantId, {
+    uid: user.uid,
+    email: invitation.email,
+    displayName: user.displayName || invitation.email,
+    role: invitation.role,
+    invitedBy: invitation.invitedBy,
+  });
+
+  return { ok: true, member };
+}
@@ -0,0 +1,141 @@
+import { adminAuth, adminDb } from '@/lib/firebase/admin';
+import { FieldValue, Timestamp, type DocumentData } from 'firebase-admin/firestore';
+import { syncL3Agent } from '@/lib/l3';
+import type { UserRole } from '@/types';
+
+export interface TenantMember {
+  uid: string;
+  tenantId: string;
+  email: string;
+  displayName: string;
+  role: UserRole;
+  invitedBy?: string;
+  joinedAt: Date;
+}
+
+const TENANTS_COLLECTION = 'tenants';
+const MEMBERS_COLLECTION = 'members';
+
+function membersRef(tenantId: string) {
+  return adminDb()
+    .collection(TENANTS_COLLECTION)
+    .doc(tenantId)
+    .collection(MEMBERS_COLLECTION);
+}
+
+function toMember(tenantId: string, uid: string, data: DocumentData): TenantMember {
+  return {
+    uid,
+    tenantId,
+    email: data.email,
+    displayName: data.displayName || data.email,
+    role: data.role,
+    invitedBy: data.invitedBy,
+    joinedAt: (data.joinedAt as Timestamp)?.toDate() || new Date(),
+  };
+}
+
+// Human support members make up the tenant's L3 agent roster
+function syncRoster(member: TenantMember, removed = false): Promise<void> {
+  const onRoster = !removed && member.role === 'human_support';
+  return syncL3Agent(
+    member.tenantId,
+    member.uid,
+    onRoster ? { name: member.displayName, email: member.email } : null
+  );
+}
+
+/**
+ * Get a single member of a tenant
+ */
+export async function getMember(tenantId: string, uid: string): Promise<TenantMember | null> {
+  const doc = await membersRef(tenantId).doc(uid).get();
+  if (!doc.exists) return null;
+  return toMember(tenantId, doc.id, doc.data()!);
+}
+
+/**
+ * The tenant a user's API calls resolve to: their tenant claim, else their own
+ * workspace (see resolveUserPrincipal)
+ */
+export async function getActiveTenantId(uid: string): Promise<string> {
+  const user = await adminAuth().getUser(uid);
+  const claim = user.customClaims?.tenantId;
+  return typeof claim === 'string' ? claim : uid;
+}
+
+/**
+ * List all members of a tenant
+ */
+export async function listMembers(tenantId: string): Promise<TenantMember[]> {
+  const snapshot = await membersRef(tenantId).orderBy('joinedAt', 'asc').get();
+  return snapshot.docs.map((doc) => toMember(tenantId, doc.id, doc.data()));
+}
+
+/**
+ * Add a user to a tenant and point their session at it
+ */
+export async function addMember(
+  tenantId: string,
+  data: Omit<TenantMember, 'tenantId' | 'joinedAt'>
+): Promise<TenantMember> {
+  const member: TenantMember = { ...data, tenantId, joinedAt: new Date() };
+
+  await membersRef(tenantId).doc(data.uid).set({
+    email: data.email,
+    displayName: data.displayName,
+    role: data.role,
+    ...(data.invitedBy && { invitedBy: data.invitedBy }),
+    joinedAt: FieldValue.serverTimestamp(),
+  });
+
+  // API routes resolve the tenant from this claim; the client must refresh its ID token
+  await adminAuth().setCustomUserClaims(data.uid, { tenantId });
+  await syncRoster(member);
+
+  return member;
+}
+
+/**
+ * Change a member's role
+ */
+export async function updateMemberRole(
+  tenantId: string,
+  uid: string,
+  role: UserRole
+): Promise<TenantMember | null> {
+  const member = await getMember(tenantId, uid);
+  if (!member) return null;
+
+  await membersRef(tenantId).doc(uid).update({ role });
+
+  const updated = { ...member, role };
+  await syncRoster(updated);
+  return updated;
+}
+
+/**
+ * Remove a member from a tenant. They fall back to their own workspace.
+ */
+export async function removeMember(tenantId: string, uid: string): Promise<boolean> {
+  const member = await getMember(tenantId, uid);
+  if (!member) return false;
+
+  await membersRef(tenantId).doc(uid).delete();
+
+  const user = await adminAuth().getUser(uid);
+  if (user.customClaims?.tenantId === tenantId) {
+    await adminAuth().setCustomUserClaims(uid, { ...user.customClaims, tenantId: null });
+  }
+
+  await syncRoster(member, true);
+  return true;
+}
+
+/**
+ * Count the owners of a tenant (a tenant must always keep at least one)
+ */
+export async function countOwners(tenantId: string): Promise<number> {
+  const snapshot = await membersRef(tenantId).where('role', '==', 'owner').get();
+  return snapshot.size;
+}
@@ -31,14 +31,15 @@ export function getTwilioPhoneNumber(): string {
 }
 
 /**
- * Validate Twilio webhook signature
+ * Validate Twilio webhook signature.
+ * Uses the platform TWILIO_AUTH_TOKEN unless a tenant's own token is given.
  */
 export function validateTwilioWebhook(
   signature: string,
   url: string,
-  params: Record<string, string>
+  params: Record<string, string>,
+  authToken: string | undefined = process.env.TWILIO_AUTH_TOKEN
 ): boolean {
-  const authToken = process.env.TWILIO_AUTH_TOKEN;
   if (!authToken) {
     console.error('TWILIO_AUTH_TOKEN not set');
     return false;
@@ -0,0 +1,91 @@
+/**
+ * Phone Number Routing
+ * Maps inbound Twilio numbers to tenants, with per-number case defaults
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import { FieldValue } from 'firebase-admin/firestore';
+
+export interface PhoneNumberRoute {
+  phoneNumber: string; // E.164, also the document ID
+  tenantId: string;
+  defaultProduct: string;
+  defaultLanguage: string;
+  defaultCategory?: string;
+  friendlyName?: string;
+}
+
+// Keyed by E.164 number so each webhook resolves its tenant with a single document read
+const COLLECTION = 'phone_numbers';
+
+/**
+ * Normalize a phone number to E.164 (e.g. "+1 (555) 010-0000" -> "+15550100000")
+ */
+export function normalizePhoneNumber(phoneNumber: string): string {
+  const digits = phoneNumber.replace(/[^\d]/g, '');
+  return `+${digits}`;
+}
+
+/**
+ * Resolve the tenant and case defaults for the number a customer called or texted
+ */
+export async function resolvePhoneNumberRoute(to: string | undefined): Promise<PhoneNumberRoute | null> {
+  if (!to) return null;
+
+  const phoneNumber = normalizePhoneNumber(to);
+  const doc = await adminDb().collection(COLLECTION).doc(phoneNumber).get();
+  if (!doc.exists) return null;
+
+  const data = doc.data()!;
+  return {
+    phoneNumber,
+    tenantId: data.tenantId,
+    defaultProduct: data.defaultProduct || 'General',
+    defaultLanguage: data.defaultLanguage || 'en',
+    defaultCategory: data.defaultCategory,
+    friendlyName: data.friendlyName,
+  };
+}
+
+/**
+ * Route a Twilio number to a tenant. Fails if another tenant already owns the number.
+ */
+export async function registerPhoneNumber(route: PhoneNumberRoute): Promise<PhoneNumberRoute> {
+  const db = adminDb();
+  const phoneNumber = normalizePhoneNumber(route.phoneNumber);
+  const numberRef = db.collection(COLLECTION).doc(phoneNumber);
+  const tenantRef = db.collection('tenants').doc(route.tenantId);
+
+  await db.runTransaction(async (tx) => {
+    const existing = await tx.get(numberRef);
+    if (existing.exists && existing.data()?.tenantId !== route.tenantId) {
+      throw new Error(`${phoneNumber} is already routed to another tenant`);
+    }
+
+    tx.set(numberRef, {
+      tenantId: route.tenantId,
+      defaultProduct: route.defaultProduct,
+      defaultLanguage: route.defaultLanguage,
+      ...(route.defaultCategory && { defaultCategory: route.defaultCategory }),
+      ...(route.friendlyName && { friendlyName: route.friendlyName }),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    // Keep the tenant's primary number in settings for display
+    tx.set(tenantRef, { settings: { twilioPhoneNumber: phoneNumber } }, { merge: true });
+  });
+
+  return { ...route, phoneNumber };
+}
+
+/**
+ * Stop routing a number to a tenant
+ */
+export async function unregisterPhoneNumber(tenantId: string, phoneNumber: string): Promise<boolean> {
+  const numberRef = adminDb().collection(COLLECTION).doc(normalizePhoneNumber(phoneNumber));
+  const doc = await numberRef.get();
+  if (!doc.exists || doc.data()?.tenantId !== tenantId) return false;
+
+  await numberRef.delete();
+  return true;
+}
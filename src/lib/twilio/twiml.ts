@@ -229,3 +229,19 @@ export function createErrorResponse(language: string): string {
   
   return response.toString();
 }
+
+/**
+ * Create response for calls to a number that isn't routed to any tenant
+ */
+export function createUnknownNumberResponse(): string {
+  const response = new twiml.VoiceResponse();
+  
+  response.say(
+    { voice: 'Polly.Joanna' as const },
+    "Thank you for calling. This number is not currently set up for support. Please check the number and try again. Goodbye."
+  );
+  
+  response.hangup();
+  
+  return response.toString();
+}
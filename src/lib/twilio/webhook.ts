@@ -0,0 +1,95 @@
+/**
+ * Twilio Webhook Verification
+ * Wraps telephony route handlers so only requests signed by Twilio reach them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase/admin';
+import { validateTwilioWebhook } from './client';
+import { resolvePhoneNumberRoute, type PhoneNumberRoute } from './numbers';
+
+export interface TwilioWebhookContext {
+  // Parsed form body (the request body can only be read once)
+  params: Record<string, string>;
+  // Tenant routing for the `To` number, or null when the number isn't routed
+  route: PhoneNumberRoute | null;
+}
+
+type TwilioWebhookHandler = (
+  request: NextRequest,
+  context: TwilioWebhookContext
+) => Promise<NextResponse>;
+
+// Tenants on their own Twilio (sub)account keep its auth token here; Admin SDK only
+const SECRETS_COLLECTION = 'tenant_secrets';
+
+async function getTenantAuthToken(tenantId: string): Promise<string | undefined> {
+  const doc = await adminDb().collection(SECRETS_COLLECTION).doc(tenantId).get();
+  return doc.data()?.twilioAuthToken || undefined;
+}
+
+/**
+ * Rebuild the public URL Twilio signed. Behind Vercel and other proxies the
+ * request URL is internal, so prefer the forwarded host and protocol.
+ * TWILIO_WEBHOOK_BASE_URL overrides both (e.g. an ngrok tunnel in development).
+ */
+export function getPublicWebhookUrl(request: NextRequest): string {
+  const { pathname, search } = request.nextUrl;
+
+  const baseOverride = process.env.TWILIO_WEBHOOK_BASE_URL;
+  if (baseOverride) {
+    return `${baseOverride.replace(/\/$/, '')}${pathname}${search}`;
+  }
+
+  const forwardedHost = request.headers.get('x-forwarded-host')?.split(',')[0].trim();
+  const forwardedProto = request.headers.get('x-forwarded-proto')?.split(',')[0].trim();
+  const host = forwardedHost || request.headers.get('host') || request.nextUrl.host;
+  const protocol = forwardedProto || request.nextUrl.protocol.replace(':', '');
+
+  return `${protocol}://${host}${pathname}${search}`;
+}
+
+/**
+ * Check a request's X-Twilio-Signature against its public URL and form params.
+ * Uses the platform auth token unless a tenant's own is given.
+ */
+export function verifyTwilioSignature(
+  request: NextRequest,
+  params: Record<string, string>,
+  authToken?: string
+): boolean {
+  const signature = request.headers.get('x-twilio-signature');
+  return !!signature && validateTwilioWebhook(signature, getPublicWebhookUrl(request), params, authToken);
+}
+
+/**
+ * Verify X-Twilio-Signature before running the handler; invalid requests get a 403.
+ * The auth token is the tenant's own when one is configured for the `To` number.
+ */
+export function withTwilioWebhook(handler: TwilioWebhookHandler) {
+  return async (request: NextRequest): Promise<NextResponse> => {
+    const formData = await request.formData();
+    const params: Record<string, string> = {};
+    formData.forEach((value, key) => {
+      if (typeof value === 'string') params[key] = value;
+    });
+
+    const route = await resolvePhoneNumberRoute(params.To);
+
+    // Local development without a tunnel can't receive signed requests
+    const skipValidation =
+      process.env.TWILIO_SKIP_SIGNATURE_VALIDATION === 'true' &&
+      process.env.NODE_ENV !== 'production';
+
+    if (!skipValidation) {
+      const authToken = (route && (await getTenantAuthToken(route.tenantId))) || undefined;
+
+      if (!verifyTwilioSignature(request, params, authToken)) {
+        console.warn('Rejected Twilio webhook with invalid signature:', getPublicWebhookUrl(request));
+        return new NextResponse('Invalid Twilio signature', { status: 403 });
+      }
+    }
+
+    return handler(request, { params, route });
+  };
+}
@@ -118,29 +118,6 @@ export function getLevelColor(level: string): string {
   }
 }
 
-// Privacy utilities
-export function redactSensitiveData(text: string): string {
-  // Redact potential API keys
-  let redacted = text.replace(/([a-zA-Z0-9_-]{20,})/g, (match) => {
-    if (match.length > 30) return '[REDACTED]';
-    return match;
-  });
-  
-  // Redact credit card numbers
-  redacted = redacted.replace(/\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g, '[CARD REDACTED]');
-  
-  // Redact SSN
-  redacted = redacted.replace(/\b\d{3}[\s-]?\d{2}[\s-]?\d{4}\b/g, '[SSN REDACTED]');
-  
-  // Redact email addresses (partial)
-  redacted = redacted.replace(/([a-zA-Z0-9._%+-]+)@([a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g, (_, local, domain) => {
-    const redactedLocal = local.substring(0, 2) + '***';
-    return `${redactedLocal}@${domain}`;
-  });
-  
-  return redacted;
-}
-
 export function isValidEmail(email: string): boolean {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
 }
@@ -1,4 +1,7 @@
 import { Timestamp } from 'firebase/firestore';
+import type { PlaybookExecutionState } from '@/lib/playbooks/types';
+import type { LLMLevel, LLMSettings } from '@/lib/llm/types';
+import type { GuardrailPolicy } from '@/lib/ai/guardrail-policy';
 
 // ============================================
 // Enums
@@ -19,6 +22,9 @@ export type TimelineEventType =
   | 'email_sent'
   | 'ai_response'
   | 'step_attempted'
+  | 'tool_call'
+  | 'guardrail'
+  | 'incident_update'
   | 'escalation'
   | 'visionscreen_started'
   | 'visionscreen_ended'
@@ -26,7 +32,7 @@ export type TimelineEventType =
   | 'note_added'
   | 'resolved';
 
-export type ArtifactType = 'transcript' | 'summary' | 'visionscreen_session' | 'escalation_packet';
+export type ArtifactType = 'transcript' | 'summary' | 'visionscreen_session' | 'escalation_packet' | 'error_analysis';
 export type UsageEventType = 'resolution' | 'l2_minute' | 'sms' | 'voice_minute';
 
 // ============================================
@@ -49,6 +55,10 @@ export interface TenantSettings {
   escalationEmail: string;
   defaultProduct?: string;
   twilioPhoneNumber?: string;
+  supportEmail?: string; // Shown to customers; playbooks fall back to escalationEmail
+  supportPhone?: string;
+  llm?: Partial<Record<LLMLevel, Partial<LLMSettings>>>; // Per-level model overrides (see lib/llm/settings)
+  guardrails?: Partial<GuardrailPolicy>; // Escalation keywords, redactions and blocked actions (see lib/ai/guardrail-policy)
 }
 
 export interface User {
@@ -84,6 +94,8 @@ export interface Case {
   summary?: string;
   problem?: string;
   source?: CaseSource; // Where the case originated from
+  playbookState?: PlaybookExecutionState; // Active L1 playbook, restored each turn
+  incidentId?: string; // Incident the case is waiting on (see linkCaseToIncident)
   createdAt: Timestamp;
   updatedAt: Timestamp;
   resolvedAt?: Timestamp;
@@ -92,6 +104,7 @@ export interface Case {
 export interface TimelineEvent {
   id: string;
   caseId: string;
+  tenantId?: string; // written server-side, for queries across cases
   type: TimelineEventType;
   level: SupportLevel;
   content: string;